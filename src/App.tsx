@@ -4,7 +4,11 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import SessionProvider from "./contexts/SessionProvider";
+import ProtectedRoute from "./components/ProtectedRoute";
+import Login from "./pages/Login";
 import Index from "./pages/Index";
+import { AdminDashboardRoute, AdminStudentsRoute, AdminSelectionRoute, AdminRewardsRoute } from "./pages/admin/AdminRoutes";
 import NotFound from "./pages/NotFound";
 import StudentDashboard from "./components/student/StudentDashboard";
 
@@ -15,13 +19,40 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/student" element={<StudentDashboard />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <SessionProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Login />} />
+            <Route
+              path="/admin"
+              element={
+                <ProtectedRoute role="admin">
+                  <Index />
+                </ProtectedRoute>
+              }
+            >
+              <Route index element={<AdminDashboardRoute />} />
+              <Route path="classes/:classId" element={<AdminDashboardRoute />} />
+              <Route path="classes/:classId/students" element={<AdminStudentsRoute />} />
+              <Route path="classes/:classId/selection" element={<AdminSelectionRoute />} />
+              <Route path="classes/:classId/rewards" element={<AdminRewardsRoute />} />
+              <Route
+                path="classes/:classId/opportunities/:opportunityId/selection"
+                element={<AdminSelectionRoute />}
+              />
+            </Route>
+            <Route
+              path="/student"
+              element={
+                <ProtectedRoute role="student">
+                  <StudentDashboard />
+                </ProtectedRoute>
+              }
+            />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </SessionProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
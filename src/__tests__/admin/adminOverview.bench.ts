@@ -0,0 +1,21 @@
+import { bench, describe, vi } from 'vitest'
+import { fetchClasses, fetchClassDetail } from '@/lib/classService'
+import { supabase } from '@/lib/supabase'
+import { CLASS_COUNT, STUDENTS_PER_CLASS, classRecord } from './overviewFixture'
+
+// Mapping the overview is linear in the roster; a per-student scan shows up here as the
+// time per run growing with the square of the student count. Run with `npm run bench`.
+describe(`Admin overview of ${CLASS_COUNT * STUDENTS_PER_CLASS} students`, () => {
+  const overview = Array.from({ length: CLASS_COUNT }, (_, index) => classRecord(index, false))
+  const detail = classRecord(0, true)
+
+  bench('fetchClasses', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: overview, error: null } as never)
+    await fetchClasses()
+  })
+
+  bench('fetchClassDetail', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: detail, error: null } as never)
+    await fetchClassDetail('class-0')
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest'
+import { fetchClasses, fetchClassDetail } from '@/lib/classService'
+import { supabase } from '@/lib/supabase'
+import { CLASS_COUNT, STUDENTS_PER_CLASS, classRecord } from './overviewFixture'
+
+describe('Admin overview', () => {
+  it('should load thousands of students across every class in one request', async () => {
+    const overview = Array.from({ length: CLASS_COUNT }, (_, index) => classRecord(index, false))
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: overview, error: null } as never)
+
+    const classes = await fetchClasses()
+
+    expect(supabase.rpc).toHaveBeenCalledTimes(1)
+    expect(supabase.rpc).toHaveBeenCalledWith('get_admin_overview')
+    expect(supabase.from).not.toHaveBeenCalled()
+
+    expect(classes).toHaveLength(CLASS_COUNT)
+    expect(classes.reduce((total, c) => total + c.students.length, 0)).toBe(CLASS_COUNT * STUDENTS_PER_CLASS)
+    expect(classes[0].bidders).toHaveLength(STUDENTS_PER_CLASS / 3)
+    expect(classes[0].bidOpportunities[0].bidCount).toBe(STUDENTS_PER_CLASS / 3)
+    expect(classes[0].bidOpportunities[0].bidders).toEqual([])
+    expect(classes[0].bidOpportunities[0].selectedStudents).toEqual([])
+  })
+
+  it('should fill in winners and the waitlist in draw order for one class', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: classRecord(0, true), error: null } as never)
+
+    const detail = await fetchClassDetail('class-0')
+    const opportunity = detail.bidOpportunities[0]
+
+    expect(supabase.rpc).toHaveBeenCalledWith('get_class_detail', { p_class_id: 'class-0' })
+    expect(opportunity.selectedStudents.map(s => s.id)).toEqual(['class-0-student-3', 'class-0-student-0'])
+    expect(opportunity.selectedStudents.every(s => s.isSelected)).toBe(true)
+    expect(opportunity.waitlist.map(s => s.id)).toEqual(['class-0-student-6'])
+    expect(opportunity.bidders.map(b => [b.name, b.bidStatus])).toEqual([
+      ['Student 0', 'selected'],
+      ['Student 3', 'selected']
+    ])
+  })
+
+  it('should report a failed overview', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } } as never)
+
+    await expect(fetchClasses()).rejects.toThrow('Failed to fetch classes: permission denied')
+  })
+})
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest'
+import { adminClassPath, adminSelectionPath, getAdminClassId, getAdminSection } from '@/utils/adminRoutes'
+
+describe('Admin routes', () => {
+  it('should build class and section paths', () => {
+    expect(adminClassPath('class-1')).toBe('/admin/classes/class-1')
+    expect(adminClassPath('class-1', 'students')).toBe('/admin/classes/class-1/students')
+    expect(adminSelectionPath('class-1')).toBe('/admin/classes/class-1/selection')
+    expect(adminSelectionPath('class-1', 'opp-9')).toBe('/admin/classes/class-1/opportunities/opp-9/selection')
+  })
+
+  it('should read the class from any admin URL', () => {
+    expect(getAdminClassId('/admin/classes/class-1')).toBe('class-1')
+    expect(getAdminClassId('/admin/classes/class-1/opportunities/opp-9/selection')).toBe('class-1')
+    expect(getAdminClassId('/admin')).toBeUndefined()
+  })
+
+  it('should read the section from the URL', () => {
+    expect(getAdminSection('/admin/classes/class-1')).toBe('dashboard')
+    expect(getAdminSection('/admin/classes/class-1/students')).toBe('students')
+    expect(getAdminSection('/admin/classes/class-1/rewards')).toBe('rewards')
+    expect(getAdminSection('/admin/classes/class-1/opportunities/opp-9/selection')).toBe('selection')
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { QueryClient } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/queryKeys'
+import {
+  assertOnline,
+  clearOfflineSnapshots,
+  loadOfflineSnapshot,
+  OfflineError,
+  saveOfflineSnapshot
+} from '@/lib/offlineSnapshot'
+import { invalidateClass } from '@/hooks/useClassQueries'
+import { ClassConfig } from '@/types'
+
+const classConfig = {
+  id: 'class-1',
+  className: 'Economics 101',
+  rewardTitle: 'Dinner with Professor',
+  rewardDescription: 'Dinner and discussion',
+  capacity: 7,
+  students: [],
+  bidders: [],
+  selectedStudents: [],
+  bidOpportunities: []
+} as ClassConfig
+
+const now = Date.parse('2025-07-10T09:00:00Z')
+
+describe('Offline snapshot', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should return the last classes saved for the same user', () => {
+    saveOfflineSnapshot('user-1', [classConfig], now)
+
+    expect(loadOfflineSnapshot('user-1')).toEqual({ savedAt: now, classes: [classConfig] })
+    expect(loadOfflineSnapshot('user-2')).toBeNull()
+  })
+
+  it('should ignore a snapshot that cannot be parsed', () => {
+    localStorage.setItem('offlineClasses:user-1', '{not json')
+
+    expect(loadOfflineSnapshot('user-1')).toBeNull()
+  })
+
+  it('should clear every snapshot and the legacy classData copy', () => {
+    saveOfflineSnapshot('user-1', [classConfig], now)
+    saveOfflineSnapshot('user-2', [classConfig], now)
+    localStorage.setItem('classData', JSON.stringify([classConfig]))
+    localStorage.setItem('sessionLastActiveAt', String(now))
+
+    clearOfflineSnapshots()
+
+    expect(loadOfflineSnapshot('user-1')).toBeNull()
+    expect(loadOfflineSnapshot('user-2')).toBeNull()
+    expect(localStorage.getItem('classData')).toBeNull()
+    expect(localStorage.getItem('sessionLastActiveAt')).toBe(String(now))
+  })
+
+  it('should refuse writes while offline', () => {
+    expect(() => assertOnline(false)).toThrow(OfflineError)
+    expect(() => assertOnline(true)).not.toThrow()
+  })
+})
+
+describe('Class cache invalidation', () => {
+  it('should mark the class list and everything under the class stale', async () => {
+    const queryClient = new QueryClient()
+    queryClient.setQueryData(queryKeys.classes, [classConfig])
+    queryClient.setQueryData(queryKeys.tokenLedger('class-1'), [])
+    queryClient.setQueryData(queryKeys.opportunity('class-1', 'opp-1'), {})
+    queryClient.setQueryData(queryKeys.tokenLedger('class-2'), [])
+
+    await invalidateClass(queryClient, 'class-1')
+
+    const isStale = (queryKey: readonly string[]) => queryClient.getQueryState(queryKey)?.isInvalidated
+
+    expect(isStale(queryKeys.classes)).toBe(true)
+    expect(isStale(queryKeys.tokenLedger('class-1'))).toBe(true)
+    expect(isStale(queryKeys.opportunity('class-1', 'opp-1'))).toBe(true)
+    expect(isStale(queryKeys.tokenLedger('class-2'))).toBe(false)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest'
+import { addStudentsToClass, fetchClasses } from '@/lib/classService'
+import { supabase } from '@/lib/supabase'
+
+const classRecord = (id: string, tokens: number) => ({
+  id,
+  name: `Section ${id}`,
+  capacity_default: 7,
+  initial_tokens: 1,
+  refund_losing_bids: false,
+  term_topup: false,
+  max_token_balance: 1,
+  last_topup_at: null,
+  reward_title: 'Dinner with Professor',
+  reward_description: 'Dinner and discussion',
+  instructor_id: 'instructor-1',
+  created_at: '2025-07-01T00:00:00Z',
+  students: [{
+    id: `${id}-enrollment`,
+    person_id: 'person-jane',
+    name: 'Jane Smith',
+    email: 'jane@lse.ac.uk',
+    student_number: 'S1',
+    tokens_remaining: tokens,
+    token_status: tokens > 0 ? 'unused' : 'used'
+  }],
+  opportunities: []
+})
+
+describe('Class enrolments', () => {
+  it('should keep one identity with separate tokens in each class', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: [classRecord('class-1', 0), classRecord('class-2', 1)],
+      error: null
+    } as never)
+
+    const [first, second] = await fetchClasses()
+
+    expect(first.students[0].personId).toBe('person-jane')
+    expect(second.students[0].personId).toBe('person-jane')
+    expect(first.students[0].id).not.toBe(second.students[0].id)
+    expect([first.students[0].tokensRemaining, second.students[0].tokensRemaining]).toEqual([0, 1])
+  })
+
+  it('should enrol students through enroll_students', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: {
+        success: true,
+        students: [{
+          id: 'enrollment-2',
+          class_id: 'class-2',
+          person_id: 'person-jane',
+          name: 'Jane Smith',
+          email: 'jane@lse.ac.uk',
+          student_number: 'S1',
+          tokens_remaining: 1,
+          created_at: '2025-07-11T00:00:00Z'
+        }]
+      },
+      error: null
+    } as never)
+
+    const students = await addStudentsToClass('class-2', [
+      { name: 'Jane Smith', email: 'jane@lse.ac.uk', studentNumber: 'S1' },
+      { name: 'Sam Lee', email: 'sam@lse.ac.uk' }
+    ])
+
+    expect(supabase.rpc).toHaveBeenCalledWith('enroll_students', {
+      p_class_id: 'class-2',
+      p_students: [
+        { name: 'Jane Smith', email: 'jane@lse.ac.uk', student_number: 'S1' },
+        { name: 'Sam Lee', email: 'sam@lse.ac.uk', student_number: null }
+      ]
+    })
+    expect(supabase.from).not.toHaveBeenCalled()
+    expect(students).toEqual([{
+      id: 'enrollment-2',
+      personId: 'person-jane',
+      name: 'Jane Smith',
+      email: 'jane@lse.ac.uk',
+      studentNumber: 'S1',
+      hasUsedToken: false,
+      tokensRemaining: 1,
+      hasBid: false
+    }])
+  })
+
+  it('should report a refused enrolment', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { success: false, error_message: 'You do not manage this class' },
+      error: null
+    } as never)
+
+    await expect(addStudentsToClass('class-9', [{ name: 'Jane Smith', email: 'jane@lse.ac.uk' }]))
+      .rejects.toThrow('You do not manage this class')
+  })
+})
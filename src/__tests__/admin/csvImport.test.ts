@@ -0,0 +1,233 @@
+import { describe, it, expect, vi } from 'vitest'
+import { CSVParseError, CSVParser, parseCSV, parseCSVFile } from '@/lib/csvParser'
+import {
+  diffRoster,
+  guessColumnMapping,
+  mapCSVRecords,
+  previewStudentImport,
+  syncRoster
+} from '@/lib/csvUploadService'
+import { supabase } from '@/lib/supabase'
+
+describe('CSV parser', () => {
+  it('should keep commas, quotes and line breaks inside quoted fields', () => {
+    const csv = 'Name,Email,Notes\n"Smith, Jane",jane@lse.ac.uk,"Said ""hi""\nthen left"\n'
+
+    expect(parseCSV(csv)).toEqual([
+      ['Name', 'Email', 'Notes'],
+      ['Smith, Jane', 'jane@lse.ac.uk', 'Said "hi"\nthen left']
+    ])
+  })
+
+  it('should read CRLF files with a byte order mark', () => {
+    const csv = '﻿Name,Email\r\nJane,jane@lse.ac.uk\r\n\r\nJohn,john@lse.ac.uk'
+
+    expect(parseCSV(csv)).toEqual([
+      ['Name', 'Email'],
+      ['Jane', 'jane@lse.ac.uk'],
+      ['John', 'john@lse.ac.uk']
+    ])
+  })
+
+  it('should give the same records whichever way the input is chunked', () => {
+    const csv = '﻿Name,Email\r\n"Smith, ""JJ"" Jane",jane@lse.ac.uk\r\nJohn,john@lse.ac.uk\r\n'
+    const expected = parseCSV(csv)
+
+    for (let size = 1; size <= csv.length; size++) {
+      const parser = new CSVParser()
+      const records: string[][] = []
+      for (let i = 0; i < csv.length; i += size) {
+        records.push(...parser.push(csv.slice(i, i + size)))
+      }
+      records.push(...parser.end())
+
+      expect(records).toEqual(expected)
+    }
+  })
+
+  it('should keep empty fields', () => {
+    expect(parseCSV('a,,c\n,"",d\n')).toEqual([['a', '', 'c'], ['', '', 'd']])
+  })
+
+  it('should reject an unterminated quoted field', () => {
+    expect(() => parseCSV('Name\n"Smith, Jane\n')).toThrow(CSVParseError)
+  })
+
+  it('should stream a file split mid-character', async () => {
+    const bytes = new TextEncoder().encode('﻿Name,Email\r\n"Zoë, Jane",zoe@lse.ac.uk\r\n')
+    // Split inside the two-byte ë so the decoder has to carry it over
+    const splitAt = bytes.indexOf(0xc3) + 1
+    const file = {
+      stream: () => new ReadableStream({
+        start(controller) {
+          controller.enqueue(bytes.slice(0, splitAt))
+          controller.enqueue(bytes.slice(splitAt))
+          controller.close()
+        }
+      })
+    }
+
+    expect(await parseCSVFile(file as never)).toEqual([['Name', 'Email'], ['Zoë, Jane', 'zoe@lse.ac.uk']])
+  })
+})
+
+describe('Column mapping', () => {
+  it('should recognise common header names', () => {
+    expect(guessColumnMapping(['Candidate Number', 'Full Name', 'E-mail', 'Programme'])).toEqual({
+      name: 1,
+      email: 2,
+      student_number: 0
+    })
+    expect(guessColumnMapping(['Surname', 'Email'])).toEqual({ name: null, email: 1, student_number: null })
+  })
+
+  it('should map rows and report the ones that cannot be imported', () => {
+    const { data, errors } = mapCSVRecords(
+      [
+        ['S1', 'Smith, Jane', 'Jane@LSE.ac.uk'],
+        ['S2', '', 'john@lse.ac.uk'],
+        ['S3', 'Amy', 'not-an-email'],
+        ['', 'Bob', 'bob@lse.ac.uk']
+      ],
+      { name: 1, email: 2, student_number: 0 }
+    )
+
+    expect(data).toEqual([{ name: 'Smith, Jane', email: 'jane@lse.ac.uk', student_number: 'S1', row: 2 }])
+    expect(errors).toEqual([
+      { row: 3, message: 'Name is required' },
+      { row: 4, message: 'Invalid email format: not-an-email' },
+      { row: 5, message: 'Student Number is required for login' }
+    ])
+  })
+
+  it('should refuse a mapping with a field left out', () => {
+    expect(() => mapCSVRecords([], { name: 0, email: null, student_number: 1 }))
+      .toThrow('Missing required columns: Email')
+  })
+})
+
+describe('Import preview', () => {
+  const existing = [
+    { id: 'student-1', name: 'Jane Smith', email: 'jane@lse.ac.uk', student_number: 'S1', archived_at: null },
+    { id: 'student-2', name: 'John Doe', email: 'john@lse.ac.uk', student_number: 'S2', archived_at: null },
+    { id: 'student-3', name: 'Amy Lee', email: 'amy@lse.ac.uk', student_number: 'S3', archived_at: null },
+    { id: 'student-4', name: 'Tom Hart', email: 'tom@lse.ac.uk', student_number: 'S5', archived_at: '2025-07-01T00:00:00Z' }
+  ]
+
+  it('should sort rows into new, changed and unchanged students', () => {
+    const diff = diffRoster(existing, [
+      { name: 'Jane Smith', email: 'jane@lse.ac.uk', student_number: 'S1', row: 2 },
+      { name: 'John Doe', email: 'john.doe@lse.ac.uk', student_number: 'S2', row: 3 },
+      { name: 'Bob Ray', email: 'bob@lse.ac.uk', student_number: 'S4', row: 4 }
+    ])
+
+    expect(diff.unchanged.map(s => s.row)).toEqual([2])
+    expect(diff.changed).toEqual([{
+      existing: existing[1],
+      incoming: { name: 'John Doe', email: 'john.doe@lse.ac.uk', student_number: 'S2', row: 3 },
+      fields: ['email'],
+      restored: false
+    }])
+    expect(diff.added.map(s => s.name)).toEqual(['Bob Ray'])
+    expect(diff.archived).toEqual([existing[2]])
+  })
+
+  it('should match on student number before email and restore archived students', () => {
+    const diff = diffRoster(existing, [
+      // Jane's email now belongs to a row with John's student number
+      { name: 'John Doe', email: 'jane@lse.ac.uk', student_number: 'S2', row: 2 },
+      { name: 'Tom Hart', email: 'tom@lse.ac.uk', student_number: 'S5', row: 3 }
+    ])
+
+    expect(diff.changed.map(c => [c.existing.id, c.fields, c.restored])).toEqual([
+      ['student-2', ['email'], false],
+      ['student-4', [], true]
+    ])
+    expect(diff.archived.map(s => s.id)).toEqual(['student-1', 'student-3'])
+  })
+
+  it('should compare the file with the class roster without writing', async () => {
+    const enrollments = existing.map(({ id, archived_at, ...person }) => ({ id, archived_at, person }))
+    const eq = vi.fn().mockResolvedValue({ data: enrollments, error: null })
+    vi.mocked(supabase.from).mockReturnValueOnce({ select: vi.fn(() => ({ eq })) } as never)
+
+    const preview = await previewStudentImport(
+      'class-1',
+      {
+        headers: ['Name', 'Email', 'Student Number'],
+        records: [
+          ['Jane Smith', 'jane@lse.ac.uk', 'S1'],
+          ['Jane Again', 'jane@lse.ac.uk', 'S9'],
+          ['', 'nobody@lse.ac.uk', 'S8']
+        ],
+        rows: [2, 3, 4],
+        errors: [],
+        format: null
+      },
+      { name: 0, email: 1, student_number: 2 }
+    )
+
+    expect(supabase.from).toHaveBeenCalledWith('class_enrollments')
+    expect(eq).toHaveBeenCalledWith('class_id', 'class-1')
+    expect(preview.unchanged).toHaveLength(1)
+    expect(preview.students).toHaveLength(1)
+    expect(preview.errors.map(e => e.row)).toEqual([3, 4])
+    expect(supabase.rpc).not.toHaveBeenCalled()
+  })
+})
+
+describe('Roster sync', () => {
+  const students = [
+    { name: 'Jane Smith', email: 'jane@lse.ac.uk', student_number: 'S1', row: 2 },
+    { name: 'Bob Ray', email: 'bob@lse.ac.uk', student_number: 'S4', row: 3 }
+  ]
+
+  it('should sync in one call and report what changed', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { success: true, added: 1, updated: 0, unchanged: 1, restored: 1, archived: 2 },
+      error: null
+    } as never)
+
+    const result = await syncRoster('class-1', students)
+
+    expect(supabase.rpc).toHaveBeenCalledWith('sync_class_roster', {
+      p_class_id: 'class-1',
+      p_students: [
+        { name: 'Jane Smith', email: 'jane@lse.ac.uk', student_number: 'S1' },
+        { name: 'Bob Ray', email: 'bob@lse.ac.uk', student_number: 'S4' }
+      ]
+    })
+    expect(supabase.from).not.toHaveBeenCalled()
+    expect(result).toMatchObject({
+      success: true,
+      recordsProcessed: 2,
+      addedCount: 1,
+      updatedCount: 1,
+      unchangedCount: 1,
+      archivedCount: 2
+    })
+  })
+
+  it('should report a refused sync without partial counts', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { success: false, error_message: 'You do not manage this class' },
+      error: null
+    } as never)
+
+    const result = await syncRoster('class-1', students)
+
+    expect(result.success).toBe(false)
+    expect(result.errors).toEqual(['You do not manage this class'])
+    expect(result.addedCount).toBe(0)
+  })
+
+  it('should not sync while any row has an error, so an enrolled student is never archived by a typo', async () => {
+    // Bob's row has a typo in his email; syncing the rest would archive him
+    const result = await syncRoster('class-1', students.slice(0, 1), [{ row: 3, message: 'Invalid email format: bob@lse' }])
+
+    expect(supabase.rpc).not.toHaveBeenCalled()
+    expect(result.success).toBe(false)
+    expect(result.errors).toEqual(['Row 3: Invalid email format: bob@lse'])
+    expect(result.archivedCount).toBe(0)
+  })
+})
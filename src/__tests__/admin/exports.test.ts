@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest'
+import { formatCSV } from '@/lib/csvWriter'
+import { renderPDF } from '@/lib/pdfWriter'
+import {
+  exportGuestList,
+  exportSelectionResults,
+  fetchAllOpportunityBidders,
+  fetchFullTokenLedger
+} from '@/lib/exportService'
+import { supabase } from '@/lib/supabase'
+import { ClassConfig } from '@/types'
+
+const readBlob = (blob: Blob) => new Promise<string>(resolve => {
+  const reader = new FileReader()
+  reader.onload = () => resolve(reader.result as string)
+  reader.readAsText(blob)
+})
+
+const student = (id: string, name: string) => ({
+  id,
+  name,
+  email: `${id}@lse.ac.uk`,
+  student_number: id.toUpperCase(),
+  tokens_remaining: 0,
+  token_status: 'used'
+})
+
+const classDetail = {
+  id: 'class-1',
+  name: 'EC100 Seminar',
+  capacity_default: 2,
+  initial_tokens: 1,
+  refund_losing_bids: false,
+  term_topup: false,
+  max_token_balance: 1,
+  last_topup_at: null,
+  reward_title: 'Dinner with Professor',
+  reward_description: 'Dinner and discussion',
+  instructor_id: 'instructor-1',
+  created_at: '2025-07-01T00:00:00Z',
+  students: [student('s1', 'Zoë Adams'), student('s2', '=HYPERLINK("x")'), student('s3', 'Sam Lee')],
+  opportunities: [{
+    id: 'opp-1',
+    description: 'Dinner at Bistro',
+    event_date: '2025-08-01',
+    opens_at: '2025-07-01T00:00:00Z',
+    closes_at: '2025-07-20T00:00:00Z',
+    drawn_at: '2025-07-21T00:00:00Z',
+    status: 'closed',
+    capacity: 2,
+    draw_seed_hash: null,
+    draw_seed: null,
+    allocation_mode: 'lottery',
+    clearing_price: null,
+    bid_count: 3,
+    bidders: [],
+    winner_ids: ['s2', 's1'],
+    waitlist_ids: ['s3']
+  }]
+}
+
+const currentClass = {
+  id: 'class-1',
+  className: 'EC100 Seminar',
+  rewardTitle: 'Dinner with Professor',
+  capacity: 2,
+  bidOpportunities: [{ id: 'opp-1', date: '2025-08-01', description: 'Dinner at Bistro' }]
+} as ClassConfig
+
+describe('CSV output', () => {
+  it('should quote fields, neutralise formulas and keep negative numbers', () => {
+    expect(formatCSV(['Name', 'Amount'], [['Smith, "Jo"', -1], ['=SUM(A1)', null], ['-1', 2]])).toBe(
+      '\uFEFFName,Amount\r\n"Smith, ""Jo""",-1\r\n\'=SUM(A1),\r\n-1,2\r\n'
+    )
+  })
+})
+
+describe('PDF output', () => {
+  it('should write a valid cross-reference table and flow onto new pages', () => {
+    const lines = Array.from({ length: 60 }, (_, index) => ({ height: 20, cells: [{ text: `Guest ${index} (Zoë)`, x: 0 }] }))
+    const pdf = String.fromCharCode(...renderPDF(lines, { title: 'Guests' }))
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf).toContain('/Count 2')
+    expect(pdf).toContain('(Guest 0 \\(Zo\xeb\\)) Tj')
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1])
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref')
+
+    const offsets = [...pdf.slice(xrefOffset).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]))
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true)
+    })
+  })
+})
+
+describe('Class exports', () => {
+  it('should list winners then the waitlist in draw order', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: classDetail, error: null } as never)
+
+    const file = await exportSelectionResults(currentClass, 'opp-1')
+
+    expect(supabase.rpc).toHaveBeenCalledWith('get_class_detail', { p_class_id: 'class-1' })
+    expect(file.filename).toMatch(/^ec100-seminar-winners-\d{4}-\d{2}-\d{2}\.csv$/)
+    expect((await readBlob(file.blob)).split('\r\n')).toEqual([
+      'Opportunity,Event Date,Result,Waitlist Position,Name,Email,Student Number',
+      'Dinner at Bistro,2025-08-01,Selected,,"\'=HYPERLINK(""x"")",s2@lse.ac.uk,S2',
+      'Dinner at Bistro,2025-08-01,Selected,,Zoë Adams,s1@lse.ac.uk,S1',
+      'Dinner at Bistro,2025-08-01,Waitlist,1,Sam Lee,s3@lse.ac.uk,S3',
+      ''
+    ])
+  })
+
+  it('should print the reward title on the guest list', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: classDetail, error: null } as never)
+
+    const file = await exportGuestList(currentClass, 'opp-1')
+    const pdf = await readBlob(file.blob)
+
+    expect(file.filename).toMatch(/guest-list-2025-08-01-.*\.pdf$/)
+    expect(file.blob.type).toBe('application/pdf')
+    expect(pdf).toContain('(Dinner with Professor) Tj')
+    expect(pdf).toContain('Reserves, in order')
+  })
+
+  it('should refuse an opportunity from another class', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: classDetail, error: null } as never)
+
+    await expect(exportGuestList(currentClass, 'opp-9')).rejects.toThrow('Opportunity not found in this class')
+  })
+
+  it('should page through every bidder', async () => {
+    const bidder = (index: number) => ({ ...student(`b${index}`, `Bidder ${index}`), bid_id: `bid-${index}`, bid_amount: 1, bid_status: 'placed', bid_at: '2025-07-02T00:00:00Z' })
+    vi.mocked(supabase.rpc)
+      .mockResolvedValueOnce({ data: { total: 501, bidders: Array.from({ length: 500 }, (_, i) => bidder(i)) }, error: null } as never)
+      .mockResolvedValueOnce({ data: { total: 501, bidders: [bidder(500)] }, error: null } as never)
+
+    const bidders = await fetchAllOpportunityBidders('opp-1')
+
+    expect(bidders).toHaveLength(501)
+    expect(supabase.rpc).toHaveBeenLastCalledWith('get_opportunity_bidders', { p_opportunity_id: 'opp-1', p_limit: 500, p_offset: 500 })
+  })
+
+  it('should read the whole token ledger of an opportunity, oldest first', async () => {
+    const range = vi.fn().mockResolvedValue({
+      data: [{
+        id: 'th-1',
+        student_id: 's1',
+        opportunity_id: 'opp-1',
+        amount: -1,
+        type: 'bid',
+        description: 'Bid placed',
+        created_at: '2025-07-02T00:00:00Z',
+        student: { name: 'Zoë Adams', email: 's1@lse.ac.uk', student_number: 'S1' },
+        opportunity: { description: 'Dinner at Bistro' }
+      }],
+      error: null
+    })
+    const query = { eq: vi.fn(), order: vi.fn(), range }
+    query.eq.mockReturnValue(query)
+    query.order.mockReturnValue(query)
+    vi.mocked(supabase.from).mockReturnValueOnce({ select: vi.fn(() => query) } as never)
+
+    const entries = await fetchFullTokenLedger('class-1', 'opp-1')
+
+    expect(supabase.from).toHaveBeenCalledWith('token_history')
+    expect(query.eq).toHaveBeenCalledWith('class_id', 'class-1')
+    expect(query.eq).toHaveBeenCalledWith('opportunity_id', 'opp-1')
+    expect(query.order).toHaveBeenCalledWith('created_at', { ascending: true })
+    expect(range).toHaveBeenCalledWith(0, 499)
+    expect(entries).toEqual([expect.objectContaining({
+      studentName: 'Zoë Adams',
+      studentNumber: 'S1',
+      opportunityDescription: 'Dinner at Bistro',
+      amount: -1
+    })])
+  })
+})
@@ -0,0 +1,57 @@
+// get_admin_overview rows for 20 sections of 150 students, shared by the overview test and benchmark
+export const CLASS_COUNT = 20
+export const STUDENTS_PER_CLASS = 150
+
+export const classRecord = (classIndex: number, withDraws: boolean) => {
+  const classId = `class-${classIndex}`
+  const students = Array.from({ length: STUDENTS_PER_CLASS }, (_, studentIndex) => ({
+    id: `${classId}-student-${studentIndex}`,
+    name: `Student ${studentIndex}`,
+    email: `student${studentIndex}@class${classIndex}.edu`,
+    student_number: `S${classIndex}-${studentIndex}`,
+    tokens_remaining: studentIndex % 3 === 0 ? 0 : 1,
+    token_status: studentIndex % 3 === 0 ? 'used' : 'unused'
+  }))
+
+  return {
+    id: classId,
+    name: `Section ${classIndex}`,
+    capacity_default: 7,
+    initial_tokens: 1,
+    refund_losing_bids: false,
+    term_topup: false,
+    max_token_balance: 1,
+    last_topup_at: null,
+    reward_title: 'Dinner with Professor',
+    reward_description: 'Dinner and discussion',
+    instructor_id: 'instructor-1',
+    created_at: '2025-07-01T00:00:00Z',
+    students,
+    opportunities: [{
+      id: `${classId}-opp`,
+      description: 'Dinner',
+      event_date: '2025-08-01',
+      opens_at: '2025-07-01T00:00:00Z',
+      closes_at: '2025-07-20T00:00:00Z',
+      drawn_at: withDraws ? '2025-07-21T00:00:00Z' : null,
+      status: 'closed',
+      capacity: 2,
+      draw_seed_hash: null,
+      draw_seed: null,
+      allocation_mode: 'lottery',
+      clearing_price: null,
+      bid_count: STUDENTS_PER_CLASS / 3,
+      bidders: withDraws
+        ? [students[0], students[3]].map((student, index) => ({
+            ...student,
+            bid_id: `${classId}-bid-${index}`,
+            bid_amount: 1,
+            bid_status: 'selected',
+            bid_at: `2025-07-0${index + 2}T00:00:00Z`
+          }))
+        : null,
+      winner_ids: withDraws ? [students[3].id, students[0].id] : null,
+      waitlist_ids: withDraws ? [students[6].id] : null
+    }]
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { strToU8, zipSync } from 'fflate'
+import { parseXLSX, XLSXParseError } from '@/lib/xlsxParser'
+import { canvasGradebookAdapter, findRosterAdapter, moodleParticipantsAdapter } from '@/lib/rosterAdapters'
+import { guessColumnMapping, mapCSVRecords, readRosterFile } from '@/lib/csvUploadService'
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+// jsdom's TextEncoder returns arrays from another realm, which fflate would take for folders
+const bytes = (text: string) => new Uint8Array(strToU8(text))
+
+// A minimal workbook as Excel writes it: text in the shared string table, one sheet
+const workbook = (sheetData: string, sharedStrings: string[]) => zipSync({
+  'xl/workbook.xml': bytes(
+    `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}"><sheets><sheet name="Roster" sheetId="1" r:id="rId1"/></sheets></workbook>`
+  ),
+  'xl/_rels/workbook.xml.rels': bytes(
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>'
+  ),
+  'xl/sharedStrings.xml': bytes(
+    `<sst xmlns="${SPREADSHEET_NS}">${sharedStrings.map(text => `<si>${text}</si>`).join('')}</sst>`
+  ),
+  'xl/worksheets/sheet1.xml': bytes(`<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${sheetData}</sheetData></worksheet>`)
+})
+
+const excelFile = (name: string, data: Uint8Array) => ({
+  name,
+  size: data.byteLength,
+  arrayBuffer: async () => data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+})
+
+describe('Excel rosters', () => {
+  it('should read shared, rich and inline text, numbers and gaps from the first sheet', () => {
+    const data = workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+      '<row r="3"><c r="A3" t="inlineStr"><is><t>Jane Smith</t></is></c><c r="B3"><v>202312345</v></c><c r="C3" t="b"><v>1</v></c></row>',
+      ['<t>Name</t>', '<r><t>Student </t></r><r><t>Number</t></r><rPh><t>x</t></rPh>']
+    )
+
+    expect(parseXLSX(data)).toEqual([
+      ['Name', '', 'Student Number'],
+      [],
+      ['Jane Smith', '202312345', 'TRUE']
+    ])
+  })
+
+  it('should reject files that are not workbooks', () => {
+    expect(() => parseXLSX(strToU8('Name,Email'))).toThrow(XLSXParseError)
+  })
+
+  it('should recognise a Moodle export and keep sheet row numbers for errors', async () => {
+    const data = workbook(
+      '<row r="1">' + ['First name', 'Last name', 'ID number', 'Email address', 'Roles']
+        .map((_, column) => `<c r="${'ABCDE'[column]}1" t="s"><v>${column}</v></c>`).join('') + '</row>' +
+      '<row r="2"><c r="A2" t="inlineStr"><is><t>Jane</t></is></c><c r="B2" t="inlineStr"><is><t>Smith</t></is></c>' +
+      '<c r="C2"><v>202312345</v></c><c r="D2" t="inlineStr"><is><t>J.Smith@lse.ac.uk</t></is></c>' +
+      '<c r="E2" t="inlineStr"><is><t>Student</t></is></c></row>' +
+      '<row r="4"><c r="A4" t="inlineStr"><is><t>Tom</t></is></c><c r="B4" t="inlineStr"><is><t>Tutor</t></is></c>' +
+      '<c r="D4" t="inlineStr"><is><t>t.tutor@lse.ac.uk</t></is></c><c r="E4" t="inlineStr"><is><t>Non-editing teacher</t></is></c></row>' +
+      '<row r="5"><c r="A5" t="inlineStr"><is><t>Sam</t></is></c><c r="B5" t="inlineStr"><is><t>Lee</t></is></c>' +
+      '<c r="D5" t="inlineStr"><is><t>s.lee@lse.ac.uk</t></is></c><c r="E5" t="inlineStr"><is><t>Student</t></is></c></row>',
+      ['<t>First name</t>', '<t>Last name</t>', '<t>ID number</t>', '<t>Email address</t>', '<t>Roles</t>']
+    )
+
+    const roster = await readRosterFile(excelFile('Participants.XLSX', data) as never)
+
+    expect(roster.format).toBe('Moodle participants')
+    expect(roster.headers).toEqual(['Name', 'Email', 'Student Number'])
+    expect(roster.errors).toEqual([{ row: 4, message: 'Skipped: Moodle role is Non-editing teacher' }])
+
+    const { data: students, errors } = mapCSVRecords(roster.records, guessColumnMapping(roster.headers), roster.rows)
+    expect(students).toEqual([{ name: 'Jane Smith', email: 'j.smith@lse.ac.uk', student_number: '202312345', row: 2 }])
+    expect(errors).toEqual([{ row: 5, message: 'Student Number is required for login' }])
+  })
+
+  it('should refuse other spreadsheet formats', async () => {
+    await expect(readRosterFile({ name: 'roster.xls', size: 10 } as never))
+      .rejects.toThrow('File must be a CSV (.csv) or Excel (.xlsx) file')
+  })
+})
+
+describe('Canvas gradebook exports', () => {
+  const headers = ['Student', 'ID', 'SIS User ID', 'SIS Login ID', 'Section', 'Essay (1234)']
+
+  it('should turn students into name, email and student number rows', () => {
+    expect(findRosterAdapter(headers)).toBe(canvasGradebookAdapter)
+
+    const roster = canvasGradebookAdapter.adapt({
+      headers,
+      records: [
+        ['    Points Possible', '', '', '', '', '100'],
+        ['Smith, Jane', '101', '202312345', 'j.smith@lse.ac.uk', 'EC100', '65'],
+        ['Student, Test', '102', '', '', 'EC100', ''],
+        ['Lee, Sam', '103', '202354321', 'slee', 'EC100', '']
+      ],
+      rows: [2, 3, 4, 5]
+    })
+
+    expect(roster.records).toEqual([['Jane Smith', 'j.smith@lse.ac.uk', '202312345']])
+    expect(roster.rows).toEqual([3])
+    expect(roster.errors).toEqual([
+      { row: 4, message: 'Skipped: Canvas test student' },
+      { row: 5, message: 'No email address for Lee, Sam: the SIS Login ID "slee" is not an email' }
+    ])
+  })
+
+  it('should leave plain rosters to the column mapping', () => {
+    expect(findRosterAdapter(['Name', 'Email', 'Student Number'])).toBeNull()
+    expect(moodleParticipantsAdapter.matches(['First name', 'Surname', 'Email address'])).toBe(true)
+  })
+})
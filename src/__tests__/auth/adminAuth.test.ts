@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { signInAdmin, getAdminSession } from '@/lib/adminAuthService'
+import { supabase } from '@/lib/supabase'
+
+const session = {
+  access_token: 'access-token',
+  user: { id: 'instructor-1', email: 'prof@university.edu' }
+}
+
+const mockInstructorLookup = (data: unknown, error: unknown = null) => {
+  vi.mocked(supabase.from).mockReturnValueOnce({
+    select: () => ({
+      eq: () => ({
+        single: () => Promise.resolve({ data, error })
+      })
+    })
+  } as never)
+}
+
+describe('Admin authentication', () => {
+  beforeEach(() => {
+    Object.assign(supabase.auth, {
+      signInWithPassword: vi.fn(),
+      signOut: vi.fn().mockResolvedValue({ error: null })
+    })
+  })
+
+  it('should sign in a registered instructor and carry the session', async () => {
+    vi.mocked(supabase.auth.signInWithPassword).mockResolvedValueOnce({
+      data: { session, user: session.user },
+      error: null
+    } as never)
+    mockInstructorLookup({ id: 'instructor-1', email: 'prof@university.edu', name: 'Prof. Smith' })
+
+    const result = await signInAdmin('prof@university.edu', 'correct-horse')
+
+    expect(supabase.auth.signInWithPassword).toHaveBeenCalledWith({
+      email: 'prof@university.edu',
+      password: 'correct-horse'
+    })
+    expect(supabase.from).toHaveBeenCalledWith('instructors')
+    expect(result.success).toBe(true)
+    expect(result.admin).toMatchObject({ id: 'instructor-1', name: 'Prof. Smith', session })
+  })
+
+  it('should reject wrong credentials', async () => {
+    vi.mocked(supabase.auth.signInWithPassword).mockResolvedValueOnce({
+      data: { session: null, user: null },
+      error: { message: 'Invalid login credentials' }
+    } as never)
+
+    const result = await signInAdmin('prof@university.edu', 'admin123')
+
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toBe('Invalid login credentials')
+    expect(supabase.from).not.toHaveBeenCalled()
+  })
+
+  it('should sign out users who are not instructors', async () => {
+    vi.mocked(supabase.auth.signInWithPassword).mockResolvedValueOnce({
+      data: { session, user: session.user },
+      error: null
+    } as never)
+    mockInstructorLookup(null, { message: 'No rows found' })
+
+    const result = await signInAdmin('student@university.edu', 'password')
+
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toBe('This account is not registered as an instructor')
+    expect(supabase.auth.signOut).toHaveBeenCalled()
+  })
+
+  it('should restore a persisted instructor session', async () => {
+    vi.mocked(supabase.auth.getSession).mockResolvedValueOnce({
+      data: { session },
+      error: null
+    } as never)
+    mockInstructorLookup({ id: 'instructor-1', email: 'prof@university.edu', name: null })
+
+    const result = await getAdminSession()
+
+    expect(result.success).toBe(true)
+    expect(result.admin?.email).toBe('prof@university.edu')
+  })
+
+  it('should report no session when nobody is signed in', async () => {
+    vi.mocked(supabase.auth.getSession).mockResolvedValueOnce({
+      data: { session: null },
+      error: null
+    } as never)
+
+    const result = await getAdminSession()
+
+    expect(result.success).toBe(false)
+    expect(supabase.from).not.toHaveBeenCalled()
+  })
+})
@@ -2,6 +2,9 @@ import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { authenticateStudentWithBoth } from '@/utils/auth'
 import { ClassConfig, Student } from '@/types'
 
+// Class passwords are no longer part of ClassConfig; students supply them
+const classPassword = 'finance2024'
+
 describe('Authentication Middleware', () => {
   let mockRequest: any
   let mockResponse: any
@@ -22,7 +25,6 @@ describe('Authentication Middleware', () => {
     mockClass = {
       id: 'class-789',
       className: 'Finance 101',
-      password: 'finance2024',
       rewardTitle: 'Professor Dinner',
       rewardDescription: 'Exclusive dinner opportunity',
       capacity: 7,
@@ -93,7 +95,7 @@ describe('Authentication Middleware', () => {
       const authResult = authenticateStudentWithBoth(
         mockStudent.email,
         mockStudent.studentNumber!,
-        mockClass.password,
+        classPassword,
         [mockClass]
       )
 
@@ -108,7 +110,7 @@ describe('Authentication Middleware', () => {
       const authResult = authenticateStudentWithBoth(
         mockStudent.email,
         mockStudent.studentNumber!,
-        mockClass.password,
+        classPassword,
         [mockClass]
       )
 
@@ -131,7 +133,7 @@ describe('Authentication Middleware', () => {
       const authResult = authenticateStudentWithBoth(
         mockStudent.email,
         mockStudent.studentNumber!,
-        mockClass.password,
+        classPassword,
         [mockClass]
       )
 
@@ -145,7 +147,7 @@ describe('Authentication Middleware', () => {
       const authResult = authenticateStudentWithBoth(
         upperCaseEmail,
         mockStudent.studentNumber!,
-        mockClass.password,
+        classPassword,
         [mockClass]
       )
 
@@ -158,7 +160,7 @@ describe('Authentication Middleware', () => {
       const wrongStudentNumber = authenticateStudentWithBoth(
         mockStudent.email,
         'WRONG123',
-        mockClass.password,
+        classPassword,
         [mockClass]
       )
 
@@ -168,7 +170,7 @@ describe('Authentication Middleware', () => {
       const wrongEmail = authenticateStudentWithBoth(
         'wrong@email.com',
         mockStudent.studentNumber!,
-        mockClass.password,
+        classPassword,
         [mockClass]
       )
 
@@ -200,7 +202,7 @@ describe('Authentication Middleware', () => {
         authenticateStudentWithBoth(
           mockStudent.email,
           mockStudent.studentNumber!,
-          mockClass.password,
+          classPassword,
           []
         )
       }).not.toThrow()
@@ -220,7 +222,7 @@ describe('Authentication Middleware', () => {
       const authResult = authenticateStudentWithBoth(
         studentWithoutNumber.email,
         'ANY123',
-        mockClass.password,
+        classPassword,
         [classWithInvalidStudent]
       )
 
@@ -278,7 +280,7 @@ describe('Authentication Middleware', () => {
       authenticateStudentWithBoth(
         mockStudent.email,
         mockStudent.studentNumber!,
-        mockClass.password,
+        classPassword,
         [mockClass]
       )
       
@@ -294,7 +296,7 @@ describe('Authentication Middleware', () => {
         authenticateStudentWithBoth(
           mockStudent.email,
           mockStudent.studentNumber!,
-          mockClass.password,
+          classPassword,
           [mockClass]
         )
       )
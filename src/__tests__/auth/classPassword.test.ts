@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from 'vitest'
+import { verifyClassPassword } from '@/lib/studentBidService'
+import { supabase } from '@/lib/supabase'
+
+describe('verifyClassPassword', () => {
+  it('should check the password on the server', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { success: true },
+      error: null
+    } as never)
+
+    const result = await verifyClassPassword('class-1', 'econ123')
+
+    expect(supabase.rpc).toHaveBeenCalledWith('verify_class_password', {
+      p_class_id: 'class-1',
+      p_class_password: 'econ123'
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject a wrong password', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { success: false, error_message: 'Invalid class password' },
+      error: null
+    } as never)
+
+    const result = await verifyClassPassword('class-1', 'wrongpassword')
+
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toBe('Invalid class password')
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { restoreSession, isIdleExpired, markActive, getLastActiveAt, IDLE_TIMEOUT_MS } from '@/lib/sessionService'
+import { supabase } from '@/lib/supabase'
+
+const session = {
+  access_token: 'access-token',
+  user: { id: 'user-1', email: 'john.doe@example.com' }
+}
+
+const now = Date.parse('2025-07-09T12:00:00Z')
+
+const mockPersistedSession = (value: unknown) => {
+  vi.mocked(supabase.auth.getSession).mockResolvedValue({ data: { session: value }, error: null } as never)
+}
+
+const mockInstructorLookup = (data: unknown) => {
+  vi.mocked(supabase.from).mockReturnValueOnce({
+    select: () => ({
+      eq: () => ({
+        single: () => Promise.resolve({ data, error: data ? null : { message: 'No rows' } })
+      })
+    })
+  } as never)
+}
+
+const mockEnrolments = (data: unknown) => {
+  vi.mocked(supabase.from).mockReturnValueOnce({
+    select: () => Promise.resolve({ data, error: null })
+  } as never)
+}
+
+describe('Session restore', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    Object.assign(supabase.auth, {
+      signOut: vi.fn().mockResolvedValue({ error: null })
+    })
+  })
+
+  it('should stay signed out without a persisted session', async () => {
+    mockPersistedSession(null)
+
+    const restored = await restoreSession(now)
+
+    expect(restored).toEqual({ kind: 'signedOut', expired: false })
+    expect(supabase.from).not.toHaveBeenCalled()
+  })
+
+  it('should restore an instructor before checking enrolments', async () => {
+    mockPersistedSession(session)
+    markActive(now - 60 * 1000)
+    mockInstructorLookup({ id: 'user-1', email: 'prof@university.edu', name: 'Prof. Smith' })
+
+    const restored = await restoreSession(now)
+
+    expect(restored.kind).toBe('admin')
+    expect(supabase.from).toHaveBeenCalledTimes(1)
+  })
+
+  it('should restore a student with their enrolments and session token', async () => {
+    mockPersistedSession(session)
+    mockInstructorLookup(null)
+    mockEnrolments([
+      { id: 'student-1', class_id: 'class-1', name: 'John Doe', email: 'john.doe@example.com', student_number: 'ST1', tokens_remaining: 1, token_status: 'unused' }
+    ])
+
+    const restored = await restoreSession(now)
+
+    expect(restored).toMatchObject({
+      kind: 'student',
+      session,
+      enrolments: [{ classId: 'class-1', student: { id: 'student-1' } }]
+    })
+  })
+
+  it('should sign out a session that has been idle too long', async () => {
+    mockPersistedSession(session)
+    markActive(now - IDLE_TIMEOUT_MS - 1)
+
+    const restored = await restoreSession(now)
+
+    expect(restored).toEqual({ kind: 'signedOut', expired: true })
+    expect(supabase.auth.signOut).toHaveBeenCalled()
+    expect(getLastActiveAt()).toBeNull()
+  })
+
+  it('should sign out users who are neither instructors nor enrolled', async () => {
+    mockPersistedSession(session)
+    mockInstructorLookup(null)
+    mockEnrolments([])
+
+    const restored = await restoreSession(now)
+
+    expect(restored).toEqual({ kind: 'signedOut', expired: false })
+    expect(supabase.auth.signOut).toHaveBeenCalled()
+  })
+})
+
+describe('isIdleExpired', () => {
+  it('should not expire without recorded activity', () => {
+    expect(isIdleExpired(null, now)).toBe(false)
+  })
+
+  it('should expire once the timeout has passed', () => {
+    expect(isIdleExpired(now - IDLE_TIMEOUT_MS + 1000, now)).toBe(false)
+    expect(isIdleExpired(now - IDLE_TIMEOUT_MS, now)).toBe(true)
+  })
+})
@@ -32,6 +32,9 @@ vi.mock('@/lib/supabase', () => ({
   }
 }))
 
+// Class passwords are no longer part of ClassConfig; students supply them
+const classPassword = 'econ123'
+
 describe('Student Authentication Flow', () => {
   let mockStudent: Student
   let mockClass: ClassConfig
@@ -51,7 +54,6 @@ describe('Student Authentication Flow', () => {
     mockClass = {
       id: 'class-456',
       className: 'Economics 101',
-      password: 'econ123',
       rewardTitle: 'Dinner with Professor',
       rewardDescription: 'Join the professor for dinner',
       capacity: 7,
@@ -95,7 +97,7 @@ describe('Student Authentication Flow', () => {
       const authResult = authenticateStudentWithBoth(
         mockStudent.email,
         mockStudent.studentNumber!,
-        mockClass.password,
+        classPassword,
         [mockClass]
       )
 
@@ -142,7 +144,7 @@ describe('Student Authentication Flow', () => {
       const bidResult = await submitStudentBid({
         studentId: mockStudent.id,
         opportunityId: mockClass.bidOpportunities[0].id,
-        classPassword: mockClass.password
+        classPassword: classPassword
       })
 
       // Assertions
@@ -155,7 +157,8 @@ describe('Student Authentication Flow', () => {
       expect(supabase.rpc).toHaveBeenCalledWith('submit_student_bid_secure', {
         p_student_id: mockStudent.id,
         p_opportunity_id: mockClass.bidOpportunities[0].id,
-        p_class_password: mockClass.password
+        p_class_password: classPassword,
+        p_bid_amount: 1
       })
     })
 
@@ -182,7 +185,7 @@ describe('Student Authentication Flow', () => {
       const authResult = authenticateStudentWithBoth(
         mockStudent.email,
         mockStudent.studentNumber!,
-        mockClass.password,
+        classPassword,
         [mockClass]
       )
 
@@ -216,12 +219,12 @@ describe('Student Authentication Flow', () => {
         {
           studentId: 'student-1',
           opportunityId: mockClass.bidOpportunities[0].id,
-          classPassword: mockClass.password
+          classPassword: classPassword
         },
         {
           studentId: 'student-2', 
           opportunityId: mockClass.bidOpportunities[0].id,
-          classPassword: mockClass.password
+          classPassword: classPassword
         }
       ]
 
@@ -289,7 +292,7 @@ describe('Student Authentication Flow', () => {
       const authResult = authenticateStudentWithBoth(
         mockStudent.email,
         mockStudent.studentNumber!,
-        mockClass.password,
+        classPassword,
         [mockClass]
       )
 
@@ -334,7 +337,7 @@ describe('Student Authentication Flow', () => {
       const bidResult = await submitStudentBid({
         studentId: usedTokenStudent.id,
         opportunityId: mockClass.bidOpportunities[0].id,
-        classPassword: mockClass.password
+        classPassword: classPassword
       })
 
       expect(bidResult.success).toBe(false)
@@ -362,7 +365,7 @@ describe('Student Authentication Flow', () => {
       const bidResult = await submitStudentBid({
         studentId: mockStudent.id,
         opportunityId: mockClass.bidOpportunities[0].id,
-        classPassword: mockClass.password
+        classPassword: classPassword
       })
 
       expect(bidResult.success).toBe(false)
@@ -412,7 +415,7 @@ describe('Student Authentication Flow', () => {
       const bidResult = await submitStudentBid({
         studentId: mockStudent.id,
         opportunityId: mockClass.bidOpportunities[0].id,
-        classPassword: mockClass.password
+        classPassword: classPassword
       })
 
       expect(bidResult.success).toBe(true)
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { requestStudentLoginCode, verifyStudentLoginCode } from '@/lib/studentAuthService'
+import { supabase } from '@/lib/supabase'
+
+const session = {
+  access_token: 'access-token',
+  user: { id: 'user-1', email: 'john.doe@example.com' }
+}
+
+const mockEnrolments = (data: unknown, error: unknown = null) => {
+  vi.mocked(supabase.from).mockReturnValueOnce({
+    select: () => Promise.resolve({ data, error })
+  } as never)
+}
+
+describe('Student one-time-code login', () => {
+  beforeEach(() => {
+    Object.assign(supabase.auth, {
+      signInWithOtp: vi.fn(),
+      verifyOtp: vi.fn(),
+      signOut: vi.fn().mockResolvedValue({ error: null })
+    })
+  })
+
+  it('should email a code to the normalised address', async () => {
+    vi.mocked(supabase.auth.signInWithOtp).mockResolvedValueOnce({ data: {}, error: null } as never)
+
+    const result = await requestStudentLoginCode('  John.Doe@Example.com ')
+
+    expect(supabase.auth.signInWithOtp).toHaveBeenCalledWith({
+      email: 'john.doe@example.com',
+      options: { shouldCreateUser: true }
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should bind the session to every enrolment for the email', async () => {
+    vi.mocked(supabase.auth.verifyOtp).mockResolvedValueOnce({
+      data: { session, user: session.user },
+      error: null
+    } as never)
+    mockEnrolments([
+      { id: 'student-1', class_id: 'class-1', name: 'John Doe', email: 'john.doe@example.com', student_number: 'ST1', tokens_remaining: 1, token_status: 'unused' },
+      { id: 'student-2', class_id: 'class-2', name: 'John Doe', email: 'john.doe@example.com', student_number: 'ST1', tokens_remaining: 0, token_status: 'used' }
+    ])
+
+    const result = await verifyStudentLoginCode('john.doe@example.com', '123456')
+
+    expect(supabase.auth.verifyOtp).toHaveBeenCalledWith({
+      email: 'john.doe@example.com',
+      token: '123456',
+      type: 'email'
+    })
+    expect(result.success).toBe(true)
+    expect(result.enrolments?.map(enrolment => enrolment.classId)).toEqual(['class-1', 'class-2'])
+    expect(result.enrolments?.[1].student).toMatchObject({ id: 'student-2', hasUsedToken: true, hasBid: true })
+  })
+
+  it('should reject an invalid code', async () => {
+    vi.mocked(supabase.auth.verifyOtp).mockResolvedValueOnce({
+      data: { session: null, user: null },
+      error: { message: 'Token has expired or is invalid' }
+    } as never)
+
+    const result = await verifyStudentLoginCode('john.doe@example.com', '000000')
+
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toBe('Token has expired or is invalid')
+    expect(supabase.from).not.toHaveBeenCalled()
+  })
+
+  it('should sign out emails that are not enrolled anywhere', async () => {
+    vi.mocked(supabase.auth.verifyOtp).mockResolvedValueOnce({
+      data: { session, user: session.user },
+      error: null
+    } as never)
+    mockEnrolments([])
+
+    const result = await verifyStudentLoginCode('stranger@example.com', '123456')
+
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toBe('This email is not enrolled in any class')
+    expect(supabase.auth.signOut).toHaveBeenCalled()
+  })
+})
@@ -220,7 +220,8 @@ describe('Token Validation Tests', () => {
       expect(supabase.rpc).toHaveBeenCalledWith('submit_student_bid_secure', {
         p_student_id: 'student-123',
         p_opportunity_id: 'opportunity-456',
-        p_class_password: 'validpassword'
+        p_class_password: 'validpassword',
+        p_bid_amount: 1
       })
     })
 
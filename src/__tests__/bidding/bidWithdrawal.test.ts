@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest'
+import { withdrawStudentBid } from '@/lib/studentBidService'
+import { supabase } from '@/lib/supabase'
+
+const request = {
+  studentId: 'student-1',
+  opportunityId: 'opp-1',
+  classPassword: 'econ123'
+}
+
+describe('withdrawStudentBid', () => {
+  it('should refund the bid and return the updated student', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { success: true, refunded_amount: 2, tokens_remaining: 3, timestamp: '2025-07-08T12:00:00Z' },
+      error: null
+    } as never)
+    vi.mocked(supabase.from).mockReturnValueOnce({
+      select: () => ({
+        eq: () => ({
+          single: () => Promise.resolve({
+            data: {
+              id: 'student-1',
+              name: 'John Doe',
+              email: 'john@university.edu',
+              student_number: 'ST1',
+              tokens_remaining: 3,
+              token_status: 'unused'
+            },
+            error: null
+          })
+        })
+      })
+    } as never)
+
+    const result = await withdrawStudentBid(request)
+
+    expect(supabase.rpc).toHaveBeenCalledWith('withdraw_student_bid', {
+      p_student_id: 'student-1',
+      p_opportunity_id: 'opp-1',
+      p_class_password: 'econ123'
+    })
+    expect(result.success).toBe(true)
+    expect(result.refundedAmount).toBe(2)
+    expect(result.updatedStudent).toMatchObject({
+      id: 'student-1',
+      hasUsedToken: false,
+      tokensRemaining: 3,
+      hasBid: false
+    })
+  })
+
+  it('should reject withdrawals after bidding closes', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { success: false, error_message: 'Bidding has closed for this opportunity' },
+      error: null
+    } as never)
+
+    const result = await withdrawStudentBid(request)
+
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toBe('Bidding has closed for this opportunity')
+    expect(supabase.from).not.toHaveBeenCalled()
+  })
+})
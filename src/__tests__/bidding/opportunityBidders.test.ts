@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest'
+import { fetchOpportunityBidders, updateBidOpportunitiesWithCounts } from '@/lib/bidTrackingService'
+import { supabase } from '@/lib/supabase'
+import { BidOpportunity } from '@/types'
+
+const bidderRecord = (index: number) => ({
+  id: `student-${index}`,
+  name: `Student ${index}`,
+  email: `student${index}@example.edu`,
+  student_number: index % 2 === 0 ? `S${index}` : null,
+  tokens_remaining: 0,
+  token_status: 'used',
+  bid_id: `bid-${index}`,
+  bid_amount: 2,
+  bid_status: 'placed',
+  bid_at: `2025-07-10T09:0${index}:00Z`
+})
+
+const opportunity = (id: string) => ({
+  id,
+  date: '2025-08-01',
+  title: 'Dinner',
+  description: 'Dinner',
+  bidders: [],
+  selectedStudents: [],
+  isOpen: true
+}) as BidOpportunity
+
+describe('Opportunity bidders', () => {
+  it('should map real students with their bids', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { total: 120, bidders: [bidderRecord(0), bidderRecord(1)] },
+      error: null
+    } as never)
+
+    const page = await fetchOpportunityBidders('opp-1', { offset: 50 })
+
+    expect(supabase.rpc).toHaveBeenCalledWith('get_opportunity_bidders', {
+      p_opportunity_id: 'opp-1',
+      p_limit: 50,
+      p_offset: 50
+    })
+    expect(page.total).toBe(120)
+    expect(page.bidders[0]).toEqual({
+      id: 'student-0',
+      name: 'Student 0',
+      email: 'student0@example.edu',
+      studentNumber: 'S0',
+      hasUsedToken: true,
+      tokensRemaining: 0,
+      hasBid: true,
+      bidId: 'bid-0',
+      bidAmount: 2,
+      bidStatus: 'placed',
+      bidAt: '2025-07-10T09:00:00Z'
+    })
+    expect(page.bidders[1].studentNumber).toBeUndefined()
+  })
+
+  it('should report a failed page', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } } as never)
+
+    await expect(fetchOpportunityBidders('opp-1')).rejects.toThrow('Failed to fetch bidders: permission denied')
+  })
+
+  it('should fill opportunities with their first page of bidders instead of placeholders', async () => {
+    vi.mocked(supabase.rpc)
+      .mockResolvedValueOnce({
+        data: [{ opportunity_id: 'opp-1', bid_count: 3 }],
+        error: null
+      } as never)
+      .mockResolvedValueOnce({
+        data: { total: 3, bidders: [bidderRecord(0), bidderRecord(1), bidderRecord(2)] },
+        error: null
+      } as never)
+
+    const [withBids, withoutBids] = await updateBidOpportunitiesWithCounts(
+      [opportunity('opp-1'), opportunity('opp-2')],
+      'class-1'
+    )
+
+    // No bidder lookup for the opportunity nobody bid on
+    expect(supabase.rpc).toHaveBeenCalledTimes(2)
+    expect(withBids.bidCount).toBe(3)
+    expect(withBids.bidders.map(b => b.name)).toEqual(['Student 0', 'Student 1', 'Student 2'])
+    expect(withoutBids.bidCount).toBe(0)
+    expect(withoutBids.bidders).toEqual([])
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { getOpportunityLifecycle, getBidOpportunityStatus, getBiddingClosesAt, isValidBiddingWindow } from '@/utils/dates'
+import { BidOpportunity } from '@/types'
+
+const opportunity: BidOpportunity = {
+  id: 'opp-1',
+  date: '2025-07-20',
+  bidOpenDate: '2025-07-01T09:00:00Z',
+  closesAt: '2025-07-15T23:59:59Z',
+  title: 'Dinner with Professor',
+  description: 'Networking dinner',
+  bidders: [],
+  selectedStudents: [],
+  isOpen: false
+}
+
+describe('getOpportunityLifecycle', () => {
+  it('should be upcoming before bidding opens', () => {
+    expect(getOpportunityLifecycle(opportunity, new Date('2025-06-30T12:00:00Z'))).toBe('upcoming')
+  })
+
+  it('should be open between opens_at and closes_at', () => {
+    expect(getOpportunityLifecycle(opportunity, new Date('2025-07-10T12:00:00Z'))).toBe('open')
+  })
+
+  it('should close at closes_at rather than the event date', () => {
+    expect(getOpportunityLifecycle(opportunity, new Date('2025-07-18T12:00:00Z'))).toBe('closed')
+  })
+
+  it('should be drawn once winners are allocated', () => {
+    const drawn = { ...opportunity, drawnAt: '2025-07-16T10:00:00Z' }
+    expect(getOpportunityLifecycle(drawn, new Date('2025-07-18T12:00:00Z'))).toBe('drawn')
+  })
+
+  it('should be completed after the event', () => {
+    const drawn = { ...opportunity, drawnAt: '2025-07-16T10:00:00Z' }
+    expect(getOpportunityLifecycle(drawn, new Date('2025-07-22T12:00:00Z'))).toBe('completed')
+  })
+
+  it('should fall back to the event date when closes_at is missing', () => {
+    const legacy = { ...opportunity, closesAt: undefined }
+    expect(getOpportunityLifecycle(legacy, new Date('2025-07-18T12:00:00Z'))).toBe('open')
+  })
+})
+
+describe('getBidOpportunityStatus', () => {
+  it('should label a closed window', () => {
+    expect(getBidOpportunityStatus({ ...opportunity, bidOpenDate: '2000-01-01T00:00:00Z', closesAt: '2000-01-02T00:00:00Z', date: '2999-01-01' }))
+      .toBe('Bidding Closed')
+  })
+})
+
+describe('isValidBiddingWindow', () => {
+  // The event date as stored: its UTC calendar day
+  const opensAt = new Date('2025-07-01T09:00:00Z')
+  const eventDate = new Date('2025-07-20')
+
+  it('should accept a window that closes before the day of the event', () => {
+    expect(isValidBiddingWindow(opensAt, new Date('2025-07-19T23:59:59Z'), eventDate)).toBe(true)
+  })
+
+  it('should refuse a window that stays open on the day of the event', () => {
+    expect(isValidBiddingWindow(opensAt, new Date('2025-07-20T23:59:59Z'), eventDate)).toBe(false)
+  })
+
+  it('should judge the event day in UTC, as the database does, whatever the local timezone', () => {
+    // The evening before in New York is already the event day in UTC
+    expect(isValidBiddingWindow(opensAt, new Date('2025-07-19T23:00:00-04:00'), eventDate)).toBe(false)
+  })
+
+  it('should refuse a window that closes before it opens', () => {
+    expect(isValidBiddingWindow(opensAt, new Date('2025-07-01T08:00:00Z'), eventDate)).toBe(false)
+  })
+
+  it('should default the close to the last moment the database accepts', () => {
+    const closesAt = getBiddingClosesAt({ ...opportunity, closesAt: undefined, date: '2025-07-20' })
+
+    expect(closesAt.toISOString()).toBe('2025-07-19T23:59:59.999Z')
+    expect(isValidBiddingWindow(opensAt, closesAt, eventDate)).toBe(true)
+  })
+})
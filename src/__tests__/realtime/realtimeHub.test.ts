@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest'
+import { RealtimeHub } from '@/lib/realtimeHub'
+import { ClassBidStatistics } from '@/lib/bidTrackingService'
+
+type ChangeHandler = (payload: { eventType: string; new: object; old: object }) => void
+type BroadcastHandler = (message: { type: string; event: string; payload: object }) => void
+
+// Stands in for the Supabase client: records every channel and lets tests push changes
+// and connection states into it
+const createFakeClient = () => {
+  const channels: Array<{
+    name: string
+    filters: Array<{ event: string; table: string; filter?: string }>
+    handlers: Record<string, ChangeHandler>
+    broadcasts: Record<string, BroadcastHandler>
+    setStatus: (status: string) => void
+  }> = []
+
+  const client = {
+    channel: vi.fn((name: string) => {
+      const record = { name, filters: [], handlers: {}, broadcasts: {}, setStatus: () => {} } as (typeof channels)[number]
+      channels.push(record)
+
+      const channel = {
+        on: (type: string, options: { event: string; table?: string; filter?: string }, handler: ChangeHandler & BroadcastHandler) => {
+          if (type === 'broadcast') {
+            record.broadcasts[options.event] = handler
+          } else {
+            record.filters.push({ event: options.event, table: options.table, filter: options.filter })
+            record.handlers[options.table] = handler
+          }
+          return channel
+        },
+        subscribe: (callback: (status: string) => void) => {
+          record.setStatus = callback
+          return channel
+        }
+      }
+      return channel
+    }),
+    removeChannel: vi.fn()
+  }
+
+  return { client, channels }
+}
+
+const statistics = { totalBids: 3 } as ClassBidStatistics
+
+describe('RealtimeHub', () => {
+  let fake: ReturnType<typeof createFakeClient>
+  let fetchStatistics: Mock<[string], Promise<ClassBidStatistics>>
+  let hub: RealtimeHub
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    fake = createFakeClient()
+    fetchStatistics = vi.fn<[string], Promise<ClassBidStatistics>>().mockResolvedValue(statistics)
+    hub = new RealtimeHub(fake.client as never, {
+      statisticsDebounceMs: 500,
+      reconnectInitialMs: 1000,
+      reconnectMaxMs: 4000,
+      fetchStatistics
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should share one class-filtered channel between listeners', () => {
+    const onBid = vi.fn()
+    const onStudent = vi.fn()
+
+    const stopBids = hub.subscribe('class-1', 'bids', onBid)
+    const stopStudents = hub.subscribe('class-1', 'students', onStudent)
+
+    expect(fake.client.channel).toHaveBeenCalledTimes(1)
+    expect(fake.channels[0].filters).toEqual([
+      { event: '*', table: 'class_enrollments', filter: 'class_id=eq.class-1' },
+      { event: '*', table: 'opportunities', filter: 'class_id=eq.class-1' },
+      { event: '*', table: 'bids', filter: 'class_id=eq.class-1' },
+      { event: '*', table: 'token_history', filter: 'class_id=eq.class-1' }
+    ])
+    expect(Object.keys(fake.channels[0].broadcasts)).toEqual(['bid_withdrawn'])
+
+    fake.channels[0].handlers.bids({ eventType: 'INSERT', new: { id: 'bid-1', opportunity_id: 'opp-1' }, old: {} })
+
+    expect(onBid).toHaveBeenCalledWith({ eventType: 'INSERT', new: { id: 'bid-1', opportunity_id: 'opp-1' }, old: {} })
+    expect(onStudent).not.toHaveBeenCalled()
+
+    fake.channels[0].handlers.class_enrollments({ eventType: 'UPDATE', new: { id: 'enrollment-1', tokens_remaining: 0 }, old: {} })
+    expect(onStudent).toHaveBeenCalledWith({ eventType: 'UPDATE', new: { id: 'enrollment-1', tokens_remaining: 0 }, old: {} })
+
+    stopBids()
+    expect(fake.client.removeChannel).not.toHaveBeenCalled()
+    stopStudents()
+    expect(fake.client.removeChannel).toHaveBeenCalledTimes(1)
+    expect(hub.getStatus('class-1')).toBe('closed')
+  })
+
+  it('should refetch statistics once after a burst of bids', async () => {
+    const onStatistics = vi.fn()
+    hub.subscribe('class-1', 'statistics', onStatistics)
+
+    for (let i = 0; i < 20; i++) {
+      fake.channels[0].handlers.bids({ eventType: 'INSERT', new: { id: `bid-${i}` }, old: {} })
+      await vi.advanceTimersByTimeAsync(100)
+    }
+    await vi.advanceTimersByTimeAsync(500)
+
+    expect(fetchStatistics).toHaveBeenCalledTimes(1)
+    expect(fetchStatistics).toHaveBeenCalledWith('class-1')
+    expect(onStatistics).toHaveBeenCalledWith(statistics)
+  })
+
+  it('should pass on withdrawals broadcast to the class as bid deletes and refetch statistics', async () => {
+    const onBid = vi.fn()
+    hub.subscribe('class-1', 'bids', onBid)
+    hub.subscribe('class-1', 'statistics', vi.fn())
+
+    fake.channels[0].broadcasts.bid_withdrawn({
+      type: 'broadcast',
+      event: 'bid_withdrawn',
+      payload: { id: 'bid-1', class_id: 'class-1' }
+    })
+    await vi.advanceTimersByTimeAsync(500)
+
+    expect(onBid).toHaveBeenCalledWith({ eventType: 'DELETE', new: {}, old: { id: 'bid-1', class_id: 'class-1' } })
+    expect(fetchStatistics).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not refetch statistics when nobody is listening for them', async () => {
+    hub.subscribe('class-1', 'bids', vi.fn())
+
+    fake.channels[0].handlers.bids({ eventType: 'INSERT', new: { id: 'bid-1' }, old: {} })
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(fetchStatistics).not.toHaveBeenCalled()
+  })
+
+  it('should reconnect with exponential backoff and reset it once connected', async () => {
+    const onStatus = vi.fn()
+    hub.subscribe('class-1', 'status', onStatus)
+
+    fake.channels[0].setStatus('SUBSCRIBED')
+    expect(hub.getStatus('class-1')).toBe('connected')
+
+    fake.channels[0].setStatus('CHANNEL_ERROR')
+    expect(hub.getStatus('class-1')).toBe('reconnecting')
+    expect(fake.client.removeChannel).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(999)
+    expect(fake.channels).toHaveLength(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(fake.channels).toHaveLength(2)
+
+    fake.channels[1].setStatus('TIMED_OUT')
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(fake.channels).toHaveLength(3)
+
+    fake.channels[2].setStatus('CLOSED')
+    await vi.advanceTimersByTimeAsync(4000)
+    fake.channels[3].setStatus('CHANNEL_ERROR')
+    // Capped at reconnectMaxMs
+    await vi.advanceTimersByTimeAsync(4000)
+    expect(fake.channels).toHaveLength(5)
+
+    fake.channels[4].setStatus('SUBSCRIBED')
+    fake.channels[4].setStatus('CHANNEL_ERROR')
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(fake.channels).toHaveLength(6)
+
+    expect(onStatus.mock.calls.map(([status]) => status)).toEqual([
+      'connected',
+      'reconnecting',
+      'reconnecting',
+      'reconnecting',
+      'reconnecting',
+      'connected',
+      'reconnecting'
+    ])
+  })
+
+  it('should stop reconnecting once the last listener leaves', async () => {
+    const stop = hub.subscribe('class-1', 'bids', vi.fn())
+
+    fake.channels[0].setStatus('CHANNEL_ERROR')
+    stop()
+    await vi.advanceTimersByTimeAsync(5000)
+
+    expect(fake.channels).toHaveLength(1)
+  })
+})
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest'
+import {
+  allocateBySerialDictatorship,
+  createSeededRandom,
+  drawWinners,
+  generateDrawSeed,
+  getClassAllocationSeed,
+  getAllocationOrder,
+  getClearingPrice,
+  getDrawOrder,
+  hashDrawSeed,
+  hashSeed,
+  rankSealedBids,
+  verifyDrawSeed
+} from '@/utils/selection'
+
+const bidders = Array.from({ length: 12 }, (_, index) => ({
+  id: `student-${String(index).padStart(2, '0')}`,
+  name: `Student ${index}`
+}))
+
+describe('Seeded Lottery Draw', () => {
+  describe('PRNG', () => {
+    it('should derive the same state from the same seed', () => {
+      expect(hashSeed('a3f9c2')).toBe(hashSeed('a3f9c2'))
+      expect(hashSeed('a3f9c2')).not.toBe(hashSeed('a3f9c3'))
+    })
+
+    it('should produce a reproducible sequence of 32-bit integers', () => {
+      const first = createSeededRandom('seed-1')
+      const second = createSeededRandom('seed-1')
+
+      for (let i = 0; i < 50; i++) {
+        const value = first()
+        expect(value).toBe(second())
+        expect(Number.isInteger(value)).toBe(true)
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThan(2 ** 32)
+      }
+    })
+  })
+
+  describe('Draw Order', () => {
+    it('should return every bidder exactly once', () => {
+      const order = getDrawOrder(bidders, 'seed-1')
+
+      expect(order).toHaveLength(bidders.length)
+      expect(new Set(order.map(b => b.id)).size).toBe(bidders.length)
+    })
+
+    it('should not depend on the order bidders were fetched in', () => {
+      const reversed = [...bidders].reverse()
+
+      expect(getDrawOrder(reversed, 'seed-1')).toEqual(getDrawOrder(bidders, 'seed-1'))
+    })
+
+    it('should give different orders for different seeds', () => {
+      const a = getDrawOrder(bidders, 'seed-1').map(b => b.id)
+      const b = getDrawOrder(bidders, 'seed-2').map(b => b.id)
+
+      expect(a).not.toEqual(b)
+    })
+
+    it('should select the first capacity entries of the draw order', () => {
+      const winners = drawWinners(bidders, 4, 'seed-1')
+
+      expect(winners).toEqual(getDrawOrder(bidders, 'seed-1').slice(0, 4))
+    })
+
+    it('should select everyone when bidders do not exceed capacity', () => {
+      expect(drawWinners(bidders.slice(0, 3), 7, 'seed-1')).toHaveLength(3)
+    })
+  })
+
+  describe('Weighted Draw', () => {
+    it('should match the unweighted order when every bidder commits one token', () => {
+      expect(getDrawOrder(bidders, 'seed-1', () => 1)).toEqual(getDrawOrder(bidders, 'seed-1'))
+    })
+
+    it('should be reproducible for the same seed and weights', () => {
+      const weight = (bidder: { id: string }) => Number(bidder.id.slice(-2)) + 1
+
+      expect(getDrawOrder(bidders, 'seed-1', weight)).toEqual(getDrawOrder(bidders, 'seed-1', weight))
+    })
+
+    it('should favour bidders who commit more tokens', () => {
+      const pair = [{ id: 'a' }, { id: 'b' }]
+      const weight = (bidder: { id: string }) => (bidder.id === 'a' ? 9 : 1)
+      let firstPicks = 0
+
+      for (let i = 0; i < 500; i++) {
+        if (drawWinners(pair, 1, `seed-${i}`, weight)[0].id === 'a') firstPicks++
+      }
+
+      // Expected share is 90%; allow generous slack for sampling noise
+      expect(firstPicks).toBeGreaterThan(400)
+      expect(firstPicks).toBeLessThan(490)
+    })
+  })
+
+  describe('Uniform-price Auction', () => {
+    const bids = [
+      { id: 'a', amount: 5 },
+      { id: 'b', amount: 2 },
+      { id: 'c', amount: 4 },
+      { id: 'd', amount: 4 },
+      { id: 'e', amount: 1 }
+    ]
+    const amount = (bid: { id: string; amount: number }) => bid.amount
+
+    it('should rank bids from highest to lowest', () => {
+      const ranked = rankSealedBids(bids, 'seed-1', amount).map(bid => bid.amount)
+
+      expect(ranked).toEqual([5, 4, 4, 2, 1])
+    })
+
+    it('should break ties with the seeded lottery', () => {
+      const lottery = getDrawOrder(bids, 'seed-1').map(bid => bid.id)
+      const tied = rankSealedBids(bids, 'seed-1', amount)
+        .filter(bid => bid.amount === 4)
+        .map(bid => bid.id)
+
+      expect(tied).toEqual(lottery.filter(id => id === 'c' || id === 'd'))
+    })
+
+    it('should charge winners the highest losing bid', () => {
+      const ranked = rankSealedBids(bids, 'seed-1', amount)
+
+      expect(getClearingPrice(ranked, 2, amount)).toBe(4)
+      expect(getClearingPrice(ranked, 3, amount)).toBe(2)
+      expect(getClearingPrice(ranked, 5, amount)).toBe(0)
+    })
+
+    it('should use the lottery order unless the mode is an auction', () => {
+      expect(getAllocationOrder(bids, 'seed-1', 'lottery', amount)).toEqual(getDrawOrder(bids, 'seed-1', amount))
+      expect(getAllocationOrder(bids, 'seed-1', 'uniform_price', amount)).toEqual(rankSealedBids(bids, 'seed-1', amount))
+    })
+  })
+
+  describe('Serial Dictatorship', () => {
+    const preferences: Record<string, string[]> = {
+      s1: ['mon', 'tue'],
+      s2: ['mon', 'tue'],
+      s3: ['mon'],
+      s4: ['tue', 'mon']
+    }
+    const capacities = { mon: 1, tue: 2 }
+
+    it('should give each student their best remaining choice in lottery order', () => {
+      const { order, assignments } = allocateBySerialDictatorship(preferences, capacities, 'seed-1')
+      const seats: Record<string, number> = { ...capacities }
+
+      expect(order).toEqual(getDrawOrder(Object.keys(preferences).map(id => ({ id })), 'seed-1').map(s => s.id))
+      for (const studentId of order) {
+        const expected = preferences[studentId].find(id => seats[id] > 0) || null
+        expect(assignments[studentId]).toBe(expected)
+        if (expected) seats[expected]--
+      }
+    })
+
+    it('should never exceed capacity or give a student two places', () => {
+      for (let i = 0; i < 20; i++) {
+        const { assignments } = allocateBySerialDictatorship(preferences, capacities, `seed-${i}`)
+        const allocated = Object.values(assignments)
+
+        expect(allocated.filter(id => id === 'mon')).toHaveLength(1)
+        expect(allocated.filter(id => id === 'tue').length).toBeLessThanOrEqual(2)
+        expect(Object.keys(assignments)).toHaveLength(4)
+      }
+    })
+
+    it('should ignore students who only ranked unavailable opportunities', () => {
+      const { order } = allocateBySerialDictatorship({ ...preferences, s5: ['wed'] }, capacities, 'seed-1')
+
+      expect(order).not.toContain('s5')
+    })
+
+    it('should derive the class seed from revealed seeds in id order', () => {
+      expect(getClassAllocationSeed([
+        { id: 'b', drawSeed: '22' },
+        { id: 'a', drawSeed: '11' }
+      ])).toBe('1122')
+    })
+  })
+
+  describe('Seed Commitment', () => {
+    it('should hash seeds with SHA-256', async () => {
+      expect(await hashDrawSeed('abc')).toBe(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      )
+    })
+
+    it('should verify a revealed seed against its commitment', async () => {
+      const seed = generateDrawSeed()
+      const commitment = await hashDrawSeed(seed)
+
+      expect(seed).toMatch(/^[0-9a-f]{32}$/)
+      expect(await verifyDrawSeed(seed, commitment)).toBe(true)
+      expect(await verifyDrawSeed(`${seed}0`, commitment)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest'
+import { runOpportunityDraw, removeSelectedStudent, forfeitExpiredSelections } from '@/lib/selectionService'
+import { supabase } from '@/lib/supabase'
+
+describe('runOpportunityDraw', () => {
+  it('should map the persisted draw result', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: {
+        success: true,
+        opportunity_id: 'opp-1',
+        already_drawn: false,
+        capacity: 1,
+        draw_seed: 'seed',
+        draw_seed_hash: 'hash',
+        draw_order: ['student-2', 'student-1'],
+        draw_weights: [3, 1],
+        winners: [
+          { id: 'student-2', name: 'Jane Smith', email: 'jane@university.edu', student_number: 'ST2' }
+        ],
+        waitlist: [
+          { id: 'student-1', name: 'John Doe', email: 'john@university.edu', student_number: 'ST1', waitlist_position: 2 }
+        ]
+      },
+      error: null
+    } as never)
+
+    const result = await runOpportunityDraw('opp-1')
+
+    expect(supabase.rpc).toHaveBeenCalledWith('run_opportunity_draw', { p_opportunity_id: 'opp-1' })
+    expect(result.success).toBe(true)
+    expect(result.drawOrder).toEqual(['student-2', 'student-1'])
+    expect(result.drawWeights).toEqual([3, 1])
+    expect(result.winners).toHaveLength(1)
+    expect(result.winners?.[0]).toMatchObject({
+      id: 'student-2',
+      studentNumber: 'ST2',
+      isSelected: true
+    })
+    expect(result.waitlist?.map(student => student.id)).toEqual(['student-1'])
+    expect(result.waitlist?.[0].isSelected).toBe(false)
+  })
+
+  it('should surface errors returned by the draw function', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { success: false, error_message: 'Bidding has not closed yet' },
+      error: null
+    } as never)
+
+    const result = await runOpportunityDraw('opp-1')
+
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toBe('Bidding has not closed yet')
+  })
+
+  it('should handle RPC transport errors', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: null,
+      error: { message: 'Network error' }
+    } as never)
+
+    const result = await runOpportunityDraw('opp-1')
+
+    expect(result.success).toBe(false)
+    expect(result.errorMessage).toBe('Network error')
+  })
+})
+
+describe('removeSelectedStudent', () => {
+  it('should return the promoted waitlisted student', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { success: true, promoted: { student_id: 'student-3', waitlist_position: 3 } },
+      error: null
+    } as never)
+
+    const result = await removeSelectedStudent('opp-1', 'student-2')
+
+    expect(supabase.rpc).toHaveBeenCalledWith('remove_selected_student', {
+      p_opportunity_id: 'opp-1',
+      p_student_id: 'student-2'
+    })
+    expect(result).toEqual({ success: true, promotedStudentId: 'student-3' })
+  })
+
+  it('should succeed without a promotion when the waitlist is empty', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { success: true, promoted: null },
+      error: null
+    } as never)
+
+    const result = await removeSelectedStudent('opp-1', 'student-2')
+
+    expect(result.success).toBe(true)
+    expect(result.promotedStudentId).toBeUndefined()
+  })
+})
+
+describe('forfeitExpiredSelections', () => {
+  it('should report forfeited and promoted counts', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: { success: true, forfeited_count: 2, promoted_count: 1 },
+      error: null
+    } as never)
+
+    const result = await forfeitExpiredSelections('class-1')
+
+    expect(supabase.rpc).toHaveBeenCalledWith('forfeit_expired_selections', { p_class_id: 'class-1' })
+    expect(result).toEqual({ success: true, forfeitedCount: 2, promotedCount: 1 })
+  })
+})
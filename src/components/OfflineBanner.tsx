@@ -0,0 +1,22 @@
+import { WifiOff } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+
+interface OfflineBannerProps {
+  lastSyncedAt: number | null;
+}
+
+// Shown while the database cannot be reached and the last saved copy is on screen
+const OfflineBanner = ({ lastSyncedAt }: OfflineBannerProps) => (
+  <Alert className="mb-4 border-amber-300 bg-amber-50">
+    <WifiOff className="h-4 w-4" />
+    <AlertTitle>Offline – read-only</AlertTitle>
+    <AlertDescription>
+      {lastSyncedAt
+        ? `Showing data last synced ${new Date(lastSyncedAt).toLocaleString()}.`
+        : "No saved copy of your classes is available on this device."}{" "}
+      Changes are disabled until the connection is restored.
+    </AlertDescription>
+  </Alert>
+);
+
+export default OfflineBanner;
@@ -0,0 +1,36 @@
+import { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { useSession } from "@/hooks/useSession";
+import { SessionRole } from "@/contexts/sessionContext";
+
+interface ProtectedRouteProps {
+  role: SessionRole;
+  children: ReactNode;
+}
+
+// Only render children for a restored or fresh session of the given role; everyone else
+// goes back to the login page, which returns them here after signing in
+const ProtectedRoute = ({ role, children }: ProtectedRouteProps) => {
+  const { status, role: sessionRole } = useSession();
+  const location = useLocation();
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4" />
+          <p className="text-muted-foreground">Restoring your session...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (status !== "authenticated" || sessionRole !== role) {
+    return <Navigate to="/" replace state={{ from: location.pathname }} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
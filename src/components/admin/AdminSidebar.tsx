@@ -117,7 +117,7 @@ const AdminSidebar = ({
                           )}
                         </div>
                         <p className="text-xs text-gray-500 truncate">
-                          Password: {classItem.password}
+                          {classItem.students.length} students
                         </p>
                       </CardHeader>
                     </>
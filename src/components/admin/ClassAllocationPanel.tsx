@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, ListOrdered, ShieldCheck } from "lucide-react";
+import { ClassConfig, Student } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/utils/dates";
+import { runClassAllocation, ClassAllocationResult } from "@/lib/selectionService";
+
+interface ClassAllocationPanelProps {
+  currentClass: ClassConfig;
+  onSelectionComplete: (selectedStudents: Student[], opportunityId?: string) => void;
+}
+
+const ClassAllocationPanel = ({ currentClass, onSelectionComplete }: ClassAllocationPanelProps) => {
+  const [isAllocating, setIsAllocating] = useState(false);
+  const [result, setResult] = useState<ClassAllocationResult | null>(null);
+  const { toast } = useToast();
+
+  const opportunities = currentClass.bidOpportunities || [];
+  const getOpportunity = (opportunityId: string) => opportunities.find(opp => opp.id === opportunityId);
+
+  const startAllocation = async () => {
+    setIsAllocating(true);
+
+    try {
+      const allocation = await runClassAllocation(currentClass.id);
+
+      if (!allocation.success) {
+        toast({
+          title: "Allocation Failed",
+          description: allocation.errorMessage || "The allocation could not be completed",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setResult(allocation);
+
+      // Pass each opportunity's winners up so the rest of the admin view stays in sync
+      const assignments = allocation.assignments || [];
+      for (const opportunity of opportunities) {
+        const winners = assignments
+          .filter(assignment => assignment.opportunityId === opportunity.id)
+          .map(assignment => assignment.student);
+        if (winners.length > 0) {
+          onSelectionComplete(winners, opportunity.id);
+        }
+      }
+
+      const allocatedCount = new Set(assignments.map(assignment => assignment.opportunityId)).size;
+      toast({
+        title: allocation.alreadyAllocated ? "Allocation Already Completed" : "Allocation Complete",
+        description: `${assignments.length} student${assignments.length !== 1 ? 's' : ''} allocated across ${allocatedCount} opportunit${allocatedCount !== 1 ? 'ies' : 'y'}`,
+      });
+    } finally {
+      setIsAllocating(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl font-heading flex items-center gap-2">
+            <ListOrdered className="w-5 h-5" />
+            Ranked-preference Allocation
+          </CardTitle>
+          <CardDescription>
+            Allocates every ranked opportunity in one pass once bidding has closed on all of them.
+            Students are put in a random order and each takes their highest-ranked date that still
+            has a seat. Opportunities with token bids are drawn on their own.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            {opportunities.map(opportunity => (
+              <div key={opportunity.id} className="p-3 bg-gray-50 rounded-md">
+                <div className="font-medium">{opportunity.title}</div>
+                <div className="text-muted-foreground">{formatDate(opportunity.date)}</div>
+                <Badge variant="outline" className="mt-1">
+                  {opportunity.capacity || currentClass.capacity} seats
+                </Badge>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-center">
+            <Button
+              onClick={startAllocation}
+              disabled={isAllocating || opportunities.length === 0}
+              size="lg"
+              className="px-12 py-6 text-xl font-semibold bg-blue-600 hover:bg-blue-700 shadow-lg"
+            >
+              {isAllocating ? (
+                <>
+                  <Loader2 className="w-6 h-6 mr-3 animate-spin" />
+                  Allocating...
+                </>
+              ) : (
+                <>
+                  <ListOrdered className="w-6 h-6 mr-3" />
+                  Run Class Allocation
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-heading">Allocation Results</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Turn</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Allocated Date</TableHead>
+                  <TableHead>Choice</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(result.assignments || []).map(assignment => {
+                  const opportunity = getOpportunity(assignment.opportunityId);
+                  return (
+                    <TableRow key={assignment.student.id}>
+                      <TableCell>{(result.studentOrder || []).indexOf(assignment.student.id) + 1}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{assignment.student.name}</div>
+                        <div className="text-xs text-muted-foreground">{assignment.student.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        {opportunity ? `${opportunity.title} (${formatDate(opportunity.date)})` : assignment.opportunityId}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={assignment.rank === 1 ? "default" : "outline"}>#{assignment.rank}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {(result.unassigned || []).map(student => (
+                  <TableRow key={student.id}>
+                    <TableCell>{(result.studentOrder || []).indexOf(student.id) + 1}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{student.name}</div>
+                      <div className="text-xs text-muted-foreground">{student.email}</div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">No seat left on any ranked date</TableCell>
+                    <TableCell>-</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Alert>
+              <ShieldCheck className="h-4 w-4" />
+              <AlertDescription className="break-all text-xs">
+                The student order was drawn with the revealed opportunity seeds joined in id order:{" "}
+                <span className="font-mono">{result.allocationSeed}</span>
+              </AlertDescription>
+            </Alert>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ClassAllocationPanel;
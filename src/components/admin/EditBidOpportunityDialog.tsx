@@ -5,11 +5,12 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { format, addDays } from "date-fns";
-import { BidOpportunity, ClassConfig } from "@/types";
-import { formatDate } from "@/utils/dates";
-import { updateBidOpportunity } from "@/lib/classService";
+import { format, endOfDay } from "date-fns";
+import { BidOpportunity, ClassConfig, AllocationMode } from "@/types";
+import { getBiddingClosesAt, getBiddingOpensAt, isValidBiddingWindow } from "@/utils/dates";
+import { useUpdateBidOpportunity } from "@/hooks/useClassQueries";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
 
@@ -18,7 +19,7 @@ interface EditBidOpportunityDialogProps {
   onClose: () => void;
   opportunity: BidOpportunity | null;
   currentClass: ClassConfig | null;
-  onSave: (updatedOpportunity: BidOpportunity, updatedClass: Partial<ClassConfig>) => void;
+  onSave: (updatedOpportunity: BidOpportunity) => void;
 }
 
 const EditBidOpportunityDialog = ({
@@ -34,12 +35,17 @@ const EditBidOpportunityDialog = ({
     opportunity ? new Date(opportunity.date) : undefined
   );
   const [biddingOpenDate, setBiddingOpenDate] = useState<Date | undefined>(
-    opportunity ? addDays(new Date(opportunity.date), -7) : undefined
+    opportunity ? getBiddingOpensAt(opportunity) : undefined
+  );
+  const [biddingCloseDate, setBiddingCloseDate] = useState<Date | undefined>(
+    opportunity ? getBiddingClosesAt(opportunity) : undefined
   );
   const [capacity, setCapacity] = useState(opportunity?.capacity || currentClass?.capacity);
+  const [allocationMode, setAllocationMode] = useState<AllocationMode>(opportunity?.allocationMode || "lottery");
   const [isSaving, setIsSaving] = useState(false);
   
   const { toast } = useToast();
+  const updateOpportunityMutation = useUpdateBidOpportunity();
   
   const handleCapacityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value, 10);
@@ -67,37 +73,49 @@ const EditBidOpportunityDialog = ({
   };
   
   const handleSave = async () => {
-    if (!opportunity || !date || !biddingOpenDate || !currentClass || !capacity) return;
+    if (!opportunity || !date || !biddingOpenDate || !biddingCloseDate || !currentClass || !capacity) return;
+    
+    // Bidding closes at the end of the chosen day
+    const closesAt = endOfDay(biddingCloseDate);
+    if (!isValidBiddingWindow(biddingOpenDate, closesAt, date)) {
+      toast({
+        title: "Invalid bidding window",
+        description: "Bidding must close after it opens and before the day of the event begins (00:00 UTC)",
+        variant: "destructive",
+      });
+      return;
+    }
     
     setIsSaving(true);
     
     try {
-      // Update the opportunity in the database
-      await updateBidOpportunity(opportunity.id, {
-        title,
-        description,
-        event_date: date.toISOString(),
-        opens_at: biddingOpenDate.toISOString(),
-        closes_at: date.toISOString(),
-        capacity
+      // Save to the database; the mutation refetches the class afterwards
+      await updateOpportunityMutation.mutateAsync({
+        classId: currentClass.id,
+        opportunityId: opportunity.id,
+        updates: {
+          title,
+          description,
+          event_date: date.toISOString(),
+          opens_at: biddingOpenDate.toISOString(),
+          closes_at: closesAt.toISOString(),
+          capacity,
+          allocation_mode: allocationMode
+        }
       });
 
-      // Create updated objects for local state
       const updatedOpportunity: BidOpportunity = {
         ...opportunity,
         title,
         description,
         date: date.toISOString(),
         bidOpenDate: biddingOpenDate.toISOString(),
-        capacity
+        closesAt: closesAt.toISOString(),
+        capacity,
+        allocationMode
       };
 
-      const updatedClass: Partial<ClassConfig> = {
-        // Don't update class-level settings, just pass empty object
-      };
-      
-      // Update local state
-      onSave(updatedOpportunity, updatedClass);
+      onSave(updatedOpportunity);
       
       toast({
         title: "Changes saved successfully",
@@ -201,6 +219,32 @@ const EditBidOpportunityDialog = ({
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label>Bidding Closes Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-left font-normal"
+                    disabled={isSaving || !!opportunity?.drawnAt}
+                  >
+                    {biddingCloseDate ? format(biddingCloseDate, "PPP") : <span>Pick a date</span>}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={biddingCloseDate}
+                    onSelect={setBiddingCloseDate}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <p className="text-xs text-muted-foreground">
+                Bids are accepted until the end of this day; it must be on or before the event date
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="capacity">Capacity for this Opportunity</Label>
               <div className="flex items-center gap-2">
@@ -216,6 +260,26 @@ const EditBidOpportunityDialog = ({
                 <span className="text-sm text-muted-foreground">students</span>
               </div>
             </div>
+
+            <div className="space-y-2">
+              <Label>Allocation</Label>
+              <Select
+                value={allocationMode}
+                onValueChange={(value) => setAllocationMode(value as AllocationMode)}
+                disabled={isSaving || !!opportunity?.drawSeed}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lottery">Lottery</SelectItem>
+                  <SelectItem value="uniform_price">Sealed-bid auction (uniform price)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                The allocation rule cannot be changed once the draw seed has been revealed
+              </p>
+            </div>
           </div>
         </div>
         <DialogFooter>
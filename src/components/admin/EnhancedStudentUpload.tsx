@@ -6,9 +6,24 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Student } from "@/types";
-import { uploadCSVToSupabase, CSVUploadResult } from "@/lib/csvUploadService";
-import { Loader2, Upload, CheckCircle, AlertCircle, FileText, Database, RefreshCw } from "lucide-react";
+import {
+  ColumnMapping,
+  CSVUploadResult,
+  formatRowError,
+  getMissingFields,
+  guessColumnMapping,
+  ImportPreview,
+  ParsedRosterFile,
+  previewStudentImport,
+  readRosterFile,
+  STUDENT_FIELDS,
+  syncRoster
+} from "@/lib/csvUploadService";
+import { Loader2, CheckCircle, AlertCircle, FileText, RefreshCw, Eye } from "lucide-react";
 
 interface EnhancedStudentUploadProps {
   classId: string;
@@ -17,15 +32,67 @@ interface EnhancedStudentUploadProps {
 
 const EnhancedStudentUpload = ({ classId, onUpload }: EnhancedStudentUploadProps) => {
   const [file, setFile] = useState<File | null>(null);
+  const [parsedFile, setParsedFile] = useState<ParsedRosterFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadResult, setUploadResult] = useState<CSVUploadResult | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
   const { toast } = useToast();
 
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
-      setUploadResult(null); // Clear previous results
+  const resetFile = () => {
+    setFile(null);
+    setParsedFile(null);
+    setMapping(null);
+    setPreview(null);
+    // Reset file input
+    const fileInput = document.getElementById('csvFile') as HTMLInputElement;
+    if (fileInput) fileInput.value = '';
+  };
+
+  // Parse the file straight away so its columns can be mapped
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    setFile(selectedFile);
+    setParsedFile(null);
+    setMapping(null);
+    setPreview(null);
+    setFileError(null);
+    setUploadResult(null); // Clear previous results
+
+    try {
+      const parsed = await readRosterFile(selectedFile);
+      setParsedFile(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "Could not read the roster file");
+    }
+  };
+
+  const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === "none" ? null : Number(value) }));
+    setPreview(null);
+  };
+
+  // Dry run: compare the file with the current roster without writing anything
+  const handlePreview = async () => {
+    if (!parsedFile || !mapping) return;
+
+    setIsPreviewing(true);
+    try {
+      setPreview(await previewStudentImport(classId, parsedFile, mapping));
+    } catch (error) {
+      toast({
+        title: "Preview failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreviewing(false);
     }
   };
 
@@ -44,10 +111,10 @@ const EnhancedStudentUpload = ({ classId, onUpload }: EnhancedStudentUploadProps
   };
 
   const handleUpload = async () => {
-    if (!file) {
+    if (!preview) {
       toast({
-        title: "No file selected",
-        description: "Please select a CSV file to upload",
+        title: "Nothing to import",
+        description: "Select a roster file and preview the changes first",
         variant: "destructive",
       });
       return;
@@ -57,7 +124,7 @@ const EnhancedStudentUpload = ({ classId, onUpload }: EnhancedStudentUploadProps
     const progressInterval = simulateProgress();
     
     try {
-      const result = await uploadCSVToSupabase(file, classId);
+      const result = await syncRoster(classId, preview.students, preview.errors);
       
       // Complete the progress
       clearInterval(progressInterval);
@@ -91,7 +158,11 @@ const EnhancedStudentUpload = ({ classId, onUpload }: EnhancedStudentUploadProps
         recordsProcessed: 0,
         errors: [errorMessage],
         duplicatesSkipped: 0,
-        message: "Upload failed due to an error"
+        message: "Upload failed due to an error",
+        addedCount: 0,
+        updatedCount: 0,
+        unchangedCount: 0,
+        archivedCount: 0
       });
       
       toast({
@@ -101,22 +172,21 @@ const EnhancedStudentUpload = ({ classId, onUpload }: EnhancedStudentUploadProps
       });
     } finally {
       setIsUploading(false);
-      setFile(null);
-      // Reset file input
-      const fileInput = document.getElementById('csvFile') as HTMLInputElement;
-      if (fileInput) fileInput.value = '';
+      resetFile();
     }
   };
 
+  const missingFields = mapping ? getMissingFields(mapping) : [];
+
   return (
     <Card>
       <CardContent className="space-y-4">
         <div className="space-y-2">
-          <Label htmlFor="csvFile">Upload CSV File</Label>
+          <Label htmlFor="csvFile">Upload Roster File</Label>
           <Input 
             id="csvFile" 
             type="file" 
-            accept=".csv" 
+            accept=".csv,.xlsx" 
             onChange={handleFileChange}
             disabled={isUploading}
           />
@@ -126,7 +196,7 @@ const EnhancedStudentUpload = ({ classId, onUpload }: EnhancedStudentUploadProps
             <p>• <strong>Email</strong> - Student's email address</p>
             <p>• <strong>Student Number</strong> - Student's ID number (required for login)</p>
             <p className="text-amber-600 font-medium">⚠️ All three fields are required for student login</p>
-            <p>• Supported format: CSV (.csv)</p>
+            <p>• Supported formats: CSV (.csv) and Excel (.xlsx), including Moodle participant and Canvas gradebook exports; other column names can be matched after choosing the file</p>
           </div>
         </div>
 
@@ -136,20 +206,146 @@ const EnhancedStudentUpload = ({ classId, onUpload }: EnhancedStudentUploadProps
             <FileText className="h-4 w-4" />
             <AlertDescription>
               <strong>Selected file:</strong> {file.name} ({(file.size / 1024).toFixed(1)} KB)
+              {parsedFile && <> · {parsedFile.records.length} rows</>}
+              {parsedFile?.format && <Badge variant="secondary" className="ml-2">{parsedFile.format} export</Badge>}
             </AlertDescription>
           </Alert>
         )}
 
+        {fileError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{fileError}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Column Mapping */}
+        {parsedFile && mapping && !isUploading && (
+          <div className="space-y-3 rounded-md border p-4">
+            <h4 className="font-medium text-sm">Match columns</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {STUDENT_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">{label}</Label>
+                  <Select
+                    value={mapping[field] === null ? "none" : String(mapping[field])}
+                    onValueChange={(value) => handleMappingChange(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not in file</SelectItem>
+                      {parsedFile.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {missingFields.length > 0 && (
+              <p className="text-sm text-amber-600">
+                Choose a column for: {missingFields.join(", ")}
+              </p>
+            )}
+            <Button
+              variant="outline"
+              onClick={handlePreview}
+              disabled={missingFields.length > 0 || isPreviewing}
+            >
+              {isPreviewing ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Eye className="w-4 h-4 mr-2" />
+              )}
+              Preview Changes
+            </Button>
+          </div>
+        )}
+
+        {/* Dry-run Diff */}
+        {preview && !isUploading && (
+          <div className="space-y-3 rounded-md border p-4">
+            <h4 className="font-medium text-sm">Changes to the roster</h4>
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-green-600">{preview.added.length} new</Badge>
+              <Badge className="bg-blue-600">{preview.changed.length} changed</Badge>
+              <Badge variant="secondary">{preview.unchanged.length} unchanged</Badge>
+              <Badge variant="outline">{preview.archived.length} to archive</Badge>
+              <Badge variant="destructive">{preview.errors.length} rows with errors</Badge>
+            </div>
+
+            {preview.changed.length > 0 && (
+              <div className="max-h-48 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.changed.map(({ existing, incoming, fields, restored }) => (
+                      <TableRow key={existing.id}>
+                        <TableCell>{incoming.row}</TableCell>
+                        <TableCell>{existing.name}</TableCell>
+                        <TableCell className="text-xs">
+                          {restored && <div>Restored from archive</div>}
+                          {fields.map(field => (
+                            <div key={field}>
+                              {STUDENT_FIELDS.find(f => f.field === field)?.label}: {existing[field] || "—"} → {incoming[field]}
+                            </div>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {preview.added.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                New: {preview.added.slice(0, 5).map(student => student.name).join(", ")}
+                {preview.added.length > 5 && ` and ${preview.added.length - 5} more`}
+              </p>
+            )}
+
+            {preview.archived.length > 0 && (
+              <p className="text-sm text-amber-600">
+                Not in file and will be archived (open bids are withdrawn and refunded; places already drawn are kept): {preview.archived.slice(0, 5).map(student => student.name).join(", ")}
+                {preview.archived.length > 5 && ` and ${preview.archived.length - 5} more`}
+              </p>
+            )}
+
+            {preview.errors.length > 0 && (
+              <div className="max-h-32 overflow-y-auto rounded bg-red-50 p-2 text-xs text-red-700 space-y-1">
+                <div className="font-medium">
+                  Fix these rows and preview again. A row with an error may be an enrolled student, who would
+                  otherwise be archived, so the roster cannot be synced until every row is valid.
+                </div>
+                {preview.errors.map(error => (
+                  <div key={`${error.row}-${error.message}`}>{formatRowError(error)}</div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Upload Progress */}
         {isUploading && (
           <div className="space-y-2">
             <div className="flex items-center gap-2">
               <Loader2 className="w-4 h-4 animate-spin" />
-              <span className="text-sm">Replacing students in database...</span>
+              <span className="text-sm">Syncing roster...</span>
             </div>
             <Progress value={uploadProgress} className="w-full" />
             <p className="text-xs text-muted-foreground">
-              Removing existing students and uploading new data...
+              Updating changed students, adding new ones and archiving the rest in one step...
             </p>
           </div>
         )}
@@ -167,6 +363,7 @@ const EnhancedStudentUpload = ({ classId, onUpload }: EnhancedStudentUploadProps
                 <strong>{uploadResult.success ? "Success!" : "Upload Failed"}</strong>
                 <br />
                 {uploadResult.message}
+                {uploadResult.success && uploadResult.unchangedCount > 0 && ` (${uploadResult.unchangedCount} unchanged)`}
               </AlertDescription>
             </Alert>
 
@@ -175,18 +372,18 @@ const EnhancedStudentUpload = ({ classId, onUpload }: EnhancedStudentUploadProps
 
         <Button 
           onClick={handleUpload} 
-          disabled={!file || isUploading}
-          className="w-full bg-red-600 hover:bg-red-700"
+          disabled={!preview || preview.students.length === 0 || preview.errors.length > 0 || isUploading}
+          className="w-full"
         >
           {isUploading ? (
             <>
               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              Replacing Students...
+              Syncing Roster...
             </>
           ) : (
             <>
               <RefreshCw className="w-4 h-4 mr-2" />
-              Upload or Replace Students CSV Data
+              Apply Changes
             </>
           )}
         </Button>
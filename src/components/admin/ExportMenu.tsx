@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ExportFile,
+  exportBidders,
+  exportGuestList,
+  exportSelectionResults,
+  exportTokenLedger,
+} from "@/lib/exportService";
+import { ClassConfig } from "@/types";
+
+interface ExportMenuProps {
+  currentClass: ClassConfig;
+  // Exports cover one opportunity when set, otherwise the whole class
+  opportunityId?: string | null;
+}
+
+const downloadFile = ({ filename, blob }: ExportFile) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+const ExportMenu = ({ currentClass, opportunityId }: ExportMenuProps) => {
+  const [exporting, setExporting] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const runExport = async (label: string, createFile: () => Promise<ExportFile>) => {
+    setExporting(label);
+    try {
+      downloadFile(await createFile());
+    } catch (error) {
+      console.error(`Error exporting ${label}:`, error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : `Could not export ${label}`,
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const scope = opportunityId ?? undefined;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={exporting !== null}>
+          {exporting ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{opportunityId ? "This opportunity" : "Whole class"}</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => runExport("winners", () => exportSelectionResults(currentClass, scope))}>
+          Winners and waitlist (CSV)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => runExport("bidders", () => exportBidders(currentClass, scope))}>
+          Bidders with timestamps (CSV)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => runExport("token ledger", () => exportTokenLedger(currentClass, scope))}>
+          Token ledger (CSV)
+        </DropdownMenuItem>
+        {opportunityId && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => runExport("guest list", () => exportGuestList(currentClass, opportunityId))}>
+              Restaurant guest list (PDF)
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
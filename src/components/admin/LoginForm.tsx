@@ -4,42 +4,40 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { authenticateAdmin } from "@/utils/auth";
+import { signInAdmin } from "@/lib/adminAuthService";
 import { useToast } from "@/hooks/use-toast";
+import { Admin } from "@/types";
 
 interface AdminLoginProps {
-  onLogin: (isAdmin: boolean) => void;
+  onLogin: (admin: Admin) => void;
 }
 
 const AdminLoginForm = ({ onLogin }: AdminLoginProps) => {
-  const [username, setUsername] = useState("");
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
-    // Simulate API call
-    setTimeout(() => {
-      const authState = authenticateAdmin(username, password);
-      
-      if (authState.isAdmin) {
-        toast({
-          title: "Login successful",
-          description: "Welcome to the admin dashboard",
-        });
-        onLogin(true);
-      } else {
-        toast({
-          title: "Login failed",
-          description: "Invalid username or password",
-          variant: "destructive",
-        });
-      }
-      setIsLoading(false);
-    }, 800);
+    const result = await signInAdmin(email, password);
+
+    if (result.success && result.admin) {
+      toast({
+        title: "Login successful",
+        description: "Welcome to the admin dashboard",
+      });
+      onLogin(result.admin);
+    } else {
+      toast({
+        title: "Login failed",
+        description: result.errorMessage || "Invalid email or password",
+        variant: "destructive",
+      });
+    }
+    setIsLoading(false);
   };
 
   return (
@@ -53,13 +51,14 @@ const AdminLoginForm = ({ onLogin }: AdminLoginProps) => {
       <form onSubmit={handleSubmit}>
         <CardContent className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="username">Username</Label>
+            <Label htmlFor="email">Email</Label>
             <Input
-              id="username"
-              type="text"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              placeholder="Enter your username"
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Enter your instructor email"
+              autoComplete="username"
               required
               disabled={isLoading}
             />
@@ -0,0 +1,83 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { useOpportunityBiddersQuery } from "@/hooks/useClassQueries";
+
+interface OpportunityBiddersListProps {
+  classId: string;
+  opportunityId: string;
+}
+
+// Students who bid on one opportunity, loaded a page at a time so large lectures stay fast
+const OpportunityBiddersList = ({ classId, opportunityId }: OpportunityBiddersListProps) => {
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useOpportunityBiddersQuery(classId, opportunityId);
+
+  const bidders = data?.pages.flatMap(page => page.bidders) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading bidders...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">Could not load bidders: {error.message}</p>;
+  }
+
+  if (bidders.length === 0) {
+    return <p className="text-sm text-gray-500">No bids yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="bg-white rounded-md border max-h-80 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Student</TableHead>
+              <TableHead>Student Number</TableHead>
+              <TableHead>Tokens</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Bid At</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bidders.map(bidder => (
+              <TableRow key={bidder.bidId}>
+                <TableCell>
+                  <div className="font-medium">{bidder.name}</div>
+                  <div className="text-xs text-gray-500">{bidder.email}</div>
+                </TableCell>
+                <TableCell>{bidder.studentNumber || "—"}</TableCell>
+                <TableCell>{bidder.bidAmount}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="capitalize">{bidder.bidStatus}</Badge>
+                </TableCell>
+                <TableCell className="text-sm text-gray-600">
+                  {new Date(bidder.bidAt).toLocaleString()}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <span>Showing {bidders.length} of {total} bidders</span>
+        {hasNextPage && (
+          <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Load more
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OpportunityBiddersList;
@@ -1,11 +1,14 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Activity, Users, Clock, TrendingUp } from "lucide-react";
-import { useRealtimeBidSubmission } from "@/hooks/useRealtimeBidSubmission";
+import { Button } from "@/components/ui/button";
+import { Loader2, Activity, Users, Clock, TrendingUp, CalendarCheck } from "lucide-react";
+import { useRealtimeBidSubmission, ConfirmationBid } from "@/hooks/useRealtimeBidSubmission";
 import { isRecentBid } from "@/lib/bidSubmissionService";
+import { forfeitExpiredSelections } from "@/lib/selectionService";
+import { useToast } from "@/hooks/use-toast";
 import { ClassConfig } from "@/types";
 
 interface RealtimeBidMonitorProps {
@@ -17,28 +20,81 @@ const RealtimeBidMonitor = ({ currentClass, refreshInterval = 5000 }: RealtimeBi
   const [bidStats, setBidStats] = useState({
     totalBids: 0,
     lastBidTimestamp: undefined as string | undefined,
-    recentBids: [] as any[]
+    recentBids: [] as any[],
+    confirmationBids: [] as ConfirmationBid[]
   });
   const [isLoading, setIsLoading] = useState(true);
+  const [isForfeiting, setIsForfeiting] = useState(false);
   const { getClassStatistics } = useRealtimeBidSubmission();
+  const { toast } = useToast();
 
-  useEffect(() => {
-    const fetchStats = async () => {
-      try {
-        const stats = await getClassStatistics(currentClass.id);
-        setBidStats(stats);
-      } catch (error) {
-        console.error('Error fetching bid statistics:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const fetchStats = useCallback(async () => {
+    try {
+      const stats = await getClassStatistics(currentClass.id);
+      setBidStats(stats);
+    } catch (error) {
+      console.error('Error fetching bid statistics:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentClass.id, getClassStatistics]);
 
+  useEffect(() => {
     fetchStats();
     const interval = setInterval(fetchStats, refreshInterval);
 
     return () => clearInterval(interval);
-  }, [currentClass.id, getClassStatistics, refreshInterval]);
+  }, [fetchStats, refreshInterval]);
+
+  const handleForfeitExpired = async () => {
+    setIsForfeiting(true);
+
+    try {
+      const result = await forfeitExpiredSelections(currentClass.id);
+
+      if (!result.success) {
+        toast({
+          title: "Processing Failed",
+          description: result.errorMessage || "Expired confirmations could not be processed",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Expired Confirmations Processed",
+        description: `${result.forfeitedCount} place${result.forfeitedCount !== 1 ? 's' : ''} forfeited, ${result.promotedCount} filled from the waitlist`,
+      });
+      await fetchStats();
+    } finally {
+      setIsForfeiting(false);
+    }
+  };
+
+  const isPastDeadline = (confirmBy?: string | null) => !!confirmBy && new Date(confirmBy).getTime() < Date.now();
+
+  const pendingConfirmations = bidStats.confirmationBids.filter(bid => bid.bid_status === "selected");
+  const confirmedCount = bidStats.confirmationBids.filter(bid => bid.bid_status === "confirmed").length;
+  const forfeitedCount = bidStats.confirmationBids.filter(bid => bid.bid_status === "forfeited").length;
+  const expiredCount = pendingConfirmations.filter(bid => isPastDeadline(bid.confirm_by)).length;
+
+  const getBidStatusBadge = (bid: { bid_status?: string; is_winner?: boolean }) => {
+    switch (bid.bid_status) {
+      case "selected":
+        return <Badge variant="default">Pending Confirmation</Badge>;
+      case "confirmed":
+        return <Badge className="bg-green-600">Confirmed</Badge>;
+      case "forfeited":
+        return <Badge variant="destructive">Forfeited</Badge>;
+      case "waitlisted":
+        return <Badge variant="outline">Waitlisted</Badge>;
+      case "declined":
+      case "removed":
+        return <Badge variant="secondary">{bid.bid_status === "declined" ? "Declined" : "Removed"}</Badge>;
+      default:
+        return <Badge variant={bid.is_winner ? "default" : "outline"}>{bid.is_winner ? "Winner" : "Submitted"}</Badge>;
+    }
+  };
 
   const recentBidsCount = bidStats.recentBids.filter(bid => 
     isRecentBid(bid.created_at)
@@ -177,11 +233,7 @@ const RealtimeBidMonitor = ({ currentClass, refreshInterval = 5000 }: RealtimeBi
                         )}
                       </div>
                     </TableCell>
-                    <TableCell>
-                      <Badge variant={bid.is_winner ? "default" : "outline"}>
-                        {bid.is_winner ? "Winner" : "Submitted"}
-                      </Badge>
-                    </TableCell>
+                    <TableCell>{getBidStatusBadge(bid)}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -190,6 +242,61 @@ const RealtimeBidMonitor = ({ currentClass, refreshInterval = 5000 }: RealtimeBi
         </CardContent>
       </Card>
 
+      {/* Winner Confirmations */}
+      {bidStats.confirmationBids.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg font-heading flex items-center gap-2">
+                <CalendarCheck className="w-5 h-5" />
+                Winner Confirmations
+              </CardTitle>
+              <CardDescription>
+                {pendingConfirmations.length} pending, {confirmedCount} confirmed, {forfeitedCount} forfeited.
+                Places not confirmed by their deadline are forfeited to the waitlist.
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleForfeitExpired}
+              disabled={isForfeiting || expiredCount === 0}
+            >
+              {isForfeiting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Forfeit Expired ({expiredCount})
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Opportunity</TableHead>
+                  <TableHead>Confirm By</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bidStats.confirmationBids.map((bid) => (
+                  <TableRow key={bid.id}>
+                    <TableCell className="font-medium">
+                      {bid.student?.name || 'Unknown'}
+                    </TableCell>
+                    <TableCell>
+                      {bid.opportunity?.description || 'Unknown Opportunity'}
+                    </TableCell>
+                    <TableCell className={bid.bid_status === "selected" && isPastDeadline(bid.confirm_by) ? "text-red-600" : ""}>
+                      {bid.confirm_by ? new Date(bid.confirm_by).toLocaleString() : '-'}
+                    </TableCell>
+                    <TableCell>{getBidStatusBadge(bid)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Token Status Overview */}
       <Card>
         <CardHeader>
@@ -4,15 +4,22 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Users, Trophy, Activity, RefreshCw } from "lucide-react";
+import { Loader2, Users, Trophy, Activity, RefreshCw, ShieldCheck, ShieldAlert, UserMinus, ListOrdered } from "lucide-react";
 import { ClassConfig, Student } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import { formatDate } from "@/utils/dates";
+import { getAllocationModeLabel, getAllocationOrder, verifyDrawSeed } from "@/utils/selection";
 import { supabase } from "@/lib/supabase";
+import { runOpportunityDraw, removeSelectedStudent } from "@/lib/selectionService";
+import { useClassRealtime } from "@/hooks/useClassRealtime";
+import ExportMenu from "@/components/admin/ExportMenu";
 
 interface RealtimeSelectionProcessProps {
   currentClass: ClassConfig;
   onSelectionComplete: (selectedStudents: Student[], opportunityId?: string) => void;
+  // Opportunity named in the URL; the first opportunity is used when absent
+  opportunityId?: string;
+  onSelectOpportunity?: (opportunityId: string) => void;
 }
 
 interface OpportunityBidCount {
@@ -21,21 +28,42 @@ interface OpportunityBidCount {
   lastUpdated: string;
 }
 
+interface DrawProof {
+  opportunityId: string;
+  seed: string;
+  commitment: string;
+  clearingPrice?: number;
+}
+
 const RealtimeSelectionProcess = ({ 
   currentClass, 
-  onSelectionComplete 
+  onSelectionComplete,
+  opportunityId,
+  onSelectOpportunity
 }: RealtimeSelectionProcessProps) => {
-  const [selectedOpportunityId, setSelectedOpportunityId] = useState<string | null>(null);
+  const [selectedOpportunityId, setSelectedOpportunityId] = useState<string | null>(opportunityId || null);
   const [bidCounts, setBidCounts] = useState<Record<string, OpportunityBidCount>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isSelecting, setIsSelecting] = useState(false);
   const [selectedStudents, setSelectedStudents] = useState<Student[]>([]);
+  const [waitlist, setWaitlist] = useState<Student[]>([]);
+  const [removingStudentId, setRemovingStudentId] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [drawProof, setDrawProof] = useState<DrawProof | null>(null);
+  // Set when the server's result fails verification; its winners are never shown
+  const [failedProof, setFailedProof] = useState<DrawProof | null>(null);
   
   const { toast } = useToast();
   
   const bidOpportunities = currentClass.bidOpportunities || [];
 
+  // Follow the opportunity in the URL
+  useEffect(() => {
+    if (opportunityId) {
+      setSelectedOpportunityId(opportunityId);
+    }
+  }, [opportunityId]);
+
   // Initialize with first opportunity
   useEffect(() => {
     if (bidOpportunities.length > 0 && !selectedOpportunityId) {
@@ -43,6 +71,11 @@ const RealtimeSelectionProcess = ({
     }
   }, [bidOpportunities, selectedOpportunityId]);
 
+  const handleSelectOpportunity = (id: string) => {
+    setSelectedOpportunityId(id);
+    onSelectOpportunity?.(id);
+  };
+
   // Fetch bid counts for all opportunities
   const fetchBidCounts = async () => {
     if (bidOpportunities.length === 0) {
@@ -84,61 +117,32 @@ const RealtimeSelectionProcess = ({
     }
   };
 
-  // Subscribe to real-time bid updates
   useEffect(() => {
-    if (bidOpportunities.length === 0) return;
-
-    const channels = bidOpportunities.map(opportunity => {
-      const channel = supabase
-        .channel(`bids-${opportunity.id}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'bids',
-            filter: `opportunity_id=eq.${opportunity.id}`,
-          },
-          (payload) => {
-            console.log('Real-time bid update:', payload);
-            
-            setBidCounts(prev => {
-              const current = prev[opportunity.id] || { opportunityId: opportunity.id, bidCount: 0, lastUpdated: '' };
-              
-              let newCount = current.bidCount;
-              if (payload.eventType === 'INSERT') {
-                newCount += 1;
-                toast({
-                  title: "New Bid Placed",
-                  description: `A student has placed a bid for ${opportunity.title}`,
-                });
-              } else if (payload.eventType === 'DELETE') {
-                newCount = Math.max(0, newCount - 1);
-              }
-              
-              return {
-                ...prev,
-                [opportunity.id]: {
-                  opportunityId: opportunity.id,
-                  bidCount: newCount,
-                  lastUpdated: new Date().toISOString()
-                }
-              };
-            });
-          }
-        )
-        .subscribe();
-
-      return channel;
-    });
-
-    // Initial fetch
     fetchBidCounts();
-
-    return () => {
-      channels.forEach(channel => supabase.removeChannel(channel));
-    };
-  }, [bidOpportunities, toast]);
+  }, [bidOpportunities]);
+
+  // Counts follow the class statistics, which the realtime hub refetches after bid changes
+  useClassRealtime(currentClass.id, "statistics", (statistics) => {
+    const lastUpdated = new Date().toISOString();
+    setBidCounts(Object.fromEntries(
+      statistics.opportunities.map(opportunity => [
+        opportunity.opportunityId,
+        { opportunityId: opportunity.opportunityId, bidCount: opportunity.bidCount, lastUpdated }
+      ])
+    ));
+  });
+
+  useClassRealtime(currentClass.id, "bids", (change) => {
+    if (change.eventType !== 'INSERT') return;
+
+    const opportunity = bidOpportunities.find(opp => opp.id === change.new.opportunity_id);
+    if (opportunity) {
+      toast({
+        title: "New Bid Placed",
+        description: `A student has placed a bid for ${opportunity.title}`,
+      });
+    }
+  });
 
   // Manual refresh function
   const handleRefresh = async () => {
@@ -174,43 +178,60 @@ const RealtimeSelectionProcess = ({
     }
 
     setIsSelecting(true);
+    setFailedProof(null);
 
     try {
-      // Fetch actual bidders from database
-      const { data: bids, error } = await supabase
-        .from('bids')
-        .select(`
-          id,
-          student:students(id, name, email, student_number)
-        `)
-        .eq('opportunity_id', selectedOpportunityId);
-
-      if (error) throw error;
-
-      const bidders: Student[] = (bids || []).map(bid => ({
-        id: bid.student.id,
-        name: bid.student.name,
-        email: bid.student.email,
-        studentNumber: bid.student.student_number,
-        hasUsedToken: true,
-        hasBid: true
-      }));
-
-      // Simulate selection process with animation
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // Random selection
-      const selectedOpportunity = bidOpportunities.find(opp => opp.id === selectedOpportunityId);
-      const capacity = selectedOpportunity?.capacity || currentClass.capacity;
-      const selectedCount = Math.min(capacity, bidders.length);
-      const shuffled = [...bidders].sort(() => Math.random() - 0.5);
-      const selected = shuffled.slice(0, selectedCount);
+      // Draw on the server so concurrent admins always see the same winners
+      const result = await runOpportunityDraw(selectedOpportunityId);
+
+      if (!result.success) {
+        toast({
+          title: "Selection Failed",
+          description: result.errorMessage || "The draw could not be completed",
+          variant: "destructive",
+        });
+        return;
+      }
 
+      // Re-run the draw locally to confirm the server honoured the committed seed
+      const isSeedValid = await verifyDrawSeed(result.drawSeed || '', result.drawSeedHash || '');
+      const localOrder = getAllocationOrder(
+        (result.drawOrder || []).map((id, index) => ({ id, weight: result.drawWeights?.[index] || 1 })),
+        result.drawSeed || '',
+        result.allocationMode,
+        entrant => entrant.weight
+      ).map(entrant => entrant.id);
+      const isOrderValid = localOrder.join(',') === (result.drawOrder || []).join(',');
+
+      const proof: DrawProof = {
+        opportunityId: selectedOpportunityId,
+        seed: result.drawSeed || '',
+        commitment: result.drawSeedHash || '',
+        clearingPrice: result.clearingPrice
+      };
+
+      if (!isSeedValid || !isOrderValid) {
+        setDrawProof(null);
+        setSelectedStudents([]);
+        setWaitlist([]);
+        setFailedProof(proof);
+        toast({
+          title: "Draw Verification Failed",
+          description: "The draw result does not match the published commitment",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const selected = result.winners || [];
+
+      setDrawProof(proof);
       setSelectedStudents(selected);
+      setWaitlist(result.waitlist || []);
       onSelectionComplete(selected, selectedOpportunityId);
 
       toast({
-        title: "Selection Complete",
+        title: result.alreadyDrawn ? "Selection Already Completed" : "Selection Complete",
         description: `${selected.length} student${selected.length !== 1 ? 's' : ''} selected successfully`,
       });
 
@@ -226,14 +247,53 @@ const RealtimeSelectionProcess = ({
     }
   };
 
+  const handleRemoveStudent = async (student: Student) => {
+    if (!selectedOpportunityId) return;
+
+    setRemovingStudentId(student.id);
+
+    try {
+      const result = await removeSelectedStudent(selectedOpportunityId, student.id);
+
+      if (!result.success) {
+        toast({
+          title: "Removal Failed",
+          description: result.errorMessage || "The student could not be removed",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Move the promoted student from the waitlist into the selected list
+      const promoted = waitlist.find(s => s.id === result.promotedStudentId);
+      const updatedSelected = [
+        ...selectedStudents.filter(s => s.id !== student.id),
+        ...(promoted ? [{ ...promoted, isSelected: true }] : [])
+      ];
+
+      setSelectedStudents(updatedSelected);
+      setWaitlist(waitlist.filter(s => s.id !== result.promotedStudentId));
+      onSelectionComplete(updatedSelected, selectedOpportunityId);
+
+      toast({
+        title: "Student Removed",
+        description: promoted
+          ? `${student.name} was removed and ${promoted.name} has been promoted from the waitlist`
+          : `${student.name} was removed. The waitlist is empty, so the place is unfilled`,
+      });
+    } finally {
+      setRemovingStudentId(null);
+    }
+  };
+
   const resetSelection = () => {
     setSelectedStudents([]);
-    if (selectedOpportunityId) {
-      onSelectionComplete([], selectedOpportunityId);
-    }
+    setWaitlist([]);
+    setDrawProof(null);
+    setFailedProof(null);
     toast({
-      title: "Selection Reset",
-      description: "The selection has been cleared",
+      title: "View Cleared",
+      description: "The saved draw result is unchanged",
     });
   };
 
@@ -266,18 +326,21 @@ const RealtimeSelectionProcess = ({
               Selection Process - Real-time Monitoring
             </CardTitle>
           </div>
-          <Button 
-            onClick={handleRefresh} 
-            disabled={isRefreshing || isLoading}
-            variant="outline"
-            size="sm"
-          >
-            {isRefreshing ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              <RefreshCw className="w-4 h-4" />
-            )}
-          </Button>
+          <div className="flex items-center gap-2">
+            <ExportMenu currentClass={currentClass} opportunityId={selectedOpportunityId} />
+            <Button 
+              onClick={handleRefresh} 
+              disabled={isRefreshing || isLoading}
+              variant="outline"
+              size="sm"
+            >
+              {isRefreshing ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <RefreshCw className="w-4 h-4" />
+              )}
+            </Button>
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
           <div>
@@ -286,7 +349,7 @@ const RealtimeSelectionProcess = ({
             </label>
             <Select 
               value={selectedOpportunityId || ''} 
-              onValueChange={setSelectedOpportunityId}
+              onValueChange={handleSelectOpportunity}
               disabled={isLoading}
             >
               <SelectTrigger className="w-full">
@@ -336,6 +399,10 @@ const RealtimeSelectionProcess = ({
                   <span className="text-muted-foreground">Capacity:</span>
                   <div className="font-medium">{selectedOpportunity.capacity || currentClass.capacity} students</div>
                 </div>
+                <div>
+                  <span className="text-muted-foreground">Allocation:</span>
+                  <div className="font-medium">{getAllocationModeLabel(selectedOpportunity.allocationMode)}</div>
+                </div>
               </div>
 
               <div className="text-sm">
@@ -349,7 +416,11 @@ const RealtimeSelectionProcess = ({
                 <AlertDescription>
                   <strong>{currentBidCount} students</strong> have placed bids for this opportunity.
                   {currentBidCount > (selectedOpportunity.capacity || currentClass.capacity) ? (
-                    <span className="text-blue-600 font-medium"> Random selection will be required.</span>
+                    <span className="text-blue-600 font-medium">
+                      {selectedOpportunity.allocationMode === "uniform_price"
+                        ? " The highest bids will win."
+                        : " Random selection will be required."}
+                    </span>
                   ) : currentBidCount > 0 ? (
                     <span className="text-green-600 font-medium"> All bidders can be selected.</span>
                   ) : (
@@ -358,6 +429,12 @@ const RealtimeSelectionProcess = ({
                 </AlertDescription>
               </Alert>
 
+              {selectedOpportunity.drawSeedHash && (
+                <div className="text-xs text-muted-foreground break-all">
+                  Draw commitment (SHA-256): <span className="font-mono">{selectedOpportunity.drawSeedHash}</span>
+                </div>
+              )}
+
               {bidCounts[selectedOpportunity.id]?.lastUpdated && (
                 <div className="text-xs text-muted-foreground">
                   Last updated: {new Date(bidCounts[selectedOpportunity.id].lastUpdated).toLocaleTimeString()}
@@ -385,7 +462,7 @@ const RealtimeSelectionProcess = ({
             ) : (
               <>
                 <Trophy className="w-6 h-6 mr-3" />
-                Start Random Selection
+                Start Seeded Selection
               </>
             )}
           </Button>
@@ -396,7 +473,7 @@ const RealtimeSelectionProcess = ({
             size="lg"
             className="px-12 py-6 text-xl font-semibold"
           >
-            Reset Selection
+            Clear Results
           </Button>
         )}
       </div>
@@ -415,8 +492,24 @@ const RealtimeSelectionProcess = ({
               {selectedStudents.map((student) => (
                 <div 
                   key={student.id} 
-                  className="p-6 bg-green-50 border-2 border-green-200 rounded-lg text-center"
+                  className="relative p-6 bg-green-50 border-2 border-green-200 rounded-lg text-center"
                 >
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="absolute top-2 right-2 text-red-600 hover:text-red-700"
+                    onClick={() => handleRemoveStudent(student)}
+                    disabled={removingStudentId !== null}
+                  >
+                    {removingStudentId === student.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <>
+                        <UserMinus className="w-4 h-4 mr-1" />
+                        Remove
+                      </>
+                    )}
+                  </Button>
                   <div className="text-2xl font-bold text-green-800 mb-2">
                     🎉 {student.name}
                   </div>
@@ -436,7 +529,69 @@ const RealtimeSelectionProcess = ({
                   🎊 Congratulations! {selectedStudents.length} student{selectedStudents.length !== 1 ? 's have' : ' has'} been selected!
                 </p>
               </div>
+
+              {waitlist.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium flex items-center gap-2">
+                    <ListOrdered className="w-4 h-4" />
+                    Waitlist
+                  </h4>
+                  {waitlist.map((student, index) => (
+                    <div key={student.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
+                      <div>
+                        <div className="font-medium">{student.name}</div>
+                        <div className="text-xs text-muted-foreground">{student.email}</div>
+                      </div>
+                      <Badge variant="outline">#{index + 1}</Badge>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    When a selected student declines or is removed, the next student on the waitlist is promoted automatically.
+                  </p>
+                </div>
+              )}
+
+              {drawProof && (
+                <Alert>
+                  <ShieldCheck className="h-4 w-4" />
+                  <AlertDescription className="space-y-1 break-all">
+                    <div>
+                      <strong>Verifiable draw.</strong> Students can re-run the draw with the revealed seed and confirm the winners.
+                      <span className="text-green-600"> Result verified in this browser.</span>
+                    </div>
+                    {drawProof.clearingPrice !== undefined && (
+                      <div className="text-xs">
+                        Clearing price: <strong>{drawProof.clearingPrice} token{drawProof.clearingPrice !== 1 ? 's' : ''}</strong> per winner.
+                        Tokens above the clearing price and all losing bids have been refunded.
+                      </div>
+                    )}
+                    <div className="text-xs">
+                      Seed: <span className="font-mono">{drawProof.seed}</span>
+                    </div>
+                    <div className="text-xs">
+                      Commitment: <span className="font-mono">{drawProof.commitment}</span>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
             </div>
+          ) : failedProof && failedProof.opportunityId === selectedOpportunityId ? (
+            <Alert variant="destructive">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertDescription className="space-y-1 break-all">
+                <div>
+                  <strong>Draw verification failed.</strong> The server's result does not match the published
+                  commitment, so no winners are shown. Do not announce this draw; check the seed below against
+                  the commitment published before bidding opened.
+                </div>
+                <div className="text-xs">
+                  Seed: <span className="font-mono">{failedProof.seed}</span>
+                </div>
+                <div className="text-xs">
+                  Commitment: <span className="font-mono">{failedProof.commitment}</span>
+                </div>
+              </AlertDescription>
+            </Alert>
           ) : (
             <div className="text-center py-12">
               <div className="text-6xl mb-4">🎯</div>
@@ -444,7 +599,7 @@ const RealtimeSelectionProcess = ({
                 No students selected yet
               </p>
               <p className="text-gray-400">
-                Select an opportunity and click "Start Random Selection" to begin
+                Select an opportunity and click "Start Seeded Selection" to begin
               </p>
             </div>
           )}
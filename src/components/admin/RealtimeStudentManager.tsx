@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -6,17 +7,18 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Users, Activity, RefreshCw, Coins } from "lucide-react";
+import { Loader2, Users, Activity, RefreshCw, Coins, ScrollText } from "lucide-react";
 import { ClassConfig, Student } from "@/types";
-import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
+import { invalidateClass, useTokenLedgerQuery } from "@/hooks/useClassQueries";
+import { useClassRealtime } from "@/hooks/useClassRealtime";
+import { ClassRealtimeEvents } from "@/lib/realtimeHub";
 
 interface RealtimeStudentManagerProps {
   currentClass: ClassConfig;
-  onStudentUpdate: (students: Student[]) => void;
 }
 
-const RealtimeStudentManager = ({ currentClass, onStudentUpdate }: RealtimeStudentManagerProps) => {
+const RealtimeStudentManager = ({ currentClass }: RealtimeStudentManagerProps) => {
   const [students, setStudents] = useState<Student[]>(currentClass.students);
   const [searchQuery, setSearchQuery] = useState("");
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -28,51 +30,30 @@ const RealtimeStudentManager = ({ currentClass, onStudentUpdate }: RealtimeStude
   
   const { toast } = useToast();
 
-  // Subscribe to real-time student updates
-  useEffect(() => {
-    const channel = supabase
-      .channel(`class-students-${currentClass.id}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'students',
-          filter: `class_id=eq.${currentClass.id}`,
-        },
-        (payload) => {
-          console.log('Student update received:', payload);
-          handleStudentUpdate(payload);
-        }
-      )
-      .subscribe();
+  const queryClient = useQueryClient();
+  // Refetched with the class whenever a balance changes; see useClassRealtimeInvalidation
+  const { data: ledger = [] } = useTokenLedgerQuery(currentClass.id);
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [currentClass.id]);
+  // The roster is refetched from the database after every change, so follow it
+  useEffect(() => {
+    setStudents(currentClass.students);
+  }, [currentClass.students]);
 
-  // Handle real-time student updates
-  const handleStudentUpdate = (payload: any) => {
+  // Handle real-time enrolment updates. Enrolment rows carry balances but not names, so
+  // new students arrive with the refetched roster instead.
+  const handleStudentUpdate = (payload: ClassRealtimeEvents["students"]) => {
     const { eventType, new: newRecord, old: oldRecord } = payload;
     
     setStudents(prevStudents => {
       let updatedStudents = [...prevStudents];
       
       switch (eventType) {
-        case 'INSERT':
-          const newStudent: Student = {
-            id: newRecord.id,
-            name: newRecord.name,
-            email: newRecord.email,
-            studentNumber: newRecord.student_number,
-            hasUsedToken: newRecord.tokens_remaining <= 0,
-            hasBid: newRecord.token_status === 'used'
-          };
-          updatedStudents.push(newStudent);
-          break;
-          
         case 'UPDATE':
+          if (newRecord.archived_at) {
+            updatedStudents = updatedStudents.filter(student => student.id !== newRecord.id);
+            break;
+          }
+
           updatedStudents = updatedStudents.map(student => {
             if (student.id === newRecord.id) {
               const wasTokenAvailable = !student.hasUsedToken;
@@ -82,16 +63,14 @@ const RealtimeStudentManager = ({ currentClass, onStudentUpdate }: RealtimeStude
               if (wasTokenAvailable && isTokenNowUsed) {
                 toast({
                   title: "Token Status Updated",
-                  description: `${newRecord.name} has used their token`,
+                  description: `${student.name} has used their token`,
                 });
               }
               
               return {
                 ...student,
-                name: newRecord.name,
-                email: newRecord.email,
-                studentNumber: newRecord.student_number,
                 hasUsedToken: isTokenNowUsed,
+                tokensRemaining: newRecord.tokens_remaining,
                 hasBid: newRecord.token_status === 'used'
               };
             }
@@ -104,13 +83,12 @@ const RealtimeStudentManager = ({ currentClass, onStudentUpdate }: RealtimeStude
           break;
       }
       
-      // Update parent component
-      onStudentUpdate(updatedStudents);
-      
       return updatedStudents;
     });
   };
 
+  useClassRealtime(currentClass.id, "students", handleStudentUpdate);
+
   // Calculate token statistics
   useEffect(() => {
     const total = students.length;
@@ -124,25 +102,8 @@ const RealtimeStudentManager = ({ currentClass, onStudentUpdate }: RealtimeStude
   const refreshStudentData = async () => {
     setIsRefreshing(true);
     try {
-      const { data: studentsData, error } = await supabase
-        .from('students')
-        .select('*')
-        .eq('class_id', currentClass.id)
-        .order('name');
-
-      if (error) throw error;
-
-      const updatedStudents: Student[] = (studentsData || []).map(student => ({
-        id: student.id,
-        name: student.name,
-        email: student.email,
-        studentNumber: student.student_number,
-        hasUsedToken: student.tokens_remaining <= 0,
-        hasBid: student.token_status === 'used'
-      }));
-
-      setStudents(updatedStudents);
-      onStudentUpdate(updatedStudents);
+      // Refetches the roster and the token ledger together
+      await invalidateClass(queryClient, currentClass.id);
       
       toast({
         title: "Data Refreshed",
@@ -290,7 +251,9 @@ const RealtimeStudentManager = ({ currentClass, onStudentUpdate }: RealtimeStude
                         </Badge>
                       ) : (
                         <Badge className="bg-green-100 text-green-800">
-                          Token Available
+                          {student.tokensRemaining !== undefined
+                            ? `${student.tokensRemaining} Token${student.tokensRemaining !== 1 ? 's' : ''}`
+                            : 'Token Available'}
                         </Badge>
                       )}
                     </TableCell>
@@ -308,6 +271,55 @@ const RealtimeStudentManager = ({ currentClass, onStudentUpdate }: RealtimeStude
           )}
         </CardContent>
       </Card>
+
+      {/* Token Ledger */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-heading flex items-center gap-2">
+            <ScrollText className="w-5 h-5" />
+            Token Ledger
+          </CardTitle>
+          <CardDescription>
+            Every bid, refund and top-up applied to students in this class
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {ledger.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">
+              No token activity yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ledger.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-xs">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="font-medium">{entry.studentName}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.type === 'bid' ? 'outline' : 'secondary'} className="capitalize">
+                        {entry.type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className={entry.amount < 0 ? "text-red-600" : "text-green-600"}>
+                      {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{entry.description}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
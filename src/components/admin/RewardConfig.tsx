@@ -3,14 +3,27 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ClassConfig } from "@/types";
+import { Loader2 } from "lucide-react";
+import { ClassConfig, TokenPolicy } from "@/types";
+import { useApplyTermTopUp } from "@/hooks/useClassQueries";
+import { formatDate } from "@/utils/dates";
+import { useToast } from "@/hooks/use-toast";
 
 interface RewardConfigProps {
   currentClass: ClassConfig | null;
   onUpdate: (updatedConfig: Partial<ClassConfig>) => void;
 }
 
+const DEFAULT_TOKEN_POLICY: TokenPolicy = {
+  initialTokens: 1,
+  refundLosingBids: false,
+  termTopUp: false,
+  maxBalance: 1
+};
+
 const RewardConfig = ({ currentClass, onUpdate }: RewardConfigProps) => {
   const [rewardTitle, setRewardTitle] = useState(currentClass?.rewardTitle || "Dinner with Professor");
   const [rewardDescription, setRewardDescription] = useState(
@@ -18,24 +31,56 @@ const RewardConfig = ({ currentClass, onUpdate }: RewardConfigProps) => {
     "Join the professor for dinner and discussion at a local restaurant."
   );
   const [capacity, setCapacity] = useState(currentClass?.capacity || 7);
+  const [tokenPolicy, setTokenPolicy] = useState<TokenPolicy>(currentClass?.tokenPolicy || DEFAULT_TOKEN_POLICY);
+  const termTopUpMutation = useApplyTermTopUp();
+  const isToppingUp = termTopUpMutation.isPending;
+  const { toast } = useToast();
 
   useEffect(() => {
     if (currentClass) {
       setRewardTitle(currentClass.rewardTitle);
       setRewardDescription(currentClass.rewardDescription);
       setCapacity(currentClass.capacity);
+      setTokenPolicy(currentClass.tokenPolicy || DEFAULT_TOKEN_POLICY);
     }
   }, [currentClass]);
 
+  const updatePolicy = (changes: Partial<TokenPolicy>) => {
+    setTokenPolicy(prev => ({ ...prev, ...changes }));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onUpdate({
       rewardTitle,
       rewardDescription,
-      capacity
+      capacity,
+      tokenPolicy: {
+        ...tokenPolicy,
+        // A student must always be able to hold their initial tokens
+        maxBalance: Math.max(tokenPolicy.maxBalance, tokenPolicy.initialTokens, 1)
+      }
     });
   };
 
+  const handleTermTopUp = async () => {
+    if (!currentClass) return;
+
+    try {
+      const result = await termTopUpMutation.mutateAsync(currentClass.id);
+      toast({
+        title: "Term Top-up Applied",
+        description: `${result.tokensAdded} token${result.tokensAdded !== 1 ? 's' : ''} added across ${result.studentsToppedUp} student${result.studentsToppedUp !== 1 ? 's' : ''}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Top-up Failed",
+        description: error instanceof Error ? error.message : "The term top-up could not be applied",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -85,6 +130,85 @@ const RewardConfig = ({ currentClass, onUpdate }: RewardConfigProps) => {
             </p>
           </div>
           
+          <Separator />
+          
+          <div className="space-y-4">
+            <h3 className="font-medium">Token Policy</h3>
+            
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="initialTokens">Initial Tokens</Label>
+                <Input
+                  id="initialTokens"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={tokenPolicy.initialTokens}
+                  onChange={(e) => updatePolicy({ initialTokens: Math.max(0, parseInt(e.target.value) || 0) })}
+                  required
+                />
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="maxBalance">Maximum Balance</Label>
+                <Input
+                  id="maxBalance"
+                  type="number"
+                  min={Math.max(1, tokenPolicy.initialTokens)}
+                  max={100}
+                  value={tokenPolicy.maxBalance}
+                  onChange={(e) => updatePolicy({ maxBalance: Math.max(1, parseInt(e.target.value) || 1) })}
+                  required
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              New students start with the initial tokens. Top-ups never take a student above the maximum balance; refunds return spent tokens in full.
+            </p>
+            
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="refundLosingBids">Refund losing bids</Label>
+                <p className="text-xs text-muted-foreground">
+                  Students not selected in a lottery get their tokens back. Sealed-bid auctions always refund losing bids.
+                </p>
+              </div>
+              <Switch
+                id="refundLosingBids"
+                checked={tokenPolicy.refundLosingBids}
+                onCheckedChange={(checked) => updatePolicy({ refundLosingBids: checked })}
+              />
+            </div>
+            
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="termTopUp">Top up each term</Label>
+                <p className="text-xs text-muted-foreground">
+                  Adds the initial tokens to every student when you apply a term top-up.
+                </p>
+              </div>
+              <Switch
+                id="termTopUp"
+                checked={tokenPolicy.termTopUp}
+                onCheckedChange={(checked) => updatePolicy({ termTopUp: checked })}
+              />
+            </div>
+            
+            {currentClass?.tokenPolicy?.termTopUp && (
+              <div className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-md">
+                <p className="text-xs text-muted-foreground">
+                  {currentClass.tokenPolicy.lastTopUpAt
+                    ? `Last top-up: ${formatDate(currentClass.tokenPolicy.lastTopUpAt)}`
+                    : "No term top-up has been applied yet"}
+                </p>
+                <Button type="button" variant="outline" size="sm" onClick={handleTermTopUp} disabled={isToppingUp}>
+                  {isToppingUp && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Apply Term Top-up
+                </Button>
+              </div>
+            )}
+          </div>
+          
           <Button type="submit" className="w-full">Save Configuration</Button>
         </form>
       </CardContent>
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Lock } from "lucide-react";
+import { ClassConfig } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { verifyClassPassword } from "@/lib/studentBidService";
+
+interface ClassPasswordPromptProps {
+  classConfig: ClassConfig;
+  onVerified: (classPassword: string) => void;
+}
+
+const ClassPasswordPrompt = ({ classConfig, onVerified }: ClassPasswordPromptProps) => {
+  const [password, setPassword] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+
+    const result = await verifyClassPassword(classConfig.id, password);
+
+    if (result.success) {
+      onVerified(password);
+    } else {
+      toast({
+        title: "Incorrect password",
+        description: result.errorMessage || "Please check the password your instructor gave you",
+        variant: "destructive",
+      });
+    }
+    setIsVerifying(false);
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="text-lg font-heading flex items-center gap-2">
+          <Lock className="w-5 h-5" />
+          Enter Class Password
+        </CardTitle>
+        <CardDescription>
+          Your instructor shares a password for {classConfig.className}. Enter it once to bid or rank opportunities.
+        </CardDescription>
+      </CardHeader>
+      <form onSubmit={handleSubmit}>
+        <CardContent>
+          <div className="space-y-2">
+            <Label htmlFor="class-password">Class Password</Label>
+            <Input
+              id="class-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              disabled={isVerifying}
+            />
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" className="w-full" disabled={isVerifying || !password}>
+            {isVerifying ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Checking...
+              </>
+            ) : (
+              "Continue"
+            )}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+};
+
+export default ClassPasswordPrompt;
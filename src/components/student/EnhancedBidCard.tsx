@@ -1,25 +1,87 @@
 import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2, Shield, Clock, CheckCircle, AlertTriangle, Coins } from "lucide-react";
 import { Student, ClassConfig, BidOpportunity } from "@/types";
 import { useStudentBidding } from "@/hooks/useStudentBidding";
 import { formatDate, getBidOpportunityStatus } from "@/utils/dates";
+import { getAllocationModeLabel } from "@/utils/selection";
+import { respondToSelection } from "@/lib/studentBidService";
+import { queryKeys } from "@/lib/queryKeys";
+import { useToast } from "@/hooks/use-toast";
+import { useStudentSelectionsQuery } from "@/hooks/useClassQueries";
 
 interface EnhancedBidCardProps {
   student: Student;
   classConfig: ClassConfig;
+  classPassword: string; // Verified by the student for this class; not part of ClassConfig
   onBidSubmitted?: (bidId: string, updatedStudent: Student, opportunityId: string) => void;
+  onBidWithdrawn?: (updatedStudent: Student, opportunityId: string) => void;
 }
 
-const EnhancedBidCard = ({ student, classConfig, onBidSubmitted }: EnhancedBidCardProps) => {
+const EnhancedBidCard = ({ student, classConfig, classPassword, onBidSubmitted, onBidWithdrawn }: EnhancedBidCardProps) => {
   const [activeTab, setActiveTab] = useState("opportunity-0");
-  const { isSubmitting, student: currentStudent, lastBidResponse, error, submitBid } = useStudentBidding(student);
+  const [bidAmounts, setBidAmounts] = useState<Record<string, number>>({});
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const { isSubmitting, isWithdrawing, student: currentStudent, lastBidResponse, error, submitBid, withdrawBid } = useStudentBidding(student);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   
   const bidOpportunities = classConfig.bidOpportunities || [];
+  const tokensAvailable = currentStudent?.tokensRemaining ?? (currentStudent?.hasUsedToken ? 0 : 1);
+
+  const getBidAmount = (opportunityId: string) => {
+    return Math.min(Math.max(1, bidAmounts[opportunityId] || 1), Math.max(1, tokensAvailable));
+  };
+
+  // Refetched whenever one of the student's bids changes; see useClassRealtimeInvalidation
+  const { data: selectionStatuses = [] } = useStudentSelectionsQuery(currentStudent?.id);
+
+  const refreshSelectionStatuses = () => {
+    if (currentStudent?.id) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.student(currentStudent.id) });
+    }
+  };
+
+  const handleRespond = async (opportunityId: string, accept: boolean) => {
+    if (!currentStudent) return;
+
+    setRespondingTo(opportunityId);
+
+    const response = await respondToSelection({
+      studentId: currentStudent.id,
+      opportunityId,
+      classPassword,
+      accept
+    });
+
+    setRespondingTo(null);
+
+    if (response.success) {
+      refreshSelectionStatuses();
+      toast({
+        title: accept ? "Attendance Confirmed" : "Place Declined",
+        description: accept
+          ? "See you there! Your attendance has been confirmed."
+          : "Your place has been offered to the next student on the waitlist.",
+      });
+    } else {
+      if (response.bidStatus === "forfeited") {
+        refreshSelectionStatuses();
+      }
+      toast({
+        title: response.bidStatus === "forfeited" ? "Place Forfeited" : "Response Failed",
+        description: response.errorMessage || "Your response could not be saved",
+        variant: "destructive",
+      });
+    }
+  };
 
   const handleSubmitBid = async (opportunityId: string) => {
     if (!currentStudent || currentStudent.hasUsedToken) return;
@@ -27,14 +89,31 @@ const EnhancedBidCard = ({ student, classConfig, onBidSubmitted }: EnhancedBidCa
     const response = await submitBid({
       studentId: currentStudent.id,
       opportunityId,
-      classPassword: classConfig.password
+      classPassword,
+      bidAmount: getBidAmount(opportunityId)
     });
 
     if (response.success && response.bidId && response.updatedStudent) {
+      refreshSelectionStatuses();
       onBidSubmitted?.(response.bidId, response.updatedStudent, opportunityId);
     }
   };
 
+  const handleWithdrawBid = async (opportunityId: string) => {
+    if (!currentStudent) return;
+
+    const response = await withdrawBid({
+      studentId: currentStudent.id,
+      opportunityId,
+      classPassword
+    });
+
+    if (response.success && response.updatedStudent) {
+      refreshSelectionStatuses();
+      onBidWithdrawn?.(response.updatedStudent, opportunityId);
+    }
+  };
+
   if (bidOpportunities.length === 0) {
     return (
       <Card className="w-full max-w-md">
@@ -70,7 +149,7 @@ const EnhancedBidCard = ({ student, classConfig, onBidSubmitted }: EnhancedBidCa
               </Badge>
             ) : (
               <Badge className="bg-green-100 text-green-800">
-                Token Available
+                {tokensAvailable} Token{tokensAvailable !== 1 ? 's' : ''} Available
               </Badge>
             )}
           </div>
@@ -100,10 +179,17 @@ const EnhancedBidCard = ({ student, classConfig, onBidSubmitted }: EnhancedBidCa
           
           {bidOpportunities.map((opportunity, index) => {
             const hasStudentBid = opportunity.bidders?.some(bidder => bidder.id === currentStudent?.id);
-            const isStudentSelected = opportunity.selectedStudents?.some(s => s.id === currentStudent?.id);
+            const selectionStatus = selectionStatuses.find(status => status.opportunityId === opportunity.id);
+            const isStudentSelected = selectionStatus
+              ? selectionStatus.isWinner
+              : opportunity.selectedStudents?.some(s => s.id === currentStudent?.id);
             const canSubmitBid = !currentStudent?.hasUsedToken && 
                                getBidOpportunityStatus(opportunity) === "Open for Bidding" &&
                                !hasStudentBid;
+            // Only bids that have not been drawn can be withdrawn, and only while bidding is open
+            const canWithdrawBid = hasStudentBid &&
+                                   getBidOpportunityStatus(opportunity) === "Open for Bidding" &&
+                                   (!selectionStatus || selectionStatus.bidStatus === "placed");
 
             return (
               <TabsContent key={opportunity.id} value={`opportunity-${index}`}>
@@ -118,6 +204,11 @@ const EnhancedBidCard = ({ student, classConfig, onBidSubmitted }: EnhancedBidCa
                     <span className="font-medium">{formatDate(opportunity.date)}</span>
                   </div>
                   
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">Bidding Closes:</span>
+                    <span className="font-medium">{formatDate(opportunity.closesAt || opportunity.date)}</span>
+                  </div>
+                  
                   <div className="flex justify-between items-center">
                     <span className="text-sm">Status:</span>
                     <Badge variant={getBidOpportunityStatus(opportunity) === "Open for Bidding" ? "default" : "secondary"}>
@@ -130,17 +221,55 @@ const EnhancedBidCard = ({ student, classConfig, onBidSubmitted }: EnhancedBidCa
                     <Badge variant="outline">{opportunity.capacity || classConfig.capacity} students</Badge>
                   </div>
                   
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">Allocation:</span>
+                    <Badge variant="outline">{getAllocationModeLabel(opportunity.allocationMode)}</Badge>
+                  </div>
+                  
+                  {opportunity.clearingPrice !== undefined && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm">Clearing Price:</span>
+                      <Badge variant="outline">{opportunity.clearingPrice} token{opportunity.clearingPrice !== 1 ? 's' : ''}</Badge>
+                    </div>
+                  )}
+                  
                   <div className="flex justify-between items-center">
                     <span className="text-sm">Current Bids:</span>
-                    <Badge variant="outline">{opportunity.bidders?.length || 0} students</Badge>
+                    <Badge variant="outline">{opportunity.bidCount ?? opportunity.bidders?.length ?? 0} students</Badge>
                   </div>
                   
+                  {/* Draw Commitment */}
+                  {opportunity.drawSeedHash && (
+                    <div className="p-2 bg-gray-50 rounded-md text-xs text-muted-foreground break-all space-y-1">
+                      <div>
+                        Draw commitment: <span className="font-mono">{opportunity.drawSeedHash}</span>
+                      </div>
+                      {opportunity.drawSeed ? (
+                        <div>
+                          Revealed seed: <span className="font-mono">{opportunity.drawSeed}</span>
+                        </div>
+                      ) : (
+                        <div>The seed will be revealed after bidding closes so you can verify the draw.</div>
+                      )}
+                    </div>
+                  )}
+                  
                   {/* Bid Status */}
                   {hasStudentBid && (
                     <div className="flex justify-between items-center">
                       <span className="text-sm">Your Result:</span>
-                      {isStudentSelected ? (
+                      {selectionStatus?.bidStatus === "confirmed" ? (
+                        <Badge className="bg-green-600">Confirmed</Badge>
+                      ) : isStudentSelected ? (
                         <Badge className="bg-green-500">Selected</Badge>
+                      ) : selectionStatus?.bidStatus === "waitlisted" ? (
+                        <Badge variant="outline">Waitlist #{selectionStatus.waitlistRank}</Badge>
+                      ) : selectionStatus?.bidStatus === "declined" ? (
+                        <Badge variant="secondary">Declined</Badge>
+                      ) : selectionStatus?.bidStatus === "removed" ? (
+                        <Badge variant="secondary">Removed</Badge>
+                      ) : selectionStatus?.bidStatus === "forfeited" ? (
+                        <Badge variant="destructive">Forfeited</Badge>
                       ) : opportunity.selectedStudents?.length > 0 ? (
                         <Badge variant="secondary">Not Selected</Badge>
                       ) : (
@@ -159,6 +288,43 @@ const EnhancedBidCard = ({ student, classConfig, onBidSubmitted }: EnhancedBidCa
                     </Alert>
                   )}
                   
+                  {/* Confirm or Decline */}
+                  {selectionStatus?.bidStatus === "selected" && (
+                    <div className="space-y-2">
+                      {selectionStatus.confirmBy && (
+                        <p className="text-xs text-muted-foreground">
+                          Confirm by <strong>{new Date(selectionStatus.confirmBy).toLocaleString()}</strong> or
+                          your place will be offered to the next student on the waitlist.
+                        </p>
+                      )}
+                      <div className="grid grid-cols-2 gap-2">
+                        <Button
+                          onClick={() => handleRespond(opportunity.id, true)}
+                          disabled={respondingTo !== null}
+                        >
+                          {respondingTo === opportunity.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            "Confirm Attendance"
+                          )}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => handleRespond(opportunity.id, false)}
+                          disabled={respondingTo !== null}
+                        >
+                          Decline
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                  
+                  {selectionStatus?.bidStatus === "waitlisted" && (
+                    <p className="text-xs text-muted-foreground">
+                      You are #{selectionStatus.waitlistRank} on the waitlist. If a selected student declines, the next student in line is offered their place.
+                    </p>
+                  )}
+                  
                   {/* Error Display */}
                   {error && (
                     <Alert variant="destructive">
@@ -179,7 +345,7 @@ const EnhancedBidCard = ({ student, classConfig, onBidSubmitted }: EnhancedBidCa
                           <div key={bidder.id} className="text-xs flex justify-between">
                             <span>{bidder.name}</span>
                             <span className="text-muted-foreground">
-                              {bidder.id === currentStudent?.id ? 'You' : 'Recently'}
+                              {bidder.id === currentStudent?.id ? 'You' : new Date(bidder.bidAt).toLocaleDateString()}
                             </span>
                           </div>
                         ))}
@@ -187,6 +353,30 @@ const EnhancedBidCard = ({ student, classConfig, onBidSubmitted }: EnhancedBidCa
                     </div>
                   )}
                   
+                  {/* Token Commitment */}
+                  {canSubmitBid && tokensAvailable > 1 && (
+                    <div className="space-y-2">
+                      <Label htmlFor={`bid-amount-${opportunity.id}`}>Tokens to commit</Label>
+                      <Input
+                        id={`bid-amount-${opportunity.id}`}
+                        type="number"
+                        min={1}
+                        max={tokensAvailable}
+                        value={getBidAmount(opportunity.id)}
+                        onChange={(e) => setBidAmounts(prev => ({
+                          ...prev,
+                          [opportunity.id]: parseInt(e.target.value) || 1
+                        }))}
+                        disabled={isSubmitting}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {opportunity.allocationMode === "uniform_price"
+                          ? "Bids are sealed and the highest win. Winners pay the highest losing bid and get the rest back; losing bids are refunded in full."
+                          : "Each token adds one entry to the draw. Committed tokens are spent whether or not you are selected."}
+                      </p>
+                    </div>
+                  )}
+                  
                   {/* Submit Button */}
                   <Button 
                     className="w-full mt-4" 
@@ -204,10 +394,31 @@ const EnhancedBidCard = ({ student, classConfig, onBidSubmitted }: EnhancedBidCa
                       "Token Unavailable"
                     ) : getBidOpportunityStatus(opportunity) !== "Open for Bidding" ? (
                       "Bidding Not Open"
+                    ) : getBidAmount(opportunity.id) > 1 ? (
+                      `Commit ${getBidAmount(opportunity.id)} Tokens to Bid`
                     ) : (
                       "Use Token to Bid"
                     )}
                   </Button>
+                  
+                  {/* Withdraw Button */}
+                  {canWithdrawBid && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => handleWithdrawBid(opportunity.id)}
+                      disabled={isWithdrawing || isSubmitting}
+                    >
+                      {isWithdrawing ? (
+                        <>
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          Withdrawing Bid...
+                        </>
+                      ) : (
+                        "Withdraw Bid"
+                      )}
+                    </Button>
+                  )}
                 </div>
               </TabsContent>
             );
@@ -0,0 +1,195 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, ArrowUp, ArrowDown, X, Plus, ListOrdered, CheckCircle } from "lucide-react";
+import { Student, ClassConfig } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate, getBidOpportunityStatus } from "@/utils/dates";
+import { getStudentPreferences, submitStudentPreferences } from "@/lib/studentBidService";
+
+interface PreferenceRankingCardProps {
+  student: Student;
+  classConfig: ClassConfig;
+  classPassword: string; // Verified by the student for this class; not part of ClassConfig
+}
+
+const PreferenceRankingCard = ({ student, classConfig, classPassword }: PreferenceRankingCardProps) => {
+  const [ranking, setRanking] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const opportunities = classConfig.bidOpportunities || [];
+  // Only opportunities that have not been drawn yet can be ranked
+  const rankable = opportunities.filter(
+    opportunity => !opportunity.drawSeed && getBidOpportunityStatus(opportunity) !== "Completed"
+  );
+  const unranked = rankable.filter(opportunity => !ranking.includes(opportunity.id));
+  const allocated = opportunities.find(
+    opportunity => opportunity.selectedStudents?.some(s => s.id === student.id)
+  );
+
+  useEffect(() => {
+    let isActive = true;
+
+    getStudentPreferences(student.id).then(preferences => {
+      if (isActive) {
+        setRanking(preferences);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      isActive = false;
+    };
+  }, [student.id]);
+
+  const moveOpportunity = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= ranking.length) return;
+
+    const updated = [...ranking];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    setRanking(updated);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    const response = await submitStudentPreferences({
+      studentId: student.id,
+      classPassword,
+      opportunityIds: ranking
+    });
+
+    setIsSaving(false);
+
+    if (response.success) {
+      toast({
+        title: "Preferences Saved",
+        description: `You have ranked ${ranking.length} date${ranking.length !== 1 ? 's' : ''}`,
+      });
+    } else {
+      toast({
+        title: "Failed to Save Preferences",
+        description: response.errorMessage || "An error occurred while saving your preferences",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getOpportunity = (opportunityId: string) => opportunities.find(opp => opp.id === opportunityId);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="text-lg font-heading flex items-center gap-2">
+          <ListOrdered className="w-5 h-5" />
+          Rank Your Preferred Dates
+        </CardTitle>
+        <CardDescription>
+          Places are allocated in a random order. When your turn comes you get your
+          highest-ranked date that still has a seat, so rank every date you could attend.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {allocated && (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>
+              You have been allocated <strong>{allocated.title}</strong> on {formatDate(allocated.date)}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Your Ranking</h4>
+              {ranking.length === 0 ? (
+                <p className="text-sm text-muted-foreground">You have not ranked any dates yet.</p>
+              ) : (
+                ranking.map((opportunityId, index) => {
+                  const opportunity = getOpportunity(opportunityId);
+                  return (
+                    <div key={opportunityId} className="p-3 border rounded-md flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-3">
+                        <Badge variant="outline">#{index + 1}</Badge>
+                        <div>
+                          <div className="font-medium text-sm">{opportunity?.title || "Unavailable opportunity"}</div>
+                          {opportunity && (
+                            <div className="text-xs text-muted-foreground">{formatDate(opportunity.date)}</div>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => moveOpportunity(index, -1)} disabled={index === 0 || isSaving}>
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => moveOpportunity(index, 1)} disabled={index === ranking.length - 1 || isSaving}>
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setRanking(ranking.filter(id => id !== opportunityId))}
+                          disabled={isSaving}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            {unranked.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Available Dates</h4>
+                {unranked.map(opportunity => (
+                  <div key={opportunity.id} className="p-3 border border-dashed rounded-md flex items-center justify-between">
+                    <div>
+                      <div className="font-medium text-sm">{opportunity.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDate(opportunity.date)} • {opportunity.capacity || classConfig.capacity} seats
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRanking([...ranking, opportunity.id])}
+                      disabled={isSaving}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button className="w-full" onClick={handleSave} disabled={isSaving || rankable.length === 0}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving Preferences...
+                </>
+              ) : (
+                "Save Preferences"
+              )}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PreferenceRankingCard;
@@ -1,146 +1,98 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import EnhancedBidCard from "@/components/student/EnhancedBidCard";
+import PreferenceRankingCard from "@/components/student/PreferenceRankingCard";
+import ClassPasswordPrompt from "@/components/student/ClassPasswordPrompt";
+import { useSession } from "@/hooks/useSession";
+import { invalidateClass, useClassDetailQuery, useClassesQuery } from "@/hooks/useClassQueries";
+import { useClassRealtimeInvalidation } from "@/hooks/useClassRealtimeInvalidation";
+import OfflineBanner from "@/components/OfflineBanner";
 import StudentSidebar from "@/components/student/StudentSidebar";
-import { Student, ClassConfig, BidOpportunity } from "@/types";
 import { useToast } from "@/hooks/use-toast";
-import { formatDate, getBidOpportunityStatus } from "@/utils/dates";
-import { useNavigate, useLocation } from "react-router-dom";
-import { Menu, X, Users, Calendar, Trophy, Clock, Coins } from "lucide-react";
+import { formatDate, getBidOpportunityStatus, isBidOpportunityOpen } from "@/utils/dates";
+import { useNavigate } from "react-router-dom";
+import { Menu, X, Users, Calendar, Trophy, Clock, Coins, Loader2 } from "lucide-react";
 
 const StudentDashboard = () => {
   const { toast } = useToast();
   const navigate = useNavigate();
-  const location = useLocation();
+  // Only rendered behind ProtectedRoute, so the session always has a student
+  const { student: sessionStudent, enrolments, signOut } = useSession();
   
-  // Get student and classes data from location state
-  const initialStudent = location.state?.student || null;
-  const allClasses = location.state?.classes || [];
-  
-  // Use local state to track current student and selected class
-  const [student, setStudent] = useState<Student | null>(initialStudent);
-  const [classes, setClasses] = useState<ClassConfig[]>(allClasses);
-  const [currentClass, setCurrentClass] = useState<ClassConfig | null>(
-    allClasses.length > 0 ? allClasses[0] : null
-  );
+  const queryClient = useQueryClient();
+  const { classes: visibleClasses, isLoading: isLoadingClasses, error: classesError, isReadOnly, lastSyncedAt } = useClassesQuery();
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  // Class passwords the student has entered this session, kept in memory only
+  const [classPasswords, setClassPasswords] = useState<Record<string, string>>({});
+  
+  // RLS already limits this to the student's classes
+  const classes = useMemo(() => {
+    const enrolledClassIds = enrolments.map(enrolment => enrolment.classId);
+    return visibleClasses.filter(c => enrolledClassIds.includes(c.id));
+  }, [visibleClasses, enrolments]);
+  
+  const classSummary = classes.find(c => c.id === selectedClassId) || classes[0] || null;
+  const { data: classDetail } = useClassDetailQuery(classSummary?.id || null);
+  const currentClass = classSummary ? classDetail || classSummary : null;
+  
+  // Each enrolment is its own student record; the cached class holds its live balance
+  const enrolledStudent = enrolments.find(enrolment => enrolment.classId === currentClass?.id)?.student;
+  const student = currentClass?.students.find(s => s.id === enrolledStudent?.id) || enrolledStudent || sessionStudent;
+  
+  // Bids and token changes refetch the class on screen
+  useClassRealtimeInvalidation(currentClass?.id || null);
   
-  // Load the latest class configuration from localStorage on component mount
   useEffect(() => {
-    if (student && classes.length > 0) {
-      const storedClassesStr = localStorage.getItem("classData");
-      if (storedClassesStr) {
-        try {
-          const storedClasses = JSON.parse(storedClassesStr);
-          // Update classes with stored data
-          const updatedClasses = classes.map(classConfig => {
-            const storedClass = storedClasses.find((c: ClassConfig) => c.id === classConfig.id);
-            return storedClass || classConfig;
-          });
-          setClasses(updatedClasses);
-          
-          // Update current class if it exists in stored data
-          if (currentClass) {
-            const updatedCurrentClass = updatedClasses.find(c => c.id === currentClass.id);
-            if (updatedCurrentClass) {
-              setCurrentClass(updatedCurrentClass);
-            }
-          }
-        } catch (error) {
-          console.error("Error parsing stored class data:", error);
-        }
-      }
-    }
-  }, []);
+    if (!classesError) return;
+    
+    console.error("Error loading student classes:", classesError);
+    toast({
+      title: "Error loading classes",
+      description: "Your classes could not be loaded. Please try again.",
+      variant: "destructive",
+    });
+  }, [classesError, toast]);
   
   const handleSelectClass = (classId: string) => {
-    const selectedClass = classes.find(c => c.id === classId);
-    if (selectedClass) {
-      setCurrentClass(selectedClass);
-    }
+    setSelectedClassId(classId);
   };
   
+  if (isLoadingClasses) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading your classes...</p>
+        </div>
+      </div>
+    );
+  }
+  
   if (!student || classes.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <h1 className="text-2xl font-heading font-bold mb-6">Student Dashboard</h1>
           <p className="text-center text-muted-foreground py-8">
-            Please log in to view your dashboard
+            No classes could be loaded for your account
           </p>
           <div className="flex justify-center">
-            <Button onClick={() => navigate("/")}>Back to Login</Button>
+            <Button onClick={() => signOut()}>Back to Login</Button>
           </div>
         </div>
       </div>
     );
   }
   
-  const handleBidSubmitted = (bidId: string, updatedStudent: Student, opportunityId: string) => {
-    // Get current classes from localStorage
-    const storedClassesStr = localStorage.getItem("classData");
-    if (storedClassesStr) {
-      try {
-        const storedClasses = JSON.parse(storedClassesStr);
-        
-        // Find and update the current class
-        const updatedClasses = storedClasses.map((c: ClassConfig) => {
-          if (c.id === currentClass?.id) {
-            // Update the student in the students array
-            const updatedStudents = c.students.map((s: Student) => 
-              s.id === updatedStudent.id ? updatedStudent : s
-            );
-            
-            // Update the opportunity with the new bidder
-            const updatedOpportunities = c.bidOpportunities.map((opp: BidOpportunity) => {
-              if (opp.id === opportunityId) {
-                // Make sure we're not adding duplicate bidders
-                if (!opp.bidders.some(b => b.id === updatedStudent.id)) {
-                  return {
-                    ...opp,
-                    bidders: [...opp.bidders, updatedStudent]
-                  };
-                }
-              }
-              return opp;
-            });
-            
-            // Also update class-level bidders list for backward compatibility
-            const updatedBidders = c.bidders && Array.isArray(c.bidders) ? 
-              [...c.bidders] : [];
-            
-            if (!updatedBidders.some(b => b.id === updatedStudent.id)) {
-              updatedBidders.push(updatedStudent);
-            }
-            
-            // Return updated class
-            return {
-              ...c,
-              students: updatedStudents,
-              bidders: updatedBidders,
-              bidOpportunities: updatedOpportunities
-            };
-          }
-          return c;
-        });
-        
-        // Save updated classes back to localStorage
-        localStorage.setItem("classData", JSON.stringify(updatedClasses));
-        
-        // Find the updated class config to use for state updates
-        const updatedClassConfig = updatedClasses.find((c: ClassConfig) => c.id === currentClass?.id);
-        
-        // Update UI state
-        setStudent(updatedStudent);
-        setCurrentClass(updatedClassConfig);
-        setClasses(updatedClasses);
-        
-      } catch (error) {
-        console.error("Error updating class data:", error);
-      }
+  // The bid is already saved; refetch the class so counts and balances come from the database
+  const handleBidSubmitted = () => {
+    if (currentClass) {
+      invalidateClass(queryClient, currentClass.id);
     }
     
     toast({
@@ -149,12 +101,25 @@ const StudentDashboard = () => {
     });
   };
   
-  const handleLogout = () => {
+  const handleBidWithdrawn = () => {
+    if (currentClass) {
+      invalidateClass(queryClient, currentClass.id);
+    }
+  };
+  
+  const handleClassPasswordVerified = (classPassword: string) => {
+    if (!currentClass) return;
+    setClassPasswords(prev => ({ ...prev, [currentClass.id]: classPassword }));
+  };
+  
+  const handleLogout = async () => {
+    await signOut();
     navigate("/");
   };
 
   // Get student's status in current class
   const studentInCurrentClass = currentClass?.students.find(s => s.id === student.id);
+  const classPassword = currentClass ? classPasswords[currentClass.id] : undefined;
   const studentBidOpportunity = currentClass?.bidOpportunities?.find(
     opportunity => opportunity.bidders && opportunity.bidders.some(bidder => bidder.id === student.id)
   );
@@ -195,11 +160,14 @@ const StudentDashboard = () => {
         sidebarCollapsed ? 'ml-16' : 'ml-80'
       }`}>
         <div className="container mx-auto p-4 max-w-6xl">
+          {isReadOnly && <OfflineBanner lastSyncedAt={lastSyncedAt} />}
+          
           {currentClass ? (
             <Tabs defaultValue="overview" className="space-y-6">
-              <TabsList className="grid grid-cols-3 mb-6">
+              <TabsList className="grid grid-cols-4 mb-6">
                 <TabsTrigger value="overview">Overview</TabsTrigger>
                 <TabsTrigger value="opportunities">Opportunities</TabsTrigger>
+                <TabsTrigger value="preferences">Preferences</TabsTrigger>
                 <TabsTrigger value="profile">Profile</TabsTrigger>
               </TabsList>
               
@@ -221,14 +189,7 @@ const StudentDashboard = () => {
                         </div>
                         <div className="text-center">
                           <div className="text-2xl font-bold text-green-600">
-                            {currentClass.bidOpportunities?.filter(opp => {
-                              const now = new Date();
-                              const eventDate = new Date(opp.date);
-                              const biddingOpensDate = opp.bidOpenDate 
-                                ? new Date(opp.bidOpenDate)
-                                : new Date(eventDate.getTime() - 7 * 24 * 60 * 60 * 1000);
-                              return now >= biddingOpensDate && now < eventDate;
-                            }).length || 0}
+                            {currentClass.bidOpportunities?.filter(isBidOpportunityOpen).length || 0}
                           </div>
                           <div className="text-sm text-gray-600">Open for Bidding</div>
                         </div>
@@ -338,11 +299,17 @@ const StudentDashboard = () => {
               
               <TabsContent value="opportunities">
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-                  <EnhancedBidCard 
-                    student={studentInCurrentClass || student}
-                    classConfig={currentClass}
-                    onBidSubmitted={handleBidSubmitted}
-                  />
+                  {classPassword ? (
+                    <EnhancedBidCard 
+                      student={studentInCurrentClass || student}
+                      classConfig={currentClass}
+                      classPassword={classPassword}
+                      onBidSubmitted={handleBidSubmitted}
+                      onBidWithdrawn={handleBidWithdrawn}
+                    />
+                  ) : (
+                    <ClassPasswordPrompt classConfig={currentClass} onVerified={handleClassPasswordVerified} />
+                  )}
                   
                   <Card>
                     <CardHeader>
@@ -384,6 +351,20 @@ const StudentDashboard = () => {
                 </div>
               </TabsContent>
               
+              <TabsContent value="preferences">
+                <div className="max-w-2xl">
+                  {classPassword ? (
+                    <PreferenceRankingCard
+                      student={studentInCurrentClass || student}
+                      classConfig={currentClass}
+                      classPassword={classPassword}
+                    />
+                  ) : (
+                    <ClassPasswordPrompt classConfig={currentClass} onVerified={handleClassPasswordVerified} />
+                  )}
+                </div>
+              </TabsContent>
+              
               <TabsContent value="profile">
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                   <Card>
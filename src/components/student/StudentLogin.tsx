@@ -4,67 +4,71 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { ClassConfig, Student } from "@/types";
-import { useNavigate } from "react-router-dom";
+import { Session } from "@supabase/supabase-js";
+import { requestStudentLoginCode, verifyStudentLoginCode, StudentEnrolment } from "@/lib/studentAuthService";
 
 interface StudentLoginProps {
-  classes: ClassConfig[];
-  onLogin: (success: boolean) => void;
+  onLogin: (enrolments: StudentEnrolment[], session: Session) => void;
 }
 
-const StudentLogin = ({ classes, onLogin }: StudentLoginProps) => {
+const StudentLogin = ({ onLogin }: StudentLoginProps) => {
   const [email, setEmail] = useState("");
-  const [studentNumber, setStudentNumber] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
-  const navigate = useNavigate();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleRequestCode = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
-    // Simulate API call delay
-    setTimeout(() => {
-      // Find student across all classes
-      let foundStudent: Student | null = null;
-      const studentClasses: ClassConfig[] = [];
+    const result = await requestStudentLoginCode(email);
 
-      classes.forEach(classConfig => {
-        const student = classConfig.students.find(s => 
-          s.email.toLowerCase() === email.toLowerCase() &&
-          s.studentNumber && 
-          s.studentNumber.toLowerCase() === studentNumber.toLowerCase()
-        );
-        
-        if (student) {
-          foundStudent = student;
-          studentClasses.push(classConfig);
-        }
+    if (result.success) {
+      setCodeSent(true);
+      toast({
+        title: "Check your email",
+        description: `We sent a login code to ${email}`,
+      });
+    } else {
+      toast({
+        title: "Could not send code",
+        description: result.errorMessage || "Please try again",
+        variant: "destructive",
+      });
+    }
+    setIsLoading(false);
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const result = await verifyStudentLoginCode(email, code);
+
+    if (!result.success || !result.enrolments || !result.session) {
+      toast({
+        title: "Login failed",
+        description: result.errorMessage || "Invalid or expired code",
+        variant: "destructive",
       });
-      
-      if (foundStudent && studentClasses.length > 0) {
-        toast({
-          title: "Login successful",
-          description: `Welcome, ${foundStudent.name}! Found ${studentClasses.length} class(es).`,
-        });
-        onLogin(true);
-        
-        // Navigate to the student dashboard with student and classes data
-        navigate("/student", { 
-          state: { 
-            student: foundStudent,
-            classes: studentClasses
-          }
-        });
-      } else {
-        toast({
-          title: "Login failed",
-          description: "Invalid email or student number. Please check your credentials.",
-          variant: "destructive",
-        });
-      }
       setIsLoading(false);
-    }, 800);
+      return;
+    }
+
+    const student = result.enrolments[0].student;
+    toast({
+      title: "Login successful",
+      description: `Welcome, ${student.name}! Found ${result.enrolments.length} class(es).`,
+    });
+
+    // The session provider takes over and the login page redirects to the dashboard
+    onLogin(result.enrolments, result.session);
+  };
+
+  const handleUseDifferentEmail = () => {
+    setCodeSent(false);
+    setCode("");
   };
 
   return (
@@ -72,10 +76,12 @@ const StudentLogin = ({ classes, onLogin }: StudentLoginProps) => {
       <CardHeader>
         <CardTitle className="text-2xl font-heading">Student Login</CardTitle>
         <CardDescription>
-          Enter your email address and student number to access your classes
+          {codeSent
+            ? "Enter the code we emailed you"
+            : "Enter the email address you are enrolled with and we'll send you a login code"}
         </CardDescription>
       </CardHeader>
-      <form onSubmit={handleSubmit}>
+      <form onSubmit={codeSent ? handleVerifyCode : handleRequestCode}>
         <CardContent className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="email">Email Address</Label>
@@ -86,28 +92,43 @@ const StudentLogin = ({ classes, onLogin }: StudentLoginProps) => {
               onChange={(e) => setEmail(e.target.value)}
               placeholder="your.email@example.com"
               required
-              disabled={isLoading}
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="studentNumber">Student Number</Label>
-            <Input
-              id="studentNumber"
-              type="text"
-              value={studentNumber}
-              onChange={(e) => setStudentNumber(e.target.value)}
-              placeholder="Enter your student number"
-              required
-              disabled={isLoading}
+              disabled={isLoading || codeSent}
             />
           </div>
+          {codeSent && (
+            <div className="space-y-2">
+              <Label htmlFor="loginCode">Login Code</Label>
+              <Input
+                id="loginCode"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                required
+                disabled={isLoading}
+              />
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto p-0 text-sm"
+                onClick={handleUseDifferentEmail}
+                disabled={isLoading}
+              >
+                Use a different email
+              </Button>
+            </div>
+          )}
           <div className="text-sm text-muted-foreground">
             <p>You will see all classes you're enrolled in after logging in.</p>
           </div>
         </CardContent>
         <CardFooter>
           <Button type="submit" className="w-full" disabled={isLoading}>
-            {isLoading ? "Logging in..." : "Login"}
+            {codeSent
+              ? (isLoading ? "Verifying..." : "Verify Code")
+              : (isLoading ? "Sending code..." : "Send Login Code")}
           </Button>
         </CardFooter>
       </form>
@@ -115,4 +136,4 @@ const StudentLogin = ({ classes, onLogin }: StudentLoginProps) => {
   );
 };
 
-export default StudentLogin;
\ No newline at end of file
+export default StudentLogin;
@@ -6,6 +6,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { ClassConfig } from "@/types";
 import { cn } from "@/lib/utils";
+import { isBidOpportunityOpen } from "@/utils/dates";
 import { 
   Users, 
   Coins, 
@@ -70,14 +71,7 @@ const StudentSidebar = ({
               classes.map((classItem) => {
                 // Calculate class statistics
                 const totalOpportunities = classItem.bidOpportunities?.length || 0;
-                const openOpportunities = classItem.bidOpportunities?.filter(opp => {
-                  const now = new Date();
-                  const eventDate = new Date(opp.date);
-                  const biddingOpensDate = opp.bidOpenDate 
-                    ? new Date(opp.bidOpenDate)
-                    : new Date(eventDate.getTime() - 7 * 24 * 60 * 60 * 1000);
-                  return now >= biddingOpensDate && now < eventDate;
-                }).length || 0;
+                const openOpportunities = classItem.bidOpportunities?.filter(isBidOpportunityOpen).length || 0;
 
                 return (
                   <Card
@@ -0,0 +1,120 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import { Session } from "@supabase/supabase-js";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { signOutAdmin } from "@/lib/adminAuthService";
+import { signOutStudent, StudentEnrolment } from "@/lib/studentAuthService";
+import { restoreSession, clearLastActive, markActive, IDLE_TIMEOUT_MS } from "@/lib/sessionService";
+import { clearOfflineSnapshots } from "@/lib/offlineSnapshot";
+import { useIdleTimeout } from "@/hooks/useIdleTimeout";
+import { toast } from "@/hooks/use-toast";
+import { SessionContext, SessionState, signedOutState } from "@/contexts/sessionContext";
+import { Admin } from "@/types";
+
+const idleMinutes = IDLE_TIMEOUT_MS / 60000;
+
+const notifyExpired = () => {
+  toast({
+    title: "Session expired",
+    description: `You were signed out after ${idleMinutes} minutes of inactivity.`,
+  });
+};
+
+const SessionProvider = ({ children }: { children: ReactNode }) => {
+  const [state, setState] = useState<SessionState>({ ...signedOutState, status: "loading" });
+  const queryClient = useQueryClient();
+
+  // Nothing read under one account may be shown to the next
+  const clearCachedData = useCallback(() => {
+    queryClient.clear();
+    clearOfflineSnapshots();
+  }, [queryClient]);
+
+  // Restore the persisted session on load and follow Supabase Auth from then on
+  useEffect(() => {
+    let cancelled = false;
+
+    restoreSession().then(restored => {
+      if (cancelled) return;
+
+      if (restored.kind === "admin") {
+        setState({ ...signedOutState, status: "authenticated", role: "admin", session: restored.admin.session, admin: restored.admin });
+      } else if (restored.kind === "student") {
+        setState({
+          ...signedOutState,
+          status: "authenticated",
+          role: "student",
+          session: restored.session,
+          student: restored.enrolments[0].student,
+          enrolments: restored.enrolments
+        });
+      } else if (restored.kind === "signedOut") {
+        setState(signedOutState);
+        if (restored.expired) notifyExpired();
+      }
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "SIGNED_OUT") {
+        clearLastActive();
+        clearCachedData();
+        setState(current => current.status === "loading" ? current : signedOutState);
+      } else if (event === "TOKEN_REFRESHED" && session) {
+        setState(current => current.status !== "authenticated" ? current : {
+          ...current,
+          session,
+          admin: current.admin ? { ...current.admin, session } : null
+        });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [clearCachedData]);
+
+  const startAdminSession = useCallback((admin: Admin) => {
+    markActive();
+    setState({ ...signedOutState, status: "authenticated", role: "admin", session: admin.session, admin });
+  }, []);
+
+  const startStudentSession = useCallback((enrolments: StudentEnrolment[], session: Session) => {
+    markActive();
+    setState({
+      ...signedOutState,
+      status: "authenticated",
+      role: "student",
+      session,
+      student: enrolments[0]?.student ?? null,
+      enrolments
+    });
+  }, []);
+
+  const signOut = useCallback(async () => {
+    if (state.role === "admin") {
+      await signOutAdmin();
+    } else {
+      await signOutStudent();
+    }
+    clearLastActive();
+    clearCachedData();
+    setState(signedOutState);
+  }, [state.role, clearCachedData]);
+
+  const handleIdle = useCallback(async () => {
+    await signOut();
+    notifyExpired();
+  }, [signOut]);
+
+  useIdleTimeout(state.status === "authenticated", handleIdle);
+
+  const value = useMemo(
+    () => ({ ...state, startAdminSession, startStudentSession, signOut }),
+    [state, startAdminSession, startStudentSession, signOut]
+  );
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+};
+
+export default SessionProvider;
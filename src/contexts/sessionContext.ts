@@ -0,0 +1,35 @@
+import { createContext } from 'react'
+import { Session } from '@supabase/supabase-js'
+import { StudentEnrolment } from '@/lib/studentAuthService'
+import { Admin, Student } from '@/types'
+
+export type SessionRole = 'admin' | 'student'
+
+export type SessionStatus = 'loading' | 'authenticated' | 'unauthenticated'
+
+export interface SessionState {
+  status: SessionStatus
+  role: SessionRole | null
+  // The Supabase Auth session; its access token is what RLS checks on every request
+  session: Session | null
+  admin: Admin | null
+  student: Student | null
+  enrolments: StudentEnrolment[]
+}
+
+export interface SessionContextValue extends SessionState {
+  startAdminSession: (admin: Admin) => void
+  startStudentSession: (enrolments: StudentEnrolment[], session: Session) => void
+  signOut: () => Promise<void>
+}
+
+export const signedOutState: SessionState = {
+  status: 'unauthenticated',
+  role: null,
+  session: null,
+  admin: null,
+  student: null,
+  enrolments: []
+}
+
+export const SessionContext = createContext<SessionContextValue | null>(null)
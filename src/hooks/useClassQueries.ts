@@ -0,0 +1,196 @@
+import { useMemo } from 'react'
+import { onlineManager, QueryClient, useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  addStudentsToClass,
+  applyTermTopUp,
+  createBidOpportunity,
+  createClass,
+  CreateClassData,
+  deleteBidOpportunity,
+  deleteClassAtomic,
+  fetchClassDetail,
+  fetchClasses,
+  fetchTokenLedger,
+  revealDrawSeed,
+  updateBidOpportunity,
+  updateClass,
+  updateClassTokenPolicy
+} from '@/lib/classService'
+import { BIDDER_PAGE_SIZE, fetchOpportunityBidders } from '@/lib/bidTrackingService'
+import { getStudentSelectionStatus } from '@/lib/studentBidService'
+import { queryKeys } from '@/lib/queryKeys'
+import { assertOnline, loadOfflineSnapshot, saveOfflineSnapshot } from '@/lib/offlineSnapshot'
+import { useOnlineStatus } from '@/hooks/useOnlineStatus'
+import { useSession } from '@/hooks/useSession'
+import { Student, TokenPolicy } from '@/types'
+
+// Refetch the class list and everything cached under the class
+export const invalidateClass = (queryClient: QueryClient, classId: string) => {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.classes, exact: true }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.class(classId) })
+  ])
+}
+
+// The classes visible to the signed-in user; RLS limits instructors to their own classes
+// and students to the classes they are enrolled in. When the database cannot be reached
+// the last successful read is shown instead and the data is marked read-only.
+export const useClassesQuery = () => {
+  const { admin, session } = useSession()
+  const userId = admin?.id || session?.user.id
+  const isOnline = useOnlineStatus()
+
+  const query = useQuery({
+    queryKey: queryKeys.classes,
+    queryFn: async () => {
+      const classes = await fetchClasses()
+      saveOfflineSnapshot(userId, classes)
+      return classes
+    },
+    enabled: !!userId
+  })
+
+  const isReadOnly = !isOnline || query.isError
+  const needsSnapshot = isReadOnly && !query.data
+
+  const snapshot = useMemo(
+    () => (needsSnapshot && userId ? loadOfflineSnapshot(userId) : null),
+    [needsSnapshot, userId]
+  )
+
+  return {
+    classes: query.data ?? snapshot?.classes ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    isReadOnly,
+    // When the data on screen was last read from the database
+    lastSyncedAt: snapshot ? snapshot.savedAt : query.dataUpdatedAt || null,
+    refetch: query.refetch
+  }
+}
+
+// Winners and waitlists are only loaded for the class on screen; until they arrive the
+// class from the overview is shown
+export const useClassDetailQuery = (classId: string | null) => {
+  return useQuery({
+    queryKey: queryKeys.class(classId),
+    queryFn: () => fetchClassDetail(classId),
+    enabled: !!classId
+  })
+}
+
+// Bidders for one opportunity, a page at a time; fetchNextPage loads the next page
+export const useOpportunityBiddersQuery = (classId: string, opportunityId: string | null) => {
+  return useInfiniteQuery({
+    queryKey: queryKeys.opportunityBidders(classId, opportunityId),
+    queryFn: ({ pageParam }) => fetchOpportunityBidders(opportunityId, { offset: pageParam }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) => {
+      const loaded = pages.length * BIDDER_PAGE_SIZE
+      return loaded < lastPage.total ? loaded : undefined
+    },
+    enabled: !!opportunityId
+  })
+}
+
+export const useTokenLedgerQuery = (classId: string) => {
+  return useQuery({
+    queryKey: queryKeys.tokenLedger(classId),
+    queryFn: () => fetchTokenLedger(classId)
+  })
+}
+
+export const useStudentSelectionsQuery = (studentId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.studentSelections(studentId),
+    queryFn: () => getStudentSelectionStatus(studentId),
+    enabled: !!studentId
+  })
+}
+
+// Mutations always go to the database. React Query would otherwise pause them while
+// offline and replay them on reconnect, which an offline read-only view must not do.
+const useOnlineMutation = <TData, TVariables>(
+  mutationFn: (variables: TVariables) => Promise<TData>,
+  onSuccess: (data: TData, variables: TVariables, queryClient: QueryClient) => unknown
+) => {
+  const queryClient = useQueryClient()
+
+  return useMutation<TData, Error, TVariables>({
+    networkMode: 'always',
+    mutationFn: async (variables) => {
+      assertOnline(onlineManager.isOnline())
+      return mutationFn(variables)
+    },
+    onSuccess: (data, variables) => onSuccess(data, variables, queryClient)
+  })
+}
+
+export const useCreateClass = () => useOnlineMutation(
+  (classData: CreateClassData) => createClass(classData),
+  (_, __, queryClient) => queryClient.invalidateQueries({ queryKey: queryKeys.classes, exact: true })
+)
+
+export const useUpdateClass = () => useOnlineMutation(
+  ({ classId, updates }: { classId: string; updates: Partial<CreateClassData> }) => updateClass(classId, updates),
+  (_, { classId }, queryClient) => invalidateClass(queryClient, classId)
+)
+
+export const useUpdateClassTokenPolicy = () => useOnlineMutation(
+  ({ classId, policy }: { classId: string; policy: TokenPolicy }) => updateClassTokenPolicy(classId, policy),
+  (_, { classId }, queryClient) => invalidateClass(queryClient, classId)
+)
+
+export const useApplyTermTopUp = () => useOnlineMutation(
+  (classId: string) => applyTermTopUp(classId),
+  (_, classId, queryClient) => invalidateClass(queryClient, classId)
+)
+
+export const useDeleteClass = () => useOnlineMutation(
+  (classId: string) => deleteClassAtomic(classId),
+  (result, classId, queryClient) => {
+    if (result.success) {
+      queryClient.removeQueries({ queryKey: queryKeys.class(classId) })
+    }
+    return queryClient.invalidateQueries({ queryKey: queryKeys.classes, exact: true })
+  }
+)
+
+export const useCreateBidOpportunity = () => useOnlineMutation(
+  ({ classId, opportunity }: { classId: string; opportunity: Parameters<typeof createBidOpportunity>[1] }) =>
+    createBidOpportunity(classId, opportunity),
+  (_, { classId }, queryClient) => invalidateClass(queryClient, classId)
+)
+
+export const useUpdateBidOpportunity = () => useOnlineMutation(
+  ({ opportunityId, updates }: {
+    classId: string
+    opportunityId: string
+    updates: Parameters<typeof updateBidOpportunity>[1]
+  }) => updateBidOpportunity(opportunityId, updates),
+  (_, { classId }, queryClient) => invalidateClass(queryClient, classId)
+)
+
+export const useDeleteBidOpportunity = () => useOnlineMutation(
+  ({ opportunityId }: { classId: string; opportunityId: string }) => deleteBidOpportunity(opportunityId),
+  (_, { classId, opportunityId }, queryClient) => {
+    queryClient.removeQueries({ queryKey: queryKeys.opportunity(classId, opportunityId) })
+    return invalidateClass(queryClient, classId)
+  }
+)
+
+// The revealed seed never changes, so it is cached rather than refetched
+export const useRevealDrawSeed = () => useOnlineMutation(
+  ({ opportunityId }: { classId: string; opportunityId: string }) => revealDrawSeed(opportunityId),
+  (reveal, { classId, opportunityId }, queryClient) => {
+    if (reveal.success) {
+      queryClient.setQueryData(queryKeys.drawSeed(classId, opportunityId), reveal)
+    }
+  }
+)
+
+export const useAddStudentsToClass = () => useOnlineMutation(
+  ({ classId, students }: { classId: string; students: Omit<Student, 'id' | 'hasUsedToken' | 'hasBid'>[] }) =>
+    addStudentsToClass(classId, students),
+  (_, { classId }, queryClient) => invalidateClass(queryClient, classId)
+)
@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from 'react'
+import { ClassRealtimeEvent, ClassRealtimeEvents, ConnectionStatus, realtimeHub } from '@/lib/realtimeHub'
+
+// Listen to one realtime event for a class through the shared hub. The handler may change
+// on every render without reopening the subscription.
+export const useClassRealtime = <E extends ClassRealtimeEvent>(
+  classId: string | null,
+  event: E,
+  handler: (payload: ClassRealtimeEvents[E]) => void
+) => {
+  const handlerRef = useRef(handler)
+
+  useEffect(() => {
+    handlerRef.current = handler
+  })
+
+  useEffect(() => {
+    if (!classId) return
+
+    return realtimeHub.subscribe(classId, event, payload => handlerRef.current(payload))
+  }, [classId, event])
+}
+
+// Connection state of the class's realtime channel
+export const useClassRealtimeStatus = (classId: string | null): ConnectionStatus => {
+  const [status, setStatus] = useState<ConnectionStatus>(() => (classId ? realtimeHub.getStatus(classId) : 'closed'))
+
+  useEffect(() => {
+    if (!classId) {
+      setStatus('closed')
+      return
+    }
+
+    setStatus(realtimeHub.getStatus(classId))
+    return realtimeHub.subscribe(classId, 'status', setStatus)
+  }, [classId])
+
+  return status
+}
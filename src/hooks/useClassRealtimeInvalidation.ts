@@ -0,0 +1,31 @@
+import { useCallback } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { queryKeys } from '@/lib/queryKeys'
+import { RowChange } from '@/lib/realtimeHub'
+import { invalidateClass } from '@/hooks/useClassQueries'
+import { useClassRealtime } from '@/hooks/useClassRealtime'
+
+// Keep the cached class in step with the database. Any change to its students,
+// opportunities, bids or token ledger marks the class stale so React Query refetches it;
+// the cache is never patched from the payload. RLS limits which rows are delivered.
+export const useClassRealtimeInvalidation = (classId: string | null) => {
+  const queryClient = useQueryClient()
+
+  const refreshClass = useCallback(() => {
+    invalidateClass(queryClient, classId)
+  }, [classId, queryClient])
+
+  const refreshClassAndStudent = useCallback((change: RowChange<{ student_id: string }>) => {
+    refreshClass()
+
+    const studentId = change.new.student_id || change.old.student_id
+    if (studentId) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.student(studentId) })
+    }
+  }, [queryClient, refreshClass])
+
+  useClassRealtime(classId, 'students', refreshClass)
+  useClassRealtime(classId, 'opportunities', refreshClass)
+  useClassRealtime(classId, 'bids', refreshClassAndStudent)
+  useClassRealtime(classId, 'token_history', refreshClassAndStudent)
+}
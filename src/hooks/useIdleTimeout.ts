@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react'
+import { IDLE_TIMEOUT_MS, getLastActiveAt, isIdleExpired, markActive } from '@/lib/sessionService'
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const
+// Activity is written at most once a minute and checked every 30 seconds
+const WRITE_INTERVAL_MS = 60 * 1000
+const CHECK_INTERVAL_MS = 30 * 1000
+
+// Calls onIdle once nothing has happened for timeoutMs. Activity is kept in localStorage,
+// so a reload or another open tab counts, and an expired session is caught on load.
+export const useIdleTimeout = (
+  enabled: boolean,
+  onIdle: () => void,
+  timeoutMs: number = IDLE_TIMEOUT_MS
+) => {
+  const onIdleRef = useRef(onIdle)
+  onIdleRef.current = onIdle
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let lastWrite = 0
+    const recordActivity = () => {
+      const now = Date.now()
+      if (now - lastWrite >= WRITE_INTERVAL_MS) {
+        markActive(now)
+        lastWrite = now
+      }
+    }
+
+    recordActivity()
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true }))
+
+    const interval = window.setInterval(() => {
+      if (isIdleExpired(getLastActiveAt(), Date.now(), timeoutMs)) {
+        onIdleRef.current()
+      }
+    }, CHECK_INTERVAL_MS)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity))
+      window.clearInterval(interval)
+    }
+  }, [enabled, timeoutMs])
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react'
+import { onlineManager } from '@tanstack/react-query'
+
+// Follows React Query's own notion of online, so the UI and paused queries agree
+export const useOnlineStatus = () => {
+  return useSyncExternalStore(
+    (onChange) => onlineManager.subscribe(onChange),
+    () => onlineManager.isOnline()
+  )
+}
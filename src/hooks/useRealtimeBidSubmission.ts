@@ -1,10 +1,21 @@
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/lib/supabase'
+import { realtimeHub } from '@/lib/realtimeHub'
+import { BidStatus } from '@/types'
 
 export interface BidStatistics {
   totalBids: number
   lastBidTimestamp?: string
   recentBids: any[]
+  confirmationBids: ConfirmationBid[] // Winners pending confirmation, confirmed or forfeited
+}
+
+export interface ConfirmationBid {
+  id: string
+  bid_status: BidStatus
+  confirm_by: string | null
+  student?: { id: string; name: string; email: string }
+  opportunity?: { id: string; description: string }
 }
 
 export const useRealtimeBidSubmission = () => {
@@ -25,7 +36,8 @@ export const useRealtimeBidSubmission = () => {
         return {
           totalBids: 0,
           lastBidTimestamp: undefined,
-          recentBids: []
+          recentBids: [],
+          confirmationBids: []
         }
       }
 
@@ -38,6 +50,8 @@ export const useRealtimeBidSubmission = () => {
           id,
           bid_amount,
           is_winner,
+          bid_status,
+          confirm_by,
           created_at,
           student:students(id, name, email),
           opportunity:opportunities(id, description)
@@ -67,17 +81,36 @@ export const useRealtimeBidSubmission = () => {
 
       if (lastBidError && lastBidError.code !== 'PGRST116') throw lastBidError
 
+      // Get winners and their confirmation state
+      const { data: confirmationBids, error: confirmationError } = await supabase
+        .from('bids')
+        .select(`
+          id,
+          bid_status,
+          confirm_by,
+          student:students(id, name, email),
+          opportunity:opportunities(id, description)
+        `)
+        .in('opportunity_id', opportunityIds)
+        .in('bid_status', ['selected', 'confirmed', 'forfeited'])
+        .order('confirm_by', { ascending: true })
+
+      if (confirmationError) throw confirmationError
+
       return {
         totalBids: totalBids || 0,
         lastBidTimestamp: lastBid?.created_at,
-        recentBids: recentBids || []
+        recentBids: recentBids || [],
+        // Many-to-one joins come back as single objects, not the arrays supabase-js infers
+        confirmationBids: (confirmationBids || []) as unknown as ConfirmationBid[]
       }
     } catch (error) {
       console.error('Error fetching class statistics:', error)
       return {
         totalBids: 0,
         lastBidTimestamp: undefined,
-        recentBids: []
+        recentBids: [],
+        confirmationBids: []
       }
     }
   }, [])
@@ -108,32 +141,21 @@ export const useRealtimeBidSubmission = () => {
     }
   }, [])
 
-  // Subscribe to real-time bid updates for a class
+  // Subscribe to real-time bid updates for a class through the shared realtime hub
   const subscribeToClassBids = useCallback((classId: string, onUpdate: (stats: BidStatistics) => void) => {
-    const channel = supabase
-      .channel(`class-bids-${classId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'bids',
-        },
-        async (payload) => {
-          console.log('Real-time bid update received:', payload)
-          
-          // Refresh statistics when any bid changes
-          const updatedStats = await getClassStatistics(classId)
-          onUpdate(updatedStats)
-        }
-      )
-      .subscribe((status) => {
-        console.log('Bid subscription status:', status)
-        setIsConnected(status === 'SUBSCRIBED')
-      })
+    setIsConnected(realtimeHub.getStatus(classId) === 'connected')
+
+    const unsubscribeStatus = realtimeHub.subscribe(classId, 'status', status => {
+      setIsConnected(status === 'connected')
+    })
+    const unsubscribeBids = realtimeHub.subscribe(classId, 'bids', async () => {
+      const updatedStats = await getClassStatistics(classId)
+      onUpdate(updatedStats)
+    })
 
     return () => {
-      supabase.removeChannel(channel)
+      unsubscribeBids()
+      unsubscribeStatus()
       setIsConnected(false)
     }
   }, [getClassStatistics])
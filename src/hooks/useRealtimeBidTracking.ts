@@ -1,9 +1,9 @@
 import { useState, useEffect, useCallback } from 'react'
 import { 
   getClassBidStatistics, 
-  subscribeToClassBidUpdates, 
   ClassBidStatistics 
 } from '@/lib/bidTrackingService'
+import { useClassRealtime } from '@/hooks/useClassRealtime'
 
 export const useRealtimeBidTracking = (classId: string | null) => {
   const [statistics, setStatistics] = useState<ClassBidStatistics>({
@@ -33,20 +33,13 @@ export const useRealtimeBidTracking = (classId: string | null) => {
     }
   }, [classId])
 
-  // Subscribe to real-time updates
+  // Fetch initial data
   useEffect(() => {
-    if (!classId) return
-
-    // Fetch initial data
     fetchStatistics()
+  }, [fetchStatistics])
 
-    // Subscribe to real-time updates
-    const unsubscribe = subscribeToClassBidUpdates(classId, (updatedStats) => {
-      setStatistics(updatedStats)
-    })
-
-    return unsubscribe
-  }, [classId, fetchStatistics])
+  // The realtime hub refetches statistics after bid and roster changes
+  useClassRealtime(classId, 'statistics', setStatistics)
 
   // Manual refresh function
   const refresh = useCallback(() => {
@@ -0,0 +1,12 @@
+import { useContext } from 'react'
+import { SessionContext } from '@/contexts/sessionContext'
+
+export const useSession = () => {
+  const context = useContext(SessionContext)
+
+  if (!context) {
+    throw new Error('useSession must be used within a SessionProvider')
+  }
+
+  return context
+}
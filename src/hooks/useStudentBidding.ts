@@ -1,10 +1,11 @@
 import { useState, useEffect, useCallback } from 'react'
-import { submitStudentBid, getStudentStatus, subscribeToStudentUpdates, StudentBidRequest, StudentBidResponse } from '@/lib/studentBidService'
+import { submitStudentBid, withdrawStudentBid, getStudentStatus, subscribeToStudentUpdates, StudentBidRequest, StudentBidResponse, WithdrawBidRequest, WithdrawBidResponse } from '@/lib/studentBidService'
 import { Student } from '@/types'
 import { useToast } from '@/hooks/use-toast'
 
 export interface StudentBiddingState {
   isSubmitting: boolean
+  isWithdrawing: boolean
   student: Student | null
   lastBidResponse: StudentBidResponse | null
   error: string | null
@@ -13,6 +14,7 @@ export interface StudentBiddingState {
 export const useStudentBidding = (initialStudent: Student) => {
   const [state, setState] = useState<StudentBiddingState>({
     isSubmitting: false,
+    isWithdrawing: false,
     student: initialStudent,
     lastBidResponse: null,
     error: null
@@ -81,7 +83,9 @@ export const useStudentBidding = (initialStudent: Student) => {
       if (response.success) {
         toast({
           title: "Bid Submitted Successfully",
-          description: "Your token has been used and your bid is recorded",
+          description: response.bidAmount && response.bidAmount > 1
+            ? `${response.bidAmount} tokens have been committed and your bid is recorded`
+            : "Your token has been used and your bid is recorded",
         })
         
         // Refresh student status to ensure we have the latest data
@@ -117,9 +121,43 @@ export const useStudentBidding = (initialStudent: Student) => {
     }
   }, [toast, refreshStudentStatus])
 
+  // Withdraw a bid while bidding is still open
+  const withdrawBid = useCallback(async (request: WithdrawBidRequest): Promise<WithdrawBidResponse> => {
+    setState(prev => ({
+      ...prev,
+      isWithdrawing: true,
+      error: null
+    }))
+
+    const response = await withdrawStudentBid(request)
+
+    setState(prev => ({
+      ...prev,
+      isWithdrawing: false,
+      error: response.success ? null : response.errorMessage || 'Bid withdrawal failed',
+      student: response.updatedStudent || prev.student
+    }))
+
+    if (response.success) {
+      toast({
+        title: "Bid Withdrawn",
+        description: `${response.refundedAmount} token${response.refundedAmount !== 1 ? 's have' : ' has'} been returned to you`,
+      })
+    } else {
+      toast({
+        title: "Withdrawal Failed",
+        description: response.errorMessage || 'An error occurred while withdrawing your bid',
+        variant: "destructive",
+      })
+    }
+
+    return response
+  }, [toast])
+
   return {
     ...state,
     submitBid,
+    withdrawBid,
     refreshStudentStatus
   }
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { Session } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { Admin } from '@/types'
+
+export interface AdminAuthResult {
+  success: boolean
+  admin?: Admin
+  errorMessage?: string
+}
+
+// Only Supabase Auth users with a row in `instructors` may use the admin dashboard
+const loadInstructor = async (session: Session): Promise<AdminAuthResult> => {
+  const { data: instructor, error } = await supabase
+    .from('instructors')
+    .select('id, email, name')
+    .eq('id', session.user.id)
+    .single()
+
+  if (error || !instructor) {
+    return {
+      success: false,
+      errorMessage: 'This account is not registered as an instructor'
+    }
+  }
+
+  return {
+    success: true,
+    admin: {
+      id: instructor.id,
+      email: instructor.email,
+      name: instructor.name || undefined,
+      session
+    }
+  }
+}
+
+// Sign an instructor in with their Supabase Auth email and password
+export async function signInAdmin(email: string, password: string): Promise<AdminAuthResult> {
+  try {
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password })
+
+    if (error || !data.session) {
+      return {
+        success: false,
+        errorMessage: error?.message || 'Invalid email or password'
+      }
+    }
+
+    const result = await loadInstructor(data.session)
+    if (!result.success) {
+      await supabase.auth.signOut()
+    }
+
+    return result
+
+  } catch (error) {
+    console.error('Unexpected error during admin sign-in:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
+// Restore the signed-in instructor from the persisted Supabase session, if any
+export async function getAdminSession(): Promise<AdminAuthResult> {
+  try {
+    const { data, error } = await supabase.auth.getSession()
+
+    if (error || !data.session) {
+      return { success: false }
+    }
+
+    return await loadInstructor(data.session)
+
+  } catch (error) {
+    console.error('Unexpected error restoring admin session:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
+export async function signOutAdmin(): Promise<void> {
+  const { error } = await supabase.auth.signOut()
+
+  if (error) {
+    console.error('Admin sign-out error:', error)
+  }
+}
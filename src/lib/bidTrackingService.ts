@@ -1,5 +1,5 @@
 import { supabase } from '@/lib/supabase'
-import { Student, BidOpportunity } from '@/types'
+import { Bidder, BidOpportunity } from '@/types'
 
 export interface BidStatus {
   opportunityId: string
@@ -127,74 +127,95 @@ export async function getClassBidStatistics(classId: string): Promise<ClassBidSt
   }
 }
 
-// Subscribe to real-time bid updates for a class
-export function subscribeToClassBidUpdates(
-  classId: string,
-  onUpdate: (statistics: ClassBidStatistics) => void
-) {
-  const channel = supabase
-    .channel(`class-bids-${classId}`)
-    .on(
-      'postgres_changes',
-      {
-        event: '*',
-        schema: 'public',
-        table: 'bids',
-      },
-      async () => {
-        // Refresh statistics when any bid changes
-        const updatedStats = await getClassBidStatistics(classId)
-        onUpdate(updatedStats)
-      }
-    )
-    .on(
-      'postgres_changes',
-      {
-        event: '*',
-        schema: 'public',
-        table: 'students',
-      },
-      async () => {
-        // Refresh when student token status changes
-        const updatedStats = await getClassBidStatistics(classId)
-        onUpdate(updatedStats)
-      }
-    )
-    .subscribe()
+// One bidder as returned by get_opportunity_bidders
+export interface BidderRecord {
+  id: string
+  name: string
+  email: string
+  student_number: string | null
+  tokens_remaining: number
+  token_status: string
+  bid_id: string
+  bid_amount: number
+  bid_status: Bidder['bidStatus']
+  bid_at: string
+}
+
+export interface BidderPage {
+  total: number
+  bidders: Bidder[]
+}
+
+export const BIDDER_PAGE_SIZE = 50
+
+export const mapBidder = (record: BidderRecord): Bidder => ({
+  id: record.id,
+  name: record.name,
+  email: record.email,
+  studentNumber: record.student_number || undefined,
+  hasUsedToken: record.tokens_remaining <= 0,
+  tokensRemaining: record.tokens_remaining,
+  hasBid: true,
+  bidId: record.bid_id,
+  bidAmount: record.bid_amount,
+  bidStatus: record.bid_status,
+  bidAt: record.bid_at
+})
+
+// Get one page of the students who bid on an opportunity, in the order they bid.
+// Instructors see every bidder; RLS limits students to their own bid.
+export async function fetchOpportunityBidders(
+  opportunityId: string,
+  { limit = BIDDER_PAGE_SIZE, offset = 0 }: { limit?: number; offset?: number } = {}
+): Promise<BidderPage> {
+  const { data, error } = await supabase
+    .rpc('get_opportunity_bidders', {
+      p_opportunity_id: opportunityId,
+      p_limit: limit,
+      p_offset: offset
+    })
+
+  if (error) {
+    throw new Error(`Failed to fetch bidders: ${error.message}`)
+  }
 
-  return () => {
-    supabase.removeChannel(channel)
+  return {
+    total: data?.total || 0,
+    bidders: ((data?.bidders || []) as BidderRecord[]).map(mapBidder)
   }
 }
 
-// Update bid opportunities with real-time bid counts
+// Attach bid counts to opportunities. The bidders already on each opportunity are kept;
+// they are at most one page, so views should show bidCount as the total.
+export function applyBidCounts(
+  opportunities: BidOpportunity[],
+  bidCounts: Record<string, number>
+): BidOpportunity[] {
+  return opportunities.map(opportunity => ({
+    ...opportunity,
+    bidCount: bidCounts[opportunity.id] || 0
+  }))
+}
+
+// Update bid opportunities with real-time bid counts and the first page of bidders
 export async function updateBidOpportunitiesWithCounts(
   opportunities: BidOpportunity[],
   classId: string
 ): Promise<BidOpportunity[]> {
   try {
     const bidCounts = await getClassOpportunityBidCounts(classId)
-    
-    return opportunities.map(opportunity => {
-      const bidCount = bidCounts[opportunity.id] || 0
-      
-      // Create mock bidders array based on bid count
-      // In a real implementation, you'd fetch actual bidder details
-      const mockBidders: Student[] = Array.from({ length: bidCount }, (_, index) => ({
-        id: `bidder-${opportunity.id}-${index}`,
-        name: `Bidder ${index + 1}`,
-        email: `bidder${index + 1}@example.com`,
-        hasUsedToken: true,
-        hasBid: true
-      }))
-      
-      return {
-        ...opportunity,
-        bidders: mockBidders
+    const counted = applyBidCounts(opportunities, bidCounts)
+
+    return await Promise.all(counted.map(async opportunity => {
+      if (!opportunity.bidCount) {
+        return { ...opportunity, bidders: [] }
       }
-    })
+
+      const page = await fetchOpportunityBidders(opportunity.id)
+      return { ...opportunity, bidders: page.bidders, bidCount: page.total }
+    }))
   } catch (error) {
     console.error('Error updating opportunities with bid counts:', error)
     return opportunities
   }
-}
\ No newline at end of file
+}
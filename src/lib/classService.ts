@@ -1,6 +1,6 @@
 import { supabase } from '@/lib/supabase'
-import { ClassConfig, Student, BidOpportunity } from '@/types'
-import { getClassBidStatistics, updateBidOpportunitiesWithCounts } from '@/lib/bidTrackingService'
+import { ClassConfig, Student, BidOpportunity, AllocationMode, TokenPolicy } from '@/types'
+import { applyBidCounts, BidderRecord, mapBidder } from '@/lib/bidTrackingService'
 
 export interface CreateClassData {
   name: string
@@ -10,17 +10,48 @@ export interface CreateClassData {
   capacity?: number
 }
 
+// password_hash is never readable from the client
 export interface SupabaseClass {
   id: string
   name: string
-  password_hash: string
   capacity_default: number
+  initial_tokens: number
+  refund_losing_bids: boolean
+  term_topup: boolean
+  max_token_balance: number
+  last_topup_at: string | null
+  reward_title: string
+  reward_description: string
+  instructor_id: string | null
   created_at: string
 }
 
+// One student as a person, whichever classes they are enrolled in
+export interface SupabasePerson {
+  id: string
+  name: string
+  email: string
+  student_number: string | null
+  created_at: string
+}
+
+// One person's place in one class; tokens, bids and token history belong to it
+export interface SupabaseClassEnrollment {
+  id: string
+  class_id: string
+  person_id: string
+  tokens_remaining: number
+  token_status: string
+  bidding_result: string
+  archived_at: string | null
+  created_at: string
+}
+
+// A row of the students view: an enrolment joined to its person
 export interface SupabaseStudent {
   id: string
   class_id: string
+  person_id?: string
   name: string
   email: string
   student_number: string
@@ -38,9 +69,38 @@ export interface SupabaseOpportunity {
   capacity: number
   status: string
   draw_seed: string | null
+  draw_seed_hash: string | null
+  draw_seed_revealed_at: string | null
+  drawn_at: string | null
+  allocation_mode: AllocationMode
+  clearing_price: number | null
   created_at: string
 }
 
+export interface DrawSeedReveal {
+  success: boolean
+  drawSeed?: string
+  drawSeedHash?: string
+  revealedAt?: string
+  error?: string
+}
+
+export interface TokenLedgerEntry {
+  id: string
+  studentId: string
+  studentName: string
+  opportunityId: string | null
+  amount: number
+  type: 'bid' | 'reset' | 'topup' | 'refund'
+  description: string | null
+  createdAt: string
+}
+
+export interface TermTopUpResult {
+  studentsToppedUp: number
+  tokensAdded: number
+}
+
 export interface ClassDeletionResult {
   success: boolean
   classId: string
@@ -57,6 +117,9 @@ export interface ClassDeletionResult {
   timestamp: string
 }
 
+// Columns the client may read; password_hash is excluded by a column grant
+const CLASS_COLUMNS = 'id, name, capacity_default, initial_tokens, refund_losing_bids, term_topup, max_token_balance, last_topup_at, reward_title, reward_description, instructor_id, created_at'
+
 // Create a new class in Supabase
 export const createClass = async (classData: CreateClassData): Promise<ClassConfig> => {
   try {
@@ -65,10 +128,12 @@ export const createClass = async (classData: CreateClassData): Promise<ClassConf
       .from('classes')
       .insert({
         name: classData.name,
-        password_hash: classData.password, // In production, this should be hashed
-        capacity_default: classData.capacity
+        password_hash: classData.password, // Hashed by the database on insert
+        capacity_default: classData.capacity,
+        reward_title: classData.rewardTitle,
+        reward_description: classData.rewardDescription
       })
-      .select()
+      .select(CLASS_COLUMNS)
       .single()
 
     if (classError) {
@@ -91,9 +156,8 @@ export const createClass = async (classData: CreateClassData): Promise<ClassConf
     const classConfig: ClassConfig = {
       id: classRecord.id,
       className: classRecord.name,
-      password: classData.password, // Keep original password for UI
-      rewardTitle: classData.rewardTitle || "Dinner with Professor",
-      rewardDescription: classData.rewardDescription || "Join the professor for dinner and discussion at a local restaurant.",
+      rewardTitle: classRecord.reward_title,
+      rewardDescription: classRecord.reward_description,
       capacity: classRecord.capacity_default,
       students: [],
       bidders: [],
@@ -137,7 +201,7 @@ export const validateClassForDeletion = async (classId: string): Promise<{
 
     // Get counts of related records
     const [studentsResult, opportunitiesResult, bidsResult, tokenHistoryResult] = await Promise.all([
-      supabase.from('students').select('id', { count: 'exact' }).eq('class_id', classId),
+      supabase.from('class_enrollments').select('id', { count: 'exact' }).eq('class_id', classId),
       supabase.from('opportunities').select('id', { count: 'exact' }).eq('class_id', classId),
       supabase.rpc('count_class_bids', { p_class_id: classId }),
       supabase.rpc('count_class_token_history', { p_class_id: classId })
@@ -281,6 +345,7 @@ export const createBidOpportunity = async (
     opens_at: string
     closes_at: string
     capacity?: number
+    allocation_mode?: AllocationMode
   }
 ): Promise<BidOpportunity> => {
   try {
@@ -292,7 +357,8 @@ export const createBidOpportunity = async (
         opens_at: opportunityData.opens_at,
         closes_at: opportunityData.closes_at,
         event_date: new Date(opportunityData.event_date).toISOString().split('T')[0],
-        capacity: opportunityData.capacity
+        capacity: opportunityData.capacity,
+        allocation_mode: opportunityData.allocation_mode || 'lottery'
       })
       .select()
       .single()
@@ -304,14 +370,17 @@ export const createBidOpportunity = async (
     // Convert to BidOpportunity format
     const bidOpportunity: BidOpportunity = {
       id: opportunityRecord.id,
-      date: opportunityRecord.closes_at,
+      date: opportunityRecord.event_date,
       bidOpenDate: opportunityRecord.opens_at,
+      closesAt: opportunityRecord.closes_at,
       title: opportunityData.title,
       description: opportunityRecord.description,
       bidders: [],
       selectedStudents: [],
       isOpen: false,
-      capacity: opportunityRecord.capacity
+      capacity: opportunityRecord.capacity,
+      drawSeedHash: opportunityRecord.draw_seed_hash || undefined,
+      allocationMode: opportunityRecord.allocation_mode
     }
 
     return bidOpportunity
@@ -321,96 +390,97 @@ export const createBidOpportunity = async (
   }
 }
 
-// Fetch all classes from Supabase with real-time bid data
+// One class as returned by get_admin_overview / get_class_detail
+export interface ClassOverviewRecord extends SupabaseClass {
+  students: (Omit<SupabaseStudent, 'class_id' | 'created_at'> & { token_status: string })[]
+  opportunities: (Omit<SupabaseOpportunity, 'class_id' | 'created_at' | 'draw_seed_revealed_at'> & {
+    bid_count: number
+    // Only filled in by get_class_detail; bidders is the first page in bid order
+    bidders: BidderRecord[] | null
+    winner_ids: string[] | null
+    waitlist_ids: string[] | null
+  })[]
+}
+
+const mapClassOverview = (classRecord: ClassOverviewRecord): ClassConfig => {
+  const students: Student[] = classRecord.students.map(student => ({
+    id: student.id,
+    personId: student.person_id,
+    name: student.name,
+    email: student.email,
+    studentNumber: student.student_number || undefined,
+    hasUsedToken: student.tokens_remaining <= 0,
+    tokensRemaining: student.tokens_remaining,
+    hasBid: student.token_status === 'used'
+  }))
+
+  const studentsById = new Map(students.map(student => [student.id, student]))
+  const findStudents = (ids: string[] | null) => (ids || []).map(id => studentsById.get(id)).filter(Boolean)
+
+  const bidOpportunities: BidOpportunity[] = classRecord.opportunities.map(opp => ({
+    id: opp.id,
+    date: opp.event_date,
+    bidOpenDate: opp.opens_at,
+    closesAt: opp.closes_at,
+    drawnAt: opp.drawn_at || undefined,
+    title: `Bidding Opportunity - ${new Date(opp.event_date).toLocaleDateString()}`,
+    description: opp.description,
+    bidders: (opp.bidders || []).map(mapBidder),
+    selectedStudents: findStudents(opp.winner_ids).map(student => ({ ...student, isSelected: true })),
+    waitlist: findStudents(opp.waitlist_ids),
+    isOpen: opp.status === 'open',
+    capacity: opp.capacity,
+    drawSeedHash: opp.draw_seed_hash || undefined,
+    drawSeed: opp.draw_seed || undefined,
+    allocationMode: opp.allocation_mode,
+    clearingPrice: opp.clearing_price ?? undefined
+  }))
+
+  const bidCounts = Object.fromEntries(classRecord.opportunities.map(opp => [opp.id, opp.bid_count]))
+
+  return {
+    id: classRecord.id,
+    className: classRecord.name,
+    rewardTitle: classRecord.reward_title,
+    rewardDescription: classRecord.reward_description,
+    capacity: classRecord.capacity_default,
+    students,
+    bidders: students.filter(s => s.hasBid),
+    selectedStudents: [],
+    bidOpportunities: applyBidCounts(bidOpportunities, bidCounts),
+    tokenPolicy: mapTokenPolicy(classRecord)
+  }
+}
+
+// Fetch every class visible to the caller with its students, opportunities and bid
+// counts in one round-trip. Draw results are left out; see fetchClassDetail.
 export const fetchClasses = async (): Promise<ClassConfig[]> => {
   try {
-    const { data: classesData, error: classesError } = await supabase
-      .from('classes')
-      .select('*')
-      .order('created_at', { ascending: false })
-
-    if (classesError) {
-      throw new Error(`Failed to fetch classes: ${classesError.message}`)
-    }
+    const { data, error } = await supabase.rpc('get_admin_overview')
 
-    if (!classesData || classesData.length === 0) {
-      return []
+    if (error) {
+      throw new Error(`Failed to fetch classes: ${error.message}`)
     }
 
-    // Fetch all related data for each class
-    const classConfigs: ClassConfig[] = []
-
-    for (const classRecord of classesData) {
-      // Fetch students
-      const { data: studentsData, error: studentsError } = await supabase
-        .from('students')
-        .select('*')
-        .eq('class_id', classRecord.id)
-
-      if (studentsError) {
-        console.error(`Failed to fetch students for class ${classRecord.id}:`, studentsError.message)
-      }
-
-      // Fetch opportunities
-      const { data: opportunitiesData, error: opportunitiesError } = await supabase
-        .from('opportunities')
-        .select('*')
-        .eq('class_id', classRecord.id)
-        .order('event_date', { ascending: true })
-
-      if (opportunitiesError) {
-        console.error(`Failed to fetch opportunities for class ${classRecord.id}:`, opportunitiesError.message)
-      }
-
-      // Convert to ClassConfig format
-      const students: Student[] = (studentsData || []).map(student => ({
-        id: student.id,
-        name: student.name,
-        email: student.email,
-        studentNumber: student.student_number || undefined,
-        hasUsedToken: student.tokens_remaining <= 0,
-        hasBid: student.token_status === 'used'
-      }))
-
-      // Create bid opportunities with real-time bid counts
-      let bidOpportunities: BidOpportunity[] = (opportunitiesData || []).map(opp => ({
-        id: opp.id,
-        date: opp.closes_at,
-        bidOpenDate: opp.opens_at,
-        title: `Bidding Opportunity - ${new Date(opp.event_date).toLocaleDateString()}`,
-        description: opp.description,
-        bidders: [], // Will be populated with real data below
-        selectedStudents: [],
-        isOpen: opp.status === 'open',
-        capacity: opp.capacity
-      }))
+    return ((data || []) as ClassOverviewRecord[]).map(mapClassOverview)
+  } catch (error) {
+    console.error('Error fetching classes:', error)
+    throw error
+  }
+}
 
-      // Update opportunities with real bid counts
-      bidOpportunities = await updateBidOpportunitiesWithCounts(bidOpportunities, classRecord.id)
-
-      // Get students who have bid (from the bid tracking system)
-      const bidStatistics = await getClassBidStatistics(classRecord.id)
-      const studentsWhoBid = students.filter(s => s.hasBid)
-
-      const classConfig: ClassConfig = {
-        id: classRecord.id,
-        className: classRecord.name,
-        password: classRecord.password_hash,
-        rewardTitle: "Dinner with Professor",
-        rewardDescription: "Join the professor for dinner and discussion at a local restaurant.",
-        capacity: classRecord.capacity_default,
-        students,
-        bidders: studentsWhoBid,
-        selectedStudents: [],
-        bidOpportunities
-      }
+// Fetch one class including the winners and waitlist of each opportunity
+export const fetchClassDetail = async (classId: string): Promise<ClassConfig | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_class_detail', { p_class_id: classId })
 
-      classConfigs.push(classConfig)
+    if (error) {
+      throw new Error(`Failed to fetch class: ${error.message}`)
     }
 
-    return classConfigs
+    return data ? mapClassOverview(data as ClassOverviewRecord) : null
   } catch (error) {
-    console.error('Error fetching classes:', error)
+    console.error('Error fetching class detail:', error)
     throw error
   }
 }
@@ -421,8 +491,10 @@ export const updateClass = async (classId: string, updates: Partial<CreateClassD
     const updateData: any = {}
     
     if (updates.name) updateData.name = updates.name
-    if (updates.password) updateData.password_hash = updates.password
+    if (updates.password) updateData.password_hash = updates.password // Hashed by the database
     if (updates.capacity !== undefined) updateData.capacity_default = updates.capacity
+    if (updates.rewardTitle) updateData.reward_title = updates.rewardTitle
+    if (updates.rewardDescription) updateData.reward_description = updates.rewardDescription
 
     const { error } = await supabase
       .from('classes')
@@ -438,6 +510,91 @@ export const updateClass = async (classId: string, updates: Partial<CreateClassD
   }
 }
 
+const mapTokenPolicy = (classRecord: SupabaseClass): TokenPolicy => ({
+  initialTokens: classRecord.initial_tokens ?? 1,
+  refundLosingBids: classRecord.refund_losing_bids ?? false,
+  termTopUp: classRecord.term_topup ?? false,
+  maxBalance: classRecord.max_token_balance ?? 1,
+  lastTopUpAt: classRecord.last_topup_at || undefined
+})
+
+// Update the token policy applied by draws, top-ups and new enrolments
+export const updateClassTokenPolicy = async (classId: string, policy: TokenPolicy): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('classes')
+      .update({
+        initial_tokens: policy.initialTokens,
+        refund_losing_bids: policy.refundLosingBids,
+        term_topup: policy.termTopUp,
+        max_token_balance: policy.maxBalance
+      })
+      .eq('id', classId)
+
+    if (error) {
+      throw new Error(`Failed to update token policy: ${error.message}`)
+    }
+  } catch (error) {
+    console.error('Error updating token policy:', error)
+    throw error
+  }
+}
+
+// Give every student in the class a new term's tokens, capped at the maximum balance
+export const applyTermTopUp = async (classId: string): Promise<TermTopUpResult> => {
+  try {
+    const { data, error } = await supabase
+      .rpc('apply_term_topup', { p_class_id: classId })
+
+    if (error) {
+      throw new Error(`Failed to apply term top-up: ${error.message}`)
+    }
+
+    if (!data.success) {
+      throw new Error(data.error_message || 'Term top-up failed')
+    }
+
+    return {
+      studentsToppedUp: data.students_topped_up,
+      tokensAdded: data.tokens_added
+    }
+  } catch (error) {
+    console.error('Error applying term top-up:', error)
+    throw error
+  }
+}
+
+// Fetch the most recent token ledger entries for a class's students
+export const fetchTokenLedger = async (classId: string, limit = 50): Promise<TokenLedgerEntry[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('token_history')
+      .select('id, student_id, opportunity_id, amount, type, description, created_at, student:students!inner(name, class_id)')
+      .eq('student.class_id', classId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to fetch token ledger: ${error.message}`)
+    }
+
+    return (data || []).map(entry => ({
+      id: entry.id,
+      studentId: entry.student_id,
+      // Many-to-one joins come back as a single object
+      studentName: (entry.student as unknown as { name: string } | null)?.name || 'Unknown',
+      opportunityId: entry.opportunity_id,
+      amount: entry.amount,
+      type: entry.type,
+      description: entry.description,
+      createdAt: entry.created_at
+    }))
+  } catch (error) {
+    console.error('Error fetching token ledger:', error)
+    throw error
+  }
+}
+
 // Update bidding opportunity - FIXED VERSION
 export const updateBidOpportunity = async (
   opportunityId: string, 
@@ -448,6 +605,7 @@ export const updateBidOpportunity = async (
     opens_at?: string
     closes_at?: string
     capacity?: number
+    allocation_mode?: AllocationMode
   }
 ): Promise<void> => {
   try {
@@ -460,10 +618,11 @@ export const updateBidOpportunity = async (
     if (updates.description) updateData.description = updates.description
     if (updates.event_date) {
       updateData.event_date = new Date(updates.event_date).toISOString().split('T')[0]
-      updateData.closes_at = updates.event_date
     }
     if (updates.opens_at) updateData.opens_at = updates.opens_at
+    if (updates.closes_at) updateData.closes_at = updates.closes_at
     if (updates.capacity !== undefined) updateData.capacity = updates.capacity
+    if (updates.allocation_mode) updateData.allocation_mode = updates.allocation_mode
 
     console.log('Sending update data to Supabase:', updateData)
 
@@ -507,32 +666,67 @@ export const deleteBidOpportunity = async (opportunityId: string): Promise<void>
   }
 }
 
-// Add students to a class
-export const addStudentsToClass = async (classId: string, students: Omit<Student, 'id' | 'hasUsedToken' | 'hasBid'>[]): Promise<Student[]> => {
+// Reveal the committed draw seed for an opportunity once bidding has closed
+export const revealDrawSeed = async (opportunityId: string): Promise<DrawSeedReveal> => {
   try {
-    const studentsData = students.map(student => ({
-      class_id: classId,
-      name: student.name,
-      email: student.email,
-      student_number: student.studentNumber || null,
-      tokens_remaining: 1
-    }))
+    const { data, error } = await supabase
+      .rpc('reveal_draw_seed', { p_opportunity_id: opportunityId })
 
-    const { data: insertedStudents, error } = await supabase
-      .from('students')
-      .insert(studentsData)
-      .select()
+    if (error) {
+      throw new Error(`Failed to reveal draw seed: ${error.message}`)
+    }
+
+    if (!data.success) {
+      return {
+        success: false,
+        error: data.error_message || 'Draw seed could not be revealed'
+      }
+    }
+
+    return {
+      success: true,
+      drawSeed: data.draw_seed,
+      drawSeedHash: data.draw_seed_hash,
+      revealedAt: data.revealed_at
+    }
+  } catch (error) {
+    console.error('Error revealing draw seed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unexpected error revealing draw seed'
+    }
+  }
+}
+
+// Add students to a class. Students already enrolled in another class keep their
+// identity and get a separate enrolment here with its own tokens.
+export const addStudentsToClass = async (classId: string, students: Omit<Student, 'id' | 'hasUsedToken' | 'hasBid'>[]): Promise<Student[]> => {
+  try {
+    const { data, error } = await supabase.rpc('enroll_students', {
+      p_class_id: classId,
+      p_students: students.map(student => ({
+        name: student.name,
+        email: student.email,
+        student_number: student.studentNumber || null
+      }))
+    })
 
     if (error) {
       throw new Error(`Failed to add students: ${error.message}`)
     }
 
-    return (insertedStudents || []).map(student => ({
+    if (!data.success) {
+      throw new Error(data.error_message || 'Failed to add students')
+    }
+
+    return ((data.students || []) as SupabaseStudent[]).map(student => ({
       id: student.id,
+      personId: student.person_id,
       name: student.name,
       email: student.email,
       studentNumber: student.student_number || undefined,
       hasUsedToken: student.tokens_remaining <= 0,
+      tokensRemaining: student.tokens_remaining,
       hasBid: false
     }))
   } catch (error) {
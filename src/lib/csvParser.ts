@@ -0,0 +1,133 @@
+// RFC 4180 CSV parsing. Fields may be quoted, quoted fields may contain commas, line
+// breaks and doubled quotes, and records may end in CRLF, LF or CR. A leading UTF-8 byte
+// order mark (as written by Excel and the LSE registry export) is dropped.
+
+export class CSVParseError extends Error {
+  constructor(message: string, public readonly record: number) {
+    super(message)
+    this.name = 'CSVParseError'
+  }
+}
+
+// Incremental parser: feed text in chunks of any size and collect completed records
+export class CSVParser {
+  private field = ''
+  private record: string[] = []
+  private inQuotes = false
+  // The previous chunk ended on a quote inside a quoted field, which may be the first
+  // half of an escaped "" or the closing quote
+  private pendingQuote = false
+  private pendingCR = false
+  private atStart = true
+  private recordCount = 0
+
+  push(chunk: string): string[][] {
+    const records: string[][] = []
+    let i = 0
+
+    if (this.atStart && chunk.length > 0) {
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1
+      this.atStart = false
+    }
+
+    for (; i < chunk.length; i++) {
+      const char = chunk[i]
+
+      if (this.pendingCR) {
+        this.pendingCR = false
+        if (char === '\n') continue
+      }
+
+      if (this.pendingQuote) {
+        this.pendingQuote = false
+        if (char === '"') {
+          this.field += '"'
+          continue
+        }
+        this.inQuotes = false
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.pendingQuote = true
+        } else {
+          this.field += char
+        }
+        continue
+      }
+
+      if (char === '"' && this.field === '') {
+        this.inQuotes = true
+      } else if (char === ',') {
+        this.endField()
+      } else if (char === '\n' || char === '\r') {
+        this.pendingCR = char === '\r'
+        records.push(this.endRecord())
+      } else {
+        this.field += char
+      }
+    }
+
+    return records
+  }
+
+  // Flush the last record, which may not end in a line break
+  end(): string[][] {
+    if (this.pendingQuote) {
+      this.pendingQuote = false
+      this.inQuotes = false
+    }
+
+    if (this.inQuotes) {
+      throw new CSVParseError(`Record ${this.recordCount + 1}: unterminated quoted field`, this.recordCount + 1)
+    }
+
+    if (this.field === '' && this.record.length === 0) {
+      return []
+    }
+
+    return [this.endRecord()]
+  }
+
+  private endField() {
+    this.record.push(this.field)
+    this.field = ''
+  }
+
+  private endRecord(): string[] {
+    this.endField()
+    const record = this.record
+    this.record = []
+    this.recordCount += 1
+    return record
+  }
+}
+
+const isBlankRecord = (record: string[]) => record.every(field => field.trim() === '')
+
+// Parse a complete CSV document, skipping blank lines
+export const parseCSV = (text: string): string[][] => {
+  const parser = new CSVParser()
+  return [...parser.push(text), ...parser.end()].filter(record => !isBlankRecord(record))
+}
+
+// Parse a file as it is read, so large exports are never held as one string
+export const parseCSVFile = async (file: Blob): Promise<string[][]> => {
+  if (typeof file.stream !== 'function') {
+    return parseCSV(await file.text())
+  }
+
+  const parser = new CSVParser()
+  const decoder = new TextDecoder('utf-8')
+  const reader = file.stream().getReader()
+  const records: string[][] = []
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    records.push(...parser.push(decoder.decode(value, { stream: true })))
+  }
+  records.push(...parser.push(decoder.decode()), ...parser.end())
+
+  return records.filter(record => !isBlankRecord(record))
+}
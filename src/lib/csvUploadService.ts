@@ -1,4 +1,8 @@
 import { supabase } from '@/lib/supabase'
+import { parseCSVFile } from '@/lib/csvParser'
+import { parseXLSXFile } from '@/lib/xlsxParser'
+import { findRosterAdapter } from '@/lib/rosterAdapters'
+import type { SupabasePerson } from '@/lib/classService'
 
 export interface CSVUploadResult {
   success: boolean
@@ -6,7 +10,10 @@ export interface CSVUploadResult {
   errors: string[]
   duplicatesSkipped: number
   message: string
-  replacedCount?: number // New field to track replaced students
+  addedCount: number // Students new to the class
+  updatedCount: number // Existing students whose details changed, including restored ones
+  unchangedCount: number
+  archivedCount: number // Enrolled students missing from the file, now archived
 }
 
 export interface StudentCSVData {
@@ -16,11 +23,13 @@ export interface StudentCSVData {
   class_id: string
 }
 
-// Validate CSV file format
-const validateCSVFile = (file: File): string | null => {
+const ROSTER_EXTENSIONS = ['.csv', '.xlsx']
+
+// Validate roster file format
+const validateRosterFile = (file: File): string | null => {
   // Check file extension
-  if (!file.name.toLowerCase().endsWith('.csv')) {
-    return 'File must be a CSV file (.csv extension)'
+  if (!ROSTER_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+    return 'File must be a CSV (.csv) or Excel (.xlsx) file'
   }
   
   // Check file size (max 5MB)
@@ -31,137 +40,148 @@ const validateCSVFile = (file: File): string | null => {
   return null
 }
 
-// Parse CSV content and validate structure
-const parseCSVContent = (csvText: string): { data: any[], errors: string[] } => {
-  const errors: string[] = []
-  const lines = csvText.trim().split('\n')
-  
-  if (lines.length < 2) {
-    errors.push('CSV file must contain at least a header row and one data row')
-    return { data: [], errors }
+export type StudentField = 'name' | 'email' | 'student_number'
+
+// Which CSV column (by index) holds each student field
+export type ColumnMapping = Record<StudentField, number | null>
+
+export const STUDENT_FIELDS: { field: StudentField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'email', label: 'Email' },
+  { field: 'student_number', label: 'Student Number' }
+]
+
+// Header names recognised without the instructor having to map them
+const COLUMN_ALIASES: Record<StudentField, string[]> = {
+  name: ['name', 'student name', 'full name'],
+  email: ['email', 'email address', 'e-mail'],
+  student_number: ['student number', 'student_number', 'id', 'student id', 'candidate number']
+}
+
+export interface ParsedStudentRow extends Omit<StudentCSVData, 'class_id'> {
+  row: number // 1-based record number in the file, the header being row 1
+}
+
+export interface CSVRowError {
+  row: number
+  message: string
+}
+
+export interface ParsedRosterFile {
+  headers: string[]
+  records: string[][] // Data records, without the header
+  rows: number[] // File row of each record
+  errors: CSVRowError[] // Rows left out by the format adapter
+  format: string | null // The recognised export, e.g. 'Moodle participants'
+}
+
+export const formatRowError = (error: CSVRowError) => `Row ${error.row}: ${error.message}`
+
+// Read and parse a CSV or Excel roster, rewriting known exports (Moodle, Canvas) as Name,
+// Email and Student Number columns; throws with a message fit for the instructor
+export const readRosterFile = async (file: File): Promise<ParsedRosterFile> => {
+  const fileValidationError = validateRosterFile(file)
+  if (fileValidationError) {
+    throw new Error(fileValidationError)
   }
-  
-  // Parse header row
-  const headerRow = lines[0].split(',').map(col => col.trim().toLowerCase())
-  
-  // Check for required columns - now both email AND student number are required
-  const requiredColumns = ['name', 'email', 'student number']
-  const nameIndex = headerRow.findIndex(col => 
-    col === 'name' || col === 'student name'
-  )
-  const emailIndex = headerRow.findIndex(col => 
-    col === 'email' || col === 'email address'
-  )
-  const studentNumberIndex = headerRow.findIndex(col => 
-    col === 'student number' || col === 'student_number' || col === 'id' || col === 'student id'
-  )
-  
-  const missingColumns = []
-  if (nameIndex === -1) missingColumns.push('Name')
-  if (emailIndex === -1) missingColumns.push('Email')
-  if (studentNumberIndex === -1) missingColumns.push('Student Number')
-  
-  if (missingColumns.length > 0) {
-    errors.push(`Missing required columns: ${missingColumns.join(', ')}. All three fields (Name, Email, Student Number) are required for login.`)
-    return { data: [], errors }
+
+  const isExcel = file.name.toLowerCase().endsWith('.xlsx')
+  const cells = isExcel ? await parseXLSXFile(file) : await parseCSVFile(file)
+
+  // Excel rows keep their sheet row numbers; blank rows are dropped from both formats
+  const numbered = cells
+    .map((record, index) => ({ record, row: index + 1 }))
+    .filter(({ record }) => record.some(field => field.trim() !== ''))
+  const [header, ...data] = numbered
+
+  if (!header || data.length === 0) {
+    throw new Error(`${isExcel ? 'Excel' : 'CSV'} file must contain at least a header row and one data row`)
   }
-  
-  // Parse data rows
-  const data: any[] = []
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim()
-    if (!line) continue // Skip empty lines
-    
-    const columns = line.split(',').map(col => col.trim())
-    
-    if (columns.length <= Math.max(nameIndex, emailIndex, studentNumberIndex)) {
-      errors.push(`Row ${i + 1}: Insufficient columns`)
-      continue
-    }
-    
-    const name = columns[nameIndex]?.trim()
-    const email = columns[emailIndex]?.trim()
-    const studentNumber = columns[studentNumberIndex]?.trim()
-    
-    // Validate required fields - all three are now required
-    if (!name) {
-      errors.push(`Row ${i + 1}: Name is required`)
-      continue
-    }
-    
-    if (!email) {
-      errors.push(`Row ${i + 1}: Email is required`)
-      continue
-    }
-    
-    if (!studentNumber) {
-      errors.push(`Row ${i + 1}: Student Number is required for login`)
-      continue
-    }
-    
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-    if (!emailRegex.test(email)) {
-      errors.push(`Row ${i + 1}: Invalid email format: ${email}`)
-      continue
-    }
-    
-    data.push({
-      name,
-      email: email.toLowerCase(),
-      student_number: studentNumber, // Store as string
-      row: i + 1
-    })
+
+  const table = {
+    headers: header.record.map(cell => cell.trim()),
+    records: data.map(({ record }) => record),
+    rows: data.map(({ row }) => row)
   }
-  
-  return { data, errors }
+
+  const adapter = findRosterAdapter(table.headers)
+  if (!adapter) {
+    return { ...table, errors: [], format: null }
+  }
+
+  return { ...adapter.adapt(table), format: adapter.label }
 }
 
-// Remove all existing students from the specific class ONLY
-const removeExistingStudents = async (classId: string): Promise<{ removedCount: number, errors: string[] }> => {
-  try {
-    console.log(`Removing existing students for class ID: ${classId}`)
-    
-    // First, get count of existing students for this specific class
-    const { data: existingStudents, error: countError } = await supabase
-      .from('students')
-      .select('id')
-      .eq('class_id', classId)
-    
-    if (countError) {
-      throw new Error(`Failed to count existing students: ${countError.message}`)
-    }
-    
-    const existingCount = existingStudents?.length || 0
-    console.log(`Found ${existingCount} existing students in class ${classId}`)
-    
-    // Delete all existing students for this specific class only
-    const { error: deleteError } = await supabase
-      .from('students')
-      .delete()
-      .eq('class_id', classId)
-    
-    if (deleteError) {
-      throw new Error(`Failed to remove existing students: ${deleteError.message}`)
-    }
-    
-    console.log(`Successfully removed ${existingCount} students from class ${classId}`)
-    return { removedCount: existingCount, errors: [] }
-  } catch (error) {
-    console.error('Error removing existing students:', error)
-    return { 
-      removedCount: 0, 
-      errors: [error instanceof Error ? error.message : 'Unknown error removing existing students'] 
-    }
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(header => header.trim().toLowerCase())
+  const findColumn = (field: StudentField) => {
+    const index = normalized.findIndex(header => COLUMN_ALIASES[field].includes(header))
+    return index === -1 ? null : index
+  }
+
+  return {
+    name: findColumn('name'),
+    email: findColumn('email'),
+    student_number: findColumn('student_number')
   }
 }
 
+export const getMissingFields = (mapping: ColumnMapping): string[] =>
+  STUDENT_FIELDS.filter(({ field }) => mapping[field] === null).map(({ label }) => label)
+
+// Turn data records into students using the column mapping and validate every row.
+// rows gives each record's file row; without it records are numbered from row 2.
+export const mapCSVRecords = (
+  records: string[][],
+  mapping: ColumnMapping,
+  rows?: number[]
+): { data: ParsedStudentRow[], errors: CSVRowError[] } => {
+  const errors: CSVRowError[] = []
+  const data: ParsedStudentRow[] = []
+
+  const missingFields = getMissingFields(mapping)
+  if (missingFields.length > 0) {
+    throw new Error(`Missing required columns: ${missingFields.join(', ')}. All three fields (Name, Email, Student Number) are required for login.`)
+  }
+
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+  records.forEach((record, index) => {
+    const row = rows?.[index] ?? index + 2
+    const name = record[mapping.name]?.trim()
+    const email = record[mapping.email]?.trim()
+    const studentNumber = record[mapping.student_number]?.trim()
+
+    // Validate required fields - all three are required
+    if (!name) {
+      errors.push({ row, message: 'Name is required' })
+    } else if (!email) {
+      errors.push({ row, message: 'Email is required' })
+    } else if (!studentNumber) {
+      errors.push({ row, message: 'Student Number is required for login' })
+    } else if (!emailRegex.test(email)) {
+      errors.push({ row, message: `Invalid email format: ${email}` })
+    } else {
+      data.push({
+        name,
+        email: email.toLowerCase(),
+        student_number: studentNumber, // Store as string
+        row
+      })
+    }
+  })
+
+  return { data, errors }
+}
+
 // Check for duplicates within the new CSV data (within the same class)
-const checkForInternalDuplicates = (students: any[]): { cleanStudents: any[], duplicates: string[] } => {
+const checkForInternalDuplicates = (
+  students: ParsedStudentRow[]
+): { cleanStudents: ParsedStudentRow[], duplicates: CSVRowError[] } => {
   const seenEmails = new Set<string>()
   const seenStudentNumbers = new Set<string>()
-  const cleanStudents: any[] = []
-  const duplicates: string[] = []
+  const cleanStudents: ParsedStudentRow[] = []
+  const duplicates: CSVRowError[] = []
   
   students.forEach(student => {
     const emailLower = student.email.toLowerCase()
@@ -171,7 +191,10 @@ const checkForInternalDuplicates = (students: any[]): { cleanStudents: any[], du
     const isDuplicateStudentNumber = seenStudentNumbers.has(studentNumberLower)
     
     if (isDuplicateEmail || isDuplicateStudentNumber) {
-      duplicates.push(`Row ${student.row}: ${student.name} (Email: ${student.email}, Student #: ${student.student_number})`)
+      duplicates.push({
+        row: student.row,
+        message: `Duplicate of an earlier row: ${student.name} (Email: ${student.email}, Student #: ${student.student_number})`
+      })
     } else {
       seenEmails.add(emailLower)
       seenStudentNumbers.add(studentNumberLower)
@@ -182,157 +205,212 @@ const checkForInternalDuplicates = (students: any[]): { cleanStudents: any[], du
   return { cleanStudents, duplicates }
 }
 
-// Upload students to Supabase with proper error handling using upsert
-const uploadStudentsToSupabase = async (
-  students: any[], 
-  classId: string
-): Promise<{ success: number, errors: string[] }> => {
-  const errors: string[] = []
-  let successCount = 0
-  
-  console.log(`Uploading ${students.length} students to class ${classId}`)
-  
-  // Prepare data for insertion
-  const studentsData = students.map(student => ({
-    class_id: classId,
-    name: student.name,
-    email: student.email,
-    student_number: student.student_number, // Required field
-    tokens_remaining: 1,
-    token_status: 'unused',
-    bidding_result: 'pending'
+// A student already enrolled in the class
+export interface ExistingStudent {
+  id: string
+  name: string
+  email: string
+  student_number: string | null
+  archived_at: string | null
+}
+
+export interface StudentChange {
+  existing: ExistingStudent
+  incoming: ParsedStudentRow
+  fields: StudentField[] // Fields whose value differs
+  restored: boolean // Archived and back on the roster
+}
+
+// What an import would do to the class roster, computed before anything is written
+export interface ImportPreview {
+  added: ParsedStudentRow[]
+  changed: StudentChange[]
+  unchanged: ParsedStudentRow[]
+  archived: ExistingStudent[] // Enrolled but absent from the file
+  errors: CSVRowError[] // Rows to fix before the roster can be synced
+  students: ParsedStudentRow[] // Every valid row, in file order
+}
+
+// Match incoming rows to enrolled students by student number, then by email, the same way
+// sync_class_roster does
+export const diffRoster = (
+  existing: ExistingStudent[],
+  incoming: ParsedStudentRow[]
+): Pick<ImportPreview, 'added' | 'changed' | 'unchanged' | 'archived'> => {
+  // Active enrolments win over archived ones with the same key
+  const ordered = [...existing].sort((a, b) => Number(!!a.archived_at) - Number(!!b.archived_at))
+  const byStudentNumber = new Map<string, ExistingStudent>()
+  const byEmail = new Map<string, ExistingStudent>()
+  ordered.forEach(student => {
+    const studentNumber = (student.student_number || '').toLowerCase()
+    const email = student.email.toLowerCase()
+    if (!byStudentNumber.has(studentNumber)) byStudentNumber.set(studentNumber, student)
+    if (!byEmail.has(email)) byEmail.set(email, student)
+  })
+  const matched = new Set<string>()
+
+  const added: ParsedStudentRow[] = []
+  const changed: StudentChange[] = []
+  const unchanged: ParsedStudentRow[] = []
+
+  incoming.forEach(row => {
+    const match = [byStudentNumber.get(row.student_number.toLowerCase()), byEmail.get(row.email.toLowerCase())]
+      .find(student => student && !matched.has(student.id))
+
+    if (!match) {
+      added.push(row)
+      return
+    }
+
+    matched.add(match.id)
+    const fields = STUDENT_FIELDS
+      .map(({ field }) => field)
+      .filter(field => (match[field] || '') !== row[field])
+    const restored = !!match.archived_at
+
+    if (fields.length > 0 || restored) {
+      changed.push({ existing: match, incoming: row, fields, restored })
+    } else {
+      unchanged.push(row)
+    }
+  })
+
+  return {
+    added,
+    changed,
+    unchanged,
+    archived: existing.filter(student => !student.archived_at && !matched.has(student.id))
+  }
+}
+
+// A class enrolment with the person's details embedded
+interface EnrollmentRecord {
+  id: string
+  archived_at: string | null
+  person: Pick<SupabasePerson, 'name' | 'email' | 'student_number'>
+}
+
+// Dry run: validate the mapped rows and compare them with the class roster
+export const previewStudentImport = async (
+  classId: string,
+  file: ParsedRosterFile,
+  mapping: ColumnMapping
+): Promise<ImportPreview> => {
+  const { data, errors } = mapCSVRecords(file.records, mapping, file.rows)
+  const { cleanStudents, duplicates } = checkForInternalDuplicates(data)
+
+  const { data: enrollments, error } = await supabase
+    .from('class_enrollments')
+    .select('id, archived_at, person:people(name, email, student_number)')
+    .eq('class_id', classId)
+
+  if (error) {
+    throw new Error(`Failed to load the current roster: ${error.message}`)
+  }
+
+  const existing: ExistingStudent[] = ((enrollments || []) as unknown as EnrollmentRecord[]).map(enrollment => ({
+    id: enrollment.id,
+    name: enrollment.person.name,
+    email: enrollment.person.email,
+    student_number: enrollment.person.student_number,
+    archived_at: enrollment.archived_at
   }))
-  
+
+  return {
+    ...diffRoster(existing, cleanStudents),
+    errors: [...file.errors, ...errors, ...duplicates].sort((a, b) => a.row - b.row),
+    students: cleanStudents
+  }
+}
+
+const emptyResult = (): CSVUploadResult => ({
+  success: false,
+  recordsProcessed: 0,
+  errors: [],
+  duplicatesSkipped: 0,
+  message: '',
+  addedCount: 0,
+  updatedCount: 0,
+  unchangedCount: 0,
+  archivedCount: 0
+})
+
+// Bring the class roster in line with the previewed students in one transaction.
+// Matched students keep their id, tokens and bids; students missing from the list are
+// archived rather than deleted, which withdraws their open bids. A row with an error
+// might be an enrolled student, so nothing is synced until every row is valid.
+export const syncRoster = async (
+  classId: string,
+  students: ParsedStudentRow[],
+  rowErrors: CSVRowError[] = []
+): Promise<CSVUploadResult> => {
+  const result = emptyResult()
+
+  if (rowErrors.length > 0) {
+    result.errors = rowErrors.map(formatRowError)
+    result.message = `Fix the ${rowErrors.length} row${rowErrors.length !== 1 ? 's' : ''} with errors and try again. Students missing from the file are archived, so the roster is only synced from a file without errors.`
+    return result
+  }
+
+  if (students.length === 0) {
+    result.message = 'No valid student data to import. Remember: Name, Email, and Student Number are all required.'
+    return result
+  }
+
   try {
-    // Use upsert instead of insert to handle existing emails
-    // This will update existing students or insert new ones
-    const { data, error } = await supabase
-      .from('students')
-      .upsert(studentsData, { 
-        onConflict: 'email',
-        ignoreDuplicates: false 
-      })
-      .select()
-    
+    const { data, error } = await supabase.rpc('sync_class_roster', {
+      p_class_id: classId,
+      p_students: students.map(({ name, email, student_number }) => ({ name, email, student_number }))
+    })
+
     if (error) {
-      console.error('Database upsert error:', error)
-      errors.push(`Database error: ${error.message}`)
-    } else {
-      successCount = data?.length || 0
-      console.log(`Successfully upserted ${successCount} students`)
+      throw new Error(`Failed to sync roster: ${error.message}`)
     }
+
+    if (!data?.success) {
+      result.errors.push(data?.error_message || 'Failed to sync roster')
+      result.message = 'Roster sync failed; no students were changed'
+      return result
+    }
+
+    result.success = true
+    result.addedCount = data.added
+    result.updatedCount = data.updated + data.restored
+    result.unchangedCount = data.unchanged
+    result.archivedCount = data.archived
+    result.recordsProcessed = students.length
+    result.message = `Roster synced: ${result.addedCount} added, ${result.updatedCount} updated, ${result.archivedCount} archived`
   } catch (error) {
-    console.error('Unexpected error during upload:', error)
-    errors.push(`Unexpected error during upload: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    console.error('Roster sync error:', error)
+    result.errors.push(error instanceof Error ? error.message : 'Unknown error')
+    result.message = 'Roster sync failed; no students were changed'
   }
-  
-  return { success: successCount, errors }
+
+  return result
 }
 
-// Main CSV upload function - replaces existing students for the specific class only
+// Upload a roster without the mapping and preview steps, recognising columns by header
 export const uploadCSVToSupabase = async (
   file: File, 
   classId: string
 ): Promise<CSVUploadResult> => {
-  const result: CSVUploadResult = {
-    success: false,
-    recordsProcessed: 0,
-    errors: [],
-    duplicatesSkipped: 0,
-    message: '',
-    replacedCount: 0
-  }
-  
   try {
-    console.log(`Starting CSV upload for class: ${classId}`)
-    
-    // Step 1: Validate file
-    const fileValidationError = validateCSVFile(file)
-    if (fileValidationError) {
-      result.errors.push(fileValidationError)
-      result.message = 'File validation failed'
-      return result
-    }
-    
-    // Step 2: Read and parse CSV content
-    const csvText = await file.text()
-    const { data: parsedData, errors: parseErrors } = parseCSVContent(csvText)
-    
-    if (parseErrors.length > 0) {
-      result.errors.push(...parseErrors)
-    }
-    
-    if (parsedData.length === 0) {
-      result.message = 'No valid student data found in CSV file. Remember: Name, Email, and Student Number are all required.'
-      return result
-    }
-    
-    console.log(`Parsed ${parsedData.length} students from CSV`)
-    
-    // Step 3: Check for duplicates within the CSV itself
-    const { cleanStudents, duplicates } = checkForInternalDuplicates(parsedData)
+    const roster = await readRosterFile(file)
+    const { data, errors } = mapCSVRecords(roster.records, guessColumnMapping(roster.headers), roster.rows)
+    const { cleanStudents, duplicates } = checkForInternalDuplicates(data)
+
+    const rowErrors = [...roster.errors, ...errors, ...duplicates].sort((a, b) => a.row - b.row)
+    const result = await syncRoster(classId, cleanStudents, rowErrors)
     result.duplicatesSkipped = duplicates.length
-    
-    if (duplicates.length > 0) {
-      result.errors.push(`Found ${duplicates.length} duplicate entries within the CSV file:`)
-      result.errors.push(...duplicates)
-    }
-    
-    if (cleanStudents.length === 0) {
-      result.message = 'No valid unique students found in the CSV file after removing duplicates'
-      return result
-    }
-    
-    console.log(`${cleanStudents.length} unique students after duplicate removal`)
-    
-    // Step 4: Remove existing students from this specific class ONLY
-    console.log(`Removing existing students from class: ${classId}`)
-    const { removedCount, errors: removeErrors } = await removeExistingStudents(classId)
-    result.replacedCount = removedCount
-    
-    if (removeErrors.length > 0) {
-      result.errors.push(...removeErrors)
-      result.message = 'Failed to remove existing students'
-      return result
-    }
-    
-    console.log(`Removed ${removedCount} existing students from class ${classId}`)
-    
-    // Step 5: Upload new students to Supabase using upsert
-    console.log(`Uploading ${cleanStudents.length} new students to class ${classId}`)
-    const { success: uploadedCount, errors: uploadErrors } = await uploadStudentsToSupabase(cleanStudents, classId)
-    
-    if (uploadErrors.length > 0) {
-      result.errors.push(...uploadErrors)
-    }
-    
-    // Step 6: Prepare final result
-    result.recordsProcessed = uploadedCount
-    result.success = uploadedCount > 0
-    
-    if (result.success) {
-      if (result.replacedCount > 0) {
-        result.message = `Successfully uploaded ${uploadedCount} students for this class`
-      } else {
-        result.message = `Successfully uploaded ${uploadedCount} students to this class`
-      }
-      
-      if (result.duplicatesSkipped > 0) {
-        result.message += ` (${result.duplicatesSkipped} duplicates within CSV were skipped)`
-      }
-    } else {
-      result.message = 'Failed to upload any students'
-    }
-    
-    console.log(`Upload completed for class ${classId}. Success: ${result.success}, Records: ${result.recordsProcessed}`)
-    
+
+    return result
   } catch (error) {
-    console.error('CSV upload error:', error)
-    result.errors.push(`Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    result.message = 'CSV upload failed due to unexpected error'
+    return {
+      ...emptyResult(),
+      errors: [error instanceof Error ? error.message : 'Unknown error'],
+      message: 'CSV upload failed'
+    }
   }
-  
-  return result
 }
 
 // Function to update student token status
@@ -0,0 +1,19 @@
+// RFC 4180 CSV output, the counterpart of csvParser. Files start with a UTF-8 byte order
+// mark and use CRLF line endings so Excel opens them with accented names intact.
+
+// Spreadsheet apps run cells starting with these as formulas; names come from uploaded
+// rosters, so such text is prefixed with an apostrophe. Negative numbers are left alone.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const formatField = (value: string | number | null | undefined): string => {
+  let text = value === null || value === undefined ? '' : String(value)
+
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && Number.isNaN(Number(text))) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const formatCSV = (headers: string[], records: (string | number | null | undefined)[][]): string =>
+  '\uFEFF' + [headers, ...records].map(record => record.map(formatField).join(',')).join('\r\n') + '\r\n'
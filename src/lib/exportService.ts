@@ -0,0 +1,229 @@
+import { supabase } from '@/lib/supabase'
+import { fetchClassDetail, TokenLedgerEntry } from '@/lib/classService'
+import { fetchOpportunityBidders } from '@/lib/bidTrackingService'
+import { formatCSV } from '@/lib/csvWriter'
+import { PDFLine, renderPDF } from '@/lib/pdfWriter'
+import { BidOpportunity, Bidder, ClassConfig } from '@/types'
+
+export interface ExportFile {
+  filename: string
+  blob: Blob
+}
+
+// Exports read whole lists, so they page through with larger pages than the UI
+const EXPORT_PAGE_SIZE = 500
+
+export interface LedgerExportEntry extends TokenLedgerEntry {
+  studentEmail: string
+  studentNumber: string | null
+  opportunityDescription: string | null
+}
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'class'
+
+const exportFilename = (currentClass: ClassConfig, contents: string, extension: string) =>
+  `${slugify(currentClass.className)}-${contents}-${new Date().toISOString().slice(0, 10)}.${extension}`
+
+const csvFile = (filename: string, headers: string[], records: (string | number | null | undefined)[][]): ExportFile => ({
+  filename,
+  blob: new Blob([formatCSV(headers, records)], { type: 'text/csv;charset=utf-8' })
+})
+
+const findOpportunities = (opportunities: BidOpportunity[], opportunityId?: string) => {
+  if (!opportunityId) return opportunities
+
+  const opportunity = opportunities.find(opp => opp.id === opportunityId)
+  if (!opportunity) {
+    throw new Error('Opportunity not found in this class')
+  }
+  return [opportunity]
+}
+
+// Draw results come from the class detail, which lists winners and the waitlist in order
+const fetchDrawResults = async (currentClass: ClassConfig, opportunityId?: string) => {
+  const detail = await fetchClassDetail(currentClass.id)
+  if (!detail) {
+    throw new Error('Class not found or access denied')
+  }
+  return findOpportunities(detail.bidOpportunities, opportunityId)
+}
+
+// Every bidder on an opportunity, in bid order
+export const fetchAllOpportunityBidders = async (opportunityId: string): Promise<Bidder[]> => {
+  const bidders: Bidder[] = []
+
+  for (;;) {
+    const page = await fetchOpportunityBidders(opportunityId, { limit: EXPORT_PAGE_SIZE, offset: bidders.length })
+    bidders.push(...page.bidders)
+    if (page.bidders.length === 0 || bidders.length >= page.total) break
+  }
+
+  return bidders
+}
+
+// The full token history of a class, or of one opportunity, oldest first
+export const fetchFullTokenLedger = async (classId: string, opportunityId?: string): Promise<LedgerExportEntry[]> => {
+  const entries: LedgerExportEntry[] = []
+
+  for (;;) {
+    let query = supabase
+      .from('token_history')
+      .select('id, student_id, opportunity_id, amount, type, description, created_at, student:students(name, email, student_number), opportunity:opportunities(description)')
+      .eq('class_id', classId)
+
+    if (opportunityId) {
+      query = query.eq('opportunity_id', opportunityId)
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(entries.length, entries.length + EXPORT_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch token history: ${error.message}`)
+    }
+
+    entries.push(...(data || []).map(entry => {
+      // Many-to-one joins come back as a single object
+      const student = entry.student as unknown as { name: string; email: string; student_number: string | null } | null
+      const opportunity = entry.opportunity as unknown as { description: string } | null
+
+      return {
+        id: entry.id,
+        studentId: entry.student_id,
+        studentName: student?.name || 'Unknown',
+        studentEmail: student?.email || '',
+        studentNumber: student?.student_number ?? null,
+        opportunityId: entry.opportunity_id,
+        opportunityDescription: opportunity?.description ?? null,
+        amount: entry.amount,
+        type: entry.type,
+        description: entry.description,
+        createdAt: entry.created_at
+      }
+    }))
+
+    if (!data || data.length < EXPORT_PAGE_SIZE) break
+  }
+
+  return entries
+}
+
+// Winners and waitlist, ready to paste into an email merge
+export const exportSelectionResults = async (currentClass: ClassConfig, opportunityId?: string): Promise<ExportFile> => {
+  const opportunities = await fetchDrawResults(currentClass, opportunityId)
+
+  const records = opportunities.flatMap(opp => [
+    ...opp.selectedStudents.map(student => [opp.description, opp.date, 'Selected', null, student.name, student.email, student.studentNumber]),
+    ...opp.waitlist.map((student, index) => [opp.description, opp.date, 'Waitlist', index + 1, student.name, student.email, student.studentNumber])
+  ])
+
+  return csvFile(
+    exportFilename(currentClass, 'winners', 'csv'),
+    ['Opportunity', 'Event Date', 'Result', 'Waitlist Position', 'Name', 'Email', 'Student Number'],
+    records
+  )
+}
+
+export const exportBidders = async (currentClass: ClassConfig, opportunityId?: string): Promise<ExportFile> => {
+  const opportunities = findOpportunities(currentClass.bidOpportunities, opportunityId)
+  const bidders = await Promise.all(opportunities.map(opp => fetchAllOpportunityBidders(opp.id)))
+
+  const records = opportunities.flatMap((opp, index) => bidders[index].map(bidder => [
+    opp.description,
+    opp.date,
+    bidder.name,
+    bidder.email,
+    bidder.studentNumber,
+    bidder.bidAmount,
+    bidder.bidStatus,
+    bidder.bidAt
+  ]))
+
+  return csvFile(
+    exportFilename(currentClass, 'bidders', 'csv'),
+    ['Opportunity', 'Event Date', 'Name', 'Email', 'Student Number', 'Tokens Bid', 'Bid Status', 'Bid At'],
+    records
+  )
+}
+
+export const exportTokenLedger = async (currentClass: ClassConfig, opportunityId?: string): Promise<ExportFile> => {
+  const entries = await fetchFullTokenLedger(currentClass.id, opportunityId)
+
+  return csvFile(
+    exportFilename(currentClass, 'token-ledger', 'csv'),
+    ['Date', 'Name', 'Email', 'Student Number', 'Type', 'Amount', 'Opportunity', 'Description'],
+    entries.map(entry => [
+      entry.createdAt,
+      entry.studentName,
+      entry.studentEmail,
+      entry.studentNumber,
+      entry.type,
+      entry.amount,
+      entry.opportunityDescription,
+      entry.description
+    ])
+  )
+}
+
+const guestRows = (guests: { name: string; studentNumber?: string }[]): PDFLine[] => [
+  {
+    height: 22,
+    cells: [
+      { text: '#', x: 0, bold: true },
+      { text: 'Guest', x: 28, bold: true },
+      { text: 'Student Number', x: 300, bold: true },
+      { text: 'Arrived', x: 420, bold: true }
+    ]
+  },
+  ...guests.map((guest, index) => ({
+    height: 20,
+    cells: [
+      { text: String(index + 1), x: 0 },
+      { text: guest.name, x: 28, maxWidth: 260 },
+      { text: guest.studentNumber || '', x: 300, maxWidth: 110 },
+      { text: '[    ]', x: 420 }
+    ]
+  }))
+]
+
+// A printable guest list for the restaurant: the winners, then the waitlist as reserves
+export const exportGuestList = async (currentClass: ClassConfig, opportunityId: string): Promise<ExportFile> => {
+  const [opportunity] = await fetchDrawResults(currentClass, opportunityId)
+  const eventDate = new Date(opportunity.date).toLocaleDateString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric'
+  })
+
+  const lines: PDFLine[] = [
+    { height: 24, cells: [{ text: currentClass.rewardTitle || 'Guest List', x: 0, size: 18, bold: true, maxWidth: 483 }] },
+    { height: 18, cells: [{ text: `${eventDate} · ${currentClass.className}`, x: 0, size: 12, maxWidth: 483 }] },
+    { height: 16, cells: [{ text: opportunity.description, x: 0, size: 10, maxWidth: 483 }] },
+    { height: 16, cells: [{ text: `${opportunity.selectedStudents.length} guests of ${opportunity.capacity ?? currentClass.capacity} places`, x: 0, size: 10 }] },
+    { height: 12, cells: [] }
+  ]
+
+  if (opportunity.selectedStudents.length > 0) {
+    lines.push(...guestRows(opportunity.selectedStudents))
+  } else {
+    lines.push({ height: 20, cells: [{ text: 'No guests have been drawn yet.', x: 0 }] })
+  }
+
+  if (opportunity.waitlist.length > 0) {
+    lines.push(
+      { height: 32, cells: [{ text: 'Reserves, in order', x: 0, size: 13, bold: true }] },
+      ...guestRows(opportunity.waitlist)
+    )
+  }
+
+  lines.push({ height: 32, cells: [{ text: `Printed ${new Date().toLocaleString('en-GB')}`, x: 0, size: 8 }] })
+
+  return {
+    filename: exportFilename(currentClass, `guest-list-${opportunity.date}`, 'pdf'),
+    blob: new Blob([renderPDF(lines, { title: `${currentClass.rewardTitle} - ${eventDate}` })], { type: 'application/pdf' })
+  }
+}
@@ -0,0 +1,62 @@
+import { ClassConfig } from '@/types'
+
+const SNAPSHOT_PREFIX = 'offlineClasses:'
+
+// Written by earlier versions as a second copy of every class; nothing reads it any more
+const LEGACY_CLASS_DATA_KEY = 'classData'
+
+export interface OfflineSnapshot {
+  savedAt: number
+  classes: ClassConfig[]
+}
+
+export class OfflineError extends Error {
+  constructor(message = 'You are offline. Changes are disabled until you reconnect.') {
+    super(message)
+    this.name = 'OfflineError'
+  }
+}
+
+// Keep the last classes the server returned so they can still be read without a
+// connection. Only successful reads are saved; nothing is ever written back from here.
+export const saveOfflineSnapshot = (userId: string, classes: ClassConfig[], now: number = Date.now()) => {
+  try {
+    const snapshot: OfflineSnapshot = { savedAt: now, classes }
+    localStorage.setItem(SNAPSHOT_PREFIX + userId, JSON.stringify(snapshot))
+  } catch (error) {
+    // A full or disabled storage only costs the offline copy
+    console.warn('Could not save offline snapshot:', error)
+  }
+}
+
+export const loadOfflineSnapshot = (userId: string): OfflineSnapshot | null => {
+  try {
+    const stored = localStorage.getItem(SNAPSHOT_PREFIX + userId)
+    if (!stored) return null
+
+    const snapshot = JSON.parse(stored) as OfflineSnapshot
+    return Array.isArray(snapshot.classes) ? snapshot : null
+  } catch (error) {
+    console.warn('Ignoring unreadable offline snapshot:', error)
+    return null
+  }
+}
+
+// Rosters must not outlive the session on a shared machine
+export const clearOfflineSnapshots = () => {
+  localStorage.removeItem(LEGACY_CLASS_DATA_KEY)
+
+  const snapshotKeys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key?.startsWith(SNAPSHOT_PREFIX)) snapshotKeys.push(key)
+  }
+  snapshotKeys.forEach(key => localStorage.removeItem(key))
+}
+
+// Mutations run only against the live database; an offline snapshot is read-only
+export const assertOnline = (isOnline: boolean) => {
+  if (!isOnline) {
+    throw new OfflineError()
+  }
+}
@@ -0,0 +1,104 @@
+// A small PDF writer for printable lists: lines of text in Helvetica on A4 pages, flowing
+// onto new pages as needed. Text uses the PDF's WinAnsi encoding, which covers Western
+// European names; other characters print as "?".
+
+export interface PDFText {
+  text: string
+  x: number // Points from the left margin
+  size?: number
+  bold?: boolean
+  maxWidth?: number // Cut with an ellipsis to fit, in points
+}
+
+export interface PDFLine {
+  cells: PDFText[]
+  height: number // Vertical space the line takes, in points
+}
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 56
+const DEFAULT_SIZE = 11
+
+// Helvetica averages a little over half an em per character
+const AVERAGE_CHAR_WIDTH = 0.55
+
+// Characters whose WinAnsi code differs from their Unicode code point
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+}
+
+// One byte per character, as a string whose char codes are the bytes
+const encodeText = (text: string) =>
+  [...text].map(char => {
+    const code = char.charCodeAt(0)
+    if (WIN_ANSI[char]) return String.fromCharCode(WIN_ANSI[char])
+    if (char === '\\' || char === '(' || char === ')') return `\\${char}`
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return char
+    return code < 0x20 ? ' ' : '?'
+  }).join('')
+
+const fitText = (text: string, size: number, maxWidth?: number) => {
+  if (!maxWidth) return text
+  const maxChars = Math.floor(maxWidth / (size * AVERAGE_CHAR_WIDTH))
+  return text.length > maxChars ? `${text.slice(0, Math.max(maxChars - 1, 0))}…` : text
+}
+
+// Split lines into pages and draw each as a content stream
+const layoutPages = (lines: PDFLine[]): string[] => {
+  const pages: string[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+
+  lines.forEach(line => {
+    if (y - line.height < MARGIN && pages[pages.length - 1].length > 0) {
+      pages.push([])
+      y = PAGE_HEIGHT - MARGIN
+    }
+    y -= line.height
+
+    line.cells.forEach(cell => {
+      const size = cell.size ?? DEFAULT_SIZE
+      const text = encodeText(fitText(cell.text, size, cell.maxWidth))
+      pages[pages.length - 1].push(
+        `BT /${cell.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN + cell.x} ${y.toFixed(2)} Td (${text}) Tj ET`
+      )
+    })
+  })
+
+  return pages.map(commands => commands.join('\n'))
+}
+
+export const renderPDF = (lines: PDFLine[], { title = '' }: { title?: string } = {}): Uint8Array => {
+  const pages = layoutPages(lines)
+
+  // Objects 1-5 are fixed; each page adds a page object and its content stream
+  const pageIds = pages.map((_, index) => 6 + index * 2)
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${encodeText(title)}) /Producer (LSE Bidding) >>`,
+    ...pages.flatMap((content, index) => [
+      `<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    ])
+  ]
+
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'
+  const offsets = objects.map((object, index) => {
+    const offset = output.length
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+
+  const xrefOffset = output.length
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Uint8Array.from(output, char => char.charCodeAt(0))
+}
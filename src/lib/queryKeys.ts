@@ -0,0 +1,15 @@
+// React Query keys for everything read from Supabase. Class data nests under the class
+// key, so invalidating a class also refreshes its opportunities and token ledger.
+export const queryKeys = {
+  classes: ['classes'] as const,
+  class: (classId: string) => ['classes', classId] as const,
+  opportunity: (classId: string, opportunityId: string) =>
+    ['classes', classId, 'opportunities', opportunityId] as const,
+  opportunityBidders: (classId: string, opportunityId: string) =>
+    ['classes', classId, 'opportunities', opportunityId, 'bidders'] as const,
+  drawSeed: (classId: string, opportunityId: string) =>
+    ['classes', classId, 'opportunities', opportunityId, 'drawSeed'] as const,
+  tokenLedger: (classId: string) => ['classes', classId, 'tokenLedger'] as const,
+  student: (studentId: string) => ['students', studentId] as const,
+  studentSelections: (studentId: string) => ['students', studentId, 'selections'] as const
+}
@@ -0,0 +1,264 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { ClassBidStatistics, getClassBidStatistics } from '@/lib/bidTrackingService'
+import type { SupabaseClassEnrollment, SupabaseOpportunity } from '@/lib/classService'
+import type { BidStatus } from '@/types'
+
+export interface BidRow {
+  id: string
+  class_id: string
+  student_id: string
+  opportunity_id: string
+  bid_amount: number
+  bid_status: BidStatus
+  is_winner: boolean
+  waitlist_position: number | null
+  created_at: string
+}
+
+export interface TokenHistoryRow {
+  id: string
+  class_id: string
+  student_id: string
+  opportunity_id: string | null
+  amount: number
+  type: 'bid' | 'reset' | 'topup' | 'refund'
+  description: string | null
+  created_at: string
+}
+
+// One row change as delivered by Supabase. `old` only carries the primary key unless the
+// table has REPLICA IDENTITY FULL, and either side is empty for inserts and deletes.
+export interface RowChange<Row> {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE'
+  new: Partial<Row>
+  old: Partial<Row>
+}
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'closed'
+
+export interface ClassRealtimeEvents {
+  // Enrolment rows carry tokens and status; names and emails live on the person
+  students: RowChange<SupabaseClassEnrollment>
+  opportunities: RowChange<SupabaseOpportunity>
+  bids: RowChange<BidRow>
+  token_history: RowChange<TokenHistoryRow>
+  // Refetched at most once per debounce window after a bid or roster change
+  statistics: ClassBidStatistics
+  status: ConnectionStatus
+}
+
+export type ClassRealtimeEvent = keyof ClassRealtimeEvents
+
+type Listener<E extends ClassRealtimeEvent> = (payload: ClassRealtimeEvents[E]) => void
+
+// Listeners are stored per event name; subscribe and emit keep payloads matched to events
+type StoredListener = (payload: ClassRealtimeEvents[ClassRealtimeEvent]) => void
+
+// The table behind each row-change event
+const TABLES = [
+  ['students', 'class_enrollments'],
+  ['opportunities', 'opportunities'],
+  ['bids', 'bids'],
+  ['token_history', 'token_history']
+] as const
+
+// Sent by broadcast_bid_withdrawal() when a bid is deleted
+const BID_WITHDRAWN_EVENT = 'bid_withdrawn'
+
+// Changes to these tables alter the numbers in ClassBidStatistics
+const STATISTICS_EVENTS: ReadonlySet<ClassRealtimeEvent> = new Set<ClassRealtimeEvent>(['students', 'bids'])
+
+export interface RealtimeHubOptions {
+  statisticsDebounceMs?: number
+  reconnectInitialMs?: number
+  reconnectMaxMs?: number
+  fetchStatistics?: (classId: string) => Promise<ClassBidStatistics>
+}
+
+interface ClassSubscription {
+  channel: RealtimeChannel | null
+  listeners: Map<ClassRealtimeEvent, Set<StoredListener>>
+  status: ConnectionStatus
+  reconnectAttempts: number
+  reconnectTimer: ReturnType<typeof setTimeout> | null
+  statisticsTimer: ReturnType<typeof setTimeout> | null
+}
+
+// Shares one Supabase channel per class between every component that needs live data.
+// The channel opens with the first listener and closes with the last; each table is
+// filtered on class_id so clients only receive their own class's changes. Supabase does
+// not deliver deletes to filtered subscriptions, so the database broadcasts withdrawn
+// bids on the class's channel instead (see broadcast_bid_withdrawal()). A dropped
+// channel is reopened with exponential backoff.
+export class RealtimeHub {
+  private readonly classes = new Map<string, ClassSubscription>()
+  private readonly statisticsDebounceMs: number
+  private readonly reconnectInitialMs: number
+  private readonly reconnectMaxMs: number
+  private readonly fetchStatistics: (classId: string) => Promise<ClassBidStatistics>
+
+  constructor(
+    private readonly client: Pick<SupabaseClient, 'channel' | 'removeChannel'> = supabase,
+    options: RealtimeHubOptions = {}
+  ) {
+    this.statisticsDebounceMs = options.statisticsDebounceMs ?? 500
+    this.reconnectInitialMs = options.reconnectInitialMs ?? 1000
+    this.reconnectMaxMs = options.reconnectMaxMs ?? 30000
+    this.fetchStatistics = options.fetchStatistics ?? getClassBidStatistics
+  }
+
+  subscribe<E extends ClassRealtimeEvent>(classId: string, event: E, listener: Listener<E>): () => void {
+    const subscription = this.classes.get(classId) ?? this.open(classId)
+    const stored = listener as StoredListener
+    const listeners = subscription.listeners.get(event) ?? new Set<StoredListener>()
+    subscription.listeners.set(event, listeners)
+    listeners.add(stored)
+
+    return () => {
+      listeners.delete(stored)
+      if (this.listenerCount(subscription) === 0 && this.classes.get(classId) === subscription) {
+        this.close(classId)
+      }
+    }
+  }
+
+  getStatus(classId: string): ConnectionStatus {
+    return this.classes.get(classId)?.status ?? 'closed'
+  }
+
+  private open(classId: string): ClassSubscription {
+    const subscription: ClassSubscription = {
+      channel: null,
+      listeners: new Map(),
+      status: 'connecting',
+      reconnectAttempts: 0,
+      reconnectTimer: null,
+      statisticsTimer: null
+    }
+    this.classes.set(classId, subscription)
+    this.connect(classId, subscription)
+    return subscription
+  }
+
+  private connect(classId: string, subscription: ClassSubscription) {
+    let channel = this.client.channel(`class-${classId}`)
+
+    for (const [event, table] of TABLES) {
+      channel = channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: `class_id=eq.${classId}` },
+        (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+          this.handleChange(classId, subscription, event, {
+            eventType: payload.eventType,
+            new: payload.new,
+            old: payload.old
+          })
+        }
+      )
+    }
+
+    // The channel is named after the class, so only this class's withdrawals arrive here
+    channel = channel.on<Partial<BidRow>>(
+      'broadcast',
+      { event: BID_WITHDRAWN_EVENT },
+      ({ payload }) => {
+        this.handleChange(classId, subscription, 'bids', { eventType: 'DELETE', new: {}, old: payload })
+      }
+    )
+
+    subscription.channel = channel
+    channel.subscribe(status => {
+      // Ignore late callbacks from a channel that has since been replaced or closed
+      if (this.classes.get(classId) !== subscription || subscription.channel !== channel) return
+
+      if (status === 'SUBSCRIBED') {
+        subscription.reconnectAttempts = 0
+        this.setStatus(subscription, 'connected')
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        this.scheduleReconnect(classId, subscription)
+      }
+    })
+  }
+
+  private handleChange(
+    classId: string,
+    subscription: ClassSubscription,
+    event: (typeof TABLES)[number][0],
+    change: RowChange<Record<string, unknown>>
+  ) {
+    this.emit(subscription, event, change as ClassRealtimeEvents[typeof event])
+
+    if (STATISTICS_EVENTS.has(event)) {
+      this.scheduleStatistics(classId, subscription)
+    }
+  }
+
+  private scheduleReconnect(classId: string, subscription: ClassSubscription) {
+    if (subscription.reconnectTimer) return
+
+    if (subscription.channel) {
+      const channel = subscription.channel
+      subscription.channel = null
+      this.client.removeChannel(channel)
+    }
+
+    const delay = Math.min(this.reconnectInitialMs * 2 ** subscription.reconnectAttempts, this.reconnectMaxMs)
+    subscription.reconnectAttempts += 1
+    this.setStatus(subscription, 'reconnecting')
+
+    subscription.reconnectTimer = setTimeout(() => {
+      subscription.reconnectTimer = null
+      if (this.classes.get(classId) === subscription) {
+        this.connect(classId, subscription)
+      }
+    }, delay)
+  }
+
+  private scheduleStatistics(classId: string, subscription: ClassSubscription) {
+    if (!subscription.listeners.get('statistics')?.size) return
+
+    if (subscription.statisticsTimer) {
+      clearTimeout(subscription.statisticsTimer)
+    }
+
+    subscription.statisticsTimer = setTimeout(async () => {
+      subscription.statisticsTimer = null
+      try {
+        const statistics = await this.fetchStatistics(classId)
+        if (this.classes.get(classId) === subscription) {
+          this.emit(subscription, 'statistics', statistics)
+        }
+      } catch (error) {
+        console.error('Error refreshing class statistics:', error)
+      }
+    }, this.statisticsDebounceMs)
+  }
+
+  private close(classId: string) {
+    const subscription = this.classes.get(classId)
+    if (!subscription) return
+
+    this.classes.delete(classId)
+    if (subscription.reconnectTimer) clearTimeout(subscription.reconnectTimer)
+    if (subscription.statisticsTimer) clearTimeout(subscription.statisticsTimer)
+    if (subscription.channel) this.client.removeChannel(subscription.channel)
+    subscription.channel = null
+    subscription.status = 'closed'
+  }
+
+  private setStatus(subscription: ClassSubscription, status: ConnectionStatus) {
+    subscription.status = status
+    this.emit(subscription, 'status', status)
+  }
+
+  private emit<E extends ClassRealtimeEvent>(subscription: ClassSubscription, event: E, payload: ClassRealtimeEvents[E]) {
+    subscription.listeners.get(event)?.forEach(listener => listener(payload))
+  }
+
+  private listenerCount(subscription: ClassSubscription) {
+    return [...subscription.listeners.values()].reduce((total, listeners) => total + listeners.size, 0)
+  }
+}
+
+export const realtimeHub = new RealtimeHub()
@@ -0,0 +1,122 @@
+// Adapters for roster exports whose layout differs from a plain Name/Email/Student Number
+// file. Each adapter recognises its export from the header row and rewrites it as those
+// three columns, so it goes through the same mapping, validation and preview as a CSV.
+// Rows the adapter has to leave out are reported with their file row number.
+import type { CSVRowError } from '@/lib/csvUploadService'
+
+export interface RosterTable {
+  headers: string[]
+  records: string[][]
+  rows: number[] // File row of each record, the header being row 1
+}
+
+export interface AdaptedRoster extends RosterTable {
+  errors: CSVRowError[]
+}
+
+export interface RosterAdapter {
+  label: string
+  matches: (headers: string[]) => boolean
+  adapt: (table: RosterTable) => AdaptedRoster
+}
+
+// Recognised by guessColumnMapping, so adapted rosters need no manual mapping
+export const ROSTER_HEADERS = ['Name', 'Email', 'Student Number']
+
+const normalize = (header: string) => header.trim().toLowerCase()
+
+// Look up cells by header name, whatever order the export puts its columns in
+const columnReader = (headers: string[]) => {
+  const normalized = headers.map(normalize)
+  return (record: string[], ...names: string[]) => {
+    const index = normalized.findIndex(header => names.includes(header))
+    return index === -1 ? '' : (record[index] ?? '').trim()
+  }
+}
+
+// Build the adapted table one record at a time; convert returns the three cells, an error
+// message for a skipped row, or null to drop a row silently
+const adaptRecords = (
+  table: RosterTable,
+  convert: (record: string[]) => string[] | string | null
+): AdaptedRoster => {
+  const adapted: AdaptedRoster = { headers: ROSTER_HEADERS, records: [], rows: [], errors: [] }
+
+  table.records.forEach((record, index) => {
+    const row = table.rows[index]
+    const result = convert(record)
+
+    if (typeof result === 'string') {
+      adapted.errors.push({ row, message: result })
+    } else if (result) {
+      adapted.records.push(result)
+      adapted.rows.push(row)
+    }
+  })
+
+  return adapted
+}
+
+// Moodle course participants, downloaded from Participants > Download table data.
+// Teachers and other non-student roles in the course are left out.
+export const moodleParticipantsAdapter: RosterAdapter = {
+  label: 'Moodle participants',
+  matches: headers => {
+    const normalized = headers.map(normalize)
+    return normalized.includes('first name')
+      && (normalized.includes('last name') || normalized.includes('surname'))
+      && normalized.includes('email address')
+  },
+  adapt: table => {
+    const read = columnReader(table.headers)
+    const hasRoles = table.headers.map(normalize).includes('roles')
+
+    return adaptRecords(table, record => {
+      const roles = read(record, 'roles')
+      if (hasRoles && roles && !/student/i.test(roles)) {
+        return `Skipped: Moodle role is ${roles}`
+      }
+
+      const name = [read(record, 'first name'), read(record, 'last name', 'surname')].filter(Boolean).join(' ')
+      return [name, read(record, 'email address'), read(record, 'id number')]
+    })
+  }
+}
+
+// Canvas gradebook export. Names are "Last, First", the student number is the SIS User
+// ID and the email is the SIS Login ID. The "Points Possible" row and other rows without
+// a Canvas user ID are not students.
+export const canvasGradebookAdapter: RosterAdapter = {
+  label: 'Canvas gradebook',
+  matches: headers => {
+    const normalized = headers.map(normalize)
+    return normalized[0] === 'student' && normalized.includes('sis user id')
+  },
+  adapt: table => {
+    const read = columnReader(table.headers)
+
+    return adaptRecords(table, record => {
+      if (!read(record, 'id')) return null
+
+      const student = read(record, 'student')
+      if (student === 'Student, Test') {
+        return 'Skipped: Canvas test student'
+      }
+
+      const login = read(record, 'sis login id')
+      const email = read(record, 'email') || (login.includes('@') ? login : '')
+      if (!email) {
+        return `No email address for ${student}: the SIS Login ID "${login}" is not an email`
+      }
+
+      const [last, first] = student.split(/,\s*/, 2)
+      const name = first ? `${first} ${last}` : student
+      return [name, email, read(record, 'sis user id')]
+    })
+  }
+}
+
+export const ROSTER_ADAPTERS: RosterAdapter[] = [moodleParticipantsAdapter, canvasGradebookAdapter]
+
+export const findRosterAdapter = (headers: string[]): RosterAdapter | null =>
+  ROSTER_ADAPTERS.find(adapter => adapter.matches(headers)) ?? null
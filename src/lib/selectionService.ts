@@ -0,0 +1,259 @@
+import { supabase } from '@/lib/supabase'
+import { Student, AllocationMode } from '@/types'
+
+export interface OpportunityDrawResult {
+  success: boolean
+  opportunityId?: string
+  alreadyDrawn?: boolean
+  capacity?: number
+  allocationMode?: AllocationMode
+  clearingPrice?: number // Set for uniform-price auctions
+  drawSeed?: string
+  drawSeedHash?: string
+  drawOrder?: string[]
+  drawWeights?: number[] // Tokens committed by each entrant, aligned with drawOrder
+  winners?: Student[]
+  waitlist?: Student[]
+  errorMessage?: string
+}
+
+export interface WaitlistPromotionResult {
+  success: boolean
+  promotedStudentId?: string
+  errorMessage?: string
+}
+
+export interface ForfeitResult {
+  success: boolean
+  forfeitedCount?: number
+  promotedCount?: number
+  errorMessage?: string
+}
+
+interface DrawWinnerRow {
+  id: string
+  name: string
+  email: string
+  student_number: string | null
+}
+
+// Allocate an opportunity on the server using its allocation mode. The result is persisted
+// to bids.is_winner in the same transaction, and repeated calls return the stored winners.
+export async function runOpportunityDraw(opportunityId: string): Promise<OpportunityDrawResult> {
+  try {
+    const { data: result, error } = await supabase.rpc('run_opportunity_draw', {
+      p_opportunity_id: opportunityId
+    })
+
+    if (error) {
+      console.error('Opportunity draw error:', error)
+      return {
+        success: false,
+        errorMessage: error.message || 'Failed to run draw'
+      }
+    }
+
+    if (!result.success) {
+      return {
+        success: false,
+        errorMessage: result.error_message || 'Draw failed'
+      }
+    }
+
+    return {
+      success: true,
+      opportunityId: result.opportunity_id,
+      alreadyDrawn: result.already_drawn,
+      capacity: result.capacity,
+      allocationMode: result.allocation_mode,
+      clearingPrice: result.clearing_price ?? undefined,
+      drawSeed: result.draw_seed,
+      drawSeedHash: result.draw_seed_hash,
+      drawOrder: result.draw_order || [],
+      drawWeights: result.draw_weights || [],
+      winners: (result.winners || []).map((winner: DrawWinnerRow) => ({
+        id: winner.id,
+        name: winner.name,
+        email: winner.email,
+        studentNumber: winner.student_number,
+        hasUsedToken: true,
+        hasBid: true,
+        isSelected: true
+      })),
+      waitlist: (result.waitlist || []).map((student: DrawWinnerRow) => ({
+        id: student.id,
+        name: student.name,
+        email: student.email,
+        studentNumber: student.student_number,
+        hasUsedToken: true,
+        hasBid: true,
+        isSelected: false
+      }))
+    }
+
+  } catch (error) {
+    console.error('Unexpected error during draw:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
+// Remove a winner from an opportunity and promote the next waitlisted student
+export async function removeSelectedStudent(opportunityId: string, studentId: string): Promise<WaitlistPromotionResult> {
+  try {
+    const { data: result, error } = await supabase.rpc('remove_selected_student', {
+      p_opportunity_id: opportunityId,
+      p_student_id: studentId
+    })
+
+    if (error) {
+      console.error('Remove selected student error:', error)
+      return {
+        success: false,
+        errorMessage: error.message || 'Failed to remove student'
+      }
+    }
+
+    if (!result.success) {
+      return {
+        success: false,
+        errorMessage: result.error_message || 'Removal failed'
+      }
+    }
+
+    return {
+      success: true,
+      promotedStudentId: result.promoted?.student_id
+    }
+
+  } catch (error) {
+    console.error('Unexpected error removing selected student:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
+// Forfeit a class's selected places whose confirmation deadline has passed. The same
+// function runs for every class on a pg_cron schedule where available, and a student
+// responding late forfeits their own place; this lets an admin trigger it immediately.
+export async function forfeitExpiredSelections(classId: string): Promise<ForfeitResult> {
+  try {
+    const { data: result, error } = await supabase.rpc('forfeit_expired_selections', {
+      p_class_id: classId
+    })
+
+    if (error) {
+      console.error('Forfeit expired selections error:', error)
+      return {
+        success: false,
+        errorMessage: error.message || 'Failed to process expired confirmations'
+      }
+    }
+
+    if (!result.success) {
+      return {
+        success: false,
+        errorMessage: result.error_message || 'Processing expired confirmations failed'
+      }
+    }
+
+    return {
+      success: true,
+      forfeitedCount: result.forfeited_count,
+      promotedCount: result.promoted_count
+    }
+
+  } catch (error) {
+    console.error('Unexpected error forfeiting expired selections:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
+export interface ClassAllocationAssignment {
+  student: Student
+  opportunityId: string
+  rank: number
+}
+
+export interface ClassAllocationResult {
+  success: boolean
+  classId?: string
+  alreadyAllocated?: boolean
+  allocationSeed?: string
+  studentOrder?: string[]
+  assignments?: ClassAllocationAssignment[]
+  unassigned?: Student[]
+  errorMessage?: string
+}
+
+interface AllocationStudentRow {
+  student_id: string
+  name: string
+  email: string
+  student_number: string | null
+  opportunity_id?: string
+  rank?: number
+}
+
+const mapAllocationStudent = (row: AllocationStudentRow, isSelected: boolean): Student => ({
+  id: row.student_id,
+  name: row.name,
+  email: row.email,
+  studentNumber: row.student_number,
+  hasUsedToken: false,
+  hasBid: true,
+  isSelected
+})
+
+// Allocate every undrawn opportunity in a class from students' ranked preferences
+// (random serial dictatorship). Winners are written to bids.is_winner in one transaction.
+export async function runClassAllocation(classId: string): Promise<ClassAllocationResult> {
+  try {
+    const { data: result, error } = await supabase.rpc('run_class_allocation', {
+      p_class_id: classId
+    })
+
+    if (error) {
+      console.error('Class allocation error:', error)
+      return {
+        success: false,
+        errorMessage: error.message || 'Failed to run allocation'
+      }
+    }
+
+    if (!result.success) {
+      return {
+        success: false,
+        errorMessage: result.error_message || 'Allocation failed'
+      }
+    }
+
+    return {
+      success: true,
+      classId: result.class_id,
+      alreadyAllocated: result.already_allocated,
+      allocationSeed: result.allocation_seed,
+      studentOrder: result.student_order || [],
+      assignments: (result.assignments || []).map((row: AllocationStudentRow) => ({
+        student: mapAllocationStudent(row, true),
+        opportunityId: row.opportunity_id,
+        rank: row.rank
+      })),
+      unassigned: (result.unassigned || []).map((row: AllocationStudentRow) => mapAllocationStudent(row, false))
+    }
+
+  } catch (error) {
+    console.error('Unexpected error during class allocation:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { Session } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { getAdminSession } from '@/lib/adminAuthService'
+import { getStudentSession, StudentEnrolment } from '@/lib/studentAuthService'
+import { Admin } from '@/types'
+
+export const IDLE_TIMEOUT_MS = 30 * 60 * 1000
+
+const LAST_ACTIVE_KEY = 'sessionLastActiveAt'
+
+export const getLastActiveAt = (): number | null => {
+  const stored = Number(localStorage.getItem(LAST_ACTIVE_KEY))
+  return stored > 0 ? stored : null
+}
+
+export const markActive = (now: number = Date.now()) => {
+  localStorage.setItem(LAST_ACTIVE_KEY, String(now))
+}
+
+export const clearLastActive = () => {
+  localStorage.removeItem(LAST_ACTIVE_KEY)
+}
+
+export const isIdleExpired = (
+  lastActiveAt: number | null,
+  now: number = Date.now(),
+  timeoutMs: number = IDLE_TIMEOUT_MS
+): boolean => {
+  return lastActiveAt !== null && now - lastActiveAt >= timeoutMs
+}
+
+export type RestoredSession =
+  | { kind: 'admin'; admin: Admin }
+  | { kind: 'student'; enrolments: StudentEnrolment[]; session: Session }
+  | { kind: 'signedOut'; expired: boolean }
+
+// Work out who the persisted Supabase session belongs to on page load. Instructors are
+// checked first; a session that has been idle too long is signed out instead.
+export async function restoreSession(now: number = Date.now()): Promise<RestoredSession> {
+  try {
+    const { data, error } = await supabase.auth.getSession()
+
+    if (error || !data.session) {
+      clearLastActive()
+      return { kind: 'signedOut', expired: false }
+    }
+
+    if (isIdleExpired(getLastActiveAt(), now)) {
+      await supabase.auth.signOut()
+      clearLastActive()
+      return { kind: 'signedOut', expired: true }
+    }
+
+    const adminResult = await getAdminSession()
+    if (adminResult.success && adminResult.admin) {
+      return { kind: 'admin', admin: adminResult.admin }
+    }
+
+    const studentResult = await getStudentSession()
+    if (studentResult.success && studentResult.enrolments && studentResult.session) {
+      return { kind: 'student', enrolments: studentResult.enrolments, session: studentResult.session }
+    }
+
+    // Signed in to Supabase Auth but neither an instructor nor enrolled anywhere
+    await supabase.auth.signOut()
+    return { kind: 'signedOut', expired: false }
+
+  } catch (error) {
+    console.error('Unexpected error restoring session:', error)
+    return { kind: 'signedOut', expired: false }
+  }
+}
@@ -0,0 +1,157 @@
+import { Session } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { Student } from '@/types'
+
+export interface StudentEnrolment {
+  classId: string
+  student: Student
+}
+
+export interface StudentLoginCodeResult {
+  success: boolean
+  errorMessage?: string
+}
+
+export interface StudentSessionResult {
+  success: boolean
+  enrolments?: StudentEnrolment[]
+  session?: Session
+  errorMessage?: string
+}
+
+interface EnrolmentRow {
+  id: string
+  class_id: string
+  name: string
+  email: string
+  student_number: string | null
+  tokens_remaining: number
+  token_status: string
+}
+
+// RLS only returns the students rows whose email matches the signed-in user
+const loadEnrolments = async (): Promise<StudentSessionResult> => {
+  const { data, error } = await supabase
+    .from('students')
+    .select('id, class_id, name, email, student_number, tokens_remaining, token_status')
+
+  if (error) {
+    return {
+      success: false,
+      errorMessage: error.message || 'Failed to load your classes'
+    }
+  }
+
+  if (!data || data.length === 0) {
+    return {
+      success: false,
+      errorMessage: 'This email is not enrolled in any class'
+    }
+  }
+
+  return {
+    success: true,
+    enrolments: (data as EnrolmentRow[]).map(row => ({
+      classId: row.class_id,
+      student: {
+        id: row.id,
+        name: row.name,
+        email: row.email,
+        studentNumber: row.student_number || undefined,
+        hasUsedToken: row.tokens_remaining <= 0,
+        tokensRemaining: row.tokens_remaining,
+        hasBid: row.token_status === 'used'
+      }
+    }))
+  }
+}
+
+// Email a one-time code to a student. The Supabase "Magic Link" email template must
+// include {{ .Token }}; with the Supabase CLI the email lands in the local Inbucket inbox.
+export async function requestStudentLoginCode(email: string): Promise<StudentLoginCodeResult> {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim().toLowerCase(),
+      options: { shouldCreateUser: true }
+    })
+
+    if (error) {
+      console.error('Student login code error:', error)
+      return {
+        success: false,
+        errorMessage: error.message || 'Failed to send login code'
+      }
+    }
+
+    return { success: true }
+
+  } catch (error) {
+    console.error('Unexpected error requesting login code:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
+// Exchange the emailed code for a session bound to the student's enrolments
+export async function verifyStudentLoginCode(email: string, code: string): Promise<StudentSessionResult> {
+  try {
+    const { data, error } = await supabase.auth.verifyOtp({
+      email: email.trim().toLowerCase(),
+      token: code.trim(),
+      type: 'email'
+    })
+
+    if (error || !data.session) {
+      return {
+        success: false,
+        errorMessage: error?.message || 'Invalid or expired code'
+      }
+    }
+
+    const result = await loadEnrolments()
+    if (!result.success) {
+      await supabase.auth.signOut()
+      return result
+    }
+
+    return { ...result, session: data.session }
+
+  } catch (error) {
+    console.error('Unexpected error verifying login code:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
+// Restore the signed-in student from the persisted Supabase session, if any
+export async function getStudentSession(): Promise<StudentSessionResult> {
+  try {
+    const { data, error } = await supabase.auth.getSession()
+
+    if (error || !data.session) {
+      return { success: false }
+    }
+
+    const result = await loadEnrolments()
+    return result.success ? { ...result, session: data.session } : result
+
+  } catch (error) {
+    console.error('Unexpected error restoring student session:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
+export async function signOutStudent(): Promise<void> {
+  const { error } = await supabase.auth.signOut()
+
+  if (error) {
+    console.error('Student sign-out error:', error)
+  }
+}
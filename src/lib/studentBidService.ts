@@ -1,15 +1,17 @@
 import { supabase } from '@/lib/supabase'
-import { Student } from '@/types'
+import { Student, BidStatus } from '@/types'
 
 export interface StudentBidRequest {
   studentId: string
   opportunityId: string
   classPassword: string
+  bidAmount?: number // Tokens to commit; each token adds one unit of draw weight
 }
 
 export interface StudentBidResponse {
   success: boolean
   bidId?: string
+  bidAmount?: number
   updatedStudent?: Student
   errorMessage?: string
   timestamp?: string
@@ -17,7 +19,7 @@ export interface StudentBidResponse {
 
 // Submit a bid and update student token status
 export async function submitStudentBid(request: StudentBidRequest): Promise<StudentBidResponse> {
-  const { studentId, opportunityId, classPassword } = request
+  const { studentId, opportunityId, classPassword, bidAmount = 1 } = request
   
   try {
     console.log('Starting bid submission for student:', studentId)
@@ -26,7 +28,8 @@ export async function submitStudentBid(request: StudentBidRequest): Promise<Stud
     const { data: result, error } = await supabase.rpc('submit_student_bid_secure', {
       p_student_id: studentId,
       p_opportunity_id: opportunityId,
-      p_class_password: classPassword
+      p_class_password: classPassword,
+      p_bid_amount: bidAmount
     })
 
     if (error) {
@@ -58,12 +61,14 @@ export async function submitStudentBid(request: StudentBidRequest): Promise<Stud
     return {
       success: true,
       bidId: result.bid_id,
+      bidAmount: result.bid_amount,
       updatedStudent: updatedStudent ? {
         id: updatedStudent.id,
         name: updatedStudent.name,
         email: updatedStudent.email,
         studentNumber: updatedStudent.student_number,
         hasUsedToken: updatedStudent.tokens_remaining <= 0,
+        tokensRemaining: updatedStudent.tokens_remaining,
         hasBid: true
       } : undefined,
       timestamp: new Date().toISOString()
@@ -78,6 +83,269 @@ export async function submitStudentBid(request: StudentBidRequest): Promise<Stud
   }
 }
 
+export interface WithdrawBidRequest {
+  studentId: string
+  opportunityId: string
+  classPassword: string
+}
+
+export interface WithdrawBidResponse {
+  success: boolean
+  refundedAmount?: number
+  updatedStudent?: Student
+  errorMessage?: string
+  timestamp?: string
+}
+
+// Withdraw a bid before bidding closes and return its tokens
+export async function withdrawStudentBid(request: WithdrawBidRequest): Promise<WithdrawBidResponse> {
+  const { studentId, opportunityId, classPassword } = request
+
+  try {
+    const { data: result, error } = await supabase.rpc('withdraw_student_bid', {
+      p_student_id: studentId,
+      p_opportunity_id: opportunityId,
+      p_class_password: classPassword
+    })
+
+    if (error) {
+      console.error('Bid withdrawal error:', error)
+      return {
+        success: false,
+        errorMessage: error.message || 'Failed to withdraw bid'
+      }
+    }
+
+    if (!result.success) {
+      return {
+        success: false,
+        errorMessage: result.error_message || 'Bid withdrawal failed'
+      }
+    }
+
+    const updatedStudent = await getStudentStatus(studentId)
+
+    return {
+      success: true,
+      refundedAmount: result.refunded_amount,
+      updatedStudent: updatedStudent || undefined,
+      timestamp: result.timestamp
+    }
+
+  } catch (error) {
+    console.error('Unexpected error during bid withdrawal:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
+export interface SelectionResponseRequest {
+  studentId: string
+  opportunityId: string
+  classPassword: string
+  accept: boolean
+}
+
+export interface SelectionResponseResult {
+  success: boolean
+  bidStatus?: BidStatus
+  promotedStudentId?: string
+  errorMessage?: string
+}
+
+export interface StudentSelectionStatus {
+  opportunityId: string
+  bidAmount: number
+  bidStatus: BidStatus
+  isWinner: boolean
+  waitlistRank?: number // 1 means next in line
+  confirmBy?: string // Deadline to confirm a selected place before it is forfeited
+}
+
+// Accept or decline a place after being selected
+export async function respondToSelection(request: SelectionResponseRequest): Promise<SelectionResponseResult> {
+  const { studentId, opportunityId, classPassword, accept } = request
+
+  try {
+    const { data: result, error } = await supabase.rpc('respond_to_selection', {
+      p_student_id: studentId,
+      p_opportunity_id: opportunityId,
+      p_class_password: classPassword,
+      p_accept: accept
+    })
+
+    if (error) {
+      console.error('Selection response error:', error)
+      return {
+        success: false,
+        errorMessage: error.message || 'Failed to respond to selection'
+      }
+    }
+
+    if (!result.success) {
+      // A response after the deadline comes back with the place forfeited
+      return {
+        success: false,
+        bidStatus: result.bid_status,
+        errorMessage: result.error_message || 'Selection response failed'
+      }
+    }
+
+    return {
+      success: true,
+      bidStatus: result.bid_status,
+      promotedStudentId: result.promoted?.student_id
+    }
+
+  } catch (error) {
+    console.error('Unexpected error responding to selection:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
+// Get a student's result and waitlist rank for every opportunity they bid on
+export async function getStudentSelectionStatus(studentId: string): Promise<StudentSelectionStatus[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_student_selection_status', {
+      p_student_id: studentId
+    })
+
+    if (error) {
+      console.error('Error fetching selection status:', error)
+      return []
+    }
+
+    return (data || []).map(row => ({
+      opportunityId: row.opportunity_id,
+      bidAmount: row.bid_amount,
+      bidStatus: row.bid_status,
+      isWinner: row.is_winner,
+      waitlistRank: row.waitlist_rank ?? undefined,
+      confirmBy: row.confirm_by ?? undefined
+    }))
+  } catch (error) {
+    console.error('Error getting selection status:', error)
+    return []
+  }
+}
+
+export interface StudentPreferencesRequest {
+  studentId: string
+  classPassword: string
+  opportunityIds: string[] // Most preferred first
+}
+
+export interface StudentPreferencesResponse {
+  success: boolean
+  rankedCount?: number
+  errorMessage?: string
+}
+
+// Replace a student's ranked preferences for the class-wide allocation
+export async function submitStudentPreferences(request: StudentPreferencesRequest): Promise<StudentPreferencesResponse> {
+  const { studentId, classPassword, opportunityIds } = request
+
+  try {
+    const { data: result, error } = await supabase.rpc('submit_student_preferences', {
+      p_student_id: studentId,
+      p_class_password: classPassword,
+      p_opportunity_ids: opportunityIds
+    })
+
+    if (error) {
+      console.error('Preference submission error:', error)
+      return {
+        success: false,
+        errorMessage: error.message || 'Failed to submit preferences'
+      }
+    }
+
+    if (!result.success) {
+      return {
+        success: false,
+        errorMessage: result.error_message || 'Preference submission failed'
+      }
+    }
+
+    return {
+      success: true,
+      rankedCount: result.ranked_count
+    }
+
+  } catch (error) {
+    console.error('Unexpected error during preference submission:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
+// Get a student's ranked opportunity ids, most preferred first
+export async function getStudentPreferences(studentId: string): Promise<string[]> {
+  try {
+    const { data, error } = await supabase
+      .from('student_preferences')
+      .select('opportunity_id, rank')
+      .eq('student_id', studentId)
+      .order('rank', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching student preferences:', error)
+      return []
+    }
+
+    return (data || []).map(preference => preference.opportunity_id)
+  } catch (error) {
+    console.error('Error getting student preferences:', error)
+    return []
+  }
+}
+
+export interface ClassPasswordResult {
+  success: boolean
+  errorMessage?: string
+}
+
+// Check a class password on the server; only its hash is stored, so the client cannot
+export async function verifyClassPassword(classId: string, classPassword: string): Promise<ClassPasswordResult> {
+  try {
+    const { data: result, error } = await supabase.rpc('verify_class_password', {
+      p_class_id: classId,
+      p_class_password: classPassword
+    })
+
+    if (error) {
+      console.error('Class password verification error:', error)
+      return {
+        success: false,
+        errorMessage: error.message || 'Failed to verify class password'
+      }
+    }
+
+    if (!result.success) {
+      return {
+        success: false,
+        errorMessage: result.error_message || 'Invalid class password'
+      }
+    }
+
+    return { success: true }
+
+  } catch (error) {
+    console.error('Unexpected error verifying class password:', error)
+    return {
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unexpected error occurred'
+    }
+  }
+}
+
 // Get real-time student status
 export async function getStudentStatus(studentId: string): Promise<Student | null> {
   try {
@@ -98,6 +366,7 @@ export async function getStudentStatus(studentId: string): Promise<Student | nul
       email: student.email,
       studentNumber: student.student_number,
       hasUsedToken: student.tokens_remaining <= 0,
+      tokensRemaining: student.tokens_remaining,
       hasBid: student.token_status === 'used'
     }
   } catch (error) {
@@ -131,6 +400,7 @@ export function subscribeToStudentUpdates(
           email: updatedData.email,
           studentNumber: updatedData.student_number,
           hasUsedToken: updatedData.tokens_remaining <= 0,
+          tokensRemaining: updatedData.tokens_remaining,
           hasBid: updatedData.token_status === 'used'
         }
         
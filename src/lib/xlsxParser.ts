@@ -0,0 +1,114 @@
+// Excel (.xlsx) reading. An .xlsx file is a zip of XML parts: the workbook lists the
+// sheets, each sheet lists its cells, and text cells usually point into a shared string
+// table. Only cell values are read; formatting, formulas and every sheet but the first
+// are ignored.
+import { strFromU8, unzipSync } from 'fflate'
+
+export class XLSXParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'XLSXParseError'
+  }
+}
+
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+const parseXML = (parts: Record<string, Uint8Array>, path: string): Document | null => {
+  const part = parts[path]
+  if (!part) return null
+
+  const document = new DOMParser().parseFromString(strFromU8(part), 'application/xml')
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new XLSXParseError(`${path} is not valid XML`)
+  }
+  return document
+}
+
+// Namespace-agnostic, as some writers prefix the spreadsheet namespace
+const elements = (parent: Document | Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName))
+
+// Rich text is split into runs; phonetic guides (<rPh>) are not part of the value
+const textOf = (element: Element) =>
+  elements(element, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('')
+
+// "B12" -> 1
+const columnIndex = (reference: string) => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? ''
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+// Resolve the first sheet's part from the workbook and its relationships
+const firstSheetPath = (parts: Record<string, Uint8Array>) => {
+  const workbook = parseXML(parts, 'xl/workbook.xml')
+  const relationships = parseXML(parts, 'xl/_rels/workbook.xml.rels')
+  const sheet = workbook && elements(workbook, 'sheet')[0]
+  if (!sheet || !relationships) {
+    throw new XLSXParseError('The workbook has no sheets')
+  }
+
+  const relationshipId = sheet.getAttributeNS(RELATIONSHIPS_NS, 'id')
+  const target = elements(relationships, 'Relationship')
+    .find(relationship => relationship.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target')
+  if (!target) {
+    throw new XLSXParseError('The first sheet could not be found in the workbook')
+  }
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+}
+
+// Read the first sheet as rows of cell text. Row n of the sheet is at index n - 1, with
+// empty rows and cells as empty arrays and strings, so callers can report sheet rows.
+export const parseXLSX = (data: Uint8Array): string[][] => {
+  let parts: Record<string, Uint8Array>
+  try {
+    parts = unzipSync(data, { filter: file => file.name.endsWith('.xml') || file.name.endsWith('.rels') })
+  } catch {
+    throw new XLSXParseError('The file is not an Excel workbook')
+  }
+
+  const sharedStringsDocument = parseXML(parts, 'xl/sharedStrings.xml')
+  const sharedStrings = sharedStringsDocument ? elements(sharedStringsDocument, 'si').map(textOf) : []
+
+  const sheet = parseXML(parts, firstSheetPath(parts))
+  if (!sheet) {
+    throw new XLSXParseError('The first sheet is missing from the workbook')
+  }
+
+  const rows: string[][] = []
+  elements(sheet, 'row').forEach(rowElement => {
+    const rowNumber = Number(rowElement.getAttribute('r')) || rows.length + 1
+    const row: string[] = []
+
+    elements(rowElement, 'c').forEach(cell => {
+      const reference = cell.getAttribute('r')
+      const column = reference ? columnIndex(reference) : row.length
+      const value = elements(cell, 'v')[0]?.textContent ?? ''
+
+      switch (cell.getAttribute('t')) {
+        case 's':
+          row[column] = sharedStrings[Number(value)] ?? ''
+          break
+        case 'inlineStr':
+          row[column] = elements(cell, 'is')[0] ? textOf(elements(cell, 'is')[0]) : ''
+          break
+        case 'b':
+          row[column] = value === '1' ? 'TRUE' : 'FALSE'
+          break
+        default:
+          row[column] = value
+      }
+    })
+
+    rows[rowNumber - 1] = Array.from(row, cell => cell ?? '')
+  })
+
+  return Array.from(rows, row => row ?? [])
+}
+
+export const parseXLSXFile = async (file: Blob): Promise<string[][]> =>
+  parseXLSX(new Uint8Array(await file.arrayBuffer()))
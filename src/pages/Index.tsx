@@ -1,42 +1,46 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
+import { Navigate, Outlet, useLocation, useNavigate } from "react-router-dom";
 import { v4 as uuidv4 } from "uuid";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import AdminLoginForm from "@/components/admin/LoginForm";
-import StudentLogin from "@/components/student/StudentLogin";
 import AdminSidebar from "@/components/admin/AdminSidebar";
-import Dashboard from "@/pages/admin/Dashboard";
-import Students from "@/pages/admin/Students";
-import Rewards from "@/pages/admin/Rewards";
-import Selection from "@/pages/admin/Selection";
-import StudentDashboard from "@/components/student/StudentDashboard";
-import { Student, ClassConfig, AuthState, BidOpportunity } from "@/types";
-import { initialAuthState, logout } from "@/utils/auth";
-import { createClass, fetchClasses, updateClass, deleteClassAtomic, updateBidOpportunity, ClassDeletionResult } from "@/lib/classService";
+import { AdminOutletContext } from "@/pages/admin/AdminRoutes";
+import OfflineBanner from "@/components/OfflineBanner";
+import { ClassConfig } from "@/types";
+import { useSession } from "@/hooks/useSession";
+import { AdminSection, adminClassPath, getAdminClassId, getAdminSection } from "@/utils/adminRoutes";
+import { useClassDetailQuery, useClassesQuery, useCreateClass, useDeleteClass, useUpdateClass, useUpdateClassTokenPolicy } from "@/hooks/useClassQueries";
+import { useClassRealtimeInvalidation } from "@/hooks/useClassRealtimeInvalidation";
+import { ClassDeletionResult } from "@/lib/classService";
 import { Loader2, AlertTriangle, CheckCircle, Trash2, Menu, X, Info } from "lucide-react";
 
 const Index = () => {
-  // Auth state
-  const [auth, setAuth] = useState<AuthState>(initialAuthState);
+  // Only rendered behind ProtectedRoute, so there is always a signed-in instructor
+  const { admin, signOut } = useSession();
+  
+  const navigate = useNavigate();
+  const location = useLocation();
+  
+  // Supabase is the only source of class data; React Query caches it for the session
+  const { classes, isLoading, isReadOnly, lastSyncedAt } = useClassesQuery();
+  const createClassMutation = useCreateClass();
+  const updateClassMutation = useUpdateClass();
+  const updateTokenPolicyMutation = useUpdateClassTokenPolicy();
+  const deleteClassMutation = useDeleteClass();
   
-  // App state
-  const [classes, setClasses] = useState<ClassConfig[]>([]);
-  const [currentClass, setCurrentClass] = useState<ClassConfig | null>(null);
-  const [activeTab, setActiveTab] = useState("dashboard");
-  const [isLoading, setIsLoading] = useState(true);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   
   // New class dialog
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [newClassName, setNewClassName] = useState("");
   const [newClassPassword, setNewClassPassword] = useState("");
-  const [isCreatingClass, setIsCreatingClass] = useState(false);
+  const isCreatingClass = createClassMutation.isPending;
   
   // Class deletion state
   const [deletionInProgress, setDeletionInProgress] = useState<string | null>(null);
@@ -45,89 +49,23 @@ const Index = () => {
   
   const { toast } = useToast();
   
-  // Load classes from Supabase on first render
-  useEffect(() => {
-    const loadClasses = async () => {
-      try {
-        setIsLoading(true);
-        const fetchedClasses = await fetchClasses();
-        setClasses(fetchedClasses);
-        
-        // If there's a current class in localStorage, try to find it in the fetched data
-        const storedCurrentClassId = localStorage.getItem("currentClassId");
-        if (storedCurrentClassId) {
-          const foundClass = fetchedClasses.find(c => c.id === storedCurrentClassId);
-          if (foundClass) {
-            setCurrentClass(foundClass);
-          } else {
-            // Clear invalid stored class ID
-            localStorage.removeItem("currentClassId");
-          }
-        } else if (fetchedClasses.length > 0) {
-          // Auto-select first class if none is selected
-          setCurrentClass(fetchedClasses[0]);
-        }
-      } catch (error) {
-        console.error("Error loading classes:", error);
-        toast({
-          title: "Error loading data",
-          description: "Failed to load classes from database. Please try again.",
-          variant: "destructive",
-        });
-        
-        // Fallback to localStorage if Supabase fails
-        try {
-          const storedClasses = localStorage.getItem("classData");
-          if (storedClasses) {
-            const parsedClasses = JSON.parse(storedClasses) as ClassConfig[];
-            setClasses(parsedClasses);
-          }
-        } catch (localError) {
-          console.error("Error loading from localStorage:", localError);
-        }
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    
-    loadClasses();
-  }, [toast]);
-  
-  // Save current class ID to localStorage when it changes
-  useEffect(() => {
-    if (currentClass) {
-      localStorage.setItem("currentClassId", currentClass.id);
-    } else {
-      localStorage.removeItem("currentClassId");
-    }
-  }, [currentClass]);
+  // The current class and section come from the URL, e.g. /admin/classes/:classId/students
+  const classId = getAdminClassId(location.pathname);
+  const activeSection = getAdminSection(location.pathname);
+  const classSummary = classes.find(c => c.id === classId) || null;
+  const { data: classDetail } = useClassDetailQuery(classSummary?.id || null);
+  const currentClass = classSummary ? classDetail || classSummary : null;
   
-  const handleAdminLogin = (isSuccess: boolean) => {
-    if (isSuccess) {
-      setAuth({
-        ...initialAuthState,
-        isAdmin: true,
-        currentAdmin: { username: "admin", password: "admin123" }
-      });
-    }
-  };
+  // Bids, roster and ledger changes made elsewhere refetch the class on screen
+  useClassRealtimeInvalidation(currentClass?.id || null);
   
-  const handleStudentLogin = (isSuccess: boolean) => {
-    if (isSuccess) {
-      // Auth state is set within the StudentLogin component
-      // This is just a callback for the UI flow
-    }
+  const handleLogout = async () => {
+    await signOut();
   };
   
-  const handleLogout = () => {
-    setAuth(logout());
-  };
-  
-  const handleSelectClass = (classId: string) => {
-    const selectedClass = classes.find(c => c.id === classId);
-    if (selectedClass) {
-      setCurrentClass(selectedClass);
-    }
+  // Switching class keeps the admin in the same section
+  const handleSelectClass = (selectedClassId: string) => {
+    navigate(adminClassPath(selectedClassId, activeSection));
   };
   
   const handleCreateClass = () => {
@@ -144,10 +82,8 @@ const Index = () => {
       return;
     }
     
-    setIsCreatingClass(true);
-    
     try {
-      const newClass = await createClass({
+      const newClass = await createClassMutation.mutateAsync({
         name: newClassName,
         password: newClassPassword,
         rewardTitle: "Dinner with Professor",
@@ -155,9 +91,7 @@ const Index = () => {
         capacity: 7
       });
       
-      const updatedClasses = [...classes, newClass];
-      setClasses(updatedClasses);
-      setCurrentClass(newClass);
+      navigate(adminClassPath(newClass.id));
       setIsDialogOpen(false);
       setNewClassName("");
       setNewClassPassword("");
@@ -173,269 +107,43 @@ const Index = () => {
         description: error instanceof Error ? error.message : "An unexpected error occurred",
         variant: "destructive",
       });
-    } finally {
-      setIsCreatingClass(false);
     }
   };
   
-  const handleUpdateStudents = (updatedStudents: Student[]) => {
-    if (!currentClass) return;
-    
-    const updatedClass: ClassConfig = {
-      ...currentClass,
-      students: updatedStudents
-    };
-    
-    const updatedClasses = classes.map(c => 
-      c.id === currentClass.id ? updatedClass : c
-    );
-    
-    setClasses(updatedClasses);
-    setCurrentClass(updatedClass);
-    
-    // Also update localStorage for backward compatibility
-    localStorage.setItem("classData", JSON.stringify(updatedClasses));
-  };
-  
-  const handleUpdateReward = (config: Partial<ClassConfig>) => {
-    if (!currentClass) return;
-    
-    const updatedClass: ClassConfig = {
-      ...currentClass,
-      ...config
-    };
-    
-    const updatedClasses = classes.map(c => 
-      c.id === currentClass.id ? updatedClass : c
-    );
-    
-    setClasses(updatedClasses);
-    setCurrentClass(updatedClass);
-    
-    // Also update localStorage for backward compatibility
-    localStorage.setItem("classData", JSON.stringify(updatedClasses));
-  };
-  
-  const handleSelectionComplete = (selectedStudents: Student[]) => {
-    if (!currentClass) return;
-    
-    const updatedClass: ClassConfig = {
-      ...currentClass,
-      selectedStudents: selectedStudents
-    };
-    
-    const updatedClasses = classes.map(c => 
-      c.id === currentClass.id ? updatedClass : c
-    );
-    
-    setClasses(updatedClasses);
-    setCurrentClass(updatedClass);
-    
-    // Also update localStorage for backward compatibility
-    localStorage.setItem("classData", JSON.stringify(updatedClasses));
-  };
-  
-  const handleUpdateBidOpportunity = async (opportunityId: string, updatedOpportunity: BidOpportunity) => {
+  const handleUpdateReward = async (config: Partial<ClassConfig>) => {
     if (!currentClass) return;
     
     try {
-      // Update the opportunity in the database
-      await updateBidOpportunity(opportunityId, {
-        title: updatedOpportunity.title,
-        description: updatedOpportunity.description,
-        event_date: updatedOpportunity.date,
-        opens_at: updatedOpportunity.bidOpenDate,
-        closes_at: updatedOpportunity.date,
-        capacity: updatedOpportunity.capacity
-      });
-
-      // Update local state
-      const updatedOpportunities = currentClass.bidOpportunities.map(opp => 
-        opp.id === opportunityId ? updatedOpportunity : opp
-      );
-      
-      const updatedClass: ClassConfig = {
-        ...currentClass,
-        bidOpportunities: updatedOpportunities
-      };
-      
-      const updatedClasses = classes.map(c => 
-        c.id === currentClass.id ? updatedClass : c
-      );
+      // The token policy is applied by the database, so it must be saved before it takes effect
+      if (config.tokenPolicy && config.tokenPolicy !== currentClass.tokenPolicy) {
+        await updateTokenPolicyMutation.mutateAsync({ classId: currentClass.id, policy: config.tokenPolicy });
+      }
       
-      setClasses(updatedClasses);
-      setCurrentClass(updatedClass);
+      if (config.rewardTitle || config.rewardDescription || config.capacity !== undefined) {
+        await updateClassMutation.mutateAsync({
+          classId: currentClass.id,
+          updates: {
+            rewardTitle: config.rewardTitle,
+            rewardDescription: config.rewardDescription,
+            capacity: config.capacity
+          }
+        });
+      }
       
-      // Also update localStorage for backward compatibility
-      localStorage.setItem("classData", JSON.stringify(updatedClasses));
-
       toast({
-        title: "Opportunity updated successfully",
-        description: "The bidding opportunity has been saved to the database.",
+        title: "Reward settings saved",
+        description: "The reward and token policy have been saved to the database",
       });
     } catch (error) {
-      console.error("Error updating opportunity:", error);
+      console.error("Error updating reward settings:", error);
       toast({
-        title: "Failed to update opportunity",
+        title: "Failed to save reward settings",
         description: error instanceof Error ? error.message : "An unexpected error occurred",
         variant: "destructive",
       });
     }
   };
   
-  const handleOpportunityCreated = (opportunity: BidOpportunity) => {
-    if (!currentClass) return;
-    
-    const updatedClass: ClassConfig = {
-      ...currentClass,
-      bidOpportunities: [...currentClass.bidOpportunities, opportunity]
-    };
-    
-    const updatedClasses = classes.map(c => 
-      c.id === currentClass.id ? updatedClass : c
-    );
-    
-    setClasses(updatedClasses);
-    setCurrentClass(updatedClass);
-    
-    // Also update localStorage for backward compatibility
-    localStorage.setItem("classData", JSON.stringify(updatedClasses));
-  };
-  
-  const handleOpportunityDeleted = (opportunityId: string) => {
-    if (!currentClass) return;
-    
-    const updatedOpportunities = currentClass.bidOpportunities.filter(opp => opp.id !== opportunityId);
-    
-    const updatedClass: ClassConfig = {
-      ...currentClass,
-      bidOpportunities: updatedOpportunities
-    };
-    
-    const updatedClasses = classes.map(c => 
-      c.id === currentClass.id ? updatedClass : c
-    );
-    
-    setClasses(updatedClasses);
-    setCurrentClass(updatedClass);
-    
-    // Also update localStorage for backward compatibility
-    localStorage.setItem("classData", JSON.stringify(updatedClasses));
-  };
-  
-  const handleBidSubmitted = async (bidId: string, updatedStudent: Student, opportunityId: string) => {
-    if (!currentClass || !auth.currentStudent) return;
-    
-    try {
-      // Refresh the class data from the database to get the latest bid counts
-      const refreshedClasses = await fetchClasses();
-      const refreshedCurrentClass = refreshedClasses.find(c => c.id === currentClass.id);
-      
-      if (refreshedCurrentClass) {
-        // Update the student in the refreshed class's students list
-        const updatedStudents = refreshedCurrentClass.students.map(s => 
-          s.id === updatedStudent.id ? updatedStudent : s
-        );
-        
-        // Find the opportunity to update with the new bidder
-        const updatedOpportunities = refreshedCurrentClass.bidOpportunities.map(opportunity => {
-          if (opportunity.id === opportunityId) {
-            // Add the student to this opportunity's bidders if not already there
-            const isAlreadyBidding = opportunity.bidders.some(b => b.id === updatedStudent.id);
-            const updatedBidders = isAlreadyBidding
-              ? opportunity.bidders
-              : [...opportunity.bidders, updatedStudent];
-            
-            return {
-              ...opportunity,
-              bidders: updatedBidders
-            };
-          }
-          return opportunity;
-        });
-        
-        // Also update the class-level bidders for backward compatibility
-        const isAlreadyBidding = refreshedCurrentClass.bidders.some(b => b.id === updatedStudent.id);
-        const updatedBidders = isAlreadyBidding
-          ? refreshedCurrentClass.bidders
-          : [...refreshedCurrentClass.bidders, updatedStudent];
-        
-        // Create the updated class
-        const updatedClass: ClassConfig = {
-          ...refreshedCurrentClass,
-          students: updatedStudents,
-          bidders: updatedBidders,
-          bidOpportunities: updatedOpportunities
-        };
-        
-        // Update the classes array
-        const updatedClasses = refreshedClasses.map(c => 
-          c.id === currentClass.id ? updatedClass : c
-        );
-        
-        // Update state
-        setClasses(updatedClasses);
-        setCurrentClass(updatedClass);
-        setAuth({
-          ...auth,
-          currentStudent: updatedStudent,
-          currentClass: updatedClass
-        });
-        
-        // Explicitly save to localStorage to ensure changes are persisted immediately
-        localStorage.setItem("classData", JSON.stringify(updatedClasses));
-      }
-    } catch (error) {
-      console.error("Error refreshing class data after bid:", error);
-      
-      // Fallback to the original logic if database refresh fails
-      const updatedStudents = currentClass.students.map(s => 
-        s.id === updatedStudent.id ? updatedStudent : s
-      );
-      
-      const updatedOpportunities = currentClass.bidOpportunities.map(opportunity => {
-        if (opportunity.id === opportunityId) {
-          const isAlreadyBidding = opportunity.bidders.some(b => b.id === updatedStudent.id);
-          const updatedBidders = isAlreadyBidding
-            ? opportunity.bidders
-            : [...opportunity.bidders, updatedStudent];
-          
-          return {
-            ...opportunity,
-            bidders: updatedBidders
-          };
-        }
-        return opportunity;
-      });
-      
-      const isAlreadyBidding = currentClass.bidders.some(b => b.id === updatedStudent.id);
-      const updatedBidders = isAlreadyBidding
-        ? currentClass.bidders
-        : [...currentClass.bidders, updatedStudent];
-      
-      const updatedClass: ClassConfig = {
-        ...currentClass,
-        students: updatedStudents,
-        bidders: updatedBidders,
-        bidOpportunities: updatedOpportunities
-      };
-      
-      const updatedClasses = classes.map(c => 
-        c.id === currentClass.id ? updatedClass : c
-      );
-      
-      setClasses(updatedClasses);
-      setCurrentClass(updatedClass);
-      setAuth({
-        ...auth,
-        currentStudent: updatedStudent,
-        currentClass: updatedClass
-      });
-      
-      localStorage.setItem("classData", JSON.stringify(updatedClasses));
-    }
-  };
-  
   const handleRemoveClass = async (classId: string) => {
     if (!currentClass || currentClass.id !== classId) return;
     
@@ -444,14 +152,12 @@ const Index = () => {
     
     try {
       // Use the atomic deletion function
-      const result = await deleteClassAtomic(classId);
+      const result = await deleteClassMutation.mutateAsync(classId);
       setDeletionResult(result);
       
       if (result.success) {
-        // Update UI state
-        const updatedClasses = classes.filter(c => c.id !== classId);
-        setClasses(updatedClasses);
-        setCurrentClass(updatedClasses.length > 0 ? updatedClasses[0] : null);
+        const remainingClasses = classes.filter(c => c.id !== classId);
+        navigate(remainingClasses.length > 0 ? adminClassPath(remainingClasses[0].id) : "/admin");
         
         // Show success toast
         toast({
@@ -495,21 +201,8 @@ const Index = () => {
   
   const handleChangePassword = async (classId: string, newPassword: string) => {
     try {
-      await updateClass(classId, { password: newPassword });
-      
-      const updatedClasses = classes.map(c => {
-        if (c.id === classId) {
-          return { ...c, password: newPassword };
-        }
-        return c;
-      });
-      
-      setClasses(updatedClasses);
-      
-      // Update current class if it's the one being modified
-      if (currentClass && currentClass.id === classId) {
-        setCurrentClass({...currentClass, password: newPassword});
-      }
+      // Only the hash is stored, so nothing readable changes in the cache
+      await updateClassMutation.mutateAsync({ classId, updates: { password: newPassword } });
       
       toast({
         title: "Password updated successfully",
@@ -525,6 +218,20 @@ const Index = () => {
     }
   };
   
+  const outletContext: AdminOutletContext = {
+    classes,
+    currentClass,
+    onSelectClass: handleSelectClass,
+    onCreateClass: handleCreateClass,
+    onUpdateReward: handleUpdateReward,
+    onRemoveClass: (removedClassId) => {
+      if (currentClass && currentClass.id === removedClassId) {
+        setShowDeletionDialog(true);
+      }
+    },
+    onChangePassword: handleChangePassword
+  };
+  
   // Show loading screen while fetching data
   if (isLoading) {
     return (
@@ -538,314 +245,234 @@ const Index = () => {
     );
   }
   
-  // Render based on authentication state
-  if (auth.isAdmin) {
-    return (
-      <div className="min-h-screen bg-gray-50">
-        <header className="bg-white border-b relative z-50">
-          <div className="container mx-auto p-4 flex flex-col md:flex-row justify-between items-center">
-            <div className="flex items-center space-x-4">
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => setSidebarCollapsed(!sidebarCollapsed)}
-                className="md:hidden"
-              >
-                {sidebarCollapsed ? <Menu className="w-5 h-5" /> : <X className="w-5 h-5" />}
-              </Button>
-              <h1 className="text-2xl font-heading font-bold text-academy-blue mb-4 md:mb-0">
-                Student Bidding System - Admin
-              </h1>
-            </div>
-            <Button variant="outline" onClick={handleLogout}>Logout</Button>
+  // /admin and links to classes this instructor no longer has land on their first class
+  if (classes.length > 0 && !currentClass) {
+    return <Navigate to={adminClassPath(classes[0].id, activeSection)} replace />;
+  }
+  
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b relative z-50">
+        <div className="container mx-auto p-4 flex flex-col md:flex-row justify-between items-center">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setSidebarCollapsed(!sidebarCollapsed)}
+              className="md:hidden"
+            >
+              {sidebarCollapsed ? <Menu className="w-5 h-5" /> : <X className="w-5 h-5" />}
+            </Button>
+            <h1 className="text-2xl font-heading font-bold text-academy-blue mb-4 md:mb-0">
+              Student Bidding System - Admin
+            </h1>
           </div>
-        </header>
-        
-        {/* Sidebar */}
-        <AdminSidebar
-          classes={classes}
-          currentClass={currentClass}
-          onSelectClass={handleSelectClass}
-          onCreateClass={handleCreateClass}
-          isCollapsed={sidebarCollapsed}
-        />
-        
-        <main className={`min-h-[calc(100vh-64px)] transition-all duration-300 ${
-          sidebarCollapsed ? 'ml-16' : 'ml-80'
-        }`}>
-          <div className="container mx-auto p-4">
-            <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid grid-cols-3 mb-6">
-                <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
-                <TabsTrigger value="students">Students</TabsTrigger>
-                <TabsTrigger value="selection">Selection</TabsTrigger>
-              </TabsList>
-              
-              <TabsContent value="dashboard">
-                <Dashboard 
-                  classes={classes}
-                  currentClass={currentClass}
-                  onSelectClass={handleSelectClass}
-                  onCreateClass={handleCreateClass}
-                  onUpdateOpportunity={handleUpdateBidOpportunity}
-                  onUpdateReward={handleUpdateReward}
-                  onRemoveClass={(classId) => {
-                    if (currentClass && currentClass.id === classId) {
-                      setShowDeletionDialog(true);
-                    }
-                  }}
-                  onChangePassword={handleChangePassword}
-                  onOpportunityCreated={handleOpportunityCreated}
-                  onOpportunityDeleted={handleOpportunityDeleted}
-                />
-              </TabsContent>
-              
-              <TabsContent value="students">
-                <Students 
-                  currentClass={currentClass}
-                  onUpdateStudents={handleUpdateStudents}
-                />
-              </TabsContent>
-              
-              <TabsContent value="selection">
-                <Selection 
-                  currentClass={currentClass}
-                  onSelectionComplete={handleSelectionComplete}
-                />
-              </TabsContent>
-            </Tabs>
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-muted-foreground">{admin?.name || admin?.email}</span>
+            <Button variant="outline" onClick={handleLogout}>Logout</Button>
           </div>
-        </main>
-        
-        {/* New Class Dialog */}
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Create New Class</DialogTitle>
-              <DialogDescription>
-                Enter the details for the new class. This will be saved to the database.
-              </DialogDescription>
-            </DialogHeader>
-            
-            <div className="space-y-4 py-4">
-              <div className="space-y-2">
-                <Label htmlFor="className">Class Name</Label>
-                <Input
-                  id="className"
-                  value={newClassName}
-                  onChange={(e) => setNewClassName(e.target.value)}
-                  placeholder="e.g., Economics 101"
-                  disabled={isCreatingClass}
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="classPassword">Class Password</Label>
-                <Input
-                  id="classPassword"
-                  value={newClassPassword}
-                  onChange={(e) => setNewClassPassword(e.target.value)}
-                  placeholder="Create a password for admin access"
-                  disabled={isCreatingClass}
-                />
-                <p className="text-xs text-muted-foreground">
-                  Note: Students no longer need class passwords to log in. This is only for admin access.
-                </p>
-              </div>
+        </div>
+      </header>
+      
+      {/* Sidebar */}
+      <AdminSidebar
+        classes={classes}
+        currentClass={currentClass}
+        onSelectClass={handleSelectClass}
+        onCreateClass={handleCreateClass}
+        isCollapsed={sidebarCollapsed}
+      />
+      
+      <main className={`min-h-[calc(100vh-64px)] transition-all duration-300 ${
+        sidebarCollapsed ? 'ml-16' : 'ml-80'
+      }`}>
+        <div className="container mx-auto p-4">
+          {isReadOnly && <OfflineBanner lastSyncedAt={lastSyncedAt} />}
+          
+          <Tabs
+            value={activeSection}
+            onValueChange={(section) => currentClass && navigate(adminClassPath(currentClass.id, section as AdminSection))}
+          >
+            <TabsList className="grid grid-cols-4 mb-6">
+              <TabsTrigger value="dashboard" disabled={!currentClass}>Dashboard</TabsTrigger>
+              <TabsTrigger value="students" disabled={!currentClass}>Students</TabsTrigger>
+              <TabsTrigger value="selection" disabled={!currentClass}>Selection</TabsTrigger>
+              <TabsTrigger value="rewards" disabled={!currentClass}>Rewards</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          
+          <Outlet context={outletContext} />
+        </div>
+      </main>
+      
+      {/* New Class Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create New Class</DialogTitle>
+            <DialogDescription>
+              Enter the details for the new class. This will be saved to the database.
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="className">Class Name</Label>
+              <Input
+                id="className"
+                value={newClassName}
+                onChange={(e) => setNewClassName(e.target.value)}
+                placeholder="e.g., Economics 101"
+                disabled={isCreatingClass}
+              />
             </div>
             
-            <DialogFooter>
-              <Button 
-                variant="outline" 
-                onClick={() => setIsDialogOpen(false)}
-                disabled={isCreatingClass}
-              >
-                Cancel
-              </Button>
-              <Button 
-                onClick={handleSaveNewClass}
+            <div className="space-y-2">
+              <Label htmlFor="classPassword">Class Password</Label>
+              <Input
+                id="classPassword"
+                value={newClassPassword}
+                onChange={(e) => setNewClassPassword(e.target.value)}
+                placeholder="Create a password to share with students"
                 disabled={isCreatingClass}
-              >
-                {isCreatingClass ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Creating...
-                  </>
-                ) : (
-                  "Create Class"
-                )}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
-        
-        {/* Class Deletion Confirmation Dialog */}
-        <Dialog open={showDeletionDialog} onOpenChange={setShowDeletionDialog}>
-          <DialogContent className="max-w-md">
-            <DialogHeader>
-              <DialogTitle className="flex items-center gap-2">
-                <Trash2 className="h-5 w-5 text-destructive" />
-                Confirm Class Deletion
-              </DialogTitle>
-              <DialogDescription>
-                This will permanently delete the class and all associated data. This action cannot be undone.
-              </DialogDescription>
-            </DialogHeader>
-            
-            {currentClass && (
-              <div className="py-4">
-                <Alert variant="destructive" className="mb-4">
-                  <AlertTriangle className="h-4 w-4" />
+              />
+              <p className="text-xs text-muted-foreground">
+                Students sign in without it, then enter it once before bidding. It is stored as a hash and cannot be shown again.
+              </p>
+            </div>
+          </div>
+          
+          <DialogFooter>
+            <Button 
+              variant="outline" 
+              onClick={() => setIsDialogOpen(false)}
+              disabled={isCreatingClass}
+            >
+              Cancel
+            </Button>
+            <Button 
+              onClick={handleSaveNewClass}
+              disabled={isCreatingClass}
+            >
+              {isCreatingClass ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                "Create Class"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Class Deletion Confirmation Dialog */}
+      <Dialog open={showDeletionDialog} onOpenChange={setShowDeletionDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5 text-destructive" />
+              Confirm Class Deletion
+            </DialogTitle>
+            <DialogDescription>
+              This will permanently delete the class and all associated data. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          
+          {currentClass && (
+            <div className="py-4">
+              <Alert variant="destructive" className="mb-4">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <strong>WARNING:</strong> Deleting "{currentClass.className}" will remove:
+                  <ul className="list-disc list-inside mt-2 space-y-1">
+                    <li>{currentClass.students.length} student records</li>
+                    <li>{currentClass.bidOpportunities.length} bidding opportunities</li>
+                    <li>All associated bids and token history</li>
+                    <li>Any dinner tables created for this class</li>
+                  </ul>
+                </AlertDescription>
+              </Alert>
+              
+              {deletionResult && (
+                <Alert variant={deletionResult.success ? "default" : "destructive"} className="mb-4">
+                  {deletionResult.success ? (
+                    <CheckCircle className="h-4 w-4" />
+                  ) : (
+                    <AlertTriangle className="h-4 w-4" />
+                  )}
                   <AlertDescription>
-                    <strong>WARNING:</strong> Deleting "{currentClass.className}" will remove:
-                    <ul className="list-disc list-inside mt-2 space-y-1">
-                      <li>{currentClass.students.length} student records</li>
-                      <li>{currentClass.bidOpportunities.length} bidding opportunities</li>
-                      <li>All associated bids and token history</li>
-                      <li>Any dinner tables created for this class</li>
-                    </ul>
-                  </AlertDescription>
-                </Alert>
-                
-                {deletionResult && (
-                  <Alert variant={deletionResult.success ? "default" : "destructive"} className="mb-4">
                     {deletionResult.success ? (
-                      <CheckCircle className="h-4 w-4" />
+                      <>
+                        <strong>Success:</strong> Deleted {deletionResult.className} and:
+                        <ul className="list-disc list-inside mt-1 text-sm">
+                          <li>{deletionResult.deletedRecords.students} students</li>
+                          <li>{deletionResult.deletedRecords.opportunities} opportunities</li>
+                          <li>{deletionResult.deletedRecords.bids} bids</li>
+                          <li>{deletionResult.deletedRecords.tokenHistory} token history records</li>
+                          <li>{deletionResult.deletedRecords.dinnerTables} dinner tables</li>
+                        </ul>
+                      </>
                     ) : (
-                      <AlertTriangle className="h-4 w-4" />
+                      <>
+                        <strong>Error:</strong> {deletionResult.error}
+                      </>
                     )}
-                    <AlertDescription>
-                      {deletionResult.success ? (
-                        <>
-                          <strong>Success:</strong> Deleted {deletionResult.className} and:
-                          <ul className="list-disc list-inside mt-1 text-sm">
-                            <li>{deletionResult.deletedRecords.students} students</li>
-                            <li>{deletionResult.deletedRecords.opportunities} opportunities</li>
-                            <li>{deletionResult.deletedRecords.bids} bids</li>
-                            <li>{deletionResult.deletedRecords.tokenHistory} token history records</li>
-                            <li>{deletionResult.deletedRecords.dinnerTables} dinner tables</li>
-                          </ul>
-                        </>
-                      ) : (
-                        <>
-                          <strong>Error:</strong> {deletionResult.error}
-                        </>
-                      )}
-                    </AlertDescription>
-                  </Alert>
-                )}
-                
-                <div className="text-sm text-muted-foreground mb-4">
-                  <p>Type <strong>{currentClass.className}</strong> below to confirm deletion:</p>
-                </div>
-                
-                <Input 
-                  placeholder={`Type "${currentClass.className}" to confirm`}
-                  className="mb-2"
-                  disabled={!!deletionInProgress || (deletionResult?.success ?? false)}
-                  id="confirmation-input"
-                />
+                  </AlertDescription>
+                </Alert>
+              )}
+              
+              <div className="text-sm text-muted-foreground mb-4">
+                <p>Type <strong>{currentClass.className}</strong> below to confirm deletion:</p>
               </div>
-            )}
-            
-            <DialogFooter>
-              <Button 
-                variant="outline" 
-                onClick={() => {
-                  setShowDeletionDialog(false);
-                  setDeletionResult(null);
-                }}
-                disabled={!!deletionInProgress}
-              >
-                Cancel
-              </Button>
-              <Button 
-                variant="destructive"
-                onClick={() => currentClass && handleRemoveClass(currentClass.id)}
-                disabled={
-                  !!deletionInProgress || 
-                  (deletionResult?.success ?? false) ||
-                  (document.getElementById('confirmation-input') as HTMLInputElement)?.value !== (currentClass?.className || '')
-                }
-              >
-                {deletionInProgress ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Deleting...
-                  </>
-                ) : (
-                  <>
-                    <Trash2 className="w-4 h-4 mr-2" />
-                    Delete Class
-                  </>
-                )}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
-      </div>
-    );
-  } else if (auth.isStudent && auth.currentStudent && auth.currentClass) {
-    return (
-      <div className="min-h-screen bg-gray-50">
-        <StudentDashboard 
-          student={auth.currentStudent}
-          classConfig={auth.currentClass}
-          onBidSubmitted={handleBidSubmitted}
-          onLogout={handleLogout}
-        />
-      </div>
-    );
-  }
-  
-  // Login screen (default)
-  return (
-    <div className="min-h-screen bg-gray-50 flex flex-col">
-      <div className="flex-1 flex items-center justify-center p-4">
-        <div className="w-full max-w-4xl">
-          <div className="text-center mb-8">
-            <h1 className="text-3xl md:text-4xl font-heading font-bold text-academy-blue mb-3">
-              Student Bidding System
-            </h1>
-            <p className="text-muted-foreground text-lg">
-              Streamlined access - no class passwords needed for students!
-            </p>
-          </div>
-          
-          <Tabs defaultValue="student" className="w-full">
-            <TabsList className="grid grid-cols-2 mb-8">
-              <TabsTrigger value="student">Student Login</TabsTrigger>
-              <TabsTrigger value="admin">Admin Login</TabsTrigger>
-            </TabsList>
-            
-            <TabsContent value="student" className="flex justify-center">
-              <StudentLogin 
-                classes={classes}
-                onLogin={(success) => {
-                  if (success) {
-                    // State is updated in the component through auth utilities
-                    handleStudentLogin(success);
-                  }
-                }}
+              
+              <Input 
+                placeholder={`Type "${currentClass.className}" to confirm`}
+                className="mb-2"
+                disabled={!!deletionInProgress || (deletionResult?.success ?? false)}
+                id="confirmation-input"
               />
-            </TabsContent>
-            
-            <TabsContent value="admin" className="flex justify-center">
-              <AdminLoginForm onLogin={handleAdminLogin} />
-            </TabsContent>
-          </Tabs>
-
+            </div>
+          )}
           
-        </div>
-      </div>
-      
-      <footer className="border-t bg-white py-4 text-center text-sm text-muted-foreground">
-        <div className="container mx-auto">
-          Student Bidding System &copy; {new Date().getFullYear()}
-        </div>
-      </footer>
+          <DialogFooter>
+            <Button 
+              variant="outline" 
+              onClick={() => {
+                setShowDeletionDialog(false);
+                setDeletionResult(null);
+              }}
+              disabled={!!deletionInProgress}
+            >
+              Cancel
+            </Button>
+            <Button 
+              variant="destructive"
+              onClick={() => currentClass && handleRemoveClass(currentClass.id)}
+              disabled={
+                !!deletionInProgress || 
+                (deletionResult?.success ?? false) ||
+                (document.getElementById('confirmation-input') as HTMLInputElement)?.value !== (currentClass?.className || '')
+              }
+            >
+              {deletionInProgress ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                <>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete Class
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
 
-export default Index;
\ No newline at end of file
+export default Index;
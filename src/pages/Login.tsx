@@ -0,0 +1,66 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2 } from "lucide-react";
+import AdminLoginForm from "@/components/admin/LoginForm";
+import StudentLogin from "@/components/student/StudentLogin";
+import { useSession } from "@/hooks/useSession";
+
+const Login = () => {
+  const { status, role, startAdminSession, startStudentSession } = useSession();
+  const location = useLocation();
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  // Signed in: go back to the protected page that sent us here, or the role's home
+  if (status === "authenticated" && role) {
+    const home = `/${role}`;
+    const from: string | undefined = location.state?.from;
+    return <Navigate to={from?.startsWith(home) ? from : home} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <div className="flex-1 flex items-center justify-center p-4">
+        <div className="w-full max-w-4xl">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl md:text-4xl font-heading font-bold text-academy-blue mb-3">
+              Student Bidding System
+            </h1>
+            <p className="text-muted-foreground text-lg">
+              Students sign in with a one-time code sent to their enrolled email
+            </p>
+          </div>
+
+          <Tabs defaultValue={location.state?.from?.startsWith("/admin") ? "admin" : "student"} className="w-full">
+            <TabsList className="grid grid-cols-2 mb-8">
+              <TabsTrigger value="student">Student Login</TabsTrigger>
+              <TabsTrigger value="admin">Admin Login</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="student" className="flex justify-center">
+              <StudentLogin onLogin={startStudentSession} />
+            </TabsContent>
+
+            <TabsContent value="admin" className="flex justify-center">
+              <AdminLoginForm onLogin={startAdminSession} />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      <footer className="border-t bg-white py-4 text-center text-sm text-muted-foreground">
+        <div className="container mx-auto">
+          Student Bidding System &copy; {new Date().getFullYear()}
+        </div>
+      </footer>
+    </div>
+  );
+};
+
+export default Login;
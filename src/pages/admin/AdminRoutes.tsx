@@ -0,0 +1,65 @@
+import { useNavigate, useOutletContext, useParams } from "react-router-dom";
+import Dashboard from "@/pages/admin/Dashboard";
+import Students from "@/pages/admin/Students";
+import Selection from "@/pages/admin/Selection";
+import Rewards from "@/pages/admin/Rewards";
+import { ClassConfig } from "@/types";
+import { adminSelectionPath } from "@/utils/adminRoutes";
+
+// Shared state and handlers the admin layout (Index) passes to its nested routes.
+// Routes save their own changes through the class mutations, which refresh the cache.
+export interface AdminOutletContext {
+  classes: ClassConfig[];
+  currentClass: ClassConfig | null;
+  onSelectClass: (classId: string) => void;
+  onCreateClass: () => void;
+  onUpdateReward: (config: Partial<ClassConfig>) => void;
+  onRemoveClass: (classId: string) => void;
+  onChangePassword: (classId: string, newPassword: string) => void;
+}
+
+export const AdminDashboardRoute = () => {
+  const context = useOutletContext<AdminOutletContext>();
+
+  return (
+    <Dashboard
+      classes={context.classes}
+      currentClass={context.currentClass}
+      onSelectClass={context.onSelectClass}
+      onCreateClass={context.onCreateClass}
+      onUpdateReward={context.onUpdateReward}
+      onRemoveClass={context.onRemoveClass}
+      onChangePassword={context.onChangePassword}
+    />
+  );
+};
+
+export const AdminStudentsRoute = () => {
+  const { currentClass } = useOutletContext<AdminOutletContext>();
+
+  return <Students currentClass={currentClass} />;
+};
+
+export const AdminRewardsRoute = () => {
+  const { currentClass, onUpdateReward } = useOutletContext<AdminOutletContext>();
+
+  return <Rewards currentClass={currentClass} onUpdateReward={onUpdateReward} />;
+};
+
+export const AdminSelectionRoute = () => {
+  const { currentClass } = useOutletContext<AdminOutletContext>();
+  const { opportunityId } = useParams();
+  const navigate = useNavigate();
+
+  return (
+    <Selection
+      currentClass={currentClass}
+      opportunityId={opportunityId}
+      onSelectOpportunity={(id) => {
+        if (currentClass) {
+          navigate(adminSelectionPath(currentClass.id, id), { replace: true });
+        }
+      }}
+    />
+  );
+};
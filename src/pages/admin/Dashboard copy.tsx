@@ -256,7 +256,8 @@ const Dashboard = ({
             </div>
             <div>
               <Label className="text-sm font-medium text-gray-500">Class Password</Label>
-              <p className="text-lg font-mono bg-gray-100 px-3 py-1 rounded mt-1">{currentClass.password}</p>
+              <p className="text-lg font-mono bg-gray-100 px-3 py-1 rounded mt-1">••••••••</p>
+              <p className="text-xs text-muted-foreground mt-1">Stored as a hash; use Change Password to set a new one</p>
             </div>
             <div>
               <Label className="text-sm font-medium text-gray-500">Bid Opportunities</Label>
@@ -493,7 +494,7 @@ const Dashboard = ({
           onClose={() => setEditingOpportunity(null)}
           opportunity={editingOpportunity}
           currentClass={currentClass}
-          onSave={handleSaveOpportunity}
+          onSave={(opportunity) => handleSaveOpportunity(opportunity, {})}
         />
       )}
 
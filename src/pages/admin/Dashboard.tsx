@@ -3,34 +3,33 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { ClassConfig, BidOpportunity } from "@/types";
+import { ClassConfig, BidOpportunity, AllocationMode } from "@/types";
 import { useToast } from "@/hooks/use-toast";
-import { formatDate, getBidOpportunityStatus } from "@/utils/dates";
+import { formatDate, getBidOpportunityStatus, isValidBiddingWindow } from "@/utils/dates";
 import EditBidOpportunityDialog from "@/components/admin/EditBidOpportunityDialog";
+import OpportunityBiddersList from "@/components/admin/OpportunityBiddersList";
 import { useRealtimeBidTracking } from "@/hooks/useRealtimeBidTracking";
 import { Trash2, AlertTriangle, Users, Coins, Settings, Plus, Edit, Info, Eye, EyeOff, Loader2, RefreshCw } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
-import { format } from "date-fns";
-import { createBidOpportunity, deleteBidOpportunity } from "@/lib/classService";
+import { endOfDay, format } from "date-fns";
+import { useCreateBidOpportunity, useDeleteBidOpportunity } from "@/hooks/useClassQueries";
 
 interface DashboardProps {
   classes: ClassConfig[];
   currentClass: ClassConfig | null;
   onSelectClass: (classId: string) => void;
   onCreateClass: () => void;
-  onUpdateOpportunity: (opportunityId: string, updatedOpportunity: BidOpportunity) => void;
   onUpdateReward: (config: Partial<ClassConfig>) => void;
   onRemoveClass?: (classId: string) => void;
   onChangePassword?: (classId: string, newPassword: string) => void;
-  onOpportunityCreated?: (opportunity: BidOpportunity) => void;
-  onOpportunityDeleted?: (opportunityId: string) => void;
 }
 
 const Dashboard = ({ 
@@ -38,14 +37,13 @@ const Dashboard = ({
   currentClass, 
   onSelectClass, 
   onCreateClass,
-  onUpdateOpportunity,
   onUpdateReward,
   onRemoveClass,
-  onChangePassword,
-  onOpportunityCreated,
-  onOpportunityDeleted
+  onChangePassword
 }: DashboardProps) => {
   const { toast } = useToast();
+  const createOpportunityMutation = useCreateBidOpportunity();
+  const deleteOpportunityMutation = useDeleteBidOpportunity();
   const [selectedOpportunityId, setSelectedOpportunityId] = useState<string | null>(null);
   const [editingOpportunity, setEditingOpportunity] = useState<BidOpportunity | null>(null);
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
@@ -61,7 +59,9 @@ const Dashboard = ({
   const [description, setDescription] = useState("");
   const [eventDate, setEventDate] = useState<Date | undefined>(undefined);
   const [bidOpenDate, setBidOpenDate] = useState<Date | undefined>(undefined);
+  const [bidCloseDate, setBidCloseDate] = useState<Date | undefined>(undefined);
   const [capacity, setCapacity] = useState<string>("");
+  const [allocationMode, setAllocationMode] = useState<AllocationMode>("lottery");
 
   // Use real-time bid tracking
   const { statistics, isLoading: statsLoading, refresh: refreshStats } = useRealtimeBidTracking(currentClass?.id || null);
@@ -76,7 +76,9 @@ const Dashboard = ({
     setDescription("");
     setEventDate(undefined);
     setBidOpenDate(undefined);
+    setBidCloseDate(undefined);
     setCapacity("");
+    setAllocationMode("lottery");
   };
 
   const handleCapacityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -115,7 +117,7 @@ const Dashboard = ({
   const handleCreateOpportunity = async () => {
     const capacityValue = parseInt(capacity, 10);
     
-    if (!currentClass || !title || !description || !eventDate || !bidOpenDate || isNaN(capacityValue) || capacityValue < 0) {
+    if (!currentClass || !title || !description || !eventDate || !bidOpenDate || !bidCloseDate || isNaN(capacityValue) || capacityValue < 0) {
       toast({
         title: "Missing information",
         description: "Please fill in all required fields with valid values",
@@ -124,20 +126,33 @@ const Dashboard = ({
       return;
     }
     
+    // Bidding closes at the end of the chosen day
+    const closesAt = endOfDay(bidCloseDate);
+    if (!isValidBiddingWindow(bidOpenDate, closesAt, eventDate)) {
+      toast({
+        title: "Invalid bidding window",
+        description: "Bidding must close after it opens and before the day of the event begins (00:00 UTC)",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     setIsCreating(true);
     
     try {
-      const newOpportunity = await createBidOpportunity(currentClass.id, {
-        title,
-        description,
-        event_date: eventDate.toISOString(),
-        opens_at: bidOpenDate.toISOString(),
-        closes_at: eventDate.toISOString(),
-        capacity: capacityValue
+      await createOpportunityMutation.mutateAsync({
+        classId: currentClass.id,
+        opportunity: {
+          title,
+          description,
+          event_date: eventDate.toISOString(),
+          opens_at: bidOpenDate.toISOString(),
+          closes_at: closesAt.toISOString(),
+          capacity: capacityValue,
+          allocation_mode: allocationMode
+        }
       });
       
-      onOpportunityCreated?.(newOpportunity);
-      
       toast({
         title: "Opportunity created",
         description: "The bidding opportunity has been created successfully",
@@ -161,11 +176,12 @@ const Dashboard = ({
   };
   
   const handleDeleteOpportunity = async (opportunityId: string) => {
+    if (!currentClass) return;
+    
     setIsDeleting(opportunityId);
     
     try {
-      await deleteBidOpportunity(opportunityId);
-      onOpportunityDeleted?.(opportunityId);
+      await deleteOpportunityMutation.mutateAsync({ classId: currentClass.id, opportunityId });
       
       toast({
         title: "Opportunity deleted",
@@ -190,22 +206,9 @@ const Dashboard = ({
     setEditingOpportunity(opportunity);
   };
   
-  const handleSaveOpportunity = (updatedOpportunity: BidOpportunity, updatedClass: Partial<ClassConfig>) => {
-    if (!currentClass) return;
-    
-    // Update the opportunity
-    onUpdateOpportunity(updatedOpportunity.id, updatedOpportunity);
-    
-    // Update the class reward configuration
-    onUpdateReward(updatedClass);
-    
-    // Refresh statistics to show updated data
+  // The dialog has already saved the opportunity and refreshed the cached class
+  const handleSaveOpportunity = () => {
     refreshStats();
-    
-    toast({
-      title: "Changes saved",
-      description: `The bidding opportunity and reward details have been updated`,
-    });
   };
 
   const handleChangePassword = () => {
@@ -377,7 +380,8 @@ const Dashboard = ({
             </div>
             <div>
               <Label className="text-sm font-medium text-gray-500">Class Password</Label>
-              <p className="text-lg font-mono bg-gray-100 px-3 py-1 rounded mt-1">{currentClass.password}</p>
+              <p className="text-lg font-mono bg-gray-100 px-3 py-1 rounded mt-1">••••••••</p>
+              <p className="text-xs text-muted-foreground mt-1">Stored as a hash; use Change Password to set a new one</p>
             </div>
             <div>
               <Label className="text-sm font-medium text-gray-500">Total Bids</Label>
@@ -416,6 +420,7 @@ const Dashboard = ({
                       <TableHead>Capacity</TableHead>
                       <TableHead>Event Date</TableHead>
                       <TableHead>Bidding Opens</TableHead>
+                      <TableHead>Bidding Closes</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Current Bids</TableHead>
                       <TableHead>Selected</TableHead>
@@ -440,6 +445,7 @@ const Dashboard = ({
                             </TableCell>
                             <TableCell>{formatDate(opportunity.date)}</TableCell>
                             <TableCell>{opportunity.bidOpenDate ? formatDate(opportunity.bidOpenDate) : "1 week before"}</TableCell>
+                            <TableCell>{formatDate(opportunity.closesAt || opportunity.date)}</TableCell>
                             <TableCell>
                               <Badge variant={getBidOpportunityStatus(opportunity) === "Open for Bidding" ? "default" : "secondary"}>
                                 {getBidOpportunityStatus(opportunity)}
@@ -509,7 +515,7 @@ const Dashboard = ({
                           {/* Selected Opportunity Details */}
                           {selectedOpportunityId === opportunity.id && (
                             <TableRow>
-                              <TableCell colSpan={8} className="p-0">
+                              <TableCell colSpan={9} className="p-0">
                                 <div className="bg-blue-50/50 border-l-4 border-l-academy-blue p-6">
                                   <h3 className="text-lg font-semibold mb-4 text-academy-blue">
                                     Real-time Details: {opportunity.title}
@@ -583,6 +589,13 @@ const Dashboard = ({
                                       }
                                     </p>
                                   </div>
+
+                                  <div className="mt-6">
+                                    <Label className="text-sm font-medium text-gray-600">Bidders</Label>
+                                    <div className="mt-2">
+                                      <OpportunityBiddersList classId={currentClass.id} opportunityId={opportunity.id} />
+                                    </div>
+                                  </div>
                                 </div>
                               </TableCell>
                             </TableRow>
@@ -693,6 +706,32 @@ const Dashboard = ({
               </p>
             </div>
             
+            <div className="space-y-2">
+              <Label>Bidding Closes Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-left font-normal"
+                    disabled={isCreating}
+                  >
+                    {bidCloseDate ? format(bidCloseDate, "PPP") : <span>Pick when bidding closes</span>}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={bidCloseDate}
+                    onSelect={setBidCloseDate}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              <p className="text-xs text-muted-foreground">
+                Bids are accepted until the end of this day; it must be on or before the event date
+              </p>
+            </div>
+            
             <div className="space-y-2">
               <Label htmlFor="capacity">Capacity</Label>
               <div className="flex items-center gap-2">
@@ -712,6 +751,28 @@ const Dashboard = ({
                 0 or any positive number of students for this opportunity
               </p>
             </div>
+            
+            <div className="space-y-2">
+              <Label>Allocation</Label>
+              <Select
+                value={allocationMode}
+                onValueChange={(value) => setAllocationMode(value as AllocationMode)}
+                disabled={isCreating}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lottery">Lottery</SelectItem>
+                  <SelectItem value="uniform_price">Sealed-bid auction (uniform price)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {allocationMode === "uniform_price"
+                  ? "The highest bids win and every winner pays the highest losing bid. Ties are broken by the seeded lottery."
+                  : "Winners are drawn at random, weighted by the tokens each student commits."}
+              </p>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowCreateOpportunityDialog(false)} disabled={isCreating}>
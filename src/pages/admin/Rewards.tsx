@@ -1,8 +1,6 @@
-import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import RewardConfig from "@/components/admin/RewardConfig";
 import { ClassConfig } from "@/types";
-import { useToast } from "@/hooks/use-toast";
 
 interface RewardsProps {
   currentClass: ClassConfig | null;
@@ -10,17 +8,6 @@ interface RewardsProps {
 }
 
 const Rewards = ({ currentClass, onUpdateReward }: RewardsProps) => {
-  const { toast } = useToast();
-  
-  const handleUpdateReward = (config: Partial<ClassConfig>) => {
-    onUpdateReward(config);
-    
-    toast({
-      title: "Reward configuration updated",
-      description: "The reward settings have been saved successfully",
-    });
-  };
-  
   if (!currentClass) {
     return (
       <div className="container mx-auto p-4">
@@ -43,7 +30,7 @@ const Rewards = ({ currentClass, onUpdateReward }: RewardsProps) => {
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
         <RewardConfig 
           currentClass={currentClass}
-          onUpdate={handleUpdateReward}
+          onUpdate={onUpdateReward}
         />
         
         <Card>
@@ -70,6 +57,14 @@ const Rewards = ({ currentClass, onUpdateReward }: RewardsProps) => {
               </p>
             </div>
             
+            <div>
+              <h3 className="font-medium mb-2">Token Policy</h3>
+              <p className="text-sm text-muted-foreground">
+                The token policy controls how many tokens students start with, whether unsuccessful bids are refunded
+                and whether balances are topped up each term. Every change is recorded in the token ledger on the Students page.
+              </p>
+            </div>
+            
             <div>
               <h3 className="font-medium mb-2">Bidding Process</h3>
               <p className="text-sm text-muted-foreground">
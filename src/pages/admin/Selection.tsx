@@ -1,54 +1,29 @@
-import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import RealtimeSelectionProcess from "@/components/admin/RealtimeSelectionProcess";
-import { ClassConfig, Student } from "@/types";
+import ClassAllocationPanel from "@/components/admin/ClassAllocationPanel";
+import RealtimeBidMonitor from "@/components/admin/RealtimeBidMonitor";
+import { ClassConfig } from "@/types";
 import { useToast } from "@/hooks/use-toast";
+import { invalidateClass } from "@/hooks/useClassQueries";
 
 interface SelectionProps {
   currentClass: ClassConfig | null;
-  onSelectionComplete: (selectedStudents: Student[], opportunityId?: string) => void;
+  opportunityId?: string;
+  onSelectOpportunity?: (opportunityId: string) => void;
 }
 
-const Selection = ({ currentClass, onSelectionComplete }: SelectionProps) => {
+const Selection = ({ currentClass, opportunityId, onSelectOpportunity }: SelectionProps) => {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  const handleSelectionComplete = (selectedStudents: Student[], opportunityId?: string) => {
-    // Store the selection results in localStorage
-    const storedClassesStr = localStorage.getItem("classData");
-    if (storedClassesStr) {
-      try {
-        const storedClasses = JSON.parse(storedClassesStr);
-        const updatedClasses = storedClasses.map((c: ClassConfig) => {
-          if (c.id === currentClass?.id) {
-            // First update the class-level selectedStudents for backward compatibility
-            const updatedClass = { ...c, selectedStudents };
-            
-            // If an opportunity ID is provided, update that specific opportunity
-            if (opportunityId && c.bidOpportunities) {
-              updatedClass.bidOpportunities = c.bidOpportunities.map(opp => {
-                if (opp.id === opportunityId) {
-                  return { ...opp, selectedStudents };
-                }
-                return opp;
-              });
-            }
-            return updatedClass;
-          }
-          return c;
-        });
-        
-        // Save updated classes back to localStorage
-        localStorage.setItem("classData", JSON.stringify(updatedClasses));
-        
-        console.log("Selection results saved to localStorage:", { selectedStudents, opportunityId });
-      } catch (error) {
-        console.error("Error updating class data:", error);
-      }
+  const handleSelectionComplete = () => {
+    // The draw and allocation write their results to the database; refetch them from there
+    if (currentClass) {
+      invalidateClass(queryClient, currentClass.id);
     }
     
-    // Call the parent handler to update global state
-    onSelectionComplete(selectedStudents, opportunityId);
-    
     toast({
       title: "Selection saved",
       description: `The selection results have been saved and are now visible to students.`,
@@ -97,10 +72,37 @@ const Selection = ({ currentClass, onSelectionComplete }: SelectionProps) => {
         </p>
       </div>
       
-      <RealtimeSelectionProcess 
-        currentClass={currentClass} 
-        onSelectionComplete={handleSelectionComplete} 
-      />
+      <Tabs defaultValue="opportunity" className="space-y-4">
+        <div className="flex justify-center">
+          <TabsList className="grid grid-cols-3 w-full max-w-lg">
+            <TabsTrigger value="opportunity">Per Opportunity</TabsTrigger>
+            <TabsTrigger value="preferences">Ranked Preferences</TabsTrigger>
+            <TabsTrigger value="confirmations">Confirmations</TabsTrigger>
+          </TabsList>
+        </div>
+        
+        <TabsContent value="opportunity">
+          <RealtimeSelectionProcess 
+            currentClass={currentClass} 
+            onSelectionComplete={handleSelectionComplete} 
+            opportunityId={opportunityId}
+            onSelectOpportunity={onSelectOpportunity}
+          />
+        </TabsContent>
+        
+        <TabsContent value="preferences">
+          <ClassAllocationPanel
+            currentClass={currentClass}
+            onSelectionComplete={handleSelectionComplete}
+          />
+        </TabsContent>
+
+        <TabsContent value="confirmations">
+          <div className="container mx-auto p-4">
+            <RealtimeBidMonitor currentClass={currentClass} />
+          </div>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
@@ -1,21 +1,24 @@
 import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import EnhancedStudentUpload from "@/components/admin/EnhancedStudentUpload";
 import RealtimeStudentManager from "@/components/admin/RealtimeStudentManager";
-import { ClassConfig, Student } from "@/types";
+import ExportMenu from "@/components/admin/ExportMenu";
+import { ClassConfig } from "@/types";
 import { useToast } from "@/hooks/use-toast";
-import { fetchClasses } from "@/lib/classService";
+import { invalidateClass } from "@/hooks/useClassQueries";
+import { queryKeys } from "@/lib/queryKeys";
 
 interface StudentsProps {
   currentClass: ClassConfig | null;
-  onUpdateStudents: (students: Student[]) => void;
 }
 
-const Students = ({ currentClass, onUpdateStudents }: StudentsProps) => {
+const Students = ({ currentClass }: StudentsProps) => {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   
   if (!currentClass) {
     return (
@@ -29,38 +32,18 @@ const Students = ({ currentClass, onUpdateStudents }: StudentsProps) => {
   }
 
   const handleStudentUpload = async () => {
-    // Refresh the student list from the database
-    setIsRefreshing(true);
-    try {
-      const classes = await fetchClasses();
-      const updatedClass = classes.find(c => c.id === currentClass.id);
-      if (updatedClass) {
-        onUpdateStudents(updatedClass.students);
-      }
-    } catch (error) {
-      console.error("Error refreshing students:", error);
-      toast({
-        title: "Error refreshing data",
-        description: "Failed to refresh student list from database",
-        variant: "destructive",
-      });
-    } finally {
-      setIsRefreshing(false);
-    }
+    // The upload is already saved; refetch the class so the roster shows it
+    await invalidateClass(queryClient, currentClass.id);
   };
 
   const handleRefreshStudents = async () => {
     setIsRefreshing(true);
     try {
-      const classes = await fetchClasses();
-      const updatedClass = classes.find(c => c.id === currentClass.id);
-      if (updatedClass) {
-        onUpdateStudents(updatedClass.students);
-        toast({
-          title: "Students refreshed",
-          description: "Student list has been updated from the database",
-        });
-      }
+      await queryClient.refetchQueries({ queryKey: queryKeys.classes, exact: true }, { throwOnError: true });
+      toast({
+        title: "Students refreshed",
+        description: "Student list has been updated from the database",
+      });
     } catch (error) {
       console.error("Error refreshing students:", error);
       toast({
@@ -79,13 +62,16 @@ const Students = ({ currentClass, onUpdateStudents }: StudentsProps) => {
         <h1 className="text-2xl font-heading font-bold">
           Manage Students - {currentClass.className}
         </h1>
-        <Button 
-          onClick={handleRefreshStudents} 
-          disabled={isRefreshing}
-          variant="outline"
-        >
-          {isRefreshing ? "Refreshing..." : "Refresh from Database"}
-        </Button>
+        <div className="flex items-center gap-2">
+          <ExportMenu currentClass={currentClass} />
+          <Button 
+            onClick={handleRefreshStudents} 
+            disabled={isRefreshing}
+            variant="outline"
+          >
+            {isRefreshing ? "Refreshing..." : "Refresh from Database"}
+          </Button>
+        </div>
       </div>
       
       <Tabs defaultValue="manage" className="space-y-6">
@@ -97,7 +83,6 @@ const Students = ({ currentClass, onUpdateStudents }: StudentsProps) => {
         <TabsContent value="manage">
           <RealtimeStudentManager 
             currentClass={currentClass}
-            onStudentUpdate={onUpdateStudents}
           />
         </TabsContent>
         
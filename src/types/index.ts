@@ -1,34 +1,74 @@
+import { Session } from "@supabase/supabase-js";
+
 export interface Student {
-  id: string;
+  id: string; // The class enrolment; bids and token history belong to it
+  personId?: string; // Shared by the student's enrolments in every class
   name: string;
   email: string;
   studentNumber?: string; // Added student number field
   hasUsedToken: boolean;
+  tokensRemaining?: number; // Tokens left to commit to bids
   isSelected?: boolean;
   hasBid: boolean;
 }
 
+// A student who has bid on an opportunity, with the bid itself
+export interface Bidder extends Student {
+  bidId: string;
+  bidAmount: number;
+  bidStatus: BidStatus;
+  bidAt: string; // ISO timestamp the bid was submitted
+}
+
+// An instructor signed in through Supabase Auth
 export interface Admin {
-  username: string;
-  password: string;
+  id: string; // auth.users id, also the instructors row id
+  email: string;
+  name?: string;
+  session: Session;
 }
 
+// Lifecycle of a bid: placed, then selected (pending confirmation) or waitlisted after the draw
+export type BidStatus = "placed" | "confirmed" | "selected" | "rejected" | "waitlisted" | "declined" | "removed" | "forfeited";
+
+// How places are allocated: a (token-weighted) lottery or a sealed-bid uniform-price auction
+export type AllocationMode = "lottery" | "uniform_price";
+
+// Lifecycle of an opportunity, derived from its bidding window and draw
+export type OpportunityStatus = "upcoming" | "open" | "closed" | "drawn" | "completed";
+
 export interface BidOpportunity {
   id: string;
-  date: string; // ISO date string
+  date: string; // ISO date string for the event itself
   bidOpenDate?: string; // ISO date string for when bidding opens
+  closesAt?: string; // ISO date string for when bidding closes; defaults to just before the event day (UTC)
+  drawnAt?: string; // Set once winners have been allocated
   title: string;
   description: string;
-  bidders: Student[];
+  bidders: Bidder[]; // First page of bidders in bid order; see bidCount for the total
+  bidCount?: number; // Total number of bids, which may exceed bidders.length
   selectedStudents: Student[];
+  waitlist?: Student[]; // Losing bidders in draw order, next to be promoted first
   isOpen: boolean;
   capacity?: number; // Add capacity field for individual opportunities
+  drawSeedHash?: string; // SHA-256 commitment published before bidding closes
+  drawSeed?: string; // Revealed after bidding closes so anyone can re-run the draw
+  allocationMode?: AllocationMode; // Defaults to "lottery"
+  clearingPrice?: number; // Tokens each winner pays once an auction is allocated
+}
+
+// How a class hands out, refunds and caps bidding tokens
+export interface TokenPolicy {
+  initialTokens: number; // Balance each new student starts with
+  refundLosingBids: boolean; // Return lottery tokens to students who are not selected
+  termTopUp: boolean; // Add initialTokens to every student at the start of each term
+  maxBalance: number; // No student can hold more tokens than this
+  lastTopUpAt?: string;
 }
 
 export interface ClassConfig {
   id: string;
   className: string;
-  password: string;
   rewardTitle: string;
   rewardDescription: string;
   capacity: number;
@@ -36,6 +76,7 @@ export interface ClassConfig {
   bidders: Student[];
   selectedStudents: Student[];
   bidOpportunities: BidOpportunity[];
+  tokenPolicy?: TokenPolicy;
 }
 
 export interface AuthState {
@@ -0,0 +1,30 @@
+import { matchPath } from "react-router-dom";
+
+// Admin console sections, each addressable under /admin/classes/:classId
+export type AdminSection = "dashboard" | "students" | "selection" | "rewards";
+
+export const ADMIN_CLASS_ROUTE = "/admin/classes/:classId/*";
+
+export const adminClassPath = (classId: string, section: AdminSection = "dashboard"): string => {
+  const base = `/admin/classes/${encodeURIComponent(classId)}`;
+  return section === "dashboard" ? base : `${base}/${section}`;
+};
+
+export const adminSelectionPath = (classId: string, opportunityId?: string): string => {
+  if (!opportunityId) {
+    return adminClassPath(classId, "selection");
+  }
+  return `${adminClassPath(classId)}/opportunities/${encodeURIComponent(opportunityId)}/selection`;
+};
+
+// The class the admin is looking at comes from the URL, not from stored state
+export const getAdminClassId = (pathname: string): string | undefined => {
+  return matchPath(ADMIN_CLASS_ROUTE, pathname)?.params.classId;
+};
+
+export const getAdminSection = (pathname: string): AdminSection => {
+  if (pathname.endsWith("/selection")) return "selection";
+  if (pathname.endsWith("/students")) return "students";
+  if (pathname.endsWith("/rewards")) return "rewards";
+  return "dashboard";
+};
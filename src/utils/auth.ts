@@ -1,11 +1,5 @@
 import { Student, Admin, ClassConfig, AuthState } from "@/types";
 
-// Mock admin data - in a real app, this would be stored securely
-const adminUser: Admin = {
-  username: "admin",
-  password: "admin123"
-};
-
 // Initial auth state
 export const initialAuthState: AuthState = {
   isAdmin: false,
@@ -15,19 +9,18 @@ export const initialAuthState: AuthState = {
   currentClass: null
 };
 
-// Admin authentication
-export const authenticateAdmin = (username: string, password: string): AuthState => {
-  if (username === adminUser.username && password === adminUser.password) {
-    return {
-      ...initialAuthState,
-      isAdmin: true,
-      currentAdmin: adminUser
-    };
-  }
-  return initialAuthState;
+// Create auth state for an instructor signed in through Supabase Auth
+export const createAdminAuthState = (admin: Admin): AuthState => {
+  return {
+    ...initialAuthState,
+    isAdmin: true,
+    currentAdmin: admin
+  };
 };
 
 // Student authentication using email and student number across all classes
+// Deprecated: this trusts the client-side class list. StudentLogin signs students in with
+// an emailed one-time code instead (see studentAuthService).
 export const authenticateStudent = (
   email: string,
   studentNumber: string,
@@ -1,45 +1,72 @@
-import { BidOpportunity } from "@/types";
+import { BidOpportunity, OpportunityStatus } from "@/types";
 
-// Function to check if a bid opportunity is currently open
-export const isBidOpportunityOpen = (opportunity: BidOpportunity): boolean => {
-  const now = new Date();
+const statusLabels: Record<OpportunityStatus, string> = {
+  upcoming: "Coming Soon",
+  open: "Open for Bidding",
+  closed: "Bidding Closed",
+  drawn: "Winners Drawn",
+  completed: "Completed"
+};
+
+// When bidding opens; defaults to one week before the event
+export const getBiddingOpensAt = (opportunity: BidOpportunity): Date => {
   const eventDate = new Date(opportunity.date);
-  
-  // Use bidOpenDate if available, otherwise calculate 1 week before event
-  const biddingOpensDate = opportunity.bidOpenDate 
+  return opportunity.bidOpenDate
     ? new Date(opportunity.bidOpenDate)
     : new Date(eventDate.getTime() - 7 * 24 * 60 * 60 * 1000);
-  
-  // Bidding is open if current date is after bidding opening date and before event date
-  return now >= biddingOpensDate && now < eventDate;
 };
 
+// Start of the event day in UTC. Event dates are stored as the UTC calendar day, so this
+// is the boundary the database checks against whatever the browser's timezone.
+const getEventDayStart = (eventDate: Date): number =>
+  Date.UTC(eventDate.getUTCFullYear(), eventDate.getUTCMonth(), eventDate.getUTCDate());
+
+// When bidding closes; defaults to the last moment before the event day, the latest close
+// the database accepts
+export const getBiddingClosesAt = (opportunity: BidOpportunity): Date =>
+  opportunity.closesAt
+    ? new Date(opportunity.closesAt)
+    : new Date(getEventDayStart(new Date(opportunity.date)) - 1);
+
+// Bidding has to close after it opens and before the day of the event (from 00:00 UTC), so
+// nobody can bid once the dinner has started. Mirrors check_bidding_window() in the database.
+export const isValidBiddingWindow = (opensAt: Date, closesAt: Date, eventDate: Date): boolean =>
+  opensAt < closesAt && closesAt.getTime() < getEventDayStart(eventDate);
+
+// Lifecycle of an opportunity. Mirrors compute_opportunity_status() in the database,
+// which is what submit_student_bid_secure enforces.
+export const getOpportunityLifecycle = (opportunity: BidOpportunity, now: Date = new Date()): OpportunityStatus => {
+  const eventDay = new Date(opportunity.date);
+  eventDay.setHours(23, 59, 59, 999);
+
+  if (now > eventDay) {
+    return "completed";
+  } else if (opportunity.drawnAt) {
+    return "drawn";
+  } else if (now < getBiddingOpensAt(opportunity)) {
+    return "upcoming";
+  } else if (now < getBiddingClosesAt(opportunity)) {
+    return "open";
+  } else {
+    return "closed";
+  }
+};
+
+// Function to check if a bid opportunity is currently open
+export const isBidOpportunityOpen = (opportunity: BidOpportunity): boolean =>
+  getOpportunityLifecycle(opportunity) === "open";
+
 // Format a date for display
 export const formatDate = (dateString: string): string => {
   const date = new Date(dateString);
-  return date.toLocaleDateString('en-US', { 
-    year: 'numeric', 
-    month: 'short', 
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
     day: 'numeric',
     weekday: 'short'
   });
 };
 
 // Get readable status for a bid opportunity
-export const getBidOpportunityStatus = (opportunity: BidOpportunity): string => {
-  const now = new Date();
-  const eventDate = new Date(opportunity.date);
-  
-  // Use bidOpenDate if available, otherwise calculate 1 week before event
-  const biddingOpensDate = opportunity.bidOpenDate 
-    ? new Date(opportunity.bidOpenDate)
-    : new Date(eventDate.getTime() - 7 * 24 * 60 * 60 * 1000);
-  
-  if (now > eventDate) {
-    return "Completed";
-  } else if (now >= biddingOpensDate && now < eventDate) {
-    return "Open for Bidding";
-  } else {
-    return "Coming Soon";
-  }
-};
\ No newline at end of file
+export const getBidOpportunityStatus = (opportunity: BidOpportunity): string =>
+  statusLabels[getOpportunityLifecycle(opportunity)];
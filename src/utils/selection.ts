@@ -1,5 +1,5 @@
 
-import { Student, ClassConfig } from "@/types";
+import { Student, ClassConfig, AllocationMode } from "@/types";
 
 // Shuffle an array using Fisher-Yates algorithm
 export const shuffleArray = <T>(array: T[]): T[] => {
@@ -77,3 +77,167 @@ export const performSelection = async (
   onStep(finalSelection, true);
   return finalSelection.filter(student => student.isSelected);
 };
+
+// Derive a 32-bit PRNG state from a seed string (FNV-1a)
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic mulberry32 generator returning unsigned 32-bit integers.
+// Mirrored in SQL by draw_seed_state() and draw_mix32() for run_opportunity_draw.
+export const createSeededRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+};
+
+// Pick an index in [0, size) from a 32-bit random value using integer math only
+export const pickIndex = (random: number, size: number): number => {
+  return Math.floor((random * size) / 4294967296);
+};
+
+// Order entrants canonically by id so the draw does not depend on fetch order
+// (matches ORDER BY on uuid columns in compute_draw_order)
+const sortById = <T extends { id: string }>(entrants: T[]): T[] => {
+  return [...entrants].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+};
+
+// Produce the full draw order for a committed seed. Anyone holding the
+// revealed seed and the list of bidders can re-run this and get the same result.
+// Each step picks an entrant with probability proportional to its weight, so a
+// student committing three tokens is three times as likely to be drawn next.
+export const getDrawOrder = <T extends { id: string }>(
+  entrants: T[],
+  seed: string,
+  getWeight: (entrant: T) => number = () => 1
+): T[] => {
+  const remaining = sortById(entrants);
+  const weights = remaining.map(entrant => Math.max(1, Math.floor(getWeight(entrant) || 1)));
+  let totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const next = createSeededRandom(seed);
+  const order: T[] = [];
+
+  while (remaining.length > 0) {
+    // Walk the cumulative weights to find the picked entrant
+    let target = pickIndex(next(), totalWeight);
+    let index = 0;
+    while (target >= weights[index]) {
+      target -= weights[index];
+      index++;
+    }
+
+    order.push(remaining.splice(index, 1)[0]);
+    totalWeight -= weights.splice(index, 1)[0];
+  }
+
+  return order;
+};
+
+// Select winners for an opportunity using its revealed draw seed
+export const drawWinners = <T extends { id: string }>(
+  bidders: T[],
+  capacity: number,
+  seed: string,
+  getWeight?: (bidder: T) => number
+): T[] => {
+  return getDrawOrder(bidders, seed, getWeight).slice(0, Math.max(0, capacity));
+};
+
+// Rank sealed bids highest first. Ties are broken by the unweighted seeded
+// lottery, so equal bids at the cutoff are settled as fairly as a draw.
+export const rankSealedBids = <T extends { id: string }>(
+  bids: T[],
+  seed: string,
+  getAmount: (bid: T) => number
+): T[] => {
+  const lotteryPosition = new Map(getDrawOrder(bids, seed).map((bid, index) => [bid.id, index]));
+  return [...bids].sort((a, b) =>
+    getAmount(b) - getAmount(a) || lotteryPosition.get(a.id) - lotteryPosition.get(b.id)
+  );
+};
+
+// Order in which entrants receive places under an opportunity's allocation mode
+export const getAllocationOrder = <T extends { id: string }>(
+  entrants: T[],
+  seed: string,
+  mode: AllocationMode = "lottery",
+  getAmount: (entrant: T) => number = () => 1
+): T[] => {
+  if (mode === "uniform_price") {
+    return rankSealedBids(entrants, seed, getAmount);
+  }
+  return getDrawOrder(entrants, seed, getAmount);
+};
+
+// Uniform-price auction: every winner pays the highest losing bid (0 if all bidders win)
+export const getClearingPrice = <T>(
+  rankedBids: T[],
+  capacity: number,
+  getAmount: (bid: T) => number
+): number => {
+  return rankedBids.length > capacity ? getAmount(rankedBids[Math.max(0, capacity)]) : 0;
+};
+
+// Seed for a class-wide allocation: the revealed opportunity seeds joined in id order
+export const getClassAllocationSeed = (opportunities: { id: string; drawSeed?: string }[]): string => {
+  return sortById(opportunities).map(opportunity => opportunity.drawSeed || "").join("");
+};
+
+// Random serial dictatorship: students are ordered by the seeded lottery and each
+// takes their highest-ranked opportunity that still has a seat. Mirrors run_class_allocation().
+export const allocateBySerialDictatorship = (
+  preferences: Record<string, string[]>,
+  capacities: Record<string, number>,
+  seed: string
+): { order: string[]; assignments: Record<string, string | null> } => {
+  const seats = { ...capacities };
+  const order = getDrawOrder(
+    Object.keys(preferences)
+      .filter(studentId => preferences[studentId].some(opportunityId => opportunityId in seats))
+      .map(id => ({ id })),
+    seed
+  ).map(student => student.id);
+  const assignments: Record<string, string | null> = {};
+
+  for (const studentId of order) {
+    const choice = preferences[studentId].find(opportunityId => (seats[opportunityId] || 0) > 0);
+    assignments[studentId] = choice || null;
+    if (choice) seats[choice]--;
+  }
+
+  return { order, assignments };
+};
+
+// Human-readable name for an allocation mode
+export const getAllocationModeLabel = (mode?: AllocationMode): string => {
+  return mode === "uniform_price" ? "Sealed-bid auction (uniform price)" : "Lottery";
+};
+
+// Generate a fresh 128-bit seed as a hex string
+export const generateDrawSeed = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// SHA-256 commitment published before bidding closes
+export const hashDrawSeed = async (seed: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(seed));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Check a revealed seed against the commitment published before bidding closed
+export const verifyDrawSeed = async (seed: string, commitment: string): Promise<boolean> => {
+  if (!seed || !commitment) return false;
+  return (await hashDrawSeed(seed)) === commitment.toLowerCase();
+};
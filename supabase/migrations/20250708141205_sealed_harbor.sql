@@ -0,0 +1,152 @@
+/*
+  # Committed Draw Seeds
+
+  1. Changes
+    - Add `draw_seed_hash` and `draw_seed_revealed_at` to `opportunities`
+    - New table `opportunity_draw_secrets` holding each opportunity's unrevealed seed
+
+  2. Functions
+    - `commit_opportunity_draw_seed()`: trigger that generates a seed for every new
+      opportunity and publishes its SHA-256 hash in `draw_seed_hash`
+    - `reveal_draw_seed(p_opportunity_id)`: copies the seed into `opportunities.draw_seed`
+      once bidding has closed so anyone can re-run the draw
+
+  3. Security
+    - RLS enabled on `opportunity_draw_secrets` with no policies, so the seed can only be
+      read through the SECURITY DEFINER reveal function
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Add commitment columns to opportunities
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS draw_seed_hash text;
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS draw_seed_revealed_at timestamptz;
+
+-- Private storage for seeds until they are revealed
+CREATE TABLE IF NOT EXISTS opportunity_draw_secrets (
+  opportunity_id uuid PRIMARY KEY
+    REFERENCES opportunities(id) ON DELETE CASCADE
+    DEFERRABLE INITIALLY DEFERRED,
+  seed text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE opportunity_draw_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Generate and commit a seed whenever an opportunity is created
+CREATE OR REPLACE FUNCTION commit_opportunity_draw_seed()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_seed text;
+BEGIN
+  v_seed := encode(gen_random_bytes(16), 'hex');
+
+  INSERT INTO opportunity_draw_secrets (opportunity_id, seed)
+  VALUES (NEW.id, v_seed);
+
+  NEW.draw_seed := NULL;
+  NEW.draw_seed_hash := encode(digest(v_seed, 'sha256'), 'hex');
+  NEW.draw_seed_revealed_at := NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS commit_opportunity_draw_seed_trigger ON opportunities;
+
+CREATE TRIGGER commit_opportunity_draw_seed_trigger
+  BEFORE INSERT ON opportunities
+  FOR EACH ROW
+  EXECUTE FUNCTION commit_opportunity_draw_seed();
+
+-- Commit seeds for existing opportunities that have not been drawn yet
+DO $$
+DECLARE
+  v_opportunity record;
+  v_seed text;
+BEGIN
+  FOR v_opportunity IN
+    SELECT id FROM opportunities
+    WHERE draw_seed IS NULL AND draw_seed_hash IS NULL
+  LOOP
+    v_seed := encode(gen_random_bytes(16), 'hex');
+
+    INSERT INTO opportunity_draw_secrets (opportunity_id, seed)
+    VALUES (v_opportunity.id, v_seed)
+    ON CONFLICT (opportunity_id) DO NOTHING;
+
+    UPDATE opportunities
+    SET draw_seed_hash = encode(digest(v_seed, 'sha256'), 'hex')
+    WHERE id = v_opportunity.id;
+  END LOOP;
+END $$;
+
+-- Reveal the committed seed after bidding has closed
+CREATE OR REPLACE FUNCTION reveal_draw_seed(p_opportunity_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_opportunity opportunities%ROWTYPE;
+  v_seed text;
+  v_revealed_at timestamptz := NOW();
+BEGIN
+  SELECT * INTO v_opportunity
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  -- Already revealed: return the published values unchanged
+  IF v_opportunity.draw_seed IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'draw_seed', v_opportunity.draw_seed,
+      'draw_seed_hash', v_opportunity.draw_seed_hash,
+      'revealed_at', v_opportunity.draw_seed_revealed_at
+    );
+  END IF;
+
+  IF v_revealed_at < v_opportunity.closes_at THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Bidding has not closed yet. The draw seed stays sealed until ' || v_opportunity.closes_at
+    );
+  END IF;
+
+  SELECT seed INTO v_seed
+  FROM opportunity_draw_secrets
+  WHERE opportunity_id = p_opportunity_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'No draw seed was committed for this opportunity'
+    );
+  END IF;
+
+  UPDATE opportunities
+  SET
+    draw_seed = v_seed,
+    draw_seed_revealed_at = v_revealed_at
+  WHERE id = p_opportunity_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'draw_seed', v_seed,
+    'draw_seed_hash', v_opportunity.draw_seed_hash,
+    'revealed_at', v_revealed_at
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
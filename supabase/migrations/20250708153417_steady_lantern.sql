@@ -0,0 +1,210 @@
+/*
+  # Server-side Opportunity Draw
+
+  1. Changes
+    - Add `drawn_at` to `opportunities`
+    - `update_opportunity_status()` keeps drawn opportunities at 'completed'
+
+  2. Functions
+    - `draw_imul32`, `draw_mix32`, `draw_seed_state`: integer helpers mirroring the
+      seeded generator in `src/utils/selection.ts`
+    - `compute_draw_order(p_seed, p_entrants)`: full draw order for a revealed seed
+    - `run_opportunity_draw(p_opportunity_id)`: locks the opportunity, reveals the seed,
+      marks winning and losing bids and completes the opportunity in one transaction
+
+  3. Concurrency
+    - The opportunity row is locked FOR UPDATE, so a second admin waits for the first
+      draw to commit and then receives the same, already persisted result
+*/
+
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS drawn_at timestamptz;
+
+-- Keep drawn opportunities completed regardless of their dates
+CREATE OR REPLACE FUNCTION update_opportunity_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.drawn_at IS NOT NULL THEN
+    NEW.status = 'completed';
+  ELSIF NEW.opens_at > NOW() THEN
+    NEW.status = 'upcoming';
+  ELSIF NEW.opens_at <= NOW() AND NEW.closes_at > NOW() THEN
+    NEW.status = 'open';
+  ELSIF NEW.closes_at <= NOW() AND NEW.event_date >= CURRENT_DATE THEN
+    NEW.status = 'closed';
+  ELSE
+    NEW.status = 'completed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 32-bit multiply keeping the low 32 bits (Math.imul on unsigned values)
+CREATE OR REPLACE FUNCTION draw_imul32(a bigint, b bigint)
+RETURNS bigint AS $$
+  SELECT ((a * (b & 65535)) + (((a * (b >> 16)) & 65535) << 16)) & 4294967295;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- mulberry32 output mixing step
+CREATE OR REPLACE FUNCTION draw_mix32(p_state bigint)
+RETURNS bigint AS $$
+DECLARE
+  t bigint := p_state;
+BEGIN
+  t := draw_imul32(t # (t >> 15), t | 1);
+  t := t # ((t + draw_imul32(t # (t >> 7), t | 61)) & 4294967295);
+  RETURN t # (t >> 14);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- FNV-1a hash of the seed string, used as the initial generator state
+CREATE OR REPLACE FUNCTION draw_seed_state(p_seed text)
+RETURNS bigint AS $$
+DECLARE
+  v_hash bigint := 2166136261;
+  i integer;
+BEGIN
+  FOR i IN 1..length(p_seed) LOOP
+    v_hash := draw_imul32(v_hash # ascii(substr(p_seed, i, 1))::bigint, 16777619);
+  END LOOP;
+
+  RETURN v_hash;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Full draw order for a seed; entrants are sorted first so input order does not matter
+CREATE OR REPLACE FUNCTION compute_draw_order(p_seed text, p_entrants uuid[])
+RETURNS uuid[] AS $$
+DECLARE
+  v_remaining uuid[];
+  v_order uuid[] := ARRAY[]::uuid[];
+  v_state bigint;
+  v_size integer;
+  v_index integer;
+BEGIN
+  SELECT COALESCE(array_agg(entrant ORDER BY entrant), ARRAY[]::uuid[])
+  INTO v_remaining
+  FROM unnest(p_entrants) AS entrant;
+
+  v_state := draw_seed_state(p_seed);
+  v_size := COALESCE(array_length(v_remaining, 1), 0);
+
+  WHILE v_size > 0 LOOP
+    v_state := (v_state + 1831565813) & 4294967295;
+    v_index := ((draw_mix32(v_state) * v_size) >> 32)::integer + 1;
+
+    v_order := v_order || v_remaining[v_index];
+    v_remaining := v_remaining[1:v_index - 1] || v_remaining[v_index + 1:v_size];
+    v_size := v_size - 1;
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Draw winners for an opportunity and persist the result atomically
+CREATE OR REPLACE FUNCTION run_opportunity_draw(p_opportunity_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_opportunity opportunities%ROWTYPE;
+  v_class_capacity integer;
+  v_capacity integer;
+  v_reveal jsonb;
+  v_entrants uuid[];
+  v_draw_order uuid[];
+  v_winner_ids uuid[];
+  v_already_drawn boolean := false;
+  v_winners jsonb;
+BEGIN
+  -- Serialise concurrent draws on the opportunity row
+  SELECT * INTO v_opportunity
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  SELECT capacity_default INTO v_class_capacity
+  FROM classes
+  WHERE id = v_opportunity.class_id;
+
+  v_capacity := COALESCE(v_opportunity.capacity, v_class_capacity, 0);
+
+  SELECT COALESCE(array_agg(student_id), ARRAY[]::uuid[]) INTO v_entrants
+  FROM bids
+  WHERE opportunity_id = p_opportunity_id;
+
+  IF v_opportunity.drawn_at IS NOT NULL THEN
+    -- Already drawn: return the persisted winners unchanged
+    v_already_drawn := true;
+
+    SELECT COALESCE(array_agg(student_id), ARRAY[]::uuid[]) INTO v_winner_ids
+    FROM bids
+    WHERE opportunity_id = p_opportunity_id AND is_winner = true;
+  ELSE
+    IF array_length(v_entrants, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'No bids have been placed for this opportunity'
+      );
+    END IF;
+
+    v_reveal := reveal_draw_seed(p_opportunity_id);
+
+    IF NOT (v_reveal->>'success')::boolean THEN
+      RETURN v_reveal;
+    END IF;
+
+    v_opportunity.draw_seed := v_reveal->>'draw_seed';
+    v_draw_order := compute_draw_order(v_opportunity.draw_seed, v_entrants);
+    v_winner_ids := v_draw_order[1:v_capacity];
+
+    UPDATE bids
+    SET
+      is_winner = (student_id = ANY(v_winner_ids)),
+      bid_status = CASE WHEN student_id = ANY(v_winner_ids) THEN 'selected' ELSE 'rejected' END
+    WHERE opportunity_id = p_opportunity_id;
+
+    UPDATE opportunities
+    SET drawn_at = NOW()
+    WHERE id = p_opportunity_id;
+  END IF;
+
+  IF v_draw_order IS NULL THEN
+    v_draw_order := compute_draw_order(v_opportunity.draw_seed, v_entrants);
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'name', s.name,
+    'email', s.email,
+    'student_number', s.student_number
+  ) ORDER BY array_position(v_draw_order, s.id)), '[]'::jsonb)
+  INTO v_winners
+  FROM students s
+  WHERE s.id = ANY(v_winner_ids);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'opportunity_id', p_opportunity_id,
+    'already_drawn', v_already_drawn,
+    'capacity', v_capacity,
+    'draw_seed', v_opportunity.draw_seed,
+    'draw_seed_hash', v_opportunity.draw_seed_hash,
+    'draw_order', to_jsonb(v_draw_order),
+    'winners', v_winners
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
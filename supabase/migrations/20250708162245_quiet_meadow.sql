@@ -0,0 +1,313 @@
+/*
+  # Weighted Multi-token Bidding
+
+  1. Changes
+    - `submit_student_bid_secure` accepts `p_bid_amount` so a student can commit several
+      tokens to one opportunity; the amount is stored in `bids.bid_amount`
+    - Each bid is logged in `token_history` with the number of tokens spent
+
+  2. Functions
+    - `compute_draw_order(p_seed, p_entrants, p_weights)`: weighted draw where each
+      committed token adds one unit of weight (all weights 1 gives the unweighted order)
+    - `run_opportunity_draw(p_opportunity_id)`: draws with `bid_amount` as weight and
+      returns the weights so the result can be re-run in the browser
+*/
+
+-- Replace the single-token bid submission
+DROP FUNCTION IF EXISTS submit_student_bid_secure(uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION submit_student_bid_secure(
+  p_student_id uuid,
+  p_opportunity_id uuid,
+  p_class_password text,
+  p_bid_amount integer DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class_id uuid;
+  v_student_record students%ROWTYPE;
+  v_opportunity_record opportunities%ROWTYPE;
+  v_bid_id uuid;
+BEGIN
+  IF p_bid_amount IS NULL OR p_bid_amount < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Bid amount must be at least 1 token'
+    );
+  END IF;
+
+  -- Get opportunity and validate it exists
+  SELECT * INTO v_opportunity_record
+  FROM opportunities
+  WHERE id = p_opportunity_id;
+  
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+  
+  v_class_id := v_opportunity_record.class_id;
+  
+  -- Validate class password
+  IF NOT EXISTS (
+    SELECT 1 FROM classes 
+    WHERE id = v_class_id AND password_hash = p_class_password
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+  
+  -- Lock the student row so concurrent bids cannot overspend tokens
+  SELECT * INTO v_student_record
+  FROM students
+  WHERE id = p_student_id AND class_id = v_class_id
+  FOR UPDATE;
+  
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student not found in this class'
+    );
+  END IF;
+  
+  -- Check the student has enough tokens for the bid
+  IF v_student_record.tokens_remaining <= 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'No tokens remaining'
+    );
+  END IF;
+
+  IF v_student_record.tokens_remaining < p_bid_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Not enough tokens: ' || v_student_record.tokens_remaining || ' remaining'
+    );
+  END IF;
+  
+  -- Check if student has already bid on this opportunity
+  IF EXISTS (
+    SELECT 1 FROM bids 
+    WHERE student_id = p_student_id AND opportunity_id = p_opportunity_id
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student has already bid on this opportunity'
+    );
+  END IF;
+  
+  -- Insert the bid
+  INSERT INTO bids (student_id, opportunity_id, bid_amount, bid_status)
+  VALUES (p_student_id, p_opportunity_id, p_bid_amount, 'placed')
+  RETURNING id INTO v_bid_id;
+  
+  -- Update student token status
+  UPDATE students
+  SET 
+    tokens_remaining = tokens_remaining - p_bid_amount,
+    token_status = 'used'
+  WHERE id = p_student_id;
+
+  -- Log the bid in token history
+  INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+  VALUES (
+    p_student_id,
+    p_opportunity_id,
+    -p_bid_amount,
+    'bid',
+    p_bid_amount || ' token(s) committed to bid'
+  );
+  
+  -- Return success
+  RETURN jsonb_build_object(
+    'success', true,
+    'bid_id', v_bid_id,
+    'bid_amount', p_bid_amount,
+    'timestamp', now(),
+    'tokens_remaining', v_student_record.tokens_remaining - p_bid_amount
+  );
+  
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+-- Replace the unweighted draw order with a weighted one
+DROP FUNCTION IF EXISTS compute_draw_order(text, uuid[]);
+
+-- Weighted draw order: each step picks an entrant with probability proportional to
+-- its weight. Mirrors getDrawOrder() in src/utils/selection.ts.
+CREATE OR REPLACE FUNCTION compute_draw_order(
+  p_seed text,
+  p_entrants uuid[],
+  p_weights integer[] DEFAULT NULL
+)
+RETURNS uuid[] AS $$
+DECLARE
+  v_remaining uuid[];
+  v_weights integer[];
+  v_order uuid[] := ARRAY[]::uuid[];
+  v_state bigint;
+  v_size integer;
+  v_total bigint;
+  v_target bigint;
+  v_index integer;
+BEGIN
+  SELECT
+    COALESCE(array_agg(e.entrant ORDER BY e.entrant), ARRAY[]::uuid[]),
+    COALESCE(array_agg(GREATEST(COALESCE(e.weight, 1), 1) ORDER BY e.entrant), ARRAY[]::integer[])
+  INTO v_remaining, v_weights
+  FROM unnest(p_entrants, p_weights) AS e(entrant, weight)
+  WHERE e.entrant IS NOT NULL;
+
+  v_state := draw_seed_state(p_seed);
+  v_size := COALESCE(array_length(v_remaining, 1), 0);
+  SELECT COALESCE(SUM(w), 0) INTO v_total FROM unnest(v_weights) AS w;
+
+  WHILE v_size > 0 LOOP
+    v_state := (v_state + 1831565813) & 4294967295;
+    v_target := (draw_mix32(v_state) * v_total) >> 32;
+
+    -- Walk the cumulative weights to find the picked entrant
+    v_index := 1;
+    WHILE v_target >= v_weights[v_index] LOOP
+      v_target := v_target - v_weights[v_index];
+      v_index := v_index + 1;
+    END LOOP;
+
+    v_order := v_order || v_remaining[v_index];
+    v_total := v_total - v_weights[v_index];
+    v_remaining := v_remaining[1:v_index - 1] || v_remaining[v_index + 1:v_size];
+    v_weights := v_weights[1:v_index - 1] || v_weights[v_index + 1:v_size];
+    v_size := v_size - 1;
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Draw winners for an opportunity and persist the result atomically
+CREATE OR REPLACE FUNCTION run_opportunity_draw(p_opportunity_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_opportunity opportunities%ROWTYPE;
+  v_class_capacity integer;
+  v_capacity integer;
+  v_reveal jsonb;
+  v_entrants uuid[];
+  v_weights integer[];
+  v_draw_order uuid[];
+  v_winner_ids uuid[];
+  v_already_drawn boolean := false;
+  v_winners jsonb;
+BEGIN
+  -- Serialise concurrent draws on the opportunity row
+  SELECT * INTO v_opportunity
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  SELECT capacity_default INTO v_class_capacity
+  FROM classes
+  WHERE id = v_opportunity.class_id;
+
+  v_capacity := COALESCE(v_opportunity.capacity, v_class_capacity, 0);
+
+  SELECT
+    COALESCE(array_agg(student_id ORDER BY student_id), ARRAY[]::uuid[]),
+    COALESCE(array_agg(bid_amount ORDER BY student_id), ARRAY[]::integer[])
+  INTO v_entrants, v_weights
+  FROM bids
+  WHERE opportunity_id = p_opportunity_id;
+
+  IF v_opportunity.drawn_at IS NOT NULL THEN
+    -- Already drawn: return the persisted winners unchanged
+    v_already_drawn := true;
+
+    SELECT COALESCE(array_agg(student_id), ARRAY[]::uuid[]) INTO v_winner_ids
+    FROM bids
+    WHERE opportunity_id = p_opportunity_id AND is_winner = true;
+  ELSE
+    IF array_length(v_entrants, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'No bids have been placed for this opportunity'
+      );
+    END IF;
+
+    v_reveal := reveal_draw_seed(p_opportunity_id);
+
+    IF NOT (v_reveal->>'success')::boolean THEN
+      RETURN v_reveal;
+    END IF;
+
+    v_opportunity.draw_seed := v_reveal->>'draw_seed';
+    v_draw_order := compute_draw_order(v_opportunity.draw_seed, v_entrants, v_weights);
+    v_winner_ids := v_draw_order[1:v_capacity];
+
+    UPDATE bids
+    SET
+      is_winner = (student_id = ANY(v_winner_ids)),
+      bid_status = CASE WHEN student_id = ANY(v_winner_ids) THEN 'selected' ELSE 'rejected' END
+    WHERE opportunity_id = p_opportunity_id;
+
+    UPDATE opportunities
+    SET drawn_at = NOW()
+    WHERE id = p_opportunity_id;
+  END IF;
+
+  IF v_draw_order IS NULL THEN
+    v_draw_order := compute_draw_order(v_opportunity.draw_seed, v_entrants, v_weights);
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'name', s.name,
+    'email', s.email,
+    'student_number', s.student_number
+  ) ORDER BY array_position(v_draw_order, s.id)), '[]'::jsonb)
+  INTO v_winners
+  FROM students s
+  WHERE s.id = ANY(v_winner_ids);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'opportunity_id', p_opportunity_id,
+    'already_drawn', v_already_drawn,
+    'capacity', v_capacity,
+    'draw_seed', v_opportunity.draw_seed,
+    'draw_seed_hash', v_opportunity.draw_seed_hash,
+    'draw_order', to_jsonb(v_draw_order),
+    'draw_weights', (
+      SELECT COALESCE(jsonb_agg(v_weights[array_position(v_entrants, entrant)] ORDER BY position), '[]'::jsonb)
+      FROM unnest(v_draw_order) WITH ORDINALITY AS d(entrant, position)
+    ),
+    'winners', v_winners
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,225 @@
+/*
+  # Uniform-price Auction Allocation
+
+  1. Changes
+    - Add `allocation_mode` to `opportunities` ('lottery' or 'uniform_price')
+    - Add `clearing_price` to `opportunities`, set when an auction is allocated
+
+  2. Functions
+    - `compute_allocation_order(p_mode, p_seed, p_entrants, p_amounts)`: weighted lottery
+      order, or bids ranked highest first with ties broken by the seeded lottery
+    - `run_opportunity_draw(p_opportunity_id)`: in 'uniform_price' mode the top N bids win,
+      every winner pays the (N+1)th highest bid, and the rest of each bid is refunded
+      through `token_history` rows of type 'refund'
+*/
+
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS allocation_mode text NOT NULL DEFAULT 'lottery';
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS clearing_price integer;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'opportunities_allocation_mode_check'
+  ) THEN
+    ALTER TABLE opportunities
+      ADD CONSTRAINT opportunities_allocation_mode_check
+      CHECK (allocation_mode IN ('lottery', 'uniform_price'));
+  END IF;
+END $$;
+
+-- Order in which entrants are allocated places. Mirrors getAllocationOrder() in
+-- src/utils/selection.ts.
+CREATE OR REPLACE FUNCTION compute_allocation_order(
+  p_mode text,
+  p_seed text,
+  p_entrants uuid[],
+  p_amounts integer[]
+)
+RETURNS uuid[] AS $$
+DECLARE
+  v_lottery uuid[];
+  v_order uuid[];
+BEGIN
+  IF p_mode = 'uniform_price' THEN
+    -- Unweighted lottery used only to break ties between equal bids
+    v_lottery := compute_draw_order(p_seed, p_entrants);
+
+    SELECT COALESCE(array_agg(e.entrant ORDER BY e.amount DESC, array_position(v_lottery, e.entrant)), ARRAY[]::uuid[])
+    INTO v_order
+    FROM unnest(p_entrants, p_amounts) AS e(entrant, amount)
+    WHERE e.entrant IS NOT NULL;
+
+    RETURN v_order;
+  END IF;
+
+  RETURN compute_draw_order(p_seed, p_entrants, p_amounts);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Allocate an opportunity by its allocation mode and persist the result atomically
+CREATE OR REPLACE FUNCTION run_opportunity_draw(p_opportunity_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_opportunity opportunities%ROWTYPE;
+  v_class_capacity integer;
+  v_capacity integer;
+  v_reveal jsonb;
+  v_entrants uuid[];
+  v_weights integer[];
+  v_draw_order uuid[];
+  v_winner_ids uuid[];
+  v_clearing_price integer;
+  v_bid record;
+  v_refund integer;
+  v_already_drawn boolean := false;
+  v_winners jsonb;
+BEGIN
+  -- Serialise concurrent draws on the opportunity row
+  SELECT * INTO v_opportunity
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  SELECT capacity_default INTO v_class_capacity
+  FROM classes
+  WHERE id = v_opportunity.class_id;
+
+  v_capacity := COALESCE(v_opportunity.capacity, v_class_capacity, 0);
+
+  SELECT
+    COALESCE(array_agg(student_id ORDER BY student_id), ARRAY[]::uuid[]),
+    COALESCE(array_agg(bid_amount ORDER BY student_id), ARRAY[]::integer[])
+  INTO v_entrants, v_weights
+  FROM bids
+  WHERE opportunity_id = p_opportunity_id;
+
+  IF v_opportunity.drawn_at IS NOT NULL THEN
+    -- Already drawn: return the persisted winners unchanged
+    v_already_drawn := true;
+
+    SELECT COALESCE(array_agg(student_id), ARRAY[]::uuid[]) INTO v_winner_ids
+    FROM bids
+    WHERE opportunity_id = p_opportunity_id AND is_winner = true;
+  ELSE
+    IF array_length(v_entrants, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'No bids have been placed for this opportunity'
+      );
+    END IF;
+
+    v_reveal := reveal_draw_seed(p_opportunity_id);
+
+    IF NOT (v_reveal->>'success')::boolean THEN
+      RETURN v_reveal;
+    END IF;
+
+    v_opportunity.draw_seed := v_reveal->>'draw_seed';
+    v_draw_order := compute_allocation_order(
+      v_opportunity.allocation_mode, v_opportunity.draw_seed, v_entrants, v_weights
+    );
+    v_winner_ids := v_draw_order[1:v_capacity];
+
+    IF v_opportunity.allocation_mode = 'uniform_price' THEN
+      -- Winners pay the highest losing bid, or nothing if every bidder wins
+      IF array_length(v_draw_order, 1) > v_capacity THEN
+        v_clearing_price := v_weights[array_position(v_entrants, v_draw_order[v_capacity + 1])];
+      ELSE
+        v_clearing_price := 0;
+      END IF;
+
+      -- Refund everything above the clearing price to winners and the full bid to losers
+      FOR v_bid IN
+        SELECT student_id, bid_amount
+        FROM bids
+        WHERE opportunity_id = p_opportunity_id
+      LOOP
+        IF v_bid.student_id = ANY(v_winner_ids) THEN
+          v_refund := v_bid.bid_amount - v_clearing_price;
+        ELSE
+          v_refund := v_bid.bid_amount;
+        END IF;
+
+        IF v_refund > 0 THEN
+          UPDATE students
+          SET tokens_remaining = tokens_remaining + v_refund
+          WHERE id = v_bid.student_id;
+
+          INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+          VALUES (
+            v_bid.student_id,
+            p_opportunity_id,
+            v_refund,
+            'refund',
+            CASE WHEN v_bid.student_id = ANY(v_winner_ids)
+              THEN 'Auction refund above clearing price of ' || v_clearing_price || ' token(s)'
+              ELSE 'Auction refund for losing bid'
+            END
+          );
+        END IF;
+      END LOOP;
+
+      v_opportunity.clearing_price := v_clearing_price;
+    END IF;
+
+    UPDATE bids
+    SET
+      is_winner = (student_id = ANY(v_winner_ids)),
+      bid_status = CASE WHEN student_id = ANY(v_winner_ids) THEN 'selected' ELSE 'rejected' END
+    WHERE opportunity_id = p_opportunity_id;
+
+    UPDATE opportunities
+    SET
+      drawn_at = NOW(),
+      clearing_price = v_clearing_price
+    WHERE id = p_opportunity_id;
+  END IF;
+
+  IF v_draw_order IS NULL THEN
+    v_draw_order := compute_allocation_order(
+      v_opportunity.allocation_mode, v_opportunity.draw_seed, v_entrants, v_weights
+    );
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'name', s.name,
+    'email', s.email,
+    'student_number', s.student_number
+  ) ORDER BY array_position(v_draw_order, s.id)), '[]'::jsonb)
+  INTO v_winners
+  FROM students s
+  WHERE s.id = ANY(v_winner_ids);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'opportunity_id', p_opportunity_id,
+    'already_drawn', v_already_drawn,
+    'capacity', v_capacity,
+    'allocation_mode', v_opportunity.allocation_mode,
+    'clearing_price', v_opportunity.clearing_price,
+    'draw_seed', v_opportunity.draw_seed,
+    'draw_seed_hash', v_opportunity.draw_seed_hash,
+    'draw_order', to_jsonb(v_draw_order),
+    'draw_weights', (
+      SELECT COALESCE(jsonb_agg(v_weights[array_position(v_entrants, entrant)] ORDER BY position), '[]'::jsonb)
+      FROM unnest(v_draw_order) WITH ORDINALITY AS d(entrant, position)
+    ),
+    'winners', v_winners
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
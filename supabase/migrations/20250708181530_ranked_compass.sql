@@ -0,0 +1,333 @@
+/*
+  # Ranked-preference Class Allocation
+
+  1. New Tables
+    - `student_preferences`: each student's ranked list of opportunities in a class
+
+  2. Changes
+    - Add `preferences_allocated_at` and `allocation_seed` to `classes`
+
+  3. Functions
+    - `submit_student_preferences(p_student_id, p_class_password, p_opportunity_ids)`:
+      replaces a student's ranking; the array order is the preference order
+    - `run_class_allocation(p_class_id)`: random serial dictatorship over every undrawn
+      opportunity in the class. Students are ordered by the seeded lottery and each takes
+      their highest-ranked opportunity with a seat left. Results are written to `bids`
+      with `is_winner`, and the opportunities are completed in the same transaction
+
+  4. Seed
+    - The class seed is the concatenation of the revealed opportunity seeds ordered by
+      opportunity id, so the allocation is reproducible from published commitments
+*/
+
+CREATE TABLE IF NOT EXISTS student_preferences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  opportunity_id uuid NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE,
+  rank integer NOT NULL CHECK (rank > 0),
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE(student_id, opportunity_id),
+  UNIQUE(student_id, rank)
+);
+
+ALTER TABLE student_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_student_preferences_student_id ON student_preferences(student_id);
+CREATE INDEX IF NOT EXISTS idx_student_preferences_opportunity_id ON student_preferences(opportunity_id);
+
+DROP POLICY IF EXISTS "Allow authenticated users to view preferences" ON student_preferences;
+
+CREATE POLICY "Allow authenticated users to view preferences"
+  ON student_preferences FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS preferences_allocated_at timestamptz;
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS allocation_seed text;
+
+-- Replace a student's ranked preferences for their class
+CREATE OR REPLACE FUNCTION submit_student_preferences(
+  p_student_id uuid,
+  p_class_password text,
+  p_opportunity_ids uuid[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_student_record students%ROWTYPE;
+  v_ranked_count integer;
+BEGIN
+  SELECT * INTO v_student_record
+  FROM students
+  WHERE id = p_student_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student not found'
+    );
+  END IF;
+
+  -- Validate class password
+  IF NOT EXISTS (
+    SELECT 1 FROM classes
+    WHERE id = v_student_record.class_id AND password_hash = p_class_password
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM classes
+    WHERE id = v_student_record.class_id AND preferences_allocated_at IS NOT NULL
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Places for this class have already been allocated'
+    );
+  END IF;
+
+  SELECT COUNT(DISTINCT opportunity_id)::integer INTO v_ranked_count
+  FROM unnest(p_opportunity_ids) AS opportunity_id;
+
+  IF v_ranked_count <> COALESCE(array_length(p_opportunity_ids, 1), 0) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Each opportunity can only be ranked once'
+    );
+  END IF;
+
+  -- Every ranked opportunity must belong to the class and still be undrawn
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_opportunity_ids) AS ranked(opportunity_id)
+    LEFT JOIN opportunities o ON o.id = ranked.opportunity_id
+    WHERE o.id IS NULL
+      OR o.class_id <> v_student_record.class_id
+      OR o.drawn_at IS NOT NULL
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Preferences can only include undrawn opportunities in your class'
+    );
+  END IF;
+
+  DELETE FROM student_preferences
+  WHERE student_id = p_student_id;
+
+  INSERT INTO student_preferences (student_id, opportunity_id, rank)
+  SELECT p_student_id, ranked.opportunity_id, ranked.position
+  FROM unnest(p_opportunity_ids) WITH ORDINALITY AS ranked(opportunity_id, position);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'ranked_count', v_ranked_count,
+    'timestamp', now()
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+-- Allocate every undrawn opportunity in a class in one pass by random serial dictatorship
+CREATE OR REPLACE FUNCTION run_class_allocation(p_class_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_class classes%ROWTYPE;
+  v_opportunity_ids uuid[];
+  v_reveal jsonb;
+  v_opportunity_id uuid;
+  v_seed text;
+  v_students uuid[];
+  v_order uuid[];
+  v_seats jsonb;
+  v_student uuid;
+  v_assigned uuid;
+  v_assigned_students uuid[] := ARRAY[]::uuid[];
+  v_assigned_opportunities uuid[] := ARRAY[]::uuid[];
+  v_already_allocated boolean := false;
+BEGIN
+  -- Serialise concurrent allocations on the class row
+  SELECT * INTO v_class
+  FROM classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Class not found'
+    );
+  END IF;
+
+  IF v_class.preferences_allocated_at IS NOT NULL THEN
+    -- Already allocated: return the persisted assignments unchanged
+    v_already_allocated := true;
+    v_seed := v_class.allocation_seed;
+
+    SELECT COALESCE(array_agg(DISTINCT sp.opportunity_id), ARRAY[]::uuid[]) INTO v_opportunity_ids
+    FROM student_preferences sp
+    JOIN students s ON s.id = sp.student_id
+    WHERE s.class_id = p_class_id;
+
+    SELECT
+      COALESCE(array_agg(b.student_id ORDER BY b.student_id), ARRAY[]::uuid[]),
+      COALESCE(array_agg(b.opportunity_id ORDER BY b.student_id), ARRAY[]::uuid[])
+    INTO v_assigned_students, v_assigned_opportunities
+    FROM bids b
+    WHERE b.opportunity_id = ANY(v_opportunity_ids) AND b.is_winner = true;
+  ELSE
+    SELECT COALESCE(array_agg(id ORDER BY id), ARRAY[]::uuid[]) INTO v_opportunity_ids
+    FROM opportunities
+    WHERE class_id = p_class_id AND drawn_at IS NULL;
+
+    IF array_length(v_opportunity_ids, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'There are no undrawn opportunities in this class'
+      );
+    END IF;
+
+    -- Reveal every opportunity seed; the class seed is their concatenation
+    FOREACH v_opportunity_id IN ARRAY v_opportunity_ids LOOP
+      v_reveal := reveal_draw_seed(v_opportunity_id);
+
+      IF NOT (v_reveal->>'success')::boolean THEN
+        RETURN v_reveal;
+      END IF;
+    END LOOP;
+
+    SELECT string_agg(draw_seed, '' ORDER BY id) INTO v_seed
+    FROM opportunities
+    WHERE id = ANY(v_opportunity_ids);
+
+    SELECT jsonb_object_agg(o.id::text, COALESCE(o.capacity, v_class.capacity_default, 0))
+    INTO v_seats
+    FROM opportunities o
+    WHERE o.id = ANY(v_opportunity_ids);
+
+    SELECT COALESCE(array_agg(DISTINCT sp.student_id), ARRAY[]::uuid[]) INTO v_students
+    FROM student_preferences sp
+    JOIN students s ON s.id = sp.student_id
+    WHERE s.class_id = p_class_id AND sp.opportunity_id = ANY(v_opportunity_ids);
+
+    IF array_length(v_students, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'No students have submitted preferences for this class'
+      );
+    END IF;
+
+    -- Each student in lottery order takes their best remaining choice
+    v_order := compute_draw_order(v_seed, v_students);
+
+    FOREACH v_student IN ARRAY v_order LOOP
+      SELECT sp.opportunity_id INTO v_assigned
+      FROM student_preferences sp
+      WHERE sp.student_id = v_student
+        AND COALESCE((v_seats->>sp.opportunity_id::text)::integer, 0) > 0
+      ORDER BY sp.rank
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_seats := jsonb_set(
+          v_seats,
+          ARRAY[v_assigned::text],
+          to_jsonb((v_seats->>v_assigned::text)::integer - 1)
+        );
+        v_assigned_students := v_assigned_students || v_student;
+        v_assigned_opportunities := v_assigned_opportunities || v_assigned;
+      END IF;
+    END LOOP;
+
+    -- Record every ranked choice as a bid so results live alongside token bids
+    INSERT INTO bids (student_id, opportunity_id, bid_amount, bid_status)
+    SELECT sp.student_id, sp.opportunity_id, 0, 'placed'
+    FROM student_preferences sp
+    WHERE sp.student_id = ANY(v_students) AND sp.opportunity_id = ANY(v_opportunity_ids)
+    ON CONFLICT (student_id, opportunity_id) DO NOTHING;
+
+    UPDATE bids b
+    SET
+      is_winner = EXISTS (
+        SELECT 1
+        FROM unnest(v_assigned_students, v_assigned_opportunities) AS a(student_id, opportunity_id)
+        WHERE a.student_id = b.student_id AND a.opportunity_id = b.opportunity_id
+      ),
+      bid_status = CASE WHEN EXISTS (
+        SELECT 1
+        FROM unnest(v_assigned_students, v_assigned_opportunities) AS a(student_id, opportunity_id)
+        WHERE a.student_id = b.student_id AND a.opportunity_id = b.opportunity_id
+      ) THEN 'selected' ELSE 'rejected' END
+    WHERE b.opportunity_id = ANY(v_opportunity_ids);
+
+    UPDATE opportunities
+    SET drawn_at = NOW()
+    WHERE id = ANY(v_opportunity_ids);
+
+    UPDATE classes
+    SET
+      preferences_allocated_at = NOW(),
+      allocation_seed = v_seed
+    WHERE id = p_class_id;
+  END IF;
+
+  IF v_order IS NULL THEN
+    SELECT COALESCE(array_agg(DISTINCT sp.student_id), ARRAY[]::uuid[]) INTO v_students
+    FROM student_preferences sp
+    JOIN students s ON s.id = sp.student_id
+    WHERE s.class_id = p_class_id;
+
+    v_order := compute_draw_order(v_seed, v_students);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'class_id', p_class_id,
+    'already_allocated', v_already_allocated,
+    'allocation_seed', v_seed,
+    'student_order', to_jsonb(v_order),
+    'assignments', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'student_id', s.id,
+        'name', s.name,
+        'email', s.email,
+        'student_number', s.student_number,
+        'opportunity_id', a.opportunity_id,
+        'rank', sp.rank
+      ) ORDER BY array_position(v_order, s.id)), '[]'::jsonb)
+      FROM unnest(v_assigned_students, v_assigned_opportunities) AS a(student_id, opportunity_id)
+      JOIN students s ON s.id = a.student_id
+      LEFT JOIN student_preferences sp
+        ON sp.student_id = a.student_id AND sp.opportunity_id = a.opportunity_id
+    ),
+    'unassigned', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'student_id', s.id,
+        'name', s.name,
+        'email', s.email,
+        'student_number', s.student_number
+      ) ORDER BY array_position(v_order, s.id)), '[]'::jsonb)
+      FROM students s
+      WHERE s.id = ANY(v_order) AND NOT s.id = ANY(v_assigned_students)
+    )
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,504 @@
+/*
+  # Waitlist and Promotion
+
+  1. Changes
+    - Add `waitlist_position` to `bids`: the bid's position in the full draw order
+    - `bid_status` gains 'waitlisted', 'declined' and 'removed'
+    - `run_opportunity_draw` stores every position and waitlists the losing bids
+
+  2. Functions
+    - `respond_to_selection(p_student_id, p_opportunity_id, p_class_password, p_accept)`:
+      a selected student accepts ('confirmed') or declines their place
+    - `remove_selected_student(p_opportunity_id, p_student_id)`: admin removal of a winner
+    - `promote_next_waitlisted(...)`: gives a vacated place to the next waitlisted bid,
+      logging a `token_history` entry and a `dinner_table_audit` row
+    - `get_student_selection_status(p_student_id)`: a student's result and current
+      waitlist rank for every opportunity they bid on
+
+  3. Tokens
+    - Lottery places are already paid for, so promotion costs nothing
+    - In a uniform-price auction the promoted student pays the clearing price and a
+      departing winner is refunded it; bidders who can no longer afford it are skipped
+*/
+
+ALTER TABLE bids ADD COLUMN IF NOT EXISTS waitlist_position integer;
+
+CREATE INDEX IF NOT EXISTS idx_bids_waitlist ON bids(opportunity_id, waitlist_position);
+
+ALTER TABLE bids DROP CONSTRAINT IF EXISTS bids_bid_status_check;
+ALTER TABLE bids ADD CONSTRAINT bids_bid_status_check
+  CHECK (bid_status IN ('placed', 'confirmed', 'selected', 'rejected', 'waitlisted', 'declined', 'removed'));
+
+-- Fill a vacated place from the waitlist. Callers must hold the opportunity row lock.
+CREATE OR REPLACE FUNCTION promote_next_waitlisted(
+  p_opportunity_id uuid,
+  p_departed_student_id uuid,
+  p_reason text
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_opportunity opportunities%ROWTYPE;
+  v_price integer := 0;
+  v_candidate record;
+  v_promoted record;
+  v_found boolean := false;
+BEGIN
+  SELECT * INTO v_opportunity
+  FROM opportunities
+  WHERE id = p_opportunity_id;
+
+  IF v_opportunity.allocation_mode = 'uniform_price' THEN
+    v_price := COALESCE(v_opportunity.clearing_price, 0);
+
+    -- The departing winner paid the clearing price and gets it back
+    IF v_price > 0 THEN
+      UPDATE students
+      SET tokens_remaining = tokens_remaining + v_price
+      WHERE id = p_departed_student_id;
+
+      INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+      VALUES (
+        p_departed_student_id,
+        p_opportunity_id,
+        v_price,
+        'refund',
+        'Clearing price refunded after place was ' || p_reason
+      );
+    END IF;
+  END IF;
+
+  FOR v_candidate IN
+    SELECT b.id AS bid_id, b.student_id, b.waitlist_position, s.tokens_remaining
+    FROM bids b
+    JOIN students s ON s.id = b.student_id
+    WHERE b.opportunity_id = p_opportunity_id AND b.bid_status = 'waitlisted'
+    ORDER BY b.waitlist_position
+    FOR UPDATE OF b, s
+  LOOP
+    IF v_candidate.tokens_remaining >= v_price THEN
+      v_promoted := v_candidate;
+      v_found := true;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF NOT v_found THEN
+    INSERT INTO dinner_table_audit (table_name, action, details, performed_by)
+    VALUES (
+      'bids',
+      'UPDATE',
+      jsonb_build_object(
+        'event', 'waitlist_exhausted',
+        'opportunity_id', p_opportunity_id,
+        'departed_student_id', p_departed_student_id,
+        'reason', p_reason
+      ),
+      auth.uid()
+    );
+
+    RETURN NULL;
+  END IF;
+
+  UPDATE bids
+  SET
+    is_winner = true,
+    bid_status = 'selected'
+  WHERE id = v_promoted.bid_id;
+
+  IF v_price > 0 THEN
+    UPDATE students
+    SET tokens_remaining = tokens_remaining - v_price
+    WHERE id = v_promoted.student_id;
+  END IF;
+
+  INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+  VALUES (
+    v_promoted.student_id,
+    p_opportunity_id,
+    -v_price,
+    'bid',
+    'Promoted from waitlist position ' || v_promoted.waitlist_position || ' after a place was ' || p_reason
+  );
+
+  INSERT INTO dinner_table_audit (table_name, action, details, performed_by)
+  VALUES (
+    'bids',
+    'UPDATE',
+    jsonb_build_object(
+      'event', 'waitlist_promotion',
+      'opportunity_id', p_opportunity_id,
+      'departed_student_id', p_departed_student_id,
+      'reason', p_reason,
+      'promoted_student_id', v_promoted.student_id,
+      'waitlist_position', v_promoted.waitlist_position,
+      'price', v_price
+    ),
+    auth.uid()
+  );
+
+  RETURN jsonb_build_object(
+    'student_id', v_promoted.student_id,
+    'waitlist_position', v_promoted.waitlist_position
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Promotion is only reachable through the decline and removal functions
+REVOKE EXECUTE ON FUNCTION promote_next_waitlisted(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Let a selected student accept or decline their place
+CREATE OR REPLACE FUNCTION respond_to_selection(
+  p_student_id uuid,
+  p_opportunity_id uuid,
+  p_class_password text,
+  p_accept boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_opportunity_record opportunities%ROWTYPE;
+  v_bid_record bids%ROWTYPE;
+  v_promoted jsonb;
+BEGIN
+  -- Lock the opportunity so promotions are serialised with draws and removals
+  SELECT * INTO v_opportunity_record
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  -- Validate class password
+  IF NOT EXISTS (
+    SELECT 1 FROM classes
+    WHERE id = v_opportunity_record.class_id AND password_hash = p_class_password
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  SELECT * INTO v_bid_record
+  FROM bids
+  WHERE student_id = p_student_id AND opportunity_id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_bid_record.bid_status <> 'selected' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'There is no pending place to respond to'
+    );
+  END IF;
+
+  IF p_accept THEN
+    UPDATE bids
+    SET bid_status = 'confirmed'
+    WHERE id = v_bid_record.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'bid_status', 'confirmed'
+    );
+  END IF;
+
+  UPDATE bids
+  SET
+    is_winner = false,
+    bid_status = 'declined'
+  WHERE id = v_bid_record.id;
+
+  v_promoted := promote_next_waitlisted(p_opportunity_id, p_student_id, 'declined');
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'bid_status', 'declined',
+    'promoted', v_promoted
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+-- Remove a winner on the admin's behalf and promote the next waitlisted student
+CREATE OR REPLACE FUNCTION remove_selected_student(
+  p_opportunity_id uuid,
+  p_student_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bid_record bids%ROWTYPE;
+  v_promoted jsonb;
+BEGIN
+  PERFORM 1
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  SELECT * INTO v_bid_record
+  FROM bids
+  WHERE student_id = p_student_id AND opportunity_id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_bid_record.is_winner THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student does not hold a place for this opportunity'
+    );
+  END IF;
+
+  UPDATE bids
+  SET
+    is_winner = false,
+    bid_status = 'removed'
+  WHERE id = v_bid_record.id;
+
+  v_promoted := promote_next_waitlisted(p_opportunity_id, p_student_id, 'removed');
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'promoted', v_promoted
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+-- A student's result for every opportunity they bid on
+CREATE OR REPLACE FUNCTION get_student_selection_status(p_student_id uuid)
+RETURNS TABLE(
+  opportunity_id uuid,
+  bid_amount integer,
+  bid_status varchar,
+  is_winner boolean,
+  waitlist_rank integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    b.opportunity_id,
+    b.bid_amount,
+    b.bid_status,
+    COALESCE(b.is_winner, false),
+    CASE WHEN b.bid_status = 'waitlisted' THEN (
+      SELECT COUNT(*)::integer + 1
+      FROM bids w
+      WHERE w.opportunity_id = b.opportunity_id
+        AND w.bid_status = 'waitlisted'
+        AND w.waitlist_position < b.waitlist_position
+    ) END
+  FROM bids b
+  WHERE b.student_id = p_student_id;
+$$;
+
+-- Allocate an opportunity by its allocation mode and persist the result atomically
+CREATE OR REPLACE FUNCTION run_opportunity_draw(p_opportunity_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_opportunity opportunities%ROWTYPE;
+  v_class_capacity integer;
+  v_capacity integer;
+  v_reveal jsonb;
+  v_entrants uuid[];
+  v_weights integer[];
+  v_draw_order uuid[];
+  v_winner_ids uuid[];
+  v_clearing_price integer;
+  v_bid record;
+  v_refund integer;
+  v_already_drawn boolean := false;
+  v_winners jsonb;
+  v_waitlist jsonb;
+BEGIN
+  -- Serialise concurrent draws on the opportunity row
+  SELECT * INTO v_opportunity
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  SELECT capacity_default INTO v_class_capacity
+  FROM classes
+  WHERE id = v_opportunity.class_id;
+
+  v_capacity := COALESCE(v_opportunity.capacity, v_class_capacity, 0);
+
+  SELECT
+    COALESCE(array_agg(student_id ORDER BY student_id), ARRAY[]::uuid[]),
+    COALESCE(array_agg(bid_amount ORDER BY student_id), ARRAY[]::integer[])
+  INTO v_entrants, v_weights
+  FROM bids
+  WHERE opportunity_id = p_opportunity_id;
+
+  IF v_opportunity.drawn_at IS NOT NULL THEN
+    -- Already drawn: return the persisted winners unchanged
+    v_already_drawn := true;
+
+    SELECT COALESCE(array_agg(student_id), ARRAY[]::uuid[]) INTO v_winner_ids
+    FROM bids
+    WHERE opportunity_id = p_opportunity_id AND is_winner = true;
+  ELSE
+    IF array_length(v_entrants, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'No bids have been placed for this opportunity'
+      );
+    END IF;
+
+    v_reveal := reveal_draw_seed(p_opportunity_id);
+
+    IF NOT (v_reveal->>'success')::boolean THEN
+      RETURN v_reveal;
+    END IF;
+
+    v_opportunity.draw_seed := v_reveal->>'draw_seed';
+    v_draw_order := compute_allocation_order(
+      v_opportunity.allocation_mode, v_opportunity.draw_seed, v_entrants, v_weights
+    );
+    v_winner_ids := v_draw_order[1:v_capacity];
+
+    IF v_opportunity.allocation_mode = 'uniform_price' THEN
+      -- Winners pay the highest losing bid, or nothing if every bidder wins
+      IF array_length(v_draw_order, 1) > v_capacity THEN
+        v_clearing_price := v_weights[array_position(v_entrants, v_draw_order[v_capacity + 1])];
+      ELSE
+        v_clearing_price := 0;
+      END IF;
+
+      -- Refund everything above the clearing price to winners and the full bid to losers
+      FOR v_bid IN
+        SELECT student_id, bid_amount
+        FROM bids
+        WHERE opportunity_id = p_opportunity_id
+      LOOP
+        IF v_bid.student_id = ANY(v_winner_ids) THEN
+          v_refund := v_bid.bid_amount - v_clearing_price;
+        ELSE
+          v_refund := v_bid.bid_amount;
+        END IF;
+
+        IF v_refund > 0 THEN
+          UPDATE students
+          SET tokens_remaining = tokens_remaining + v_refund
+          WHERE id = v_bid.student_id;
+
+          INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+          VALUES (
+            v_bid.student_id,
+            p_opportunity_id,
+            v_refund,
+            'refund',
+            CASE WHEN v_bid.student_id = ANY(v_winner_ids)
+              THEN 'Auction refund above clearing price of ' || v_clearing_price || ' token(s)'
+              ELSE 'Auction refund for losing bid'
+            END
+          );
+        END IF;
+      END LOOP;
+
+      v_opportunity.clearing_price := v_clearing_price;
+    END IF;
+
+    -- Store the full order so losing bids form the waitlist
+    UPDATE bids
+    SET
+      is_winner = (student_id = ANY(v_winner_ids)),
+      bid_status = CASE WHEN student_id = ANY(v_winner_ids) THEN 'selected' ELSE 'waitlisted' END,
+      waitlist_position = array_position(v_draw_order, student_id)
+    WHERE opportunity_id = p_opportunity_id;
+
+    UPDATE opportunities
+    SET
+      drawn_at = NOW(),
+      clearing_price = v_clearing_price
+    WHERE id = p_opportunity_id;
+  END IF;
+
+  IF v_draw_order IS NULL THEN
+    v_draw_order := compute_allocation_order(
+      v_opportunity.allocation_mode, v_opportunity.draw_seed, v_entrants, v_weights
+    );
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'name', s.name,
+    'email', s.email,
+    'student_number', s.student_number
+  ) ORDER BY array_position(v_draw_order, s.id)), '[]'::jsonb)
+  INTO v_winners
+  FROM students s
+  WHERE s.id = ANY(v_winner_ids);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'name', s.name,
+    'email', s.email,
+    'student_number', s.student_number,
+    'waitlist_position', b.waitlist_position
+  ) ORDER BY b.waitlist_position), '[]'::jsonb)
+  INTO v_waitlist
+  FROM bids b
+  JOIN students s ON s.id = b.student_id
+  WHERE b.opportunity_id = p_opportunity_id AND b.bid_status = 'waitlisted';
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'opportunity_id', p_opportunity_id,
+    'already_drawn', v_already_drawn,
+    'capacity', v_capacity,
+    'allocation_mode', v_opportunity.allocation_mode,
+    'clearing_price', v_opportunity.clearing_price,
+    'draw_seed', v_opportunity.draw_seed,
+    'draw_seed_hash', v_opportunity.draw_seed_hash,
+    'draw_order', to_jsonb(v_draw_order),
+    'draw_weights', (
+      SELECT COALESCE(jsonb_agg(v_weights[array_position(v_entrants, entrant)] ORDER BY position), '[]'::jsonb)
+      FROM unnest(v_draw_order) WITH ORDINALITY AS d(entrant, position)
+    ),
+    'winners', v_winners,
+    'waitlist', v_waitlist
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,252 @@
+/*
+  # Confirmation Deadline and Forfeit
+
+  1. Changes
+    - Add `confirm_window_hours` to `opportunities` (default 48)
+    - Add `confirm_by` to `bids`, set whenever a bid becomes 'selected', including
+      promotions from the waitlist
+    - `bid_status` gains 'forfeited'
+    - `respond_to_selection` refuses to confirm once `confirm_by` has passed
+
+  2. Functions
+    - `forfeit_expired_selections()`: forfeits every selected bid whose deadline has
+      passed and promotes the next waitlisted student in its place
+    - `get_student_selection_status` also returns `confirm_by`
+
+  3. Scheduling
+    - When `pg_cron` is installed the forfeit runs every 15 minutes; otherwise it can
+      be triggered from the admin bid monitor
+*/
+
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS confirm_window_hours integer NOT NULL DEFAULT 48
+  CHECK (confirm_window_hours > 0);
+
+ALTER TABLE bids ADD COLUMN IF NOT EXISTS confirm_by timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_bids_pending_confirmation ON bids(confirm_by)
+  WHERE bid_status = 'selected';
+
+ALTER TABLE bids DROP CONSTRAINT IF EXISTS bids_bid_status_check;
+ALTER TABLE bids ADD CONSTRAINT bids_bid_status_check
+  CHECK (bid_status IN ('placed', 'confirmed', 'selected', 'rejected', 'waitlisted', 'declined', 'removed', 'forfeited'));
+
+-- Start the confirmation clock whenever a bid becomes selected
+CREATE OR REPLACE FUNCTION set_bid_confirm_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.bid_status = 'selected' AND (TG_OP = 'INSERT' OR OLD.bid_status IS DISTINCT FROM 'selected') THEN
+    SELECT NOW() + make_interval(hours => confirm_window_hours)
+    INTO NEW.confirm_by
+    FROM opportunities
+    WHERE id = NEW.opportunity_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_bid_confirm_by_trigger ON bids;
+CREATE TRIGGER set_bid_confirm_by_trigger
+  BEFORE INSERT OR UPDATE OF bid_status ON bids
+  FOR EACH ROW
+  EXECUTE FUNCTION set_bid_confirm_by();
+
+-- Let a selected student accept or decline their place before the deadline
+CREATE OR REPLACE FUNCTION respond_to_selection(
+  p_student_id uuid,
+  p_opportunity_id uuid,
+  p_class_password text,
+  p_accept boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_opportunity_record opportunities%ROWTYPE;
+  v_bid_record bids%ROWTYPE;
+  v_promoted jsonb;
+BEGIN
+  -- Lock the opportunity so promotions are serialised with draws and removals
+  SELECT * INTO v_opportunity_record
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  -- Validate class password
+  IF NOT EXISTS (
+    SELECT 1 FROM classes
+    WHERE id = v_opportunity_record.class_id AND password_hash = p_class_password
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  SELECT * INTO v_bid_record
+  FROM bids
+  WHERE student_id = p_student_id AND opportunity_id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_bid_record.bid_status <> 'selected' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'There is no pending place to respond to'
+    );
+  END IF;
+
+  IF v_bid_record.confirm_by IS NOT NULL AND v_bid_record.confirm_by < NOW() THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'The confirmation deadline has passed'
+    );
+  END IF;
+
+  IF p_accept THEN
+    UPDATE bids
+    SET bid_status = 'confirmed'
+    WHERE id = v_bid_record.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'bid_status', 'confirmed'
+    );
+  END IF;
+
+  UPDATE bids
+  SET
+    is_winner = false,
+    bid_status = 'declined'
+  WHERE id = v_bid_record.id;
+
+  v_promoted := promote_next_waitlisted(p_opportunity_id, p_student_id, 'declined');
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'bid_status', 'declined',
+    'promoted', v_promoted
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+-- Forfeit unconfirmed places past their deadline and promote from the waitlist
+CREATE OR REPLACE FUNCTION forfeit_expired_selections()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_expired record;
+  v_promoted jsonb;
+  v_forfeited_count integer := 0;
+  v_promoted_count integer := 0;
+BEGIN
+  FOR v_expired IN
+    SELECT id, opportunity_id, student_id
+    FROM bids
+    WHERE bid_status = 'selected' AND confirm_by < NOW()
+    ORDER BY confirm_by
+  LOOP
+    -- Same lock order as respond_to_selection: opportunity first, then the bid
+    PERFORM 1
+    FROM opportunities
+    WHERE id = v_expired.opportunity_id
+    FOR UPDATE;
+
+    -- The student may have responded while we waited for the lock
+    PERFORM 1
+    FROM bids
+    WHERE id = v_expired.id AND bid_status = 'selected' AND confirm_by < NOW()
+    FOR UPDATE;
+
+    CONTINUE WHEN NOT FOUND;
+
+    UPDATE bids
+    SET
+      is_winner = false,
+      bid_status = 'forfeited'
+    WHERE id = v_expired.id;
+
+    v_forfeited_count := v_forfeited_count + 1;
+    v_promoted := promote_next_waitlisted(v_expired.opportunity_id, v_expired.student_id, 'forfeited');
+
+    IF v_promoted IS NOT NULL THEN
+      v_promoted_count := v_promoted_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'forfeited_count', v_forfeited_count,
+    'promoted_count', v_promoted_count
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS get_student_selection_status(uuid);
+
+-- A student's result for every opportunity they bid on
+CREATE OR REPLACE FUNCTION get_student_selection_status(p_student_id uuid)
+RETURNS TABLE(
+  opportunity_id uuid,
+  bid_amount integer,
+  bid_status varchar,
+  is_winner boolean,
+  waitlist_rank integer,
+  confirm_by timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    b.opportunity_id,
+    b.bid_amount,
+    b.bid_status,
+    COALESCE(b.is_winner, false),
+    CASE WHEN b.bid_status = 'waitlisted' THEN (
+      SELECT COUNT(*)::integer + 1
+      FROM bids w
+      WHERE w.opportunity_id = b.opportunity_id
+        AND w.bid_status = 'waitlisted'
+        AND w.waitlist_position < b.waitlist_position
+    ) END,
+    b.confirm_by
+  FROM bids b
+  WHERE b.student_id = p_student_id;
+$$;
+
+-- Run the forfeit every 15 minutes where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'forfeit-expired-selections',
+      '*/15 * * * *',
+      'SELECT forfeit_expired_selections()'
+    );
+  END IF;
+END;
+$$;
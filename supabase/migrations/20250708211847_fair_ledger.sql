@@ -0,0 +1,492 @@
+/*
+  # Per-class Token Policy
+
+  1. Changes
+    - Add `initial_tokens`, `refund_losing_bids`, `term_topup`, `max_token_balance` and
+      `last_topup_at` to `classes`
+    - New students start with the class's `initial_tokens`, logged as a 'topup'
+    - `run_opportunity_draw` refunds losing lottery bids when `refund_losing_bids` is set
+    - `promote_next_waitlisted` charges a refunded lottery bidder their bid again
+
+  2. Functions
+    - `credit_student_tokens(...)`: credits tokens up to the class's maximum balance and
+      writes the `token_history` entry; every refund and top-up goes through it
+    - `apply_term_topup(p_class_id)`: adds `initial_tokens` to every student in a class
+      that tops up each term
+*/
+
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS initial_tokens integer NOT NULL DEFAULT 1;
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS refund_losing_bids boolean NOT NULL DEFAULT false;
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS term_topup boolean NOT NULL DEFAULT false;
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS max_token_balance integer NOT NULL DEFAULT 1;
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS last_topup_at timestamptz;
+
+ALTER TABLE classes DROP CONSTRAINT IF EXISTS classes_token_policy_check;
+ALTER TABLE classes ADD CONSTRAINT classes_token_policy_check
+  CHECK (initial_tokens >= 0 AND max_token_balance >= 1 AND max_token_balance >= initial_tokens);
+
+-- Credit a student's balance without exceeding the class maximum; returns the amount credited
+CREATE OR REPLACE FUNCTION credit_student_tokens(
+  p_student_id uuid,
+  p_opportunity_id uuid,
+  p_amount integer,
+  p_type text,
+  p_description text
+)
+RETURNS integer AS $$
+DECLARE
+  v_balance integer;
+  v_max_balance integer;
+  v_credit integer;
+BEGIN
+  SELECT s.tokens_remaining, c.max_token_balance
+  INTO v_balance, v_max_balance
+  FROM students s
+  JOIN classes c ON c.id = s.class_id
+  WHERE s.id = p_student_id
+  FOR UPDATE OF s;
+
+  v_credit := GREATEST(LEAST(p_amount, v_max_balance - v_balance), 0);
+
+  IF v_credit > 0 THEN
+    UPDATE students
+    SET tokens_remaining = tokens_remaining + v_credit
+    WHERE id = p_student_id;
+
+    INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+    VALUES (
+      p_student_id,
+      p_opportunity_id,
+      v_credit,
+      p_type,
+      CASE WHEN v_credit < p_amount
+        THEN p_description || ' (capped at ' || v_max_balance || ' token balance)'
+        ELSE p_description
+      END
+    );
+  END IF;
+
+  RETURN v_credit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Credits are only made by the draw, promotion and top-up functions
+REVOKE EXECUTE ON FUNCTION credit_student_tokens(uuid, uuid, integer, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Start new students on the class's initial balance
+CREATE OR REPLACE FUNCTION set_initial_tokens()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT initial_tokens INTO NEW.tokens_remaining
+  FROM classes
+  WHERE id = NEW.class_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION log_initial_tokens()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.tokens_remaining > 0 THEN
+    INSERT INTO token_history (student_id, amount, type, description)
+    VALUES (NEW.id, NEW.tokens_remaining, 'topup', 'Initial token allocation');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_initial_tokens_trigger ON students;
+CREATE TRIGGER set_initial_tokens_trigger
+  BEFORE INSERT ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION set_initial_tokens();
+
+DROP TRIGGER IF EXISTS log_initial_tokens_trigger ON students;
+CREATE TRIGGER log_initial_tokens_trigger
+  AFTER INSERT ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION log_initial_tokens();
+
+-- Add a term's tokens to every student in a class, up to the maximum balance
+CREATE OR REPLACE FUNCTION apply_term_topup(p_class_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class_record classes%ROWTYPE;
+  v_student record;
+  v_credit integer;
+  v_students_topped_up integer := 0;
+  v_tokens_added integer := 0;
+BEGIN
+  SELECT * INTO v_class_record
+  FROM classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Class not found'
+    );
+  END IF;
+
+  IF NOT v_class_record.term_topup THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Term top-up is not enabled for this class'
+    );
+  END IF;
+
+  FOR v_student IN
+    SELECT id FROM students WHERE class_id = p_class_id
+  LOOP
+    v_credit := credit_student_tokens(
+      v_student.id,
+      NULL,
+      v_class_record.initial_tokens,
+      'topup',
+      'Term top-up'
+    );
+
+    IF v_credit > 0 THEN
+      v_students_topped_up := v_students_topped_up + 1;
+      v_tokens_added := v_tokens_added + v_credit;
+    END IF;
+  END LOOP;
+
+  UPDATE classes
+  SET last_topup_at = NOW()
+  WHERE id = p_class_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'students_topped_up', v_students_topped_up,
+    'tokens_added', v_tokens_added
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+-- Fill a vacated place from the waitlist. Callers must hold the opportunity row lock.
+CREATE OR REPLACE FUNCTION promote_next_waitlisted(
+  p_opportunity_id uuid,
+  p_departed_student_id uuid,
+  p_reason text
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_opportunity opportunities%ROWTYPE;
+  v_refund_losers boolean;
+  v_price integer := 0;
+  v_candidate record;
+  v_promoted record;
+  v_found boolean := false;
+BEGIN
+  SELECT * INTO v_opportunity
+  FROM opportunities
+  WHERE id = p_opportunity_id;
+
+  SELECT refund_losing_bids INTO v_refund_losers
+  FROM classes
+  WHERE id = v_opportunity.class_id;
+
+  -- The departing winner paid the clearing price and gets it back
+  IF v_opportunity.allocation_mode = 'uniform_price' AND COALESCE(v_opportunity.clearing_price, 0) > 0 THEN
+    PERFORM credit_student_tokens(
+      p_departed_student_id,
+      p_opportunity_id,
+      v_opportunity.clearing_price,
+      'refund',
+      'Clearing price refunded after place was ' || p_reason
+    );
+  END IF;
+
+  FOR v_candidate IN
+    SELECT b.id AS bid_id, b.student_id, b.waitlist_position, b.bid_amount, s.tokens_remaining
+    FROM bids b
+    JOIN students s ON s.id = b.student_id
+    WHERE b.opportunity_id = p_opportunity_id AND b.bid_status = 'waitlisted'
+    ORDER BY b.waitlist_position
+    FOR UPDATE OF b, s
+  LOOP
+    -- Auction winners pay the clearing price; refunded lottery bidders pay their bid again
+    IF v_opportunity.allocation_mode = 'uniform_price' THEN
+      v_price := COALESCE(v_opportunity.clearing_price, 0);
+    ELSIF v_refund_losers THEN
+      v_price := v_candidate.bid_amount;
+    ELSE
+      v_price := 0;
+    END IF;
+
+    IF v_candidate.tokens_remaining >= v_price THEN
+      v_promoted := v_candidate;
+      v_found := true;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF NOT v_found THEN
+    INSERT INTO dinner_table_audit (table_name, action, details, performed_by)
+    VALUES (
+      'bids',
+      'UPDATE',
+      jsonb_build_object(
+        'event', 'waitlist_exhausted',
+        'opportunity_id', p_opportunity_id,
+        'departed_student_id', p_departed_student_id,
+        'reason', p_reason
+      ),
+      auth.uid()
+    );
+
+    RETURN NULL;
+  END IF;
+
+  UPDATE bids
+  SET
+    is_winner = true,
+    bid_status = 'selected'
+  WHERE id = v_promoted.bid_id;
+
+  IF v_price > 0 THEN
+    UPDATE students
+    SET tokens_remaining = tokens_remaining - v_price
+    WHERE id = v_promoted.student_id;
+  END IF;
+
+  INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+  VALUES (
+    v_promoted.student_id,
+    p_opportunity_id,
+    -v_price,
+    'bid',
+    'Promoted from waitlist position ' || v_promoted.waitlist_position || ' after a place was ' || p_reason
+  );
+
+  INSERT INTO dinner_table_audit (table_name, action, details, performed_by)
+  VALUES (
+    'bids',
+    'UPDATE',
+    jsonb_build_object(
+      'event', 'waitlist_promotion',
+      'opportunity_id', p_opportunity_id,
+      'departed_student_id', p_departed_student_id,
+      'reason', p_reason,
+      'promoted_student_id', v_promoted.student_id,
+      'waitlist_position', v_promoted.waitlist_position,
+      'price', v_price
+    ),
+    auth.uid()
+  );
+
+  RETURN jsonb_build_object(
+    'student_id', v_promoted.student_id,
+    'waitlist_position', v_promoted.waitlist_position
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Allocate an opportunity by its allocation mode and persist the result atomically
+CREATE OR REPLACE FUNCTION run_opportunity_draw(p_opportunity_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_opportunity opportunities%ROWTYPE;
+  v_class_capacity integer;
+  v_refund_losers boolean;
+  v_capacity integer;
+  v_reveal jsonb;
+  v_entrants uuid[];
+  v_weights integer[];
+  v_draw_order uuid[];
+  v_winner_ids uuid[];
+  v_clearing_price integer;
+  v_bid record;
+  v_refund integer;
+  v_already_drawn boolean := false;
+  v_winners jsonb;
+  v_waitlist jsonb;
+BEGIN
+  -- Serialise concurrent draws on the opportunity row
+  SELECT * INTO v_opportunity
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  SELECT capacity_default, refund_losing_bids INTO v_class_capacity, v_refund_losers
+  FROM classes
+  WHERE id = v_opportunity.class_id;
+
+  v_capacity := COALESCE(v_opportunity.capacity, v_class_capacity, 0);
+
+  SELECT
+    COALESCE(array_agg(student_id ORDER BY student_id), ARRAY[]::uuid[]),
+    COALESCE(array_agg(bid_amount ORDER BY student_id), ARRAY[]::integer[])
+  INTO v_entrants, v_weights
+  FROM bids
+  WHERE opportunity_id = p_opportunity_id;
+
+  IF v_opportunity.drawn_at IS NOT NULL THEN
+    -- Already drawn: return the persisted winners unchanged
+    v_already_drawn := true;
+
+    SELECT COALESCE(array_agg(student_id), ARRAY[]::uuid[]) INTO v_winner_ids
+    FROM bids
+    WHERE opportunity_id = p_opportunity_id AND is_winner = true;
+  ELSE
+    IF array_length(v_entrants, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'No bids have been placed for this opportunity'
+      );
+    END IF;
+
+    v_reveal := reveal_draw_seed(p_opportunity_id);
+
+    IF NOT (v_reveal->>'success')::boolean THEN
+      RETURN v_reveal;
+    END IF;
+
+    v_opportunity.draw_seed := v_reveal->>'draw_seed';
+    v_draw_order := compute_allocation_order(
+      v_opportunity.allocation_mode, v_opportunity.draw_seed, v_entrants, v_weights
+    );
+    v_winner_ids := v_draw_order[1:v_capacity];
+
+    IF v_opportunity.allocation_mode = 'uniform_price' THEN
+      -- Winners pay the highest losing bid, or nothing if every bidder wins
+      IF array_length(v_draw_order, 1) > v_capacity THEN
+        v_clearing_price := v_weights[array_position(v_entrants, v_draw_order[v_capacity + 1])];
+      ELSE
+        v_clearing_price := 0;
+      END IF;
+
+      -- Refund everything above the clearing price to winners and the full bid to losers
+      FOR v_bid IN
+        SELECT student_id, bid_amount
+        FROM bids
+        WHERE opportunity_id = p_opportunity_id
+      LOOP
+        IF v_bid.student_id = ANY(v_winner_ids) THEN
+          v_refund := v_bid.bid_amount - v_clearing_price;
+        ELSE
+          v_refund := v_bid.bid_amount;
+        END IF;
+
+        PERFORM credit_student_tokens(
+          v_bid.student_id,
+          p_opportunity_id,
+          v_refund,
+          'refund',
+          CASE WHEN v_bid.student_id = ANY(v_winner_ids)
+            THEN 'Auction refund above clearing price of ' || v_clearing_price || ' token(s)'
+            ELSE 'Auction refund for losing bid'
+          END
+        );
+      END LOOP;
+
+      v_opportunity.clearing_price := v_clearing_price;
+    END IF;
+
+    -- Store the full order so losing bids form the waitlist
+    UPDATE bids
+    SET
+      is_winner = (student_id = ANY(v_winner_ids)),
+      bid_status = CASE WHEN student_id = ANY(v_winner_ids) THEN 'selected' ELSE 'waitlisted' END,
+      waitlist_position = array_position(v_draw_order, student_id)
+    WHERE opportunity_id = p_opportunity_id;
+
+    -- Lottery losers get their tokens back when the class policy allows it
+    IF v_opportunity.allocation_mode = 'lottery' AND v_refund_losers THEN
+      FOR v_bid IN
+        SELECT student_id, bid_amount
+        FROM bids
+        WHERE opportunity_id = p_opportunity_id AND bid_status = 'waitlisted'
+      LOOP
+        PERFORM credit_student_tokens(
+          v_bid.student_id,
+          p_opportunity_id,
+          v_bid.bid_amount,
+          'refund',
+          'Refund for losing lottery bid'
+        );
+      END LOOP;
+    END IF;
+
+    UPDATE opportunities
+    SET
+      drawn_at = NOW(),
+      clearing_price = v_clearing_price
+    WHERE id = p_opportunity_id;
+  END IF;
+
+  IF v_draw_order IS NULL THEN
+    v_draw_order := compute_allocation_order(
+      v_opportunity.allocation_mode, v_opportunity.draw_seed, v_entrants, v_weights
+    );
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'name', s.name,
+    'email', s.email,
+    'student_number', s.student_number
+  ) ORDER BY array_position(v_draw_order, s.id)), '[]'::jsonb)
+  INTO v_winners
+  FROM students s
+  WHERE s.id = ANY(v_winner_ids);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'name', s.name,
+    'email', s.email,
+    'student_number', s.student_number,
+    'waitlist_position', b.waitlist_position
+  ) ORDER BY b.waitlist_position), '[]'::jsonb)
+  INTO v_waitlist
+  FROM bids b
+  JOIN students s ON s.id = b.student_id
+  WHERE b.opportunity_id = p_opportunity_id AND b.bid_status = 'waitlisted';
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'opportunity_id', p_opportunity_id,
+    'already_drawn', v_already_drawn,
+    'capacity', v_capacity,
+    'allocation_mode', v_opportunity.allocation_mode,
+    'clearing_price', v_opportunity.clearing_price,
+    'draw_seed', v_opportunity.draw_seed,
+    'draw_seed_hash', v_opportunity.draw_seed_hash,
+    'draw_order', to_jsonb(v_draw_order),
+    'draw_weights', (
+      SELECT COALESCE(jsonb_agg(v_weights[array_position(v_entrants, entrant)] ORDER BY position), '[]'::jsonb)
+      FROM unnest(v_draw_order) WITH ORDINALITY AS d(entrant, position)
+    ),
+    'winners', v_winners,
+    'waitlist', v_waitlist
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
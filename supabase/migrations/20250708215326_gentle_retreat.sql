@@ -0,0 +1,122 @@
+/*
+  # Bid Withdrawal
+
+  1. Functions
+    - `withdraw_student_bid(p_student_id, p_opportunity_id, p_class_password)`: deletes a
+      placed bid and returns its tokens while bidding is still open
+
+  2. Rules
+    - Only bids still in 'placed' status can be withdrawn, and only before `closes_at`
+      and before the opportunity has been drawn
+    - The full bid amount is returned and logged in `token_history` as a 'refund'
+    - The student's `token_status` goes back to 'unused' when no other bids remain
+*/
+
+CREATE OR REPLACE FUNCTION withdraw_student_bid(
+  p_student_id uuid,
+  p_opportunity_id uuid,
+  p_class_password text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_opportunity_record opportunities%ROWTYPE;
+  v_bid_record bids%ROWTYPE;
+  v_tokens_remaining integer;
+BEGIN
+  -- Lock the opportunity so a withdrawal cannot race the draw
+  SELECT * INTO v_opportunity_record
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  -- Validate class password
+  IF NOT EXISTS (
+    SELECT 1 FROM classes
+    WHERE id = v_opportunity_record.class_id AND password_hash = p_class_password
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  IF v_opportunity_record.drawn_at IS NOT NULL OR v_opportunity_record.closes_at <= NOW() THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Bidding has closed for this opportunity'
+    );
+  END IF;
+
+  -- Lock the student before the bid, matching submit_student_bid_secure
+  PERFORM 1
+  FROM students
+  WHERE id = p_student_id AND class_id = v_opportunity_record.class_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student not found in this class'
+    );
+  END IF;
+
+  SELECT * INTO v_bid_record
+  FROM bids
+  WHERE student_id = p_student_id AND opportunity_id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_bid_record.bid_status <> 'placed' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'There is no open bid to withdraw'
+    );
+  END IF;
+
+  DELETE FROM bids
+  WHERE id = v_bid_record.id;
+
+  -- Return the full bid; this undoes the bid rather than crediting new tokens
+  UPDATE students
+  SET
+    tokens_remaining = tokens_remaining + v_bid_record.bid_amount,
+    token_status = CASE
+      WHEN EXISTS (SELECT 1 FROM bids WHERE student_id = p_student_id) THEN 'used'
+      ELSE 'unused'
+    END
+  WHERE id = p_student_id
+  RETURNING tokens_remaining INTO v_tokens_remaining;
+
+  INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+  VALUES (
+    p_student_id,
+    p_opportunity_id,
+    v_bid_record.bid_amount,
+    'refund',
+    'Bid withdrawn before bidding closed'
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'refunded_amount', v_bid_record.bid_amount,
+    'tokens_remaining', v_tokens_remaining,
+    'timestamp', now()
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
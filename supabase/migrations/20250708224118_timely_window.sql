@@ -0,0 +1,228 @@
+/*
+  # Bidding Window Lifecycle
+
+  1. Changes
+    - `opportunities.status` follows upcoming → open → closed → drawn → completed
+    - Status is derived from `opens_at`, `closes_at`, `drawn_at` and `event_date` on every
+      insert and update instead of only when the row happens to change
+    - New opportunities must close after they open and no later than the event
+
+  2. Functions
+    - `compute_opportunity_status(...)`: the single definition of the lifecycle, mirrored by
+      `getOpportunityLifecycle()` in `src/utils/dates.ts`
+    - `refresh_opportunity_statuses()`: brings stored statuses up to date, scheduled every
+      minute when `pg_cron` is installed
+    - `submit_student_bid_secure` rejects bids outside `opens_at`..`closes_at`
+*/
+
+ALTER TABLE opportunities DROP CONSTRAINT IF EXISTS opportunities_status_check;
+ALTER TABLE opportunities ADD CONSTRAINT opportunities_status_check
+  CHECK (status IN ('upcoming', 'open', 'closed', 'drawn', 'completed'));
+
+-- Existing rows were created with closes_at set to the event, so only new rows are checked
+ALTER TABLE opportunities DROP CONSTRAINT IF EXISTS opportunities_bidding_window_check;
+ALTER TABLE opportunities ADD CONSTRAINT opportunities_bidding_window_check
+  CHECK (opens_at < closes_at AND closes_at::date <= event_date) NOT VALID;
+
+CREATE OR REPLACE FUNCTION compute_opportunity_status(
+  p_opens_at timestamptz,
+  p_closes_at timestamptz,
+  p_drawn_at timestamptz,
+  p_event_date date
+)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN p_event_date < CURRENT_DATE THEN 'completed'
+    WHEN p_drawn_at IS NOT NULL THEN 'drawn'
+    WHEN p_opens_at > NOW() THEN 'upcoming'
+    WHEN p_closes_at > NOW() THEN 'open'
+    ELSE 'closed'
+  END;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION update_opportunity_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.status = compute_opportunity_status(NEW.opens_at, NEW.closes_at, NEW.drawn_at, NEW.event_date);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_opportunity_status_trigger ON opportunities;
+CREATE TRIGGER update_opportunity_status_trigger
+  BEFORE INSERT OR UPDATE ON opportunities
+  FOR EACH ROW
+  EXECUTE FUNCTION update_opportunity_status();
+
+-- Move stored statuses along as time passes
+CREATE OR REPLACE FUNCTION refresh_opportunity_statuses()
+RETURNS integer AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  UPDATE opportunities
+  SET status = compute_opportunity_status(opens_at, closes_at, drawn_at, event_date)
+  WHERE status IS DISTINCT FROM compute_opportunity_status(opens_at, closes_at, drawn_at, event_date);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+SELECT refresh_opportunity_statuses();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'refresh-opportunity-statuses',
+      '* * * * *',
+      'SELECT refresh_opportunity_statuses()'
+    );
+  END IF;
+END;
+$$;
+
+-- Only accept bids while the bidding window is open
+CREATE OR REPLACE FUNCTION submit_student_bid_secure(
+  p_student_id uuid,
+  p_opportunity_id uuid,
+  p_class_password text,
+  p_bid_amount integer DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class_id uuid;
+  v_student_record students%ROWTYPE;
+  v_opportunity_record opportunities%ROWTYPE;
+  v_bid_id uuid;
+BEGIN
+  IF p_bid_amount IS NULL OR p_bid_amount < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Bid amount must be at least 1 token'
+    );
+  END IF;
+
+  -- Share-lock the opportunity so a bid cannot land while the draw is running
+  SELECT * INTO v_opportunity_record
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  v_class_id := v_opportunity_record.class_id;
+
+  -- Validate class password
+  IF NOT EXISTS (
+    SELECT 1 FROM classes
+    WHERE id = v_class_id AND password_hash = p_class_password
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  -- Enforce the bidding window
+  IF v_opportunity_record.opens_at > NOW() THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Bidding has not opened yet. It opens at ' || v_opportunity_record.opens_at
+    );
+  END IF;
+
+  IF v_opportunity_record.closes_at <= NOW() OR v_opportunity_record.drawn_at IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Bidding has closed for this opportunity'
+    );
+  END IF;
+
+  -- Lock the student row so concurrent bids cannot overspend tokens
+  SELECT * INTO v_student_record
+  FROM students
+  WHERE id = p_student_id AND class_id = v_class_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student not found in this class'
+    );
+  END IF;
+
+  -- Check the student has enough tokens for the bid
+  IF v_student_record.tokens_remaining <= 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'No tokens remaining'
+    );
+  END IF;
+
+  IF v_student_record.tokens_remaining < p_bid_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Not enough tokens: ' || v_student_record.tokens_remaining || ' remaining'
+    );
+  END IF;
+
+  -- Check if student has already bid on this opportunity
+  IF EXISTS (
+    SELECT 1 FROM bids
+    WHERE student_id = p_student_id AND opportunity_id = p_opportunity_id
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student has already bid on this opportunity'
+    );
+  END IF;
+
+  -- Insert the bid
+  INSERT INTO bids (student_id, opportunity_id, bid_amount, bid_status)
+  VALUES (p_student_id, p_opportunity_id, p_bid_amount, 'placed')
+  RETURNING id INTO v_bid_id;
+
+  -- Update student token status
+  UPDATE students
+  SET
+    tokens_remaining = tokens_remaining - p_bid_amount,
+    token_status = 'used'
+  WHERE id = p_student_id;
+
+  -- Log the bid in token history
+  INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+  VALUES (
+    p_student_id,
+    p_opportunity_id,
+    -p_bid_amount,
+    'bid',
+    p_bid_amount || ' token(s) committed to bid'
+  );
+
+  -- Return success
+  RETURN jsonb_build_object(
+    'success', true,
+    'bid_id', v_bid_id,
+    'bid_amount', p_bid_amount,
+    'timestamp', now(),
+    'tokens_remaining', v_student_record.tokens_remaining - p_bid_amount
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
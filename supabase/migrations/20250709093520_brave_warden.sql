@@ -0,0 +1,818 @@
+/*
+  # Instructor Accounts
+
+  1. New Tables
+    - `instructors`: one row per Supabase Auth user allowed into the admin dashboard
+      (`id` is the `auth.users` id). Create the user in Supabase Auth, then insert their
+      row here.
+
+  2. Changes
+    - `classes.instructor_id` records who owns each class and defaults to the signed-in
+      instructor. Existing classes have no owner until one is assigned:
+        UPDATE classes SET instructor_id = '<instructor id>' WHERE instructor_id IS NULL;
+
+  3. Security
+    - Anonymous users can no longer create, change or delete classes, students or
+      opportunities. They keep read access for the student sign-in flow.
+    - Signed-in instructors can only see and manage their own classes and everything
+      that belongs to them (students, opportunities, bids, token history, preferences).
+    - Admin functions refuse classes the caller does not own and are no longer
+      executable by anonymous users.
+
+  4. Functions
+    - `is_class_instructor(p_class_id)`: true when the caller owns the class
+*/
+
+CREATE TABLE IF NOT EXISTS instructors (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL UNIQUE,
+  name text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE instructors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Instructors can view their own profile" ON instructors;
+
+CREATE POLICY "Instructors can view their own profile"
+  ON instructors FOR SELECT
+  TO authenticated
+  USING (id = auth.uid());
+
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS instructor_id uuid
+  REFERENCES instructors(id) ON DELETE SET NULL
+  DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS idx_classes_instructor_id ON classes(instructor_id);
+
+-- SECURITY DEFINER so policies on other tables can check ownership without recursing
+-- through the classes policies
+CREATE OR REPLACE FUNCTION is_class_instructor(p_class_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM classes
+    WHERE id = p_class_id
+      AND instructor_id IS NOT NULL
+      AND instructor_id = auth.uid()
+  );
+$$;
+
+-- Classes
+DROP POLICY IF EXISTS "Allow anonymous and authenticated users to manage classes" ON classes;
+DROP POLICY IF EXISTS "Students can view classes" ON classes;
+DROP POLICY IF EXISTS "Instructors can manage their own classes" ON classes;
+
+-- Students still sign in against the anon key; this goes away with student sessions
+CREATE POLICY "Students can view classes"
+  ON classes FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Instructors can manage their own classes"
+  ON classes FOR ALL
+  TO authenticated
+  USING (instructor_id = auth.uid())
+  WITH CHECK (instructor_id = auth.uid());
+
+-- Students
+DROP POLICY IF EXISTS "Allow anonymous and authenticated users to manage students" ON students;
+DROP POLICY IF EXISTS "Students can view students" ON students;
+DROP POLICY IF EXISTS "Instructors can manage students in their classes" ON students;
+
+CREATE POLICY "Students can view students"
+  ON students FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Instructors can manage students in their classes"
+  ON students FOR ALL
+  TO authenticated
+  USING (is_class_instructor(class_id))
+  WITH CHECK (is_class_instructor(class_id));
+
+-- Opportunities
+DROP POLICY IF EXISTS "Allow anonymous and authenticated users to insert opportunities" ON opportunities;
+DROP POLICY IF EXISTS "Allow anonymous and authenticated users to select opportunities" ON opportunities;
+DROP POLICY IF EXISTS "Allow authenticated users to update opportunities" ON opportunities;
+DROP POLICY IF EXISTS "Allow authenticated users to delete opportunities" ON opportunities;
+DROP POLICY IF EXISTS "Students can view opportunities" ON opportunities;
+DROP POLICY IF EXISTS "Instructors can manage opportunities in their classes" ON opportunities;
+
+CREATE POLICY "Students can view opportunities"
+  ON opportunities FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Instructors can manage opportunities in their classes"
+  ON opportunities FOR ALL
+  TO authenticated
+  USING (is_class_instructor(class_id))
+  WITH CHECK (is_class_instructor(class_id));
+
+-- Bids are written by the bidding functions, so instructors only need to read and
+-- correct them
+DROP POLICY IF EXISTS "Allow authenticated users to manage bids" ON bids;
+DROP POLICY IF EXISTS "Allow authenticated users to view bids" ON bids;
+DROP POLICY IF EXISTS "Allow authenticated users to insert bids" ON bids;
+DROP POLICY IF EXISTS "Allow authenticated users to update bids" ON bids;
+DROP POLICY IF EXISTS "Instructors can manage bids in their classes" ON bids;
+
+CREATE POLICY "Instructors can manage bids in their classes"
+  ON bids FOR ALL
+  TO authenticated
+  USING (is_class_instructor((SELECT class_id FROM opportunities WHERE id = opportunity_id)))
+  WITH CHECK (is_class_instructor((SELECT class_id FROM opportunities WHERE id = opportunity_id)));
+
+-- Token history
+DROP POLICY IF EXISTS "Allow authenticated users to manage token history" ON token_history;
+DROP POLICY IF EXISTS "Allow authenticated users to view token history" ON token_history;
+DROP POLICY IF EXISTS "Instructors can view token history in their classes" ON token_history;
+
+CREATE POLICY "Instructors can view token history in their classes"
+  ON token_history FOR SELECT
+  TO authenticated
+  USING (is_class_instructor((SELECT class_id FROM students WHERE id = student_id)));
+
+-- Preferences
+DROP POLICY IF EXISTS "Allow authenticated users to view preferences" ON student_preferences;
+DROP POLICY IF EXISTS "Instructors can view preferences in their classes" ON student_preferences;
+
+CREATE POLICY "Instructors can view preferences in their classes"
+  ON student_preferences FOR SELECT
+  TO authenticated
+  USING (is_class_instructor((SELECT class_id FROM students WHERE id = student_id)));
+
+-- Admin functions: refuse classes the caller does not own
+
+CREATE OR REPLACE FUNCTION run_opportunity_draw(p_opportunity_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_opportunity opportunities%ROWTYPE;
+  v_class_capacity integer;
+  v_refund_losers boolean;
+  v_capacity integer;
+  v_reveal jsonb;
+  v_entrants uuid[];
+  v_weights integer[];
+  v_draw_order uuid[];
+  v_winner_ids uuid[];
+  v_clearing_price integer;
+  v_bid record;
+  v_refund integer;
+  v_already_drawn boolean := false;
+  v_winners jsonb;
+  v_waitlist jsonb;
+BEGIN
+  IF NOT is_class_instructor((SELECT class_id FROM opportunities WHERE id = p_opportunity_id)) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You do not manage this class'
+    );
+  END IF;
+
+  -- Serialise concurrent draws on the opportunity row
+  SELECT * INTO v_opportunity
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  SELECT capacity_default, refund_losing_bids INTO v_class_capacity, v_refund_losers
+  FROM classes
+  WHERE id = v_opportunity.class_id;
+
+  v_capacity := COALESCE(v_opportunity.capacity, v_class_capacity, 0);
+
+  SELECT
+    COALESCE(array_agg(student_id ORDER BY student_id), ARRAY[]::uuid[]),
+    COALESCE(array_agg(bid_amount ORDER BY student_id), ARRAY[]::integer[])
+  INTO v_entrants, v_weights
+  FROM bids
+  WHERE opportunity_id = p_opportunity_id;
+
+  IF v_opportunity.drawn_at IS NOT NULL THEN
+    -- Already drawn: return the persisted winners unchanged
+    v_already_drawn := true;
+
+    SELECT COALESCE(array_agg(student_id), ARRAY[]::uuid[]) INTO v_winner_ids
+    FROM bids
+    WHERE opportunity_id = p_opportunity_id AND is_winner = true;
+  ELSE
+    IF array_length(v_entrants, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'No bids have been placed for this opportunity'
+      );
+    END IF;
+
+    v_reveal := reveal_draw_seed(p_opportunity_id);
+
+    IF NOT (v_reveal->>'success')::boolean THEN
+      RETURN v_reveal;
+    END IF;
+
+    v_opportunity.draw_seed := v_reveal->>'draw_seed';
+    v_draw_order := compute_allocation_order(
+      v_opportunity.allocation_mode, v_opportunity.draw_seed, v_entrants, v_weights
+    );
+    v_winner_ids := v_draw_order[1:v_capacity];
+
+    IF v_opportunity.allocation_mode = 'uniform_price' THEN
+      -- Winners pay the highest losing bid, or nothing if every bidder wins
+      IF array_length(v_draw_order, 1) > v_capacity THEN
+        v_clearing_price := v_weights[array_position(v_entrants, v_draw_order[v_capacity + 1])];
+      ELSE
+        v_clearing_price := 0;
+      END IF;
+
+      -- Refund everything above the clearing price to winners and the full bid to losers
+      FOR v_bid IN
+        SELECT student_id, bid_amount
+        FROM bids
+        WHERE opportunity_id = p_opportunity_id
+      LOOP
+        IF v_bid.student_id = ANY(v_winner_ids) THEN
+          v_refund := v_bid.bid_amount - v_clearing_price;
+        ELSE
+          v_refund := v_bid.bid_amount;
+        END IF;
+
+        PERFORM credit_student_tokens(
+          v_bid.student_id,
+          p_opportunity_id,
+          v_refund,
+          'refund',
+          CASE WHEN v_bid.student_id = ANY(v_winner_ids)
+            THEN 'Auction refund above clearing price of ' || v_clearing_price || ' token(s)'
+            ELSE 'Auction refund for losing bid'
+          END
+        );
+      END LOOP;
+
+      v_opportunity.clearing_price := v_clearing_price;
+    END IF;
+
+    -- Store the full order so losing bids form the waitlist
+    UPDATE bids
+    SET
+      is_winner = (student_id = ANY(v_winner_ids)),
+      bid_status = CASE WHEN student_id = ANY(v_winner_ids) THEN 'selected' ELSE 'waitlisted' END,
+      waitlist_position = array_position(v_draw_order, student_id)
+    WHERE opportunity_id = p_opportunity_id;
+
+    -- Lottery losers get their tokens back when the class policy allows it
+    IF v_opportunity.allocation_mode = 'lottery' AND v_refund_losers THEN
+      FOR v_bid IN
+        SELECT student_id, bid_amount
+        FROM bids
+        WHERE opportunity_id = p_opportunity_id AND bid_status = 'waitlisted'
+      LOOP
+        PERFORM credit_student_tokens(
+          v_bid.student_id,
+          p_opportunity_id,
+          v_bid.bid_amount,
+          'refund',
+          'Refund for losing lottery bid'
+        );
+      END LOOP;
+    END IF;
+
+    UPDATE opportunities
+    SET
+      drawn_at = NOW(),
+      clearing_price = v_clearing_price
+    WHERE id = p_opportunity_id;
+  END IF;
+
+  IF v_draw_order IS NULL THEN
+    v_draw_order := compute_allocation_order(
+      v_opportunity.allocation_mode, v_opportunity.draw_seed, v_entrants, v_weights
+    );
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'name', s.name,
+    'email', s.email,
+    'student_number', s.student_number
+  ) ORDER BY array_position(v_draw_order, s.id)), '[]'::jsonb)
+  INTO v_winners
+  FROM students s
+  WHERE s.id = ANY(v_winner_ids);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'name', s.name,
+    'email', s.email,
+    'student_number', s.student_number,
+    'waitlist_position', b.waitlist_position
+  ) ORDER BY b.waitlist_position), '[]'::jsonb)
+  INTO v_waitlist
+  FROM bids b
+  JOIN students s ON s.id = b.student_id
+  WHERE b.opportunity_id = p_opportunity_id AND b.bid_status = 'waitlisted';
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'opportunity_id', p_opportunity_id,
+    'already_drawn', v_already_drawn,
+    'capacity', v_capacity,
+    'allocation_mode', v_opportunity.allocation_mode,
+    'clearing_price', v_opportunity.clearing_price,
+    'draw_seed', v_opportunity.draw_seed,
+    'draw_seed_hash', v_opportunity.draw_seed_hash,
+    'draw_order', to_jsonb(v_draw_order),
+    'draw_weights', (
+      SELECT COALESCE(jsonb_agg(v_weights[array_position(v_entrants, entrant)] ORDER BY position), '[]'::jsonb)
+      FROM unnest(v_draw_order) WITH ORDINALITY AS d(entrant, position)
+    ),
+    'winners', v_winners,
+    'waitlist', v_waitlist
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION remove_selected_student(
+  p_opportunity_id uuid,
+  p_student_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_bid_record bids%ROWTYPE;
+  v_promoted jsonb;
+BEGIN
+  IF NOT is_class_instructor((SELECT class_id FROM opportunities WHERE id = p_opportunity_id)) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You do not manage this class'
+    );
+  END IF;
+
+  PERFORM 1
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  SELECT * INTO v_bid_record
+  FROM bids
+  WHERE student_id = p_student_id AND opportunity_id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_bid_record.is_winner THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student does not hold a place for this opportunity'
+    );
+  END IF;
+
+  UPDATE bids
+  SET
+    is_winner = false,
+    bid_status = 'removed'
+  WHERE id = v_bid_record.id;
+
+  v_promoted := promote_next_waitlisted(p_opportunity_id, p_student_id, 'removed');
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'promoted', v_promoted
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION run_class_allocation(p_class_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_class classes%ROWTYPE;
+  v_opportunity_ids uuid[];
+  v_reveal jsonb;
+  v_opportunity_id uuid;
+  v_seed text;
+  v_students uuid[];
+  v_order uuid[];
+  v_seats jsonb;
+  v_student uuid;
+  v_assigned uuid;
+  v_assigned_students uuid[] := ARRAY[]::uuid[];
+  v_assigned_opportunities uuid[] := ARRAY[]::uuid[];
+  v_already_allocated boolean := false;
+BEGIN
+  IF NOT is_class_instructor(p_class_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You do not manage this class'
+    );
+  END IF;
+
+  -- Serialise concurrent allocations on the class row
+  SELECT * INTO v_class
+  FROM classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Class not found'
+    );
+  END IF;
+
+  IF v_class.preferences_allocated_at IS NOT NULL THEN
+    -- Already allocated: return the persisted assignments unchanged
+    v_already_allocated := true;
+    v_seed := v_class.allocation_seed;
+
+    SELECT COALESCE(array_agg(DISTINCT sp.opportunity_id), ARRAY[]::uuid[]) INTO v_opportunity_ids
+    FROM student_preferences sp
+    JOIN students s ON s.id = sp.student_id
+    WHERE s.class_id = p_class_id;
+
+    SELECT
+      COALESCE(array_agg(b.student_id ORDER BY b.student_id), ARRAY[]::uuid[]),
+      COALESCE(array_agg(b.opportunity_id ORDER BY b.student_id), ARRAY[]::uuid[])
+    INTO v_assigned_students, v_assigned_opportunities
+    FROM bids b
+    WHERE b.opportunity_id = ANY(v_opportunity_ids) AND b.is_winner = true;
+  ELSE
+    SELECT COALESCE(array_agg(id ORDER BY id), ARRAY[]::uuid[]) INTO v_opportunity_ids
+    FROM opportunities
+    WHERE class_id = p_class_id AND drawn_at IS NULL;
+
+    IF array_length(v_opportunity_ids, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'There are no undrawn opportunities in this class'
+      );
+    END IF;
+
+    -- Reveal every opportunity seed; the class seed is their concatenation
+    FOREACH v_opportunity_id IN ARRAY v_opportunity_ids LOOP
+      v_reveal := reveal_draw_seed(v_opportunity_id);
+
+      IF NOT (v_reveal->>'success')::boolean THEN
+        RETURN v_reveal;
+      END IF;
+    END LOOP;
+
+    SELECT string_agg(draw_seed, '' ORDER BY id) INTO v_seed
+    FROM opportunities
+    WHERE id = ANY(v_opportunity_ids);
+
+    SELECT jsonb_object_agg(o.id::text, COALESCE(o.capacity, v_class.capacity_default, 0))
+    INTO v_seats
+    FROM opportunities o
+    WHERE o.id = ANY(v_opportunity_ids);
+
+    SELECT COALESCE(array_agg(DISTINCT sp.student_id), ARRAY[]::uuid[]) INTO v_students
+    FROM student_preferences sp
+    JOIN students s ON s.id = sp.student_id
+    WHERE s.class_id = p_class_id AND sp.opportunity_id = ANY(v_opportunity_ids);
+
+    IF array_length(v_students, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'No students have submitted preferences for this class'
+      );
+    END IF;
+
+    -- Each student in lottery order takes their best remaining choice
+    v_order := compute_draw_order(v_seed, v_students);
+
+    FOREACH v_student IN ARRAY v_order LOOP
+      SELECT sp.opportunity_id INTO v_assigned
+      FROM student_preferences sp
+      WHERE sp.student_id = v_student
+        AND COALESCE((v_seats->>sp.opportunity_id::text)::integer, 0) > 0
+      ORDER BY sp.rank
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_seats := jsonb_set(
+          v_seats,
+          ARRAY[v_assigned::text],
+          to_jsonb((v_seats->>v_assigned::text)::integer - 1)
+        );
+        v_assigned_students := v_assigned_students || v_student;
+        v_assigned_opportunities := v_assigned_opportunities || v_assigned;
+      END IF;
+    END LOOP;
+
+    -- Record every ranked choice as a bid so results live alongside token bids
+    INSERT INTO bids (student_id, opportunity_id, bid_amount, bid_status)
+    SELECT sp.student_id, sp.opportunity_id, 0, 'placed'
+    FROM student_preferences sp
+    WHERE sp.student_id = ANY(v_students) AND sp.opportunity_id = ANY(v_opportunity_ids)
+    ON CONFLICT (student_id, opportunity_id) DO NOTHING;
+
+    UPDATE bids b
+    SET
+      is_winner = EXISTS (
+        SELECT 1
+        FROM unnest(v_assigned_students, v_assigned_opportunities) AS a(student_id, opportunity_id)
+        WHERE a.student_id = b.student_id AND a.opportunity_id = b.opportunity_id
+      ),
+      bid_status = CASE WHEN EXISTS (
+        SELECT 1
+        FROM unnest(v_assigned_students, v_assigned_opportunities) AS a(student_id, opportunity_id)
+        WHERE a.student_id = b.student_id AND a.opportunity_id = b.opportunity_id
+      ) THEN 'selected' ELSE 'rejected' END
+    WHERE b.opportunity_id = ANY(v_opportunity_ids);
+
+    UPDATE opportunities
+    SET drawn_at = NOW()
+    WHERE id = ANY(v_opportunity_ids);
+
+    UPDATE classes
+    SET
+      preferences_allocated_at = NOW(),
+      allocation_seed = v_seed
+    WHERE id = p_class_id;
+  END IF;
+
+  IF v_order IS NULL THEN
+    SELECT COALESCE(array_agg(DISTINCT sp.student_id), ARRAY[]::uuid[]) INTO v_students
+    FROM student_preferences sp
+    JOIN students s ON s.id = sp.student_id
+    WHERE s.class_id = p_class_id;
+
+    v_order := compute_draw_order(v_seed, v_students);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'class_id', p_class_id,
+    'already_allocated', v_already_allocated,
+    'allocation_seed', v_seed,
+    'student_order', to_jsonb(v_order),
+    'assignments', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'student_id', s.id,
+        'name', s.name,
+        'email', s.email,
+        'student_number', s.student_number,
+        'opportunity_id', a.opportunity_id,
+        'rank', sp.rank
+      ) ORDER BY array_position(v_order, s.id)), '[]'::jsonb)
+      FROM unnest(v_assigned_students, v_assigned_opportunities) AS a(student_id, opportunity_id)
+      JOIN students s ON s.id = a.student_id
+      LEFT JOIN student_preferences sp
+        ON sp.student_id = a.student_id AND sp.opportunity_id = a.opportunity_id
+    ),
+    'unassigned', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'student_id', s.id,
+        'name', s.name,
+        'email', s.email,
+        'student_number', s.student_number
+      ) ORDER BY array_position(v_order, s.id)), '[]'::jsonb)
+      FROM students s
+      WHERE s.id = ANY(v_order) AND NOT s.id = ANY(v_assigned_students)
+    )
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION apply_term_topup(p_class_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class_record classes%ROWTYPE;
+  v_student record;
+  v_credit integer;
+  v_students_topped_up integer := 0;
+  v_tokens_added integer := 0;
+BEGIN
+  IF NOT is_class_instructor(p_class_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You do not manage this class'
+    );
+  END IF;
+
+  SELECT * INTO v_class_record
+  FROM classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Class not found'
+    );
+  END IF;
+
+  IF NOT v_class_record.term_topup THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Term top-up is not enabled for this class'
+    );
+  END IF;
+
+  FOR v_student IN
+    SELECT id FROM students WHERE class_id = p_class_id
+  LOOP
+    v_credit := credit_student_tokens(
+      v_student.id,
+      NULL,
+      v_class_record.initial_tokens,
+      'topup',
+      'Term top-up'
+    );
+
+    IF v_credit > 0 THEN
+      v_students_topped_up := v_students_topped_up + 1;
+      v_tokens_added := v_tokens_added + v_credit;
+    END IF;
+  END LOOP;
+
+  UPDATE classes
+  SET last_topup_at = NOW()
+  WHERE id = p_class_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'students_topped_up', v_students_topped_up,
+    'tokens_added', v_tokens_added
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_class_atomic(
+  p_class_id uuid,
+  p_class_name text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_class_name text;
+  v_counts jsonb;
+  v_dinner_table_name text;
+  v_start_time timestamptz := NOW();
+BEGIN
+  IF NOT is_class_instructor(p_class_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'You do not manage this class'
+    );
+  END IF;
+
+  -- Validate class exists
+  SELECT name INTO v_class_name
+  FROM classes
+  WHERE id = p_class_id;
+  
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Class not found',
+      'class_id', p_class_id
+    );
+  END IF;
+  
+  -- Use provided name or fetched name
+  v_class_name := COALESCE(p_class_name, v_class_name);
+  
+  -- Get counts before deletion
+  v_counts := get_class_deletion_counts(p_class_id);
+  
+  -- Get dinner table name if exists
+  SELECT table_name INTO v_dinner_table_name
+  FROM dinner_tables
+  WHERE class_id = p_class_id AND is_active = true
+  LIMIT 1;
+  
+  -- Perform atomic deletion
+  -- Foreign key cascades will handle most of the cleanup
+  
+  -- 1. Handle dinner table if exists
+  IF v_dinner_table_name IS NOT NULL THEN
+    BEGIN
+      -- Mark as inactive
+      UPDATE dinner_tables 
+      SET is_active = false 
+      WHERE class_id = p_class_id;
+      
+      -- Drop the table
+      EXECUTE format('DROP TABLE IF EXISTS %I CASCADE', v_dinner_table_name);
+      
+    EXCEPTION
+      WHEN OTHERS THEN
+        -- Log error but continue
+        INSERT INTO dinner_table_audit (table_name, action, details, performed_by)
+        VALUES (
+          v_dinner_table_name,
+          'DROP',
+          jsonb_build_object('error', SQLERRM, 'class_id', p_class_id),
+          auth.uid()
+        );
+    END;
+  END IF;
+  
+  -- 2. Delete the class (cascades will handle the rest)
+  DELETE FROM classes WHERE id = p_class_id;
+  
+  -- 3. Log successful deletion
+  INSERT INTO dinner_table_audit (table_name, action, details, performed_by)
+  VALUES (
+    'classes',
+    'DELETE',
+    jsonb_build_object(
+      'class_id', p_class_id,
+      'class_name', v_class_name,
+      'deleted_counts', v_counts,
+      'duration_ms', EXTRACT(MILLISECONDS FROM (NOW() - v_start_time))
+    ),
+    auth.uid()
+  );
+  
+  -- Return success response
+  RETURN jsonb_build_object(
+    'success', true,
+    'class_id', p_class_id,
+    'class_name', v_class_name,
+    'deleted_counts', v_counts,
+    'duration_ms', EXTRACT(MILLISECONDS FROM (NOW() - v_start_time)),
+    'timestamp', NOW()
+  );
+  
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Return error response
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'class_id', p_class_id,
+      'class_name', v_class_name,
+      'timestamp', NOW()
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Admin functions are for signed-in instructors only
+REVOKE EXECUTE ON FUNCTION run_opportunity_draw(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION remove_selected_student(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION run_class_allocation(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION apply_term_topup(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION delete_class_atomic(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION create_class_dinner_table(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION forfeit_expired_selections() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION refresh_opportunity_statuses() FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION run_opportunity_draw(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_selected_student(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION run_class_allocation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_term_topup(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_class_atomic(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_class_dinner_table(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION forfeit_expired_selections() TO authenticated;
+GRANT EXECUTE ON FUNCTION refresh_opportunity_statuses() TO authenticated;
@@ -0,0 +1,519 @@
+/*
+  # Hashed Class Passwords
+
+  1. Changes
+    - `classes.password_hash` now holds a bcrypt hash (pgcrypto). Existing plaintext
+      passwords are hashed in place, and a trigger hashes any new value written on
+      insert or update, so clients keep writing the plain password.
+    - Browsers can no longer read `password_hash`: SELECT on `classes` is granted per
+      column. New `classes` columns need to be added to the grant below.
+    - The unused `submit_student_bid_comprehensive` is dropped; it compared plaintext.
+
+  2. Functions
+    - `verify_class_password(p_class_id, p_class_password)`: lets a student check the
+      password before bidding
+    - `class_password_matches(...)`: internal check shared by every function that takes
+      `p_class_password`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+UPDATE classes
+SET password_hash = crypt(password_hash, gen_salt('bf'))
+WHERE password_hash !~ '^\$2[abxy]\$';
+
+CREATE OR REPLACE FUNCTION hash_class_password()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.password_hash IS DISTINCT FROM OLD.password_hash THEN
+    NEW.password_hash := crypt(NEW.password_hash, gen_salt('bf'));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS hash_class_password_trigger ON classes;
+CREATE TRIGGER hash_class_password_trigger
+  BEFORE INSERT OR UPDATE OF password_hash ON classes
+  FOR EACH ROW
+  EXECUTE FUNCTION hash_class_password();
+
+-- Everything except password_hash
+REVOKE SELECT ON classes FROM anon, authenticated;
+GRANT SELECT (
+  id, name, capacity_default, created_at, preferences_allocated_at, allocation_seed,
+  initial_tokens, refund_losing_bids, term_topup, max_token_balance, last_topup_at,
+  instructor_id
+) ON classes TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION class_password_matches(p_class_id uuid, p_class_password text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM classes
+    WHERE id = p_class_id
+      AND p_class_password IS NOT NULL
+      AND password_hash = crypt(p_class_password, password_hash)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION class_password_matches(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION verify_class_password(
+  p_class_id uuid,
+  p_class_password text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT class_password_matches(p_class_id, p_class_password) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+DROP FUNCTION IF EXISTS submit_student_bid_comprehensive(uuid, uuid, text, integer);
+
+-- Functions that take a class password check it against the hash
+
+CREATE OR REPLACE FUNCTION submit_student_bid_secure(
+  p_student_id uuid,
+  p_opportunity_id uuid,
+  p_class_password text,
+  p_bid_amount integer DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_class_id uuid;
+  v_student_record students%ROWTYPE;
+  v_opportunity_record opportunities%ROWTYPE;
+  v_bid_id uuid;
+BEGIN
+  IF p_bid_amount IS NULL OR p_bid_amount < 1 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Bid amount must be at least 1 token'
+    );
+  END IF;
+
+  -- Share-lock the opportunity so a bid cannot land while the draw is running
+  SELECT * INTO v_opportunity_record
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  v_class_id := v_opportunity_record.class_id;
+
+  -- Validate class password
+  IF NOT class_password_matches(v_class_id, p_class_password) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  -- Enforce the bidding window
+  IF v_opportunity_record.opens_at > NOW() THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Bidding has not opened yet. It opens at ' || v_opportunity_record.opens_at
+    );
+  END IF;
+
+  IF v_opportunity_record.closes_at <= NOW() OR v_opportunity_record.drawn_at IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Bidding has closed for this opportunity'
+    );
+  END IF;
+
+  -- Lock the student row so concurrent bids cannot overspend tokens
+  SELECT * INTO v_student_record
+  FROM students
+  WHERE id = p_student_id AND class_id = v_class_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student not found in this class'
+    );
+  END IF;
+
+  -- Check the student has enough tokens for the bid
+  IF v_student_record.tokens_remaining <= 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'No tokens remaining'
+    );
+  END IF;
+
+  IF v_student_record.tokens_remaining < p_bid_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Not enough tokens: ' || v_student_record.tokens_remaining || ' remaining'
+    );
+  END IF;
+
+  -- Check if student has already bid on this opportunity
+  IF EXISTS (
+    SELECT 1 FROM bids
+    WHERE student_id = p_student_id AND opportunity_id = p_opportunity_id
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student has already bid on this opportunity'
+    );
+  END IF;
+
+  -- Insert the bid
+  INSERT INTO bids (student_id, opportunity_id, bid_amount, bid_status)
+  VALUES (p_student_id, p_opportunity_id, p_bid_amount, 'placed')
+  RETURNING id INTO v_bid_id;
+
+  -- Update student token status
+  UPDATE students
+  SET
+    tokens_remaining = tokens_remaining - p_bid_amount,
+    token_status = 'used'
+  WHERE id = p_student_id;
+
+  -- Log the bid in token history
+  INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+  VALUES (
+    p_student_id,
+    p_opportunity_id,
+    -p_bid_amount,
+    'bid',
+    p_bid_amount || ' token(s) committed to bid'
+  );
+
+  -- Return success
+  RETURN jsonb_build_object(
+    'success', true,
+    'bid_id', v_bid_id,
+    'bid_amount', p_bid_amount,
+    'timestamp', now(),
+    'tokens_remaining', v_student_record.tokens_remaining - p_bid_amount
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION withdraw_student_bid(
+  p_student_id uuid,
+  p_opportunity_id uuid,
+  p_class_password text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_opportunity_record opportunities%ROWTYPE;
+  v_bid_record bids%ROWTYPE;
+  v_tokens_remaining integer;
+BEGIN
+  -- Lock the opportunity so a withdrawal cannot race the draw
+  SELECT * INTO v_opportunity_record
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  -- Validate class password
+  IF NOT class_password_matches(v_opportunity_record.class_id, p_class_password) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  IF v_opportunity_record.drawn_at IS NOT NULL OR v_opportunity_record.closes_at <= NOW() THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Bidding has closed for this opportunity'
+    );
+  END IF;
+
+  -- Lock the student before the bid, matching submit_student_bid_secure
+  PERFORM 1
+  FROM students
+  WHERE id = p_student_id AND class_id = v_opportunity_record.class_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student not found in this class'
+    );
+  END IF;
+
+  SELECT * INTO v_bid_record
+  FROM bids
+  WHERE student_id = p_student_id AND opportunity_id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_bid_record.bid_status <> 'placed' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'There is no open bid to withdraw'
+    );
+  END IF;
+
+  DELETE FROM bids
+  WHERE id = v_bid_record.id;
+
+  -- Return the full bid; this undoes the bid rather than crediting new tokens
+  UPDATE students
+  SET
+    tokens_remaining = tokens_remaining + v_bid_record.bid_amount,
+    token_status = CASE
+      WHEN EXISTS (SELECT 1 FROM bids WHERE student_id = p_student_id) THEN 'used'
+      ELSE 'unused'
+    END
+  WHERE id = p_student_id
+  RETURNING tokens_remaining INTO v_tokens_remaining;
+
+  INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+  VALUES (
+    p_student_id,
+    p_opportunity_id,
+    v_bid_record.bid_amount,
+    'refund',
+    'Bid withdrawn before bidding closed'
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'refunded_amount', v_bid_record.bid_amount,
+    'tokens_remaining', v_tokens_remaining,
+    'timestamp', now()
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION respond_to_selection(
+  p_student_id uuid,
+  p_opportunity_id uuid,
+  p_class_password text,
+  p_accept boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_opportunity_record opportunities%ROWTYPE;
+  v_bid_record bids%ROWTYPE;
+  v_promoted jsonb;
+BEGIN
+  -- Lock the opportunity so promotions are serialised with draws and removals
+  SELECT * INTO v_opportunity_record
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  -- Validate class password
+  IF NOT class_password_matches(v_opportunity_record.class_id, p_class_password) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  SELECT * INTO v_bid_record
+  FROM bids
+  WHERE student_id = p_student_id AND opportunity_id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_bid_record.bid_status <> 'selected' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'There is no pending place to respond to'
+    );
+  END IF;
+
+  IF v_bid_record.confirm_by IS NOT NULL AND v_bid_record.confirm_by < NOW() THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'The confirmation deadline has passed'
+    );
+  END IF;
+
+  IF p_accept THEN
+    UPDATE bids
+    SET bid_status = 'confirmed'
+    WHERE id = v_bid_record.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'bid_status', 'confirmed'
+    );
+  END IF;
+
+  UPDATE bids
+  SET
+    is_winner = false,
+    bid_status = 'declined'
+  WHERE id = v_bid_record.id;
+
+  v_promoted := promote_next_waitlisted(p_opportunity_id, p_student_id, 'declined');
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'bid_status', 'declined',
+    'promoted', v_promoted
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_student_preferences(
+  p_student_id uuid,
+  p_class_password text,
+  p_opportunity_ids uuid[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_student_record students%ROWTYPE;
+  v_ranked_count integer;
+BEGIN
+  SELECT * INTO v_student_record
+  FROM students
+  WHERE id = p_student_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Student not found'
+    );
+  END IF;
+
+  -- Validate class password
+  IF NOT class_password_matches(v_student_record.class_id, p_class_password) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM classes
+    WHERE id = v_student_record.class_id AND preferences_allocated_at IS NOT NULL
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Places for this class have already been allocated'
+    );
+  END IF;
+
+  SELECT COUNT(DISTINCT opportunity_id)::integer INTO v_ranked_count
+  FROM unnest(p_opportunity_ids) AS opportunity_id;
+
+  IF v_ranked_count <> COALESCE(array_length(p_opportunity_ids, 1), 0) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Each opportunity can only be ranked once'
+    );
+  END IF;
+
+  -- Every ranked opportunity must belong to the class and still be undrawn
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_opportunity_ids) AS ranked(opportunity_id)
+    LEFT JOIN opportunities o ON o.id = ranked.opportunity_id
+    WHERE o.id IS NULL
+      OR o.class_id <> v_student_record.class_id
+      OR o.drawn_at IS NOT NULL
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Preferences can only include undrawn opportunities in your class'
+    );
+  END IF;
+
+  DELETE FROM student_preferences
+  WHERE student_id = p_student_id;
+
+  INSERT INTO student_preferences (student_id, opportunity_id, rank)
+  SELECT p_student_id, ranked.opportunity_id, ranked.position
+  FROM unnest(p_opportunity_ids) WITH ORDINALITY AS ranked(opportunity_id, position);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'ranked_count', v_ranked_count,
+    'timestamp', now()
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
@@ -0,0 +1,235 @@
+/*
+  # Scope Every Read To The Signed-In User
+
+  1. Changes
+    - Anonymous users can no longer read classes, students or opportunities. Students
+      sign in with a one-time code, so every read now happens under a session:
+        - students see their own enrolments, bids, token history and preferences, and
+          the classes and opportunities they are enrolled in
+        - instructors see their own classes and everything that belongs to them
+    - Table privileges are revoked from `anon` so a missing policy can never expose rows.
+    - Dinner tables and their audit log are limited to the instructor of the class
+      instead of any signed-in user. This includes the per-class `{class_name}_dinners`
+      tables that already exist.
+    - `verify_class_password` only answers for classes the caller is enrolled in or
+      teaches, so class passwords cannot be guessed from outside the class.
+    - Legacy SECURITY DEFINER functions that read or write across classes without a
+      caller check are no longer executable by clients. Nothing in the app calls them.
+
+  2. Functions
+    - `create_class_dinner_table()` refuses classes the caller does not own and creates
+      the table's policy for that class only
+*/
+
+-- Anonymous read access was only kept for the old student sign-in flow
+DROP POLICY IF EXISTS "Students can view classes" ON classes;
+DROP POLICY IF EXISTS "Students can view students" ON students;
+DROP POLICY IF EXISTS "Students can view opportunities" ON opportunities;
+
+REVOKE ALL ON
+  classes,
+  students,
+  opportunities,
+  bids,
+  token_history,
+  student_preferences,
+  instructors,
+  dinner_tables,
+  dinner_table_audit,
+  opportunity_draw_secrets
+FROM anon;
+
+-- Dinner tables
+DROP POLICY IF EXISTS "Admins can manage dinner tables" ON dinner_tables;
+DROP POLICY IF EXISTS "Instructors can manage dinner tables in their classes" ON dinner_tables;
+
+CREATE POLICY "Instructors can manage dinner tables in their classes"
+  ON dinner_tables FOR ALL
+  TO authenticated
+  USING (is_class_instructor(class_id))
+  WITH CHECK (is_class_instructor(class_id));
+
+DROP POLICY IF EXISTS "Admins can view audit logs" ON dinner_table_audit;
+DROP POLICY IF EXISTS "Instructors can view audit logs in their classes" ON dinner_table_audit;
+
+CREATE POLICY "Instructors can view audit logs in their classes"
+  ON dinner_table_audit FOR SELECT
+  TO authenticated
+  USING (table_name IN (
+    SELECT dt.table_name FROM dinner_tables dt WHERE is_class_instructor(dt.class_id)
+  ));
+
+CREATE OR REPLACE FUNCTION create_class_dinner_table(
+  p_class_id uuid,
+  p_class_name text
+)
+RETURNS text AS $$
+DECLARE
+  table_name text;
+  sql_statement text;
+BEGIN
+  IF NOT is_class_instructor(p_class_id) THEN
+    RAISE EXCEPTION 'You do not manage this class';
+  END IF;
+
+  -- Sanitize the class name for use as table name
+  table_name := sanitize_table_name(p_class_name) || '_dinners';
+
+  -- Check if table already exists
+  IF EXISTS (
+    SELECT 1 FROM dinner_tables
+    WHERE class_id = p_class_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Dinner table already exists for this class';
+  END IF;
+
+  -- Create the dynamic table
+  sql_statement := format('
+    CREATE TABLE IF NOT EXISTS %I (
+      dinner_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+      host_name text NOT NULL,
+      location text NOT NULL,
+      max_guests integer NOT NULL DEFAULT 7,
+      created_at timestamptz DEFAULT now(),
+      updated_at timestamptz DEFAULT now(),
+      created_by uuid REFERENCES auth.users(id),
+      is_active boolean DEFAULT true
+    )', table_name);
+
+  EXECUTE sql_statement;
+
+  -- Enable RLS on the new table
+  EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', table_name);
+  EXECUTE format('REVOKE ALL ON %I FROM anon', table_name);
+
+  -- Only the class's instructor can use the new table
+  EXECUTE format('
+    CREATE POLICY %I
+      ON %I
+      FOR ALL
+      TO authenticated
+      USING (is_class_instructor(%L))
+      WITH CHECK (is_class_instructor(%L))
+  ', 'Instructors can manage ' || table_name, table_name, p_class_id, p_class_id);
+
+  -- Create indexes
+  EXECUTE format('CREATE INDEX IF NOT EXISTS idx_%I_host_name ON %I(host_name)', table_name, table_name);
+  EXECUTE format('CREATE INDEX IF NOT EXISTS idx_%I_location ON %I(location)', table_name, table_name);
+  EXECUTE format('CREATE INDEX IF NOT EXISTS idx_%I_created_at ON %I(created_at)', table_name, table_name);
+
+  -- Create updated_at trigger
+  EXECUTE format('
+    CREATE TRIGGER update_%I_updated_at
+      BEFORE UPDATE ON %I
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column()
+  ', table_name, table_name);
+
+  -- Record in metadata table
+  INSERT INTO dinner_tables (class_id, table_name, class_name, created_by)
+  VALUES (p_class_id, table_name, p_class_name, auth.uid());
+
+  -- Log the action
+  INSERT INTO dinner_table_audit (table_name, action, details, performed_by)
+  VALUES (table_name, 'CREATE', jsonb_build_object(
+    'class_id', p_class_id,
+    'class_name', p_class_name
+  ), auth.uid());
+
+  RETURN table_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace the "any signed-in user" policy on dinner tables that already exist
+DO $$
+DECLARE
+  v_table record;
+BEGIN
+  FOR v_table IN
+    SELECT table_name, class_id FROM dinner_tables WHERE is_active = true
+  LOOP
+    IF to_regclass(format('public.%I', v_table.table_name)) IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I',
+      'Admins can manage ' || v_table.table_name, v_table.table_name);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I',
+      'Instructors can manage ' || v_table.table_name, v_table.table_name);
+    EXECUTE format('REVOKE ALL ON %I FROM anon', v_table.table_name);
+    EXECUTE format('
+      CREATE POLICY %I
+        ON %I
+        FOR ALL
+        TO authenticated
+        USING (is_class_instructor(%L))
+        WITH CHECK (is_class_instructor(%L))
+    ', 'Instructors can manage ' || v_table.table_name, v_table.table_name,
+       v_table.class_id, v_table.class_id);
+  END LOOP;
+END;
+$$;
+
+-- Class passwords can only be checked from inside the class
+CREATE OR REPLACE FUNCTION verify_class_password(
+  p_class_id uuid,
+  p_class_password text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_class_id NOT IN (SELECT current_student_class_ids())
+     AND NOT is_class_instructor(p_class_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You are not enrolled in this class'
+    );
+  END IF;
+
+  IF NOT class_password_matches(p_class_id, p_class_password) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+-- Student functions are for signed-in students only
+REVOKE EXECUTE ON FUNCTION verify_class_password(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION submit_student_bid_secure(uuid, uuid, text, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION withdraw_student_bid(uuid, uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION respond_to_selection(uuid, uuid, text, boolean) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION submit_student_preferences(uuid, text, uuid[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION reveal_draw_seed(uuid) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION verify_class_password(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_student_bid_secure(uuid, uuid, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION withdraw_student_bid(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_to_selection(uuid, uuid, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_student_preferences(uuid, text, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION reveal_draw_seed(uuid) TO authenticated;
+
+-- Legacy functions bypass RLS without checking who is calling
+REVOKE EXECUTE ON FUNCTION submit_student_bid(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_student_eligibility(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_opportunity_bid_status(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_class_bid_stats(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_class_token_stats(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_student_token_status(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_opportunity_capacity(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_opportunity_with_capacity(uuid, text, timestamptz, timestamptz, date, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_class_deletion_counts(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION preview_class_deletion(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION drop_class_dinner_table(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,16 @@
+/*
+  # Store Reward Details On The Class
+
+  1. Changes
+    - `classes.reward_title` and `classes.reward_description` hold the reward shown to
+      students. They were previously only kept in the browser's local storage, so edits
+      were lost on another device and never reached students.
+    - Both columns are added to the per-column SELECT grant on `classes`.
+*/
+
+ALTER TABLE classes
+  ADD COLUMN IF NOT EXISTS reward_title text NOT NULL DEFAULT 'Dinner with Professor',
+  ADD COLUMN IF NOT EXISTS reward_description text NOT NULL
+    DEFAULT 'Join the professor for dinner and discussion at a local restaurant.';
+
+GRANT SELECT (reward_title, reward_description) ON classes TO authenticated;
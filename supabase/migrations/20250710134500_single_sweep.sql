@@ -0,0 +1,119 @@
+/*
+  # Load The Admin Overview In One Round-Trip
+
+  1. Changes
+    - The admin console used to run three queries per class (students, opportunities
+      and bid statistics) plus one for draw results. It now reads every class with one
+      call to `get_admin_overview()` and loads draw results only for the class on screen
+      with `get_class_detail()`.
+    - Both functions run as the caller, so RLS decides what they return: instructors get
+      their own classes, students get their enrolments. Bid counts are therefore only
+      complete for instructors, as before.
+    - Columns are listed explicitly because `classes` is readable per column only.
+
+  2. Functions
+    - `class_overview(p_class_id, p_include_draws)`: one class as jsonb with its students,
+      opportunities and bid counts; with `p_include_draws` each opportunity also lists
+      its winners and waitlist in draw order
+    - `get_admin_overview()`: every visible class, newest first
+    - `get_class_detail(p_class_id)`: one class with draw results
+*/
+
+CREATE OR REPLACE FUNCTION class_overview(p_class_id uuid, p_include_draws boolean)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', c.id,
+    'name', c.name,
+    'capacity_default', c.capacity_default,
+    'initial_tokens', c.initial_tokens,
+    'refund_losing_bids', c.refund_losing_bids,
+    'term_topup', c.term_topup,
+    'max_token_balance', c.max_token_balance,
+    'last_topup_at', c.last_topup_at,
+    'reward_title', c.reward_title,
+    'reward_description', c.reward_description,
+    'instructor_id', c.instructor_id,
+    'created_at', c.created_at,
+    'students', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', s.id,
+        'name', s.name,
+        'email', s.email,
+        'student_number', s.student_number,
+        'tokens_remaining', s.tokens_remaining,
+        'token_status', s.token_status
+      ) ORDER BY s.name)
+      FROM students s
+      WHERE s.class_id = c.id
+    ), '[]'::jsonb),
+    'opportunities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o.id,
+        'description', o.description,
+        'event_date', o.event_date,
+        'opens_at', o.opens_at,
+        'closes_at', o.closes_at,
+        'drawn_at', o.drawn_at,
+        'status', o.status,
+        'capacity', o.capacity,
+        'draw_seed_hash', o.draw_seed_hash,
+        'draw_seed', o.draw_seed,
+        'allocation_mode', o.allocation_mode,
+        'clearing_price', o.clearing_price,
+        'bid_count', COALESCE(bc.bid_count, 0),
+        'winner_ids', CASE WHEN p_include_draws THEN COALESCE((
+          SELECT jsonb_agg(b.student_id ORDER BY b.created_at)
+          FROM bids b
+          WHERE b.opportunity_id = o.id AND b.is_winner
+        ), '[]'::jsonb) END,
+        'waitlist_ids', CASE WHEN p_include_draws THEN COALESCE((
+          SELECT jsonb_agg(b.student_id ORDER BY b.waitlist_position)
+          FROM bids b
+          WHERE b.opportunity_id = o.id AND b.bid_status = 'waitlisted'
+        ), '[]'::jsonb) END
+      ) ORDER BY o.event_date)
+      FROM opportunities o
+      LEFT JOIN (
+        SELECT b.opportunity_id, COUNT(*) AS bid_count
+        FROM bids b
+        JOIN opportunities bo ON bo.id = b.opportunity_id
+        WHERE bo.class_id = p_class_id
+        GROUP BY b.opportunity_id
+      ) bc ON bc.opportunity_id = o.id
+      WHERE o.class_id = c.id
+    ), '[]'::jsonb)
+  )
+  FROM classes c
+  WHERE c.id = p_class_id;
+$$;
+
+CREATE OR REPLACE FUNCTION get_admin_overview()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(class_overview(c.id, false) ORDER BY c.created_at DESC),
+    '[]'::jsonb
+  )
+  FROM classes c;
+$$;
+
+CREATE OR REPLACE FUNCTION get_class_detail(p_class_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT class_overview(p_class_id, true);
+$$;
+
+REVOKE EXECUTE ON FUNCTION class_overview(uuid, boolean) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_admin_overview() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_class_detail(uuid) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION class_overview(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_admin_overview() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_class_detail(uuid) TO authenticated;
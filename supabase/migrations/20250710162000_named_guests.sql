@@ -0,0 +1,147 @@
+/*
+  # List Real Bidders Per Opportunity
+
+  1. Changes
+    - Opportunities used to carry placeholder bidders ("Bidder 1", "Bidder 2", ...) built
+      from the bid count. `get_opportunity_bidders()` returns the students behind the bids
+      with their amount, status and submission time, one page at a time so large lectures
+      are not loaded in one go.
+    - `class_overview()` now embeds the first page of bidders for each opportunity when
+      draw results are requested, so `get_class_detail()` shows real names straight away.
+    - The function runs as the caller: instructors see every bidder in their classes,
+      students only see their own bid.
+
+  2. Functions
+    - `get_opportunity_bidders(p_opportunity_id, p_limit, p_offset)`: `{ total, bidders }`
+      with bidders in the order they bid
+    - `class_overview(p_class_id, p_include_draws)`: adds `bidders` to each opportunity
+*/
+
+CREATE OR REPLACE FUNCTION get_opportunity_bidders(
+  p_opportunity_id uuid,
+  p_limit integer DEFAULT 50,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH ranked AS (
+    SELECT
+      s.id,
+      s.name,
+      s.email,
+      s.student_number,
+      s.tokens_remaining,
+      s.token_status,
+      b.id AS bid_id,
+      b.bid_amount,
+      b.bid_status,
+      COALESCE(b.submission_timestamp, b.created_at) AS bid_at
+    FROM bids b
+    JOIN students s ON s.id = b.student_id
+    WHERE b.opportunity_id = p_opportunity_id
+  ),
+  page AS (
+    SELECT *
+    FROM ranked
+    ORDER BY bid_at, bid_id
+    LIMIT GREATEST(p_limit, 0)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM ranked),
+    'bidders', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'name', p.name,
+        'email', p.email,
+        'student_number', p.student_number,
+        'tokens_remaining', p.tokens_remaining,
+        'token_status', p.token_status,
+        'bid_id', p.bid_id,
+        'bid_amount', p.bid_amount,
+        'bid_status', p.bid_status,
+        'bid_at', p.bid_at
+      ) ORDER BY p.bid_at, p.bid_id)
+      FROM page p
+    ), '[]'::jsonb)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION class_overview(p_class_id uuid, p_include_draws boolean)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', c.id,
+    'name', c.name,
+    'capacity_default', c.capacity_default,
+    'initial_tokens', c.initial_tokens,
+    'refund_losing_bids', c.refund_losing_bids,
+    'term_topup', c.term_topup,
+    'max_token_balance', c.max_token_balance,
+    'last_topup_at', c.last_topup_at,
+    'reward_title', c.reward_title,
+    'reward_description', c.reward_description,
+    'instructor_id', c.instructor_id,
+    'created_at', c.created_at,
+    'students', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', s.id,
+        'name', s.name,
+        'email', s.email,
+        'student_number', s.student_number,
+        'tokens_remaining', s.tokens_remaining,
+        'token_status', s.token_status
+      ) ORDER BY s.name)
+      FROM students s
+      WHERE s.class_id = c.id
+    ), '[]'::jsonb),
+    'opportunities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o.id,
+        'description', o.description,
+        'event_date', o.event_date,
+        'opens_at', o.opens_at,
+        'closes_at', o.closes_at,
+        'drawn_at', o.drawn_at,
+        'status', o.status,
+        'capacity', o.capacity,
+        'draw_seed_hash', o.draw_seed_hash,
+        'draw_seed', o.draw_seed,
+        'allocation_mode', o.allocation_mode,
+        'clearing_price', o.clearing_price,
+        'bid_count', COALESCE(bc.bid_count, 0),
+        'bidders', CASE WHEN p_include_draws THEN
+          get_opportunity_bidders(o.id) -> 'bidders'
+        END,
+        'winner_ids', CASE WHEN p_include_draws THEN COALESCE((
+          SELECT jsonb_agg(b.student_id ORDER BY b.created_at)
+          FROM bids b
+          WHERE b.opportunity_id = o.id AND b.is_winner
+        ), '[]'::jsonb) END,
+        'waitlist_ids', CASE WHEN p_include_draws THEN COALESCE((
+          SELECT jsonb_agg(b.student_id ORDER BY b.waitlist_position)
+          FROM bids b
+          WHERE b.opportunity_id = o.id AND b.bid_status = 'waitlisted'
+        ), '[]'::jsonb) END
+      ) ORDER BY o.event_date)
+      FROM opportunities o
+      LEFT JOIN (
+        SELECT b.opportunity_id, COUNT(*) AS bid_count
+        FROM bids b
+        JOIN opportunities bo ON bo.id = b.opportunity_id
+        WHERE bo.class_id = p_class_id
+        GROUP BY b.opportunity_id
+      ) bc ON bc.opportunity_id = o.id
+      WHERE o.class_id = c.id
+    ), '[]'::jsonb)
+  )
+  FROM classes c
+  WHERE c.id = p_class_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_opportunity_bidders(uuid, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_opportunity_bidders(uuid, integer, integer) TO authenticated;
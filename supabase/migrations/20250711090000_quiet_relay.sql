@@ -0,0 +1,79 @@
+/*
+  # Tag Bids And Token History With Their Class
+
+  1. Changes
+    - `bids.class_id` and `token_history.class_id` record the class a row belongs to. They
+      are filled in by triggers from the opportunity or student, so callers never set them.
+    - Realtime subscriptions can now filter every table on `class_id=eq.<class>`. Before
+      this the bids and token history feeds had no filter and every client received every
+      change in the database.
+    - Existing rows are backfilled.
+
+  2. Functions
+    - `set_bid_class_id()`: trigger that copies the class from the bid's opportunity
+    - `set_token_history_class_id()`: trigger that copies the class from the student
+*/
+
+ALTER TABLE bids
+  ADD COLUMN IF NOT EXISTS class_id uuid REFERENCES classes(id) ON DELETE CASCADE;
+
+ALTER TABLE token_history
+  ADD COLUMN IF NOT EXISTS class_id uuid REFERENCES classes(id) ON DELETE CASCADE;
+
+UPDATE bids b
+SET class_id = o.class_id
+FROM opportunities o
+WHERE o.id = b.opportunity_id AND b.class_id IS NULL;
+
+UPDATE token_history th
+SET class_id = s.class_id
+FROM students s
+WHERE s.id = th.student_id AND th.class_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bids_class_id ON bids(class_id);
+CREATE INDEX IF NOT EXISTS idx_token_history_class_id ON token_history(class_id);
+
+CREATE OR REPLACE FUNCTION set_bid_class_id()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT class_id INTO NEW.class_id
+  FROM opportunities
+  WHERE id = NEW.opportunity_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_token_history_class_id()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT class_id INTO NEW.class_id
+  FROM students
+  WHERE id = NEW.student_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_bid_class_id ON bids;
+CREATE TRIGGER set_bid_class_id
+  BEFORE INSERT OR UPDATE OF opportunity_id ON bids
+  FOR EACH ROW
+  EXECUTE FUNCTION set_bid_class_id();
+
+DROP TRIGGER IF EXISTS set_token_history_class_id ON token_history;
+CREATE TRIGGER set_token_history_class_id
+  BEFORE INSERT OR UPDATE OF student_id ON token_history
+  FOR EACH ROW
+  EXECUTE FUNCTION set_token_history_class_id();
+
+REVOKE EXECUTE ON FUNCTION set_bid_class_id() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION set_token_history_class_id() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,242 @@
+/*
+  # Sync Class Rosters Without Deleting Students
+
+  1. Changes
+    - CSV uploads used to delete every student in the class and insert the file again.
+      The delete cascaded to bids and token history, so a mid-term roster update wiped
+      every student's bidding record.
+    - `students.archived_at` soft-archives students who have left the course. Archived
+      students keep their bids and token history for the instructor's records, but are
+      left out of the class overview and can no longer sign in to the class or bid.
+    - `sync_class_roster()` applies a roster in one transaction: rows are matched to
+      existing students by student number, then by email; matches keep their id, tokens
+      and bids and have their details updated; unmatched rows are inserted; students
+      missing from the roster are archived. Archived students who reappear are restored.
+
+  2. Functions
+    - `sync_class_roster(p_class_id, p_students)`: returns the added, updated, unchanged,
+      restored and archived counts
+    - `is_current_student(p_student_id)` and `current_student_class_ids()`: ignore
+      archived enrolments
+    - `class_overview(p_class_id, p_include_draws)`: lists active students only
+*/
+
+ALTER TABLE students ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_students_class_active ON students(class_id) WHERE archived_at IS NULL;
+
+CREATE OR REPLACE FUNCTION is_current_student(p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM students
+    WHERE id = p_student_id
+      AND archived_at IS NULL
+      AND auth.jwt() ->> 'email' IS NOT NULL
+      AND lower(email) = lower(auth.jwt() ->> 'email')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION current_student_class_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT class_id FROM students
+  WHERE archived_at IS NULL
+    AND auth.jwt() ->> 'email' IS NOT NULL
+    AND lower(email) = lower(auth.jwt() ->> 'email');
+$$;
+
+CREATE OR REPLACE FUNCTION sync_class_roster(p_class_id uuid, p_students jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_student students%ROWTYPE;
+  v_student_id uuid;
+  v_matched uuid[] := '{}';
+  v_added integer := 0;
+  v_updated integer := 0;
+  v_unchanged integer := 0;
+  v_restored integer := 0;
+  v_archived integer := 0;
+BEGIN
+  IF NOT is_class_instructor(p_class_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You do not manage this class'
+    );
+  END IF;
+
+  IF jsonb_typeof(p_students) IS DISTINCT FROM 'array' OR jsonb_array_length(p_students) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'The roster is empty'
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_students) AS r(name text, email text, student_number text)
+    WHERE COALESCE(trim(r.name), '') = ''
+       OR COALESCE(trim(r.email), '') = ''
+       OR COALESCE(trim(r.student_number), '') = ''
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Every student needs a name, email and student number'
+    );
+  END IF;
+
+  -- Serialise syncs of the same class
+  PERFORM 1 FROM classes WHERE id = p_class_id FOR UPDATE;
+
+  FOR v_row IN
+    SELECT trim(r.name) AS name, lower(trim(r.email)) AS email, trim(r.student_number) AS student_number
+    FROM jsonb_to_recordset(p_students) AS r(name text, email text, student_number text)
+  LOOP
+    SELECT * INTO v_student
+    FROM students s
+    WHERE s.class_id = p_class_id
+      AND NOT (s.id = ANY(v_matched))
+      AND (lower(s.student_number) = lower(v_row.student_number) OR lower(s.email) = v_row.email)
+    ORDER BY (lower(s.student_number) = lower(v_row.student_number)) DESC, s.archived_at NULLS FIRST
+    LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+      v_matched := v_matched || v_student.id;
+
+      IF v_student.archived_at IS NOT NULL THEN
+        v_restored := v_restored + 1;
+      ELSIF v_student.name IS DISTINCT FROM v_row.name
+         OR v_student.email IS DISTINCT FROM v_row.email
+         OR v_student.student_number IS DISTINCT FROM v_row.student_number THEN
+        v_updated := v_updated + 1;
+      ELSE
+        v_unchanged := v_unchanged + 1;
+        CONTINUE;
+      END IF;
+
+      UPDATE students
+      SET name = v_row.name,
+          email = v_row.email,
+          student_number = v_row.student_number,
+          archived_at = NULL
+      WHERE id = v_student.id;
+    ELSE
+      -- tokens_remaining is set from the class token policy on insert
+      INSERT INTO students (class_id, name, email, student_number)
+      VALUES (p_class_id, v_row.name, v_row.email, v_row.student_number)
+      RETURNING id INTO v_student_id;
+
+      v_matched := v_matched || v_student_id;
+      v_added := v_added + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE students
+  SET archived_at = now()
+  WHERE class_id = p_class_id
+    AND archived_at IS NULL
+    AND NOT (id = ANY(v_matched));
+
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'added', v_added,
+    'updated', v_updated,
+    'unchanged', v_unchanged,
+    'restored', v_restored,
+    'archived', v_archived
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION class_overview(p_class_id uuid, p_include_draws boolean)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', c.id,
+    'name', c.name,
+    'capacity_default', c.capacity_default,
+    'initial_tokens', c.initial_tokens,
+    'refund_losing_bids', c.refund_losing_bids,
+    'term_topup', c.term_topup,
+    'max_token_balance', c.max_token_balance,
+    'last_topup_at', c.last_topup_at,
+    'reward_title', c.reward_title,
+    'reward_description', c.reward_description,
+    'instructor_id', c.instructor_id,
+    'created_at', c.created_at,
+    'students', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', s.id,
+        'name', s.name,
+        'email', s.email,
+        'student_number', s.student_number,
+        'tokens_remaining', s.tokens_remaining,
+        'token_status', s.token_status
+      ) ORDER BY s.name)
+      FROM students s
+      WHERE s.class_id = c.id AND s.archived_at IS NULL
+    ), '[]'::jsonb),
+    'opportunities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o.id,
+        'description', o.description,
+        'event_date', o.event_date,
+        'opens_at', o.opens_at,
+        'closes_at', o.closes_at,
+        'drawn_at', o.drawn_at,
+        'status', o.status,
+        'capacity', o.capacity,
+        'draw_seed_hash', o.draw_seed_hash,
+        'draw_seed', o.draw_seed,
+        'allocation_mode', o.allocation_mode,
+        'clearing_price', o.clearing_price,
+        'bid_count', COALESCE(bc.bid_count, 0),
+        'bidders', CASE WHEN p_include_draws THEN
+          get_opportunity_bidders(o.id) -> 'bidders'
+        END,
+        'winner_ids', CASE WHEN p_include_draws THEN COALESCE((
+          SELECT jsonb_agg(b.student_id ORDER BY b.created_at)
+          FROM bids b
+          WHERE b.opportunity_id = o.id AND b.is_winner
+        ), '[]'::jsonb) END,
+        'waitlist_ids', CASE WHEN p_include_draws THEN COALESCE((
+          SELECT jsonb_agg(b.student_id ORDER BY b.waitlist_position)
+          FROM bids b
+          WHERE b.opportunity_id = o.id AND b.bid_status = 'waitlisted'
+        ), '[]'::jsonb) END
+      ) ORDER BY o.event_date)
+      FROM opportunities o
+      LEFT JOIN (
+        SELECT b.opportunity_id, COUNT(*) AS bid_count
+        FROM bids b
+        JOIN opportunities bo ON bo.id = b.opportunity_id
+        WHERE bo.class_id = p_class_id
+        GROUP BY b.opportunity_id
+      ) bc ON bc.opportunity_id = o.id
+      WHERE o.class_id = c.id
+    ), '[]'::jsonb)
+  )
+  FROM classes c
+  WHERE c.id = p_class_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION sync_class_roster(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION sync_class_roster(uuid, jsonb) TO authenticated;
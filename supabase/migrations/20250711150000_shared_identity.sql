@@ -0,0 +1,624 @@
+/*
+  # One Identity Per Student Across Classes
+
+  1. New Tables
+    - `people`: one row per student, whichever classes they take. Email is unique
+      (case-insensitively) here rather than per enrolment, so the same student can be
+      uploaded into a second class.
+    - `class_enrollments`: the former `students` table, renamed. Each row is one person
+      in one class and keeps its id, tokens, token status, bidding result and archive
+      flag, so bids and token history stay attached to the enrolment they were made in.
+      Names, emails and student numbers move to `people`.
+
+  2. Changes
+    - `students` is now a view of enrolments joined to their person, with the same
+      columns as before plus `person_id`. Inserts, updates and deletes through the view
+      are routed to the two tables, so existing RPCs and queries keep working. The view
+      runs with the caller's permissions, so row level security still applies.
+    - Instructors can read and correct the people enrolled in their classes; a signed-in
+      student can read their own person row.
+
+  3. Functions
+    - `ensure_person(p_name, p_email, p_student_number)`: the person with this email,
+      created if new
+    - `enroll_students(p_class_id, p_students)`: enrols students in a class, reusing the
+      identity of anyone already enrolled elsewhere
+    - `sync_class_roster(p_class_id, p_students)`: matches, adds and archives enrolments,
+      updating the shared person details
+    - `class_overview()`, `get_opportunity_bidders()`, `is_current_student()`,
+      `current_student_class_ids()` and `set_token_history_class_id()`: read the new tables
+*/
+
+CREATE TABLE IF NOT EXISTS people (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  email text NOT NULL,
+  student_number text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS people_email_key ON people(lower(email));
+CREATE INDEX IF NOT EXISTS idx_people_student_number ON people(lower(student_number));
+
+-- students.email was globally unique, so every existing row becomes its own person
+INSERT INTO people (name, email, student_number, created_at)
+SELECT DISTINCT ON (lower(email)) name, email, student_number, created_at
+FROM students
+ORDER BY lower(email), created_at DESC;
+
+ALTER TABLE students RENAME TO class_enrollments;
+
+ALTER TABLE class_enrollments ADD COLUMN person_id uuid REFERENCES people(id);
+
+UPDATE class_enrollments e
+SET person_id = p.id
+FROM people p
+WHERE lower(p.email) = lower(e.email);
+
+ALTER TABLE class_enrollments ALTER COLUMN person_id SET NOT NULL;
+ALTER TABLE class_enrollments
+  ADD CONSTRAINT class_enrollments_class_person_key UNIQUE (class_id, person_id);
+
+CREATE INDEX IF NOT EXISTS idx_class_enrollments_person_id ON class_enrollments(person_id);
+
+ALTER TABLE class_enrollments
+  DROP COLUMN name,
+  DROP COLUMN email,
+  DROP COLUMN student_number;
+
+CREATE VIEW students WITH (security_invoker = true) AS
+SELECT
+  e.id,
+  e.class_id,
+  e.person_id,
+  p.name,
+  p.email,
+  p.student_number,
+  e.tokens_remaining,
+  e.token_status,
+  e.bidding_result,
+  e.archived_at,
+  e.created_at
+FROM class_enrollments e
+JOIN people p ON p.id = e.person_id;
+
+-- Column defaults so inserts through the view match inserts into the old table
+ALTER VIEW students ALTER COLUMN id SET DEFAULT gen_random_uuid();
+ALTER VIEW students ALTER COLUMN token_status SET DEFAULT 'unused';
+ALTER VIEW students ALTER COLUMN bidding_result SET DEFAULT 'pending';
+ALTER VIEW students ALTER COLUMN created_at SET DEFAULT now();
+
+ALTER TABLE people ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Instructors can view people in their classes" ON people;
+DROP POLICY IF EXISTS "Instructors can update people in their classes" ON people;
+DROP POLICY IF EXISTS "Students can view themselves" ON people;
+
+CREATE POLICY "Instructors can view people in their classes"
+  ON people FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM class_enrollments e
+    WHERE e.person_id = people.id AND is_class_instructor(e.class_id)
+  ));
+
+CREATE POLICY "Instructors can update people in their classes"
+  ON people FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM class_enrollments e
+    WHERE e.person_id = people.id AND is_class_instructor(e.class_id)
+  ));
+
+CREATE POLICY "Students can view themselves"
+  ON people FOR SELECT
+  TO authenticated
+  USING (
+    auth.jwt() ->> 'email' IS NOT NULL
+    AND lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+REVOKE ALL ON people FROM anon;
+GRANT SELECT, UPDATE ON people TO authenticated;
+
+REVOKE ALL ON students FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON students TO authenticated;
+
+-- SECURITY DEFINER because the person may only be enrolled in classes the caller cannot
+-- see. Existing people are returned as they are; their details are only changed by a
+-- roster sync or an explicit update.
+CREATE OR REPLACE FUNCTION ensure_person(p_name text, p_email text, p_student_number text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_person_id uuid;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (SELECT 1 FROM instructors WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only instructors can add students';
+  END IF;
+
+  SELECT id INTO v_person_id
+  FROM people
+  WHERE lower(email) = lower(trim(p_email));
+
+  IF NOT FOUND THEN
+    INSERT INTO people (name, email, student_number)
+    VALUES (trim(p_name), lower(trim(p_email)), NULLIF(trim(p_student_number), ''))
+    RETURNING id INTO v_person_id;
+  END IF;
+
+  RETURN v_person_id;
+END;
+$$;
+
+-- The view triggers run as the caller, so class_enrollments and people policies apply
+CREATE OR REPLACE FUNCTION insert_student_enrollment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- tokens_remaining is set from the class token policy on insert
+  INSERT INTO class_enrollments (id, class_id, person_id, token_status, bidding_result, archived_at, created_at)
+  VALUES (
+    NEW.id,
+    NEW.class_id,
+    COALESCE(NEW.person_id, ensure_person(NEW.name, NEW.email, NEW.student_number)),
+    NEW.token_status,
+    NEW.bidding_result,
+    NEW.archived_at,
+    NEW.created_at
+  );
+
+  SELECT * INTO NEW FROM students WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_student_enrollment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name
+     OR NEW.email IS DISTINCT FROM OLD.email
+     OR NEW.student_number IS DISTINCT FROM OLD.student_number THEN
+    UPDATE people
+    SET name = NEW.name,
+        email = NEW.email,
+        student_number = NEW.student_number
+    WHERE id = OLD.person_id;
+  END IF;
+
+  UPDATE class_enrollments
+  SET class_id = NEW.class_id,
+      tokens_remaining = NEW.tokens_remaining,
+      token_status = NEW.token_status,
+      bidding_result = NEW.bidding_result,
+      archived_at = NEW.archived_at
+  WHERE id = OLD.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_student_enrollment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM class_enrollments WHERE id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS insert_student_enrollment ON students;
+CREATE TRIGGER insert_student_enrollment
+  INSTEAD OF INSERT ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION insert_student_enrollment();
+
+DROP TRIGGER IF EXISTS update_student_enrollment ON students;
+CREATE TRIGGER update_student_enrollment
+  INSTEAD OF UPDATE ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION update_student_enrollment();
+
+DROP TRIGGER IF EXISTS delete_student_enrollment ON students;
+CREATE TRIGGER delete_student_enrollment
+  INSTEAD OF DELETE ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_student_enrollment();
+
+CREATE OR REPLACE FUNCTION set_token_history_class_id()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT class_id INTO NEW.class_id
+  FROM class_enrollments
+  WHERE id = NEW.student_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION is_current_student(p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM class_enrollments e
+    JOIN people p ON p.id = e.person_id
+    WHERE e.id = p_student_id
+      AND e.archived_at IS NULL
+      AND auth.jwt() ->> 'email' IS NOT NULL
+      AND lower(p.email) = lower(auth.jwt() ->> 'email')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION current_student_class_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.class_id
+  FROM class_enrollments e
+  JOIN people p ON p.id = e.person_id
+  WHERE e.archived_at IS NULL
+    AND auth.jwt() ->> 'email' IS NOT NULL
+    AND lower(p.email) = lower(auth.jwt() ->> 'email');
+$$;
+
+CREATE OR REPLACE FUNCTION enroll_students(p_class_id uuid, p_students jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_person_id uuid;
+  v_enrollment_id uuid;
+  v_enrolled uuid[] := '{}';
+BEGIN
+  IF NOT is_class_instructor(p_class_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You do not manage this class'
+    );
+  END IF;
+
+  IF jsonb_typeof(p_students) IS DISTINCT FROM 'array' OR EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_students) AS r(name text, email text)
+    WHERE COALESCE(trim(r.name), '') = '' OR COALESCE(trim(r.email), '') = ''
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Every student needs a name and email'
+    );
+  END IF;
+
+  FOR v_row IN
+    SELECT r.name, r.email, r.student_number
+    FROM jsonb_to_recordset(p_students) AS r(name text, email text, student_number text)
+  LOOP
+    v_person_id := ensure_person(v_row.name, v_row.email, v_row.student_number);
+
+    -- Re-adding an archived student restores their enrolment
+    INSERT INTO class_enrollments (class_id, person_id)
+    VALUES (p_class_id, v_person_id)
+    ON CONFLICT (class_id, person_id) DO UPDATE SET archived_at = NULL
+    RETURNING id INTO v_enrollment_id;
+
+    v_enrolled := v_enrolled || v_enrollment_id;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'students', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', s.id,
+        'class_id', s.class_id,
+        'person_id', s.person_id,
+        'name', s.name,
+        'email', s.email,
+        'student_number', s.student_number,
+        'tokens_remaining', s.tokens_remaining,
+        'created_at', s.created_at
+      ) ORDER BY array_position(v_enrolled, s.id))
+      FROM students s
+      WHERE s.id = ANY(v_enrolled)
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_class_roster(p_class_id uuid, p_students jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_match record;
+  v_person_id uuid;
+  v_enrollment_id uuid;
+  v_matched uuid[] := '{}';
+  v_added integer := 0;
+  v_updated integer := 0;
+  v_unchanged integer := 0;
+  v_restored integer := 0;
+  v_archived integer := 0;
+BEGIN
+  IF NOT is_class_instructor(p_class_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You do not manage this class'
+    );
+  END IF;
+
+  IF jsonb_typeof(p_students) IS DISTINCT FROM 'array' OR jsonb_array_length(p_students) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'The roster is empty'
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_students) AS r(name text, email text, student_number text)
+    WHERE COALESCE(trim(r.name), '') = ''
+       OR COALESCE(trim(r.email), '') = ''
+       OR COALESCE(trim(r.student_number), '') = ''
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Every student needs a name, email and student number'
+    );
+  END IF;
+
+  -- Serialise syncs of the same class
+  PERFORM 1 FROM classes WHERE id = p_class_id FOR UPDATE;
+
+  -- A conflict on a person's email or a duplicate enrolment rolls back the whole sync
+  BEGIN
+    FOR v_row IN
+      SELECT trim(r.name) AS name, lower(trim(r.email)) AS email, trim(r.student_number) AS student_number
+      FROM jsonb_to_recordset(p_students) AS r(name text, email text, student_number text)
+    LOOP
+      SELECT e.id, e.archived_at, p.id AS person_id, p.name, p.email, p.student_number INTO v_match
+      FROM class_enrollments e
+      JOIN people p ON p.id = e.person_id
+      WHERE e.class_id = p_class_id
+        AND NOT (e.id = ANY(v_matched))
+        AND (lower(p.student_number) = lower(v_row.student_number) OR lower(p.email) = v_row.email)
+      ORDER BY (lower(p.student_number) = lower(v_row.student_number)) DESC NULLS LAST, e.archived_at NULLS FIRST
+      LIMIT 1
+      FOR UPDATE OF e;
+
+      IF FOUND THEN
+        v_matched := v_matched || v_match.id;
+        v_person_id := v_match.person_id;
+
+        IF v_match.archived_at IS NOT NULL THEN
+          v_restored := v_restored + 1;
+        ELSIF v_match.name IS DISTINCT FROM v_row.name
+           OR v_match.email IS DISTINCT FROM v_row.email
+           OR v_match.student_number IS DISTINCT FROM v_row.student_number THEN
+          v_updated := v_updated + 1;
+        ELSE
+          v_unchanged := v_unchanged + 1;
+          CONTINUE;
+        END IF;
+
+        UPDATE class_enrollments SET archived_at = NULL WHERE id = v_match.id;
+      ELSE
+        -- Students already enrolled in another class keep their identity
+        SELECT id INTO v_person_id
+        FROM people
+        WHERE lower(student_number) = lower(v_row.student_number) OR lower(email) = v_row.email
+        ORDER BY (lower(student_number) = lower(v_row.student_number)) DESC NULLS LAST
+        LIMIT 1;
+
+        IF NOT FOUND THEN
+          INSERT INTO people (name, email, student_number)
+          VALUES (v_row.name, v_row.email, v_row.student_number)
+          RETURNING id INTO v_person_id;
+        END IF;
+
+        -- tokens_remaining is set from the class token policy on insert
+        INSERT INTO class_enrollments (class_id, person_id)
+        VALUES (p_class_id, v_person_id)
+        RETURNING id INTO v_enrollment_id;
+
+        v_matched := v_matched || v_enrollment_id;
+        v_added := v_added + 1;
+      END IF;
+
+      -- The roster is the registry's latest record of the student
+      UPDATE people
+      SET name = v_row.name,
+          email = v_row.email,
+          student_number = v_row.student_number
+      WHERE id = v_person_id
+        AND (name, email, student_number) IS DISTINCT FROM (v_row.name, v_row.email, v_row.student_number);
+    END LOOP;
+  EXCEPTION WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', format('%s conflicts with another student''s email or student number', v_row.email)
+    );
+  END;
+
+  UPDATE class_enrollments
+  SET archived_at = now()
+  WHERE class_id = p_class_id
+    AND archived_at IS NULL
+    AND NOT (id = ANY(v_matched));
+
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'added', v_added,
+    'updated', v_updated,
+    'unchanged', v_unchanged,
+    'restored', v_restored,
+    'archived', v_archived
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_opportunity_bidders(
+  p_opportunity_id uuid,
+  p_limit integer DEFAULT 50,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  WITH ranked AS (
+    SELECT
+      e.id,
+      p.name,
+      p.email,
+      p.student_number,
+      e.tokens_remaining,
+      e.token_status,
+      b.id AS bid_id,
+      b.bid_amount,
+      b.bid_status,
+      COALESCE(b.submission_timestamp, b.created_at) AS bid_at
+    FROM bids b
+    JOIN class_enrollments e ON e.id = b.student_id
+    JOIN people p ON p.id = e.person_id
+    WHERE b.opportunity_id = p_opportunity_id
+  ),
+  page AS (
+    SELECT *
+    FROM ranked
+    ORDER BY bid_at, bid_id
+    LIMIT GREATEST(p_limit, 0)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM ranked),
+    'bidders', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'name', p.name,
+        'email', p.email,
+        'student_number', p.student_number,
+        'tokens_remaining', p.tokens_remaining,
+        'token_status', p.token_status,
+        'bid_id', p.bid_id,
+        'bid_amount', p.bid_amount,
+        'bid_status', p.bid_status,
+        'bid_at', p.bid_at
+      ) ORDER BY p.bid_at, p.bid_id)
+      FROM page p
+    ), '[]'::jsonb)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION class_overview(p_class_id uuid, p_include_draws boolean)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', c.id,
+    'name', c.name,
+    'capacity_default', c.capacity_default,
+    'initial_tokens', c.initial_tokens,
+    'refund_losing_bids', c.refund_losing_bids,
+    'term_topup', c.term_topup,
+    'max_token_balance', c.max_token_balance,
+    'last_topup_at', c.last_topup_at,
+    'reward_title', c.reward_title,
+    'reward_description', c.reward_description,
+    'instructor_id', c.instructor_id,
+    'created_at', c.created_at,
+    'students', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', e.id,
+        'person_id', p.id,
+        'name', p.name,
+        'email', p.email,
+        'student_number', p.student_number,
+        'tokens_remaining', e.tokens_remaining,
+        'token_status', e.token_status
+      ) ORDER BY p.name)
+      FROM class_enrollments e
+      JOIN people p ON p.id = e.person_id
+      WHERE e.class_id = c.id AND e.archived_at IS NULL
+    ), '[]'::jsonb),
+    'opportunities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o.id,
+        'description', o.description,
+        'event_date', o.event_date,
+        'opens_at', o.opens_at,
+        'closes_at', o.closes_at,
+        'drawn_at', o.drawn_at,
+        'status', o.status,
+        'capacity', o.capacity,
+        'draw_seed_hash', o.draw_seed_hash,
+        'draw_seed', o.draw_seed,
+        'allocation_mode', o.allocation_mode,
+        'clearing_price', o.clearing_price,
+        'bid_count', COALESCE(bc.bid_count, 0),
+        'bidders', CASE WHEN p_include_draws THEN
+          get_opportunity_bidders(o.id) -> 'bidders'
+        END,
+        'winner_ids', CASE WHEN p_include_draws THEN COALESCE((
+          SELECT jsonb_agg(b.student_id ORDER BY b.created_at)
+          FROM bids b
+          WHERE b.opportunity_id = o.id AND b.is_winner
+        ), '[]'::jsonb) END,
+        'waitlist_ids', CASE WHEN p_include_draws THEN COALESCE((
+          SELECT jsonb_agg(b.student_id ORDER BY b.waitlist_position)
+          FROM bids b
+          WHERE b.opportunity_id = o.id AND b.bid_status = 'waitlisted'
+        ), '[]'::jsonb) END
+      ) ORDER BY o.event_date)
+      FROM opportunities o
+      LEFT JOIN (
+        SELECT b.opportunity_id, COUNT(*) AS bid_count
+        FROM bids b
+        JOIN opportunities bo ON bo.id = b.opportunity_id
+        WHERE bo.class_id = p_class_id
+        GROUP BY b.opportunity_id
+      ) bc ON bc.opportunity_id = o.id
+      WHERE o.class_id = c.id
+    ), '[]'::jsonb)
+  )
+  FROM classes c
+  WHERE c.id = p_class_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION ensure_person(text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION ensure_person(text, text, text) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION enroll_students(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION enroll_students(uuid, jsonb) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION sync_class_roster(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION sync_class_roster(uuid, jsonb) TO authenticated;
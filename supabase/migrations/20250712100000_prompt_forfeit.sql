@@ -0,0 +1,201 @@
+/*
+  # Forfeits Without pg_cron
+
+  1. Changes
+    - `respond_to_selection` forfeits a place when the student responds after its
+      confirmation deadline and promotes the next waitlisted student, instead of only
+      refusing the response. Projects without `pg_cron` no longer leave the seat empty.
+    - `forfeit_expired_selections` takes the class to process. Signed-in callers must
+      teach that class; without a class it processes every class, which only the
+      scheduled job (running without a signed-in user) may do.
+*/
+
+DROP FUNCTION IF EXISTS forfeit_expired_selections();
+
+-- Forfeit unconfirmed places past their deadline and promote from the waitlist
+CREATE OR REPLACE FUNCTION forfeit_expired_selections(p_class_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_expired record;
+  v_promoted jsonb;
+  v_forfeited_count integer := 0;
+  v_promoted_count integer := 0;
+BEGIN
+  IF p_class_id IS NULL THEN
+    IF auth.uid() IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'Choose the class to process'
+      );
+    END IF;
+  ELSIF NOT is_class_instructor(p_class_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You do not manage this class'
+    );
+  END IF;
+
+  FOR v_expired IN
+    SELECT id, opportunity_id, student_id
+    FROM bids
+    WHERE bid_status = 'selected'
+      AND confirm_by < NOW()
+      AND (p_class_id IS NULL OR class_id = p_class_id)
+    ORDER BY confirm_by
+  LOOP
+    -- Same lock order as respond_to_selection: opportunity first, then the bid
+    PERFORM 1
+    FROM opportunities
+    WHERE id = v_expired.opportunity_id
+    FOR UPDATE;
+
+    -- The student may have responded while we waited for the lock
+    PERFORM 1
+    FROM bids
+    WHERE id = v_expired.id AND bid_status = 'selected' AND confirm_by < NOW()
+    FOR UPDATE;
+
+    CONTINUE WHEN NOT FOUND;
+
+    UPDATE bids
+    SET
+      is_winner = false,
+      bid_status = 'forfeited'
+    WHERE id = v_expired.id;
+
+    v_forfeited_count := v_forfeited_count + 1;
+    v_promoted := promote_next_waitlisted(v_expired.opportunity_id, v_expired.student_id, 'forfeited');
+
+    IF v_promoted IS NOT NULL THEN
+      v_promoted_count := v_promoted_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'forfeited_count', v_forfeited_count,
+    'promoted_count', v_promoted_count
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION forfeit_expired_selections(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION forfeit_expired_selections(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION respond_to_selection(
+  p_student_id uuid,
+  p_opportunity_id uuid,
+  p_class_password text,
+  p_accept boolean
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_opportunity_record opportunities%ROWTYPE;
+  v_bid_record bids%ROWTYPE;
+  v_promoted jsonb;
+BEGIN
+  -- The signed-in student must own this enrolment
+  IF NOT is_current_student(p_student_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You can only respond to your own places'
+    );
+  END IF;
+
+  -- Lock the opportunity so promotions are serialised with draws and removals
+  SELECT * INTO v_opportunity_record
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  -- Validate class password
+  IF NOT class_password_matches(v_opportunity_record.class_id, p_class_password) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Invalid class password'
+    );
+  END IF;
+
+  SELECT * INTO v_bid_record
+  FROM bids
+  WHERE student_id = p_student_id AND opportunity_id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_bid_record.bid_status <> 'selected' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'There is no pending place to respond to'
+    );
+  END IF;
+
+  -- A late response forfeits the place there and then, whether or not a scheduled job runs
+  IF v_bid_record.confirm_by IS NOT NULL AND v_bid_record.confirm_by < NOW() THEN
+    UPDATE bids
+    SET
+      is_winner = false,
+      bid_status = 'forfeited'
+    WHERE id = v_bid_record.id;
+
+    v_promoted := promote_next_waitlisted(p_opportunity_id, p_student_id, 'forfeited');
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'The confirmation deadline has passed and your place has been offered to the waitlist',
+      'bid_status', 'forfeited',
+      'promoted', v_promoted
+    );
+  END IF;
+
+  IF p_accept THEN
+    UPDATE bids
+    SET bid_status = 'confirmed'
+    WHERE id = v_bid_record.id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'bid_status', 'confirmed'
+    );
+  END IF;
+
+  UPDATE bids
+  SET
+    is_winner = false,
+    bid_status = 'declined'
+  WHERE id = v_bid_record.id;
+
+  v_promoted := promote_next_waitlisted(p_opportunity_id, p_student_id, 'declined');
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'bid_status', 'declined',
+    'promoted', v_promoted
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$;
@@ -0,0 +1,30 @@
+/*
+  # Bidding Closes Before The Event Day
+
+  1. Changes
+    - An opportunity's bidding window has to close before the day of its event. The
+      previous check allowed `closes_at` on the event date itself, so bidding could stay
+      open until midnight after the dinner.
+    - Checked by trigger when an opportunity is created or its window or date changes,
+      so existing rows can still be drawn and updated without moving their window first.
+
+  2. Functions
+    - `check_bidding_window()`: mirrored by `isValidBiddingWindow()` in `src/utils/dates.ts`
+*/
+
+CREATE OR REPLACE FUNCTION check_bidding_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.closes_at::date >= NEW.event_date THEN
+    RAISE EXCEPTION 'Bidding must close before the day of the event';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_bidding_window_trigger ON opportunities;
+CREATE TRIGGER check_bidding_window_trigger
+  BEFORE INSERT OR UPDATE OF opens_at, closes_at, event_date ON opportunities
+  FOR EACH ROW
+  EXECUTE FUNCTION check_bidding_window();
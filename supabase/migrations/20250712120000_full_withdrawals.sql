@@ -0,0 +1,11 @@
+/*
+  # Deliver Bid Withdrawals To Realtime
+
+  1. Changes
+    - `bids` uses REPLICA IDENTITY FULL so realtime DELETE events carry the whole old row,
+      including `class_id`. Supabase does not deliver deletes to subscriptions filtered on
+      `class_id`, so the realtime hub listens for bid deletes unfiltered and uses the old
+      row's class to route withdrawals to the right class.
+*/
+
+ALTER TABLE bids REPLICA IDENTITY FULL;
@@ -0,0 +1,73 @@
+/*
+  # Withdraw Archived Students' Open Bids
+
+  1. Changes
+    - Archiving an enrolment now withdraws its open bids. Until now archiving only set
+      `archived_at`, so a student who had left the course still entered the next draw and
+      counted towards `bid_count`.
+    - Bids still `placed` on undrawn opportunities are deleted and their tokens returned,
+      with a `refund` row in `token_history`, exactly as if the student had withdrawn
+      them. Preferences for undrawn opportunities are removed too. Bids on opportunities
+      that have already been drawn are left as a record of the result.
+
+  2. Functions
+    - `withdraw_archived_bids()`: runs after `archived_at` is first set on an enrolment,
+      whether by `sync_class_roster` or by editing the student directly
+*/
+
+CREATE OR REPLACE FUNCTION withdraw_archived_bids()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_bid record;
+  v_refunded integer := 0;
+BEGIN
+  FOR v_bid IN
+    DELETE FROM bids b
+    USING opportunities o
+    WHERE b.student_id = NEW.id
+      AND b.bid_status = 'placed'
+      AND o.id = b.opportunity_id
+      AND o.drawn_at IS NULL
+    RETURNING b.opportunity_id, b.bid_amount
+  LOOP
+    IF v_bid.bid_amount > 0 THEN
+      v_refunded := v_refunded + v_bid.bid_amount;
+
+      INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+      VALUES (
+        NEW.id,
+        v_bid.opportunity_id,
+        v_bid.bid_amount,
+        'refund',
+        'Bid withdrawn when the student left the class'
+      );
+    END IF;
+  END LOOP;
+
+  DELETE FROM student_preferences sp
+  USING opportunities o
+  WHERE sp.student_id = NEW.id
+    AND o.id = sp.opportunity_id
+    AND o.drawn_at IS NULL;
+
+  UPDATE class_enrollments
+  SET
+    tokens_remaining = tokens_remaining + v_refunded,
+    token_status = CASE
+      WHEN EXISTS (SELECT 1 FROM bids WHERE student_id = NEW.id) THEN 'used'
+      ELSE 'unused'
+    END
+  WHERE id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION withdraw_archived_bids() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS withdraw_archived_bids_trigger ON class_enrollments;
+CREATE TRIGGER withdraw_archived_bids_trigger
+  AFTER UPDATE OF archived_at ON class_enrollments
+  FOR EACH ROW
+  WHEN (OLD.archived_at IS NULL AND NEW.archived_at IS NOT NULL)
+  EXECUTE FUNCTION withdraw_archived_bids();
@@ -0,0 +1,259 @@
+/*
+  # Guard Shared Student Identities
+
+  1. Changes
+    - Students sign in with a one-time code sent to `people.email`, so whoever can change
+      a person's email can take over their account. An instructor could previously do
+      that to a student in another instructor's class, either by uploading a roster row
+      with that student's number or by editing the person directly.
+    - A person's name, email and student number can now only be changed by an instructor
+      who teaches every class the person is enrolled in. Otherwise the person keeps the
+      details they already have.
+    - `sync_class_roster` only links a new row to an existing person by email. A row whose
+      student number belongs to someone with a different email is refused as a conflict,
+      as is a row that would change the email or student number of a person enrolled in
+      another instructor's class. A different name for such a person is left as it is.
+    - The people update policy and the `students` view's update trigger apply the same
+      rule to direct edits.
+
+  2. Functions
+    - `can_edit_person(p_person_id)`: whether the signed-in instructor teaches every
+      class the person is enrolled in
+    - `update_student_enrollment()`: refuses to change the details of a shared person
+    - `sync_class_roster(p_class_id, p_students)`: links by email only and respects
+      `can_edit_person()`
+*/
+
+-- SECURITY DEFINER so enrolments in classes the caller cannot see are counted too
+CREATE OR REPLACE FUNCTION can_edit_person(p_person_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM class_enrollments e
+    WHERE e.person_id = p_person_id AND NOT is_class_instructor(e.class_id)
+  );
+$$;
+
+DROP POLICY IF EXISTS "Instructors can update people in their classes" ON people;
+
+CREATE POLICY "Instructors can update people in their classes"
+  ON people FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM class_enrollments e
+      WHERE e.person_id = people.id AND is_class_instructor(e.class_id)
+    )
+    AND can_edit_person(people.id)
+  );
+
+CREATE OR REPLACE FUNCTION update_student_enrollment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name
+     OR NEW.email IS DISTINCT FROM OLD.email
+     OR NEW.student_number IS DISTINCT FROM OLD.student_number THEN
+    IF NOT can_edit_person(OLD.person_id) THEN
+      RAISE EXCEPTION 'This student is also enrolled in another instructor''s class, so their details cannot be changed here';
+    END IF;
+
+    UPDATE people
+    SET name = NEW.name,
+        email = NEW.email,
+        student_number = NEW.student_number
+    WHERE id = OLD.person_id;
+  END IF;
+
+  UPDATE class_enrollments
+  SET class_id = NEW.class_id,
+      tokens_remaining = NEW.tokens_remaining,
+      token_status = NEW.token_status,
+      bidding_result = NEW.bidding_result,
+      archived_at = NEW.archived_at
+  WHERE id = OLD.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_class_roster(p_class_id uuid, p_students jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row record;
+  v_match record;
+  v_person record;
+  v_person_id uuid;
+  v_enrollment_id uuid;
+  v_kept boolean;
+  v_changed boolean;
+  v_matched uuid[] := '{}';
+  v_added integer := 0;
+  v_updated integer := 0;
+  v_unchanged integer := 0;
+  v_restored integer := 0;
+  v_archived integer := 0;
+BEGIN
+  IF NOT is_class_instructor(p_class_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You do not manage this class'
+    );
+  END IF;
+
+  IF jsonb_typeof(p_students) IS DISTINCT FROM 'array' OR jsonb_array_length(p_students) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'The roster is empty'
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_students) AS r(name text, email text, student_number text)
+    WHERE COALESCE(trim(r.name), '') = ''
+       OR COALESCE(trim(r.email), '') = ''
+       OR COALESCE(trim(r.student_number), '') = ''
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Every student needs a name, email and student number'
+    );
+  END IF;
+
+  -- Serialise syncs of the same class
+  PERFORM 1 FROM classes WHERE id = p_class_id FOR UPDATE;
+
+  -- Any conflict rolls back the whole sync
+  BEGIN
+    FOR v_row IN
+      SELECT trim(r.name) AS name, lower(trim(r.email)) AS email, trim(r.student_number) AS student_number
+      FROM jsonb_to_recordset(p_students) AS r(name text, email text, student_number text)
+    LOOP
+      SELECT e.id, e.archived_at, e.person_id INTO v_match
+      FROM class_enrollments e
+      JOIN people p ON p.id = e.person_id
+      WHERE e.class_id = p_class_id
+        AND NOT (e.id = ANY(v_matched))
+        AND (lower(p.student_number) = lower(v_row.student_number) OR lower(p.email) = v_row.email)
+      ORDER BY (lower(p.student_number) = lower(v_row.student_number)) DESC NULLS LAST, e.archived_at NULLS FIRST
+      LIMIT 1
+      FOR UPDATE OF e;
+
+      -- Enrolments that were already active count as updated or unchanged below
+      v_kept := FOUND AND v_match.archived_at IS NULL;
+
+      IF FOUND THEN
+        v_matched := v_matched || v_match.id;
+        v_person_id := v_match.person_id;
+
+        IF v_match.archived_at IS NOT NULL THEN
+          UPDATE class_enrollments SET archived_at = NULL WHERE id = v_match.id;
+          v_restored := v_restored + 1;
+        END IF;
+      ELSE
+        -- Students already enrolled in another class keep their identity. Only the email
+        -- the student signs in with links them; a student number alone is not enough.
+        SELECT id INTO v_person_id
+        FROM people
+        WHERE lower(email) = v_row.email;
+
+        IF NOT FOUND THEN
+          IF EXISTS (SELECT 1 FROM people WHERE lower(student_number) = lower(v_row.student_number)) THEN
+            RAISE EXCEPTION '% conflicts with another student''s email or student number', v_row.email;
+          END IF;
+
+          INSERT INTO people (name, email, student_number)
+          VALUES (v_row.name, v_row.email, v_row.student_number)
+          RETURNING id INTO v_person_id;
+        END IF;
+
+        -- tokens_remaining is set from the class token policy on insert
+        INSERT INTO class_enrollments (class_id, person_id)
+        VALUES (p_class_id, v_person_id)
+        RETURNING id INTO v_enrollment_id;
+
+        v_matched := v_matched || v_enrollment_id;
+        v_added := v_added + 1;
+      END IF;
+
+      SELECT name, email, student_number INTO v_person
+      FROM people
+      WHERE id = v_person_id
+      FOR UPDATE;
+
+      v_changed := (v_person.name, v_person.email, v_person.student_number)
+        IS DISTINCT FROM (v_row.name, v_row.email, v_row.student_number);
+
+      IF v_changed AND NOT can_edit_person(v_person_id) THEN
+        -- Another instructor's student: their sign-in email and student number are not
+        -- ours to change, and a different spelling of their name is left as it is
+        IF lower(v_person.email) <> v_row.email
+           OR lower(v_person.student_number) <> lower(v_row.student_number) THEN
+          RAISE EXCEPTION '% is enrolled in another instructor''s class under a different email or student number', v_row.email;
+        END IF;
+
+        v_changed := false;
+      END IF;
+
+      IF v_changed THEN
+        -- The roster is the registry's latest record of the student
+        UPDATE people
+        SET name = v_row.name,
+            email = v_row.email,
+            student_number = v_row.student_number
+        WHERE id = v_person_id;
+      END IF;
+
+      IF v_kept THEN
+        IF v_changed THEN
+          v_updated := v_updated + 1;
+        ELSE
+          v_unchanged := v_unchanged + 1;
+        END IF;
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', format('%s conflicts with another student''s email or student number', v_row.email)
+      );
+    WHEN raise_exception THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', SQLERRM
+      );
+  END;
+
+  UPDATE class_enrollments
+  SET archived_at = now()
+  WHERE class_id = p_class_id
+    AND archived_at IS NULL
+    AND NOT (id = ANY(v_matched));
+
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'added', v_added,
+    'updated', v_updated,
+    'unchanged', v_unchanged,
+    'restored', v_restored,
+    'archived', v_archived
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION can_edit_person(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION can_edit_person(uuid) TO authenticated;
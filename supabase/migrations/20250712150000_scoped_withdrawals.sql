@@ -0,0 +1,44 @@
+/*
+  # Broadcast Bid Withdrawals To Their Class
+
+  1. Changes
+    - Deleted bids are announced on the class's realtime channel (`class-<class_id>`) as
+      a `bid_withdrawn` broadcast. With row level security on, Supabase only sends the
+      primary key for DELETE events, so the unfiltered DELETE listener could not tell
+      which class a withdrawal belonged to and every open class refreshed.
+    - The broadcast carries only the bid, class and opportunity ids; listeners refetch
+      what they show.
+    - `bids` goes back to the default replica identity, which the broadcast does not need.
+
+  2. Functions
+    - `broadcast_bid_withdrawal()`: runs after a bid is deleted, whether withdrawn by the
+      student or by archiving their enrolment
+*/
+
+ALTER TABLE bids REPLICA IDENTITY DEFAULT;
+
+CREATE OR REPLACE FUNCTION broadcast_bid_withdrawal()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object(
+      'id', OLD.id,
+      'class_id', OLD.class_id,
+      'opportunity_id', OLD.opportunity_id
+    ),
+    'bid_withdrawn',
+    'class-' || OLD.class_id,
+    false
+  );
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION broadcast_bid_withdrawal() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS broadcast_bid_withdrawal_trigger ON bids;
+CREATE TRIGGER broadcast_bid_withdrawal_trigger
+  AFTER DELETE ON bids
+  FOR EACH ROW
+  EXECUTE FUNCTION broadcast_bid_withdrawal();
@@ -0,0 +1,129 @@
+/*
+  # Protect The Committed Draw Seed
+
+  1. Changes
+    - Instructors can no longer write `draw_seed`, `draw_seed_hash`,
+      `draw_seed_revealed_at` or `drawn_at` directly. The opportunities policy lets them
+      update their own opportunities, so they could publish a new commitment after bids
+      were in, or mark an opportunity drawn. These columns are now only written by the
+      seed commitment trigger and the reveal, draw and allocation functions, which run as
+      the table owner.
+    - `reveal_draw_seed` checks the seed against its published hash before returning it,
+      so a seed that does not match its commitment is never used for a draw.
+
+  2. Functions
+    - `protect_draw_commitment()`: trigger refusing changes to the commitment columns
+      from client roles
+    - `reveal_draw_seed(p_opportunity_id)`: verifies the seed against `draw_seed_hash`
+*/
+
+CREATE OR REPLACE FUNCTION protect_draw_commitment()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- SECURITY DEFINER functions run as the table owner; clients run as anon or authenticated
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.drawn_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Opportunities are marked drawn by the draw, not by hand';
+    END IF;
+  ELSIF (NEW.draw_seed, NEW.draw_seed_hash, NEW.draw_seed_revealed_at, NEW.drawn_at)
+    IS DISTINCT FROM (OLD.draw_seed, OLD.draw_seed_hash, OLD.draw_seed_revealed_at, OLD.drawn_at) THEN
+    RAISE EXCEPTION 'The draw seed and draw result can only be set by the draw';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_draw_commitment_trigger ON opportunities;
+CREATE TRIGGER protect_draw_commitment_trigger
+  BEFORE INSERT OR UPDATE ON opportunities
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_draw_commitment();
+
+-- Reveal the committed seed after bidding has closed
+CREATE OR REPLACE FUNCTION reveal_draw_seed(p_opportunity_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_opportunity opportunities%ROWTYPE;
+  v_seed text;
+  v_revealed_at timestamptz := NOW();
+BEGIN
+  SELECT * INTO v_opportunity
+  FROM opportunities
+  WHERE id = p_opportunity_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Opportunity not found'
+    );
+  END IF;
+
+  -- Already revealed: return the published values unchanged, if they still match
+  IF v_opportunity.draw_seed IS NOT NULL THEN
+    IF v_opportunity.draw_seed_hash IS DISTINCT FROM encode(digest(v_opportunity.draw_seed, 'sha256'), 'hex') THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'The published draw seed does not match its commitment'
+      );
+    END IF;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'draw_seed', v_opportunity.draw_seed,
+      'draw_seed_hash', v_opportunity.draw_seed_hash,
+      'revealed_at', v_opportunity.draw_seed_revealed_at
+    );
+  END IF;
+
+  IF v_revealed_at < v_opportunity.closes_at THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Bidding has not closed yet. The draw seed stays sealed until ' || v_opportunity.closes_at
+    );
+  END IF;
+
+  SELECT seed INTO v_seed
+  FROM opportunity_draw_secrets
+  WHERE opportunity_id = p_opportunity_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'No draw seed was committed for this opportunity'
+    );
+  END IF;
+
+  IF v_opportunity.draw_seed_hash IS DISTINCT FROM encode(digest(v_seed, 'sha256'), 'hex') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'The draw seed does not match its commitment'
+    );
+  END IF;
+
+  UPDATE opportunities
+  SET
+    draw_seed = v_seed,
+    draw_seed_revealed_at = v_revealed_at
+  WHERE id = p_opportunity_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'draw_seed', v_seed,
+    'draw_seed_hash', v_opportunity.draw_seed_hash,
+    'revealed_at', v_revealed_at
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,67 @@
+/*
+  # Refund Spent Tokens In Full
+
+  1. Changes
+    - Refunds are no longer capped at the class's `max_token_balance`; only top-ups are.
+      A refund returns tokens the student already spent, so capping it lost them: a
+      lottery loser who bid 3 with the default maximum of 1 got 1 back, and promoting
+      them from the waitlist then charged 3 again or skipped them for insufficient
+      tokens. Withdrawing a bid already returned the full amount, so every refund now
+      follows the same rule.
+
+  2. Functions
+    - `credit_student_tokens(...)`: caps 'topup' credits at the maximum balance and
+      credits 'refund' in full
+*/
+
+-- Credit a student's balance and return the amount credited. Top-ups stop at the class
+-- maximum; refunds give back what was spent in full.
+CREATE OR REPLACE FUNCTION credit_student_tokens(
+  p_student_id uuid,
+  p_opportunity_id uuid,
+  p_amount integer,
+  p_type text,
+  p_description text
+)
+RETURNS integer AS $$
+DECLARE
+  v_balance integer;
+  v_max_balance integer;
+  v_credit integer;
+BEGIN
+  SELECT s.tokens_remaining, c.max_token_balance
+  INTO v_balance, v_max_balance
+  FROM students s
+  JOIN classes c ON c.id = s.class_id
+  WHERE s.id = p_student_id
+  FOR UPDATE OF s;
+
+  IF p_type = 'topup' THEN
+    v_credit := GREATEST(LEAST(p_amount, v_max_balance - v_balance), 0);
+  ELSE
+    v_credit := GREATEST(p_amount, 0);
+  END IF;
+
+  IF v_credit > 0 THEN
+    UPDATE students
+    SET tokens_remaining = tokens_remaining + v_credit
+    WHERE id = p_student_id;
+
+    INSERT INTO token_history (student_id, opportunity_id, amount, type, description)
+    VALUES (
+      p_student_id,
+      p_opportunity_id,
+      v_credit,
+      p_type,
+      CASE WHEN v_credit < p_amount
+        THEN p_description || ' (capped at ' || v_max_balance || ' token balance)'
+        ELSE p_description
+      END
+    );
+  END IF;
+
+  RETURN v_credit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION credit_student_tokens(uuid, uuid, integer, text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,235 @@
+/*
+  # Replay The Stored Allocation Order
+
+  1. Changes
+    - Add `allocation_order` to `classes`: the lottery order `run_class_allocation` used,
+      saved when it allocates. Re-running it on an allocated class returned an order
+      rebuilt from every preference in the class, including preferences for
+      opportunities that were never part of the allocation, so the replayed
+      `student_order` could differ from the one that decided the places.
+    - Classes allocated before this change replay the order from the students whose
+      ranked choices were recorded as zero-token bids, which is the set the allocation
+      drew from.
+*/
+
+ALTER TABLE classes ADD COLUMN IF NOT EXISTS allocation_order uuid[];
+
+CREATE OR REPLACE FUNCTION run_class_allocation(p_class_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_class classes%ROWTYPE;
+  v_opportunity_ids uuid[];
+  v_reveal jsonb;
+  v_opportunity_id uuid;
+  v_seed text;
+  v_students uuid[];
+  v_order uuid[];
+  v_seats jsonb;
+  v_student uuid;
+  v_assigned uuid;
+  v_assigned_students uuid[] := ARRAY[]::uuid[];
+  v_assigned_opportunities uuid[] := ARRAY[]::uuid[];
+  v_already_allocated boolean := false;
+BEGIN
+  IF NOT is_class_instructor(p_class_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'You do not manage this class'
+    );
+  END IF;
+
+  -- Serialise concurrent allocations on the class row
+  SELECT * INTO v_class
+  FROM classes
+  WHERE id = p_class_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', 'Class not found'
+    );
+  END IF;
+
+  IF v_class.preferences_allocated_at IS NOT NULL THEN
+    -- Already allocated: return the persisted assignments unchanged
+    v_already_allocated := true;
+    v_seed := v_class.allocation_seed;
+
+    v_order := v_class.allocation_order;
+
+    -- The allocated opportunities are the ones holding the recorded ranked choices
+    SELECT COALESCE(array_agg(DISTINCT b.opportunity_id), ARRAY[]::uuid[]) INTO v_opportunity_ids
+    FROM bids b
+    JOIN opportunities o ON o.id = b.opportunity_id
+    WHERE o.class_id = p_class_id AND b.bid_amount = 0;
+
+    SELECT
+      COALESCE(array_agg(b.student_id ORDER BY b.student_id), ARRAY[]::uuid[]),
+      COALESCE(array_agg(b.opportunity_id ORDER BY b.student_id), ARRAY[]::uuid[])
+    INTO v_assigned_students, v_assigned_opportunities
+    FROM bids b
+    WHERE b.opportunity_id = ANY(v_opportunity_ids) AND b.bid_amount = 0 AND b.is_winner = true;
+  ELSE
+    -- Only undrawn opportunities that students ranked and nobody spent tokens on; token
+    -- bids are settled by run_opportunity_draw
+    SELECT COALESCE(array_agg(o.id ORDER BY o.id), ARRAY[]::uuid[]) INTO v_opportunity_ids
+    FROM opportunities o
+    WHERE o.class_id = p_class_id
+      AND o.drawn_at IS NULL
+      AND EXISTS (SELECT 1 FROM student_preferences sp WHERE sp.opportunity_id = o.id)
+      AND NOT EXISTS (SELECT 1 FROM bids b WHERE b.opportunity_id = o.id AND b.bid_amount > 0);
+
+    IF array_length(v_opportunity_ids, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'No undrawn opportunities in this class have been ranked'
+      );
+    END IF;
+
+    -- Students rank every date at once, so allocate only when all of them have closed
+    IF EXISTS (
+      SELECT 1 FROM opportunities
+      WHERE id = ANY(v_opportunity_ids) AND closes_at > NOW()
+    ) THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'Bidding is still open on a ranked opportunity'
+      );
+    END IF;
+
+    -- Reveal every opportunity seed; the class seed is their concatenation
+    FOREACH v_opportunity_id IN ARRAY v_opportunity_ids LOOP
+      v_reveal := reveal_draw_seed(v_opportunity_id);
+
+      IF NOT (v_reveal->>'success')::boolean THEN
+        RETURN v_reveal;
+      END IF;
+    END LOOP;
+
+    SELECT string_agg(draw_seed, '' ORDER BY id) INTO v_seed
+    FROM opportunities
+    WHERE id = ANY(v_opportunity_ids);
+
+    SELECT jsonb_object_agg(o.id::text, COALESCE(o.capacity, v_class.capacity_default, 0))
+    INTO v_seats
+    FROM opportunities o
+    WHERE o.id = ANY(v_opportunity_ids);
+
+    SELECT COALESCE(array_agg(DISTINCT sp.student_id), ARRAY[]::uuid[]) INTO v_students
+    FROM student_preferences sp
+    JOIN students s ON s.id = sp.student_id
+    WHERE s.class_id = p_class_id AND sp.opportunity_id = ANY(v_opportunity_ids);
+
+    IF array_length(v_students, 1) IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error_message', 'No students have submitted preferences for this class'
+      );
+    END IF;
+
+    -- Each student in lottery order takes their best remaining choice
+    v_order := compute_draw_order(v_seed, v_students);
+
+    FOREACH v_student IN ARRAY v_order LOOP
+      SELECT sp.opportunity_id INTO v_assigned
+      FROM student_preferences sp
+      WHERE sp.student_id = v_student
+        AND COALESCE((v_seats->>sp.opportunity_id::text)::integer, 0) > 0
+      ORDER BY sp.rank
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_seats := jsonb_set(
+          v_seats,
+          ARRAY[v_assigned::text],
+          to_jsonb((v_seats->>v_assigned::text)::integer - 1)
+        );
+        v_assigned_students := v_assigned_students || v_student;
+        v_assigned_opportunities := v_assigned_opportunities || v_assigned;
+      END IF;
+    END LOOP;
+
+    -- Record every ranked choice as a bid so results live alongside token bids
+    INSERT INTO bids (student_id, opportunity_id, bid_amount, bid_status)
+    SELECT sp.student_id, sp.opportunity_id, 0, 'placed'
+    FROM student_preferences sp
+    WHERE sp.student_id = ANY(v_students) AND sp.opportunity_id = ANY(v_opportunity_ids)
+    ON CONFLICT (student_id, opportunity_id) DO NOTHING;
+
+    UPDATE bids b
+    SET
+      is_winner = EXISTS (
+        SELECT 1
+        FROM unnest(v_assigned_students, v_assigned_opportunities) AS a(student_id, opportunity_id)
+        WHERE a.student_id = b.student_id AND a.opportunity_id = b.opportunity_id
+      ),
+      bid_status = CASE WHEN EXISTS (
+        SELECT 1
+        FROM unnest(v_assigned_students, v_assigned_opportunities) AS a(student_id, opportunity_id)
+        WHERE a.student_id = b.student_id AND a.opportunity_id = b.opportunity_id
+      ) THEN 'selected' ELSE 'rejected' END
+    WHERE b.opportunity_id = ANY(v_opportunity_ids) AND b.bid_amount = 0;
+
+    UPDATE opportunities
+    SET drawn_at = NOW()
+    WHERE id = ANY(v_opportunity_ids);
+
+    UPDATE classes
+    SET
+      preferences_allocated_at = NOW(),
+      allocation_seed = v_seed,
+      allocation_order = v_order
+    WHERE id = p_class_id;
+  END IF;
+
+  -- Allocated before the order was stored: every student in the allocation has their
+  -- ranked choices recorded as zero-token bids on the allocated opportunities
+  IF v_order IS NULL THEN
+    SELECT COALESCE(array_agg(DISTINCT b.student_id), ARRAY[]::uuid[]) INTO v_students
+    FROM bids b
+    WHERE b.opportunity_id = ANY(v_opportunity_ids) AND b.bid_amount = 0;
+
+    v_order := compute_draw_order(v_seed, v_students);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'class_id', p_class_id,
+    'already_allocated', v_already_allocated,
+    'allocation_seed', v_seed,
+    'student_order', to_jsonb(v_order),
+    'assignments', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'student_id', s.id,
+        'name', s.name,
+        'email', s.email,
+        'student_number', s.student_number,
+        'opportunity_id', a.opportunity_id,
+        'rank', sp.rank
+      ) ORDER BY array_position(v_order, s.id)), '[]'::jsonb)
+      FROM unnest(v_assigned_students, v_assigned_opportunities) AS a(student_id, opportunity_id)
+      JOIN students s ON s.id = a.student_id
+      LEFT JOIN student_preferences sp
+        ON sp.student_id = a.student_id AND sp.opportunity_id = a.opportunity_id
+    ),
+    'unassigned', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'student_id', s.id,
+        'name', s.name,
+        'email', s.email,
+        'student_number', s.student_number
+      ) ORDER BY array_position(v_order, s.id)), '[]'::jsonb)
+      FROM students s
+      WHERE s.id = ANY(v_order) AND NOT s.id = ANY(v_assigned_students)
+    )
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error_message', SQLERRM
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,24 @@
+/*
+  # Bidding Window Checked In UTC
+
+  1. Changes
+    - `check_bidding_window()` compared `closes_at::date`, which depends on the session
+      timezone, while the client compared against local midnight, so the two could
+      disagree for instructors away from UTC.
+    - Both sides now treat the event day as starting at 00:00 UTC on `event_date`, the
+      calendar day the client stores, whatever the session or browser timezone.
+
+  2. Functions
+    - `check_bidding_window()`: mirrored by `isValidBiddingWindow()` in `src/utils/dates.ts`
+*/
+
+CREATE OR REPLACE FUNCTION check_bidding_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.closes_at >= NEW.event_date::timestamp AT TIME ZONE 'UTC' THEN
+    RAISE EXCEPTION 'Bidding must close before the day of the event';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
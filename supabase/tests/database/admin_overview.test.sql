@@ -0,0 +1,133 @@
+/*
+  get_admin_overview: one round-trip for an instructor with many sections.
+
+  Run against the local stack with `supabase test db`.
+
+  Fixtures:
+    - Carol teaches 20 sections of 150 students each (3,000 students)
+    - each section has two opportunities; every third student has bid on the first
+    - Dan teaches one section of his own, which Carol must not see
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('c0000000-0000-0000-0000-00000000000c', 'carol@example.com'),
+  ('d0000000-0000-0000-0000-00000000000d', 'dan@example.com');
+
+INSERT INTO instructors (id, email, name) VALUES
+  ('c0000000-0000-0000-0000-00000000000c', 'carol@example.com', 'Carol'),
+  ('d0000000-0000-0000-0000-00000000000d', 'dan@example.com', 'Dan');
+
+INSERT INTO classes (id, name, password_hash, instructor_id, created_at)
+SELECT
+  ('cccccccc-0000-0000-0000-' || lpad(n::text, 12, '0'))::uuid,
+  'Section ' || n,
+  'password-' || n,
+  'c0000000-0000-0000-0000-00000000000c',
+  now() - n * interval '1 minute'
+FROM generate_series(1, 20) AS n;
+
+INSERT INTO classes (id, name, password_hash, instructor_id) VALUES
+  ('dddddddd-0000-0000-0000-000000000001', 'Dan''s Section', 'password-d', 'd0000000-0000-0000-0000-00000000000d');
+
+INSERT INTO students (class_id, name, email, student_number)
+SELECT c.id, 'Student ' || c.name || ' ' || s, 'student' || s || '.' || c.id || '@example.com', 'S' || s
+FROM classes c
+CROSS JOIN generate_series(1, 150) AS s
+WHERE c.instructor_id = 'c0000000-0000-0000-0000-00000000000c';
+
+INSERT INTO students (class_id, name, email, student_number) VALUES
+  ('dddddddd-0000-0000-0000-000000000001', 'Dora', 'dora@example.com', 'D001');
+
+INSERT INTO opportunities (class_id, description, opens_at, closes_at, event_date)
+SELECT c.id, 'Dinner ' || o, now() - interval '1 day', now() + interval '1 day', (now() + o * interval '7 days')::date
+FROM classes c
+CROSS JOIN generate_series(1, 2) AS o;
+
+INSERT INTO bids (student_id, opportunity_id)
+SELECT s.id, o.id
+FROM (
+  SELECT id, class_id, row_number() OVER (PARTITION BY class_id ORDER BY email) AS position
+  FROM students
+) s
+JOIN opportunities o ON o.class_id = s.class_id AND o.description = 'Dinner 1'
+WHERE s.position % 3 = 0;
+
+ANALYZE classes, students, opportunities, bids;
+
+-- Count function calls in this transaction, to check the overview's work grows with the
+-- number of sections and not the number of students
+SET LOCAL track_functions = 'all';
+
+-- Carol
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', json_build_object(
+  'sub', 'c0000000-0000-0000-0000-00000000000c',
+  'email', 'carol@example.com',
+  'role', 'authenticated'
+)::text, true);
+
+CREATE TEMP TABLE overview_result ON COMMIT DROP AS
+SELECT get_admin_overview() AS overview;
+
+SELECT is(
+  (SELECT jsonb_array_length(overview) FROM overview_result),
+  20,
+  'the overview has every one of the instructor''s sections and no others'
+);
+SELECT is(
+  (SELECT overview -> 0 ->> 'name' FROM overview_result),
+  'Section 1',
+  'sections are listed newest first'
+);
+SELECT is(
+  (SELECT SUM(jsonb_array_length(c -> 'students'))::int FROM overview_result, jsonb_array_elements(overview) c),
+  3000,
+  'every student is included'
+);
+SELECT is(
+  (SELECT SUM((o ->> 'bid_count')::int)::int
+   FROM overview_result, jsonb_array_elements(overview) c, jsonb_array_elements(c -> 'opportunities') o),
+  1000,
+  'bid counts add up across every section'
+);
+SELECT is(
+  (SELECT (c -> 'opportunities' -> 1 ->> 'bid_count')::int FROM overview_result, jsonb_array_elements(overview) c LIMIT 1),
+  0,
+  'opportunities without bids report zero'
+);
+SELECT ok(
+  (SELECT bool_and(o -> 'winner_ids' = 'null'::jsonb)
+   FROM overview_result, jsonb_array_elements(overview) c, jsonb_array_elements(c -> 'opportunities') o),
+  'the overview leaves draw results to get_class_detail'
+);
+SELECT is(
+  (SELECT calls::int FROM pg_stat_xact_user_functions WHERE funcname = 'class_overview'),
+  20,
+  'the overview of 3,000 students builds each section once'
+);
+SELECT is(
+  (SELECT COALESCE(SUM(calls), 0)::int FROM pg_stat_xact_user_functions WHERE funcname = 'get_opportunity_bidders'),
+  0,
+  'the overview does not list bidders per opportunity'
+);
+
+SELECT is(
+  jsonb_array_length(get_class_detail('cccccccc-0000-0000-0000-000000000001') -> 'opportunities' -> 0 -> 'winner_ids'),
+  0,
+  'class detail lists draw results, empty before the draw'
+);
+SELECT is(
+  get_class_detail('dddddddd-0000-0000-0000-000000000001'),
+  NULL,
+  'class detail returns nothing for another instructor''s section'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,160 @@
+/*
+  people and class_enrollments: one student enrolled in two classes.
+
+  Run against the local stack with `supabase test db`.
+
+  Fixtures:
+    - Hal teaches two classes: one starts students on 1 token, the other on 3
+    - Ida is enrolled in the first class and has spent her token
+    - Kit teaches a class of their own, with neither Ida nor Jo in it until Kit enrols Ida
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(15);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('a1000000-0000-0000-0000-00000000000a', 'hal@example.com'),
+  ('a2000000-0000-0000-0000-00000000000a', 'kit@example.com');
+
+INSERT INTO instructors (id, email, name) VALUES
+  ('a1000000-0000-0000-0000-00000000000a', 'hal@example.com', 'Hal'),
+  ('a2000000-0000-0000-0000-00000000000a', 'kit@example.com', 'Kit');
+
+INSERT INTO classes (id, name, password_hash, instructor_id, initial_tokens, max_token_balance) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'Class H1', 'password-h1', 'a1000000-0000-0000-0000-00000000000a', 1, 1),
+  ('aaaaaaaa-0000-0000-0000-000000000002', 'Class H2', 'password-h2', 'a1000000-0000-0000-0000-00000000000a', 3, 3),
+  ('aaaaaaaa-0000-0000-0000-000000000003', 'Class K', 'password-k', 'a2000000-0000-0000-0000-00000000000a', 1, 1);
+
+INSERT INTO students (id, class_id, name, email, student_number) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000011', 'aaaaaaaa-0000-0000-0000-000000000001', 'Ida', 'ida@example.com', 'I001');
+
+UPDATE students SET tokens_remaining = 0, token_status = 'used'
+WHERE id = 'aaaaaaaa-0000-0000-0000-000000000011';
+
+SET LOCAL ROLE authenticated;
+
+-- Hal
+
+SELECT set_config('request.jwt.claims', json_build_object(
+  'sub', 'a1000000-0000-0000-0000-00000000000a',
+  'email', 'hal@example.com',
+  'role', 'authenticated'
+)::text, true);
+
+SELECT is(
+  enroll_students('aaaaaaaa-0000-0000-0000-000000000002', '[{"name": "Ida", "email": "IDA@example.com", "student_number": "I001"}]') -> 'success',
+  'true'::jsonb,
+  'a student already in one class can be added to another'
+);
+
+SELECT is(
+  (SELECT COUNT(DISTINCT person_id)::int FROM students WHERE email = 'ida@example.com'),
+  1,
+  'both enrolments belong to one person'
+);
+
+SELECT results_eq(
+  $$SELECT class_id, tokens_remaining FROM students WHERE email = 'ida@example.com' ORDER BY class_id$$,
+  $$VALUES ('aaaaaaaa-0000-0000-0000-000000000001'::uuid, 0), ('aaaaaaaa-0000-0000-0000-000000000002'::uuid, 3)$$,
+  'each enrolment has its own token balance'
+);
+
+SELECT is(
+  sync_class_roster('aaaaaaaa-0000-0000-0000-000000000002', $$[
+    {"name": "Ida", "email": "ida@example.com", "student_number": "I001"},
+    {"name": "Jo", "email": "jo@example.com", "student_number": "J001"}
+  ]$$),
+  '{"success": true, "added": 1, "updated": 0, "unchanged": 1, "restored": 0, "archived": 0}'::jsonb,
+  'a roster sync matches the existing enrolment and adds the new student'
+);
+
+SELECT is(
+  sync_class_roster('aaaaaaaa-0000-0000-0000-000000000001', '[{"name": "Ida Lund", "email": "ida@example.com", "student_number": "I001"}]') ->> 'updated',
+  '1',
+  'a roster sync can correct a student''s name'
+);
+
+SELECT is(
+  (SELECT name FROM students WHERE id <> 'aaaaaaaa-0000-0000-0000-000000000011' AND person_id = (
+    SELECT person_id FROM students WHERE id = 'aaaaaaaa-0000-0000-0000-000000000011'
+  )),
+  'Ida Lund',
+  'the corrected name is shared by the student''s other enrolments'
+);
+
+SELECT is(
+  sync_class_roster('aaaaaaaa-0000-0000-0000-000000000001', '[{"name": "Ida Lund", "email": "jo@example.com", "student_number": "I001"}]'),
+  '{"success": false, "error_message": "jo@example.com conflicts with another student''s email or student number"}'::jsonb,
+  'a roster cannot give a student another person''s email'
+);
+
+SELECT is(
+  (SELECT email FROM students WHERE id = 'aaaaaaaa-0000-0000-0000-000000000011'),
+  'ida@example.com',
+  'a refused sync changes nothing'
+);
+
+-- Kit
+
+SELECT set_config('request.jwt.claims', json_build_object(
+  'sub', 'a2000000-0000-0000-0000-00000000000a',
+  'email', 'kit@example.com',
+  'role', 'authenticated'
+)::text, true);
+
+SELECT is(
+  (SELECT COUNT(*)::int FROM people),
+  0,
+  'instructors cannot see people outside their classes'
+);
+
+SELECT is(
+  sync_class_roster('aaaaaaaa-0000-0000-0000-000000000003', '[{"name": "Ida", "email": "kit-alias@example.com", "student_number": "I001"}]'),
+  '{"success": false, "error_message": "kit-alias@example.com conflicts with another student''s email or student number"}'::jsonb,
+  'a roster cannot claim another class''s student by student number'
+);
+
+SELECT is(
+  sync_class_roster('aaaaaaaa-0000-0000-0000-000000000003', '[{"name": "Ida", "email": "ida@example.com", "student_number": "K999"}]'),
+  '{"success": false, "error_message": "ida@example.com is enrolled in another instructor''s class under a different email or student number"}'::jsonb,
+  'a roster cannot change the student number of another instructor''s student'
+);
+
+SELECT is(
+  sync_class_roster('aaaaaaaa-0000-0000-0000-000000000003', '[{"name": "Ida L", "email": "ida@example.com", "student_number": "I001"}]'),
+  '{"success": true, "added": 1, "updated": 0, "unchanged": 0, "restored": 0, "archived": 0}'::jsonb,
+  'a student from another instructor''s class can be enrolled by email'
+);
+
+SELECT is(
+  (SELECT name FROM students WHERE class_id = 'aaaaaaaa-0000-0000-0000-000000000003'),
+  'Ida Lund',
+  'enrolling a shared student keeps the details their other classes gave them'
+);
+
+SELECT throws_ok(
+  $$UPDATE students SET email = 'kit@example.com' WHERE class_id = 'aaaaaaaa-0000-0000-0000-000000000003'$$,
+  'P0001',
+  'This student is also enrolled in another instructor''s class, so their details cannot be changed here',
+  'an instructor cannot change the email of a student shared with another instructor'
+);
+
+-- Ida
+
+SELECT set_config('request.jwt.claims', json_build_object(
+  'sub', 'a3000000-0000-0000-0000-00000000000a',
+  'email', 'ida@example.com',
+  'role', 'authenticated'
+)::text, true);
+
+SELECT is(
+  (SELECT COUNT(*)::int FROM students),
+  3,
+  'a student sees their enrolment in each class'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,110 @@
+/*
+  get_opportunity_bidders: real students, one page at a time.
+
+  Run against the local stack with `supabase test db`.
+
+  Fixtures:
+    - Erin teaches a lecture of 120 students, all of whom bid on one dinner a minute apart
+    - Eve is one of them and signs in as a student
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('e0000000-0000-0000-0000-00000000000e', 'erin@example.com');
+
+INSERT INTO instructors (id, email, name) VALUES
+  ('e0000000-0000-0000-0000-00000000000e', 'erin@example.com', 'Erin');
+
+INSERT INTO classes (id, name, password_hash, instructor_id) VALUES
+  ('eeeeeeee-0000-0000-0000-000000000001', 'Lecture', 'password-e', 'e0000000-0000-0000-0000-00000000000e');
+
+INSERT INTO students (id, class_id, name, email, student_number)
+SELECT
+  ('eeeeeeee-0000-0000-0000-' || lpad((100 + s)::text, 12, '0'))::uuid,
+  'eeeeeeee-0000-0000-0000-000000000001',
+  CASE WHEN s = 60 THEN 'Eve' ELSE 'Student ' || s END,
+  CASE WHEN s = 60 THEN 'eve@example.com' ELSE 'student' || s || '@example.com' END,
+  'E' || lpad(s::text, 3, '0')
+FROM generate_series(1, 120) AS s;
+
+INSERT INTO opportunities (id, class_id, description, opens_at, closes_at, event_date) VALUES
+  ('eeeeeeee-0000-0000-0000-000000000021', 'eeeeeeee-0000-0000-0000-000000000001', 'Dinner',
+    now() - interval '1 day', now() + interval '1 day', (now() + interval '7 days')::date);
+
+INSERT INTO bids (student_id, opportunity_id, bid_amount, created_at)
+SELECT id, 'eeeeeeee-0000-0000-0000-000000000021', 1,
+  now() - interval '1 day' + substr(student_number, 2)::int * interval '1 minute'
+FROM students
+WHERE class_id = 'eeeeeeee-0000-0000-0000-000000000001';
+
+-- Erin
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', json_build_object(
+  'sub', 'e0000000-0000-0000-0000-00000000000e',
+  'email', 'erin@example.com',
+  'role', 'authenticated'
+)::text, true);
+
+SELECT is(
+  (get_opportunity_bidders('eeeeeeee-0000-0000-0000-000000000021') ->> 'total')::int,
+  120,
+  'the total counts every bid, not just the page'
+);
+SELECT is(
+  jsonb_array_length(get_opportunity_bidders('eeeeeeee-0000-0000-0000-000000000021') -> 'bidders'),
+  50,
+  'the first page has fifty bidders by default'
+);
+SELECT is(
+  get_opportunity_bidders('eeeeeeee-0000-0000-0000-000000000021') -> 'bidders' -> 0 ->> 'name',
+  'Student 1',
+  'bidders are listed in the order they bid'
+);
+SELECT is(
+  jsonb_array_length(get_opportunity_bidders('eeeeeeee-0000-0000-0000-000000000021', 50, 100) -> 'bidders'),
+  20,
+  'the last page holds the remainder'
+);
+SELECT is(
+  get_opportunity_bidders('eeeeeeee-0000-0000-0000-000000000021', 1, 59) -> 'bidders' -> 0 ->> 'bid_status',
+  'placed',
+  'each bidder carries the status of their bid'
+);
+SELECT is(
+  jsonb_array_length(
+    get_class_detail('eeeeeeee-0000-0000-0000-000000000001') -> 'opportunities' -> 0 -> 'bidders'
+  ),
+  50,
+  'class detail embeds the first page of bidders'
+);
+
+RESET ROLE;
+
+-- Eve, a student in the lecture
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', json_build_object(
+  'sub', 'eeeeeeee-0000-0000-0000-0000000000f1',
+  'email', 'eve@example.com',
+  'role', 'authenticated'
+)::text, true);
+
+SELECT is(
+  (get_opportunity_bidders('eeeeeeee-0000-0000-0000-000000000021') ->> 'total')::int,
+  1,
+  'a student only counts their own bid'
+);
+SELECT is(
+  get_opportunity_bidders('eeeeeeee-0000-0000-0000-000000000021') -> 'bidders' -> 0 ->> 'name',
+  'Eve',
+  'a student only sees themselves among the bidders'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,219 @@
+/*
+  Row-level security: nobody can read across classes.
+
+  Run against the local stack with `supabase test db`.
+
+  Fixtures:
+    - Alice teaches class A, Bob teaches class B
+    - Ann and Amy are enrolled in class A, Ben in class B
+    - each class has one opportunity and each student has bid on their class's one
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(30);
+
+-- Fixtures are inserted as the table owner, which bypasses RLS
+
+INSERT INTO auth.users (id, email) VALUES
+  ('a0000000-0000-0000-0000-00000000000a', 'alice@example.com'),
+  ('b0000000-0000-0000-0000-00000000000b', 'bob@example.com');
+
+INSERT INTO instructors (id, email, name) VALUES
+  ('a0000000-0000-0000-0000-00000000000a', 'alice@example.com', 'Alice'),
+  ('b0000000-0000-0000-0000-00000000000b', 'bob@example.com', 'Bob');
+
+INSERT INTO classes (id, name, password_hash, instructor_id) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'Class A', 'password-a', 'a0000000-0000-0000-0000-00000000000a'),
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'Class B', 'password-b', 'b0000000-0000-0000-0000-00000000000b');
+
+INSERT INTO students (id, class_id, name, email, student_number) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000011', 'aaaaaaaa-0000-0000-0000-000000000001', 'Ann', 'ann@example.com', 'A001'),
+  ('aaaaaaaa-0000-0000-0000-000000000012', 'aaaaaaaa-0000-0000-0000-000000000001', 'Amy', 'amy@example.com', 'A002'),
+  ('bbbbbbbb-0000-0000-0000-000000000011', 'bbbbbbbb-0000-0000-0000-000000000001', 'Ben', 'ben@example.com', 'B001');
+
+INSERT INTO opportunities (id, class_id, description, opens_at, closes_at, event_date) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000021', 'aaaaaaaa-0000-0000-0000-000000000001', 'Dinner A',
+    now() - interval '1 day', now() + interval '1 day', (now() + interval '7 days')::date),
+  ('bbbbbbbb-0000-0000-0000-000000000021', 'bbbbbbbb-0000-0000-0000-000000000001', 'Dinner B',
+    now() - interval '1 day', now() + interval '1 day', (now() + interval '7 days')::date);
+
+INSERT INTO bids (student_id, opportunity_id) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000011', 'aaaaaaaa-0000-0000-0000-000000000021'),
+  ('aaaaaaaa-0000-0000-0000-000000000012', 'aaaaaaaa-0000-0000-0000-000000000021'),
+  ('bbbbbbbb-0000-0000-0000-000000000011', 'bbbbbbbb-0000-0000-0000-000000000021');
+
+-- Anonymous visitors
+
+SET LOCAL ROLE anon;
+
+SELECT throws_ok('SELECT * FROM classes', '42501', NULL, 'anon cannot read classes');
+SELECT throws_ok('SELECT * FROM students', '42501', NULL, 'anon cannot read students');
+SELECT throws_ok('SELECT * FROM opportunities', '42501', NULL, 'anon cannot read opportunities');
+SELECT throws_ok('SELECT * FROM bids', '42501', NULL, 'anon cannot read bids');
+SELECT throws_ok('SELECT * FROM token_history', '42501', NULL, 'anon cannot read token history');
+
+RESET ROLE;
+
+-- Ann, a student in class A
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', json_build_object(
+  'sub', 'aaaaaaaa-0000-0000-0000-0000000000f1',
+  'email', 'ann@example.com',
+  'role', 'authenticated'
+)::text, true);
+
+SELECT results_eq(
+  'SELECT id FROM students',
+  $$VALUES ('aaaaaaaa-0000-0000-0000-000000000011'::uuid)$$,
+  'a student only sees their own enrolment'
+);
+SELECT results_eq(
+  'SELECT id FROM classes',
+  $$VALUES ('aaaaaaaa-0000-0000-0000-000000000001'::uuid)$$,
+  'a student only sees the classes they are enrolled in'
+);
+SELECT results_eq(
+  'SELECT id FROM opportunities',
+  $$VALUES ('aaaaaaaa-0000-0000-0000-000000000021'::uuid)$$,
+  'a student only sees opportunities in their classes'
+);
+SELECT results_eq(
+  'SELECT student_id FROM bids',
+  $$VALUES ('aaaaaaaa-0000-0000-0000-000000000011'::uuid)$$,
+  'a student only sees their own bids'
+);
+SELECT is_empty(
+  $$SELECT * FROM token_history WHERE student_id <> 'aaaaaaaa-0000-0000-0000-000000000011'$$,
+  'a student cannot read anyone else''s token history'
+);
+SELECT isnt_empty(
+  $$SELECT * FROM token_history WHERE student_id = 'aaaaaaaa-0000-0000-0000-000000000011'$$,
+  'a student can read their own token history'
+);
+SELECT is_empty(
+  $$SELECT * FROM students WHERE class_id = 'bbbbbbbb-0000-0000-0000-000000000001'$$,
+  'a student cannot read another class''s roster'
+);
+SELECT is(
+  verify_class_password('bbbbbbbb-0000-0000-0000-000000000001', 'password-b') ->> 'success',
+  'false',
+  'a student cannot check another class''s password'
+);
+SELECT is(
+  verify_class_password('aaaaaaaa-0000-0000-0000-000000000001', 'password-a') ->> 'success',
+  'true',
+  'a student can check their own class''s password'
+);
+SELECT is(
+  withdraw_student_bid('bbbbbbbb-0000-0000-0000-000000000011', 'bbbbbbbb-0000-0000-0000-000000000021', 'password-b') ->> 'success',
+  'false',
+  'a student cannot act for a student in another class'
+);
+SELECT is(
+  run_opportunity_draw('aaaaaaaa-0000-0000-0000-000000000021') ->> 'error_message',
+  'You do not manage this class',
+  'a student cannot run the draw for their own class'
+);
+
+RESET ROLE;
+
+-- Alice, the instructor of class A
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', json_build_object(
+  'sub', 'a0000000-0000-0000-0000-00000000000a',
+  'email', 'alice@example.com',
+  'role', 'authenticated'
+)::text, true);
+
+SELECT results_eq(
+  'SELECT id FROM classes',
+  $$VALUES ('aaaaaaaa-0000-0000-0000-000000000001'::uuid)$$,
+  'an instructor only sees their own classes'
+);
+SELECT is(
+  (SELECT count(*)::integer FROM students),
+  2,
+  'an instructor sees every student in their class'
+);
+SELECT is_empty(
+  $$SELECT * FROM students WHERE class_id = 'bbbbbbbb-0000-0000-0000-000000000001'$$,
+  'an instructor cannot read another class''s roster'
+);
+SELECT is_empty(
+  $$SELECT * FROM opportunities WHERE class_id = 'bbbbbbbb-0000-0000-0000-000000000001'$$,
+  'an instructor cannot read another class''s opportunities'
+);
+SELECT is_empty(
+  $$SELECT * FROM bids WHERE opportunity_id = 'bbbbbbbb-0000-0000-0000-000000000021'$$,
+  'an instructor cannot read another class''s bids'
+);
+SELECT is_empty(
+  $$SELECT * FROM token_history WHERE student_id = 'bbbbbbbb-0000-0000-0000-000000000011'$$,
+  'an instructor cannot read another class''s token history'
+);
+SELECT is(
+  (SELECT count(*)::integer FROM bids),
+  2,
+  'an instructor sees every bid in their class'
+);
+SELECT is(
+  run_opportunity_draw('bbbbbbbb-0000-0000-0000-000000000021') ->> 'error_message',
+  'You do not manage this class',
+  'an instructor cannot run the draw for another class'
+);
+SELECT is(
+  apply_term_topup('bbbbbbbb-0000-0000-0000-000000000001') ->> 'error_message',
+  'You do not manage this class',
+  'an instructor cannot top up another class'
+);
+
+-- The draw commitment is only written by the draw itself
+SELECT throws_ok(
+  $$UPDATE opportunities SET draw_seed_hash = 'forged' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000021'$$,
+  'P0001',
+  'The draw seed and draw result can only be set by the draw',
+  'an instructor cannot replace the committed draw seed hash'
+);
+SELECT throws_ok(
+  $$UPDATE opportunities SET drawn_at = now() WHERE id = 'aaaaaaaa-0000-0000-0000-000000000021'$$,
+  'P0001',
+  'The draw seed and draw result can only be set by the draw',
+  'an instructor cannot mark an opportunity drawn by hand'
+);
+
+-- Writes to another class are filtered out rather than applied
+UPDATE classes SET name = 'Taken over' WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001';
+DELETE FROM students WHERE class_id = 'bbbbbbbb-0000-0000-0000-000000000001';
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT name FROM classes WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001'),
+  'Class B',
+  'an instructor cannot rename another class'
+);
+SELECT is(
+  (SELECT count(*)::integer FROM students WHERE class_id = 'bbbbbbbb-0000-0000-0000-000000000001'),
+  1,
+  'an instructor cannot delete another class''s students'
+);
+
+-- A seed that does not match its commitment is never revealed
+UPDATE opportunities
+SET draw_seed = 'forged', draw_seed_revealed_at = now()
+WHERE id = 'aaaaaaaa-0000-0000-0000-000000000021';
+
+SELECT is(
+  reveal_draw_seed('aaaaaaaa-0000-0000-0000-000000000021') ->> 'error_message',
+  'The published draw seed does not match its commitment',
+  'a tampered draw seed is refused'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
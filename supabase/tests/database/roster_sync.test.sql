@@ -0,0 +1,140 @@
+/*
+  sync_class_roster: a mid-term roster update keeps students' ids, tokens and bids.
+
+  Run against the local stack with `supabase test db`.
+
+  Fixtures:
+    - Fay teaches a class of three: Ann and Abe have bid and spent their token, Amy has not
+    - the new roster keeps Ann, corrects Amy's name, drops Abe and adds Ava
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(13);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('f0000000-0000-0000-0000-00000000000f', 'fay@example.com'),
+  ('90000000-0000-0000-0000-000000000009', 'gus@example.com');
+
+INSERT INTO instructors (id, email, name) VALUES
+  ('f0000000-0000-0000-0000-00000000000f', 'fay@example.com', 'Fay'),
+  ('90000000-0000-0000-0000-000000000009', 'gus@example.com', 'Gus');
+
+INSERT INTO classes (id, name, password_hash, instructor_id) VALUES
+  ('ffffffff-0000-0000-0000-000000000001', 'Class F', 'password-f', 'f0000000-0000-0000-0000-00000000000f');
+
+INSERT INTO students (id, class_id, name, email, student_number) VALUES
+  ('ffffffff-0000-0000-0000-000000000011', 'ffffffff-0000-0000-0000-000000000001', 'Ann', 'ann@example.com', 'F001'),
+  ('ffffffff-0000-0000-0000-000000000012', 'ffffffff-0000-0000-0000-000000000001', 'Amy', 'amy@example.com', 'F002'),
+  ('ffffffff-0000-0000-0000-000000000013', 'ffffffff-0000-0000-0000-000000000001', 'Abe', 'abe@example.com', 'F003');
+
+INSERT INTO opportunities (id, class_id, description, opens_at, closes_at, event_date) VALUES
+  ('ffffffff-0000-0000-0000-000000000021', 'ffffffff-0000-0000-0000-000000000001', 'Dinner F',
+    now() - interval '1 day', now() + interval '1 day', (now() + interval '7 days')::date);
+
+INSERT INTO bids (student_id, opportunity_id) VALUES
+  ('ffffffff-0000-0000-0000-000000000011', 'ffffffff-0000-0000-0000-000000000021'),
+  ('ffffffff-0000-0000-0000-000000000013', 'ffffffff-0000-0000-0000-000000000021');
+
+UPDATE students SET tokens_remaining = 0, token_status = 'used'
+WHERE id IN ('ffffffff-0000-0000-0000-000000000011', 'ffffffff-0000-0000-0000-000000000013');
+
+SET LOCAL ROLE authenticated;
+
+-- Gus does not teach the class
+
+SELECT set_config('request.jwt.claims', json_build_object(
+  'sub', '90000000-0000-0000-0000-000000000009',
+  'email', 'gus@example.com',
+  'role', 'authenticated'
+)::text, true);
+
+SELECT is(
+  sync_class_roster('ffffffff-0000-0000-0000-000000000001', '[{"name": "Eve", "email": "eve@example.com", "student_number": "F009"}]'),
+  '{"success": false, "error_message": "You do not manage this class"}'::jsonb,
+  'only the class instructor can sync its roster'
+);
+
+-- Fay
+
+SELECT set_config('request.jwt.claims', json_build_object(
+  'sub', 'f0000000-0000-0000-0000-00000000000f',
+  'email', 'fay@example.com',
+  'role', 'authenticated'
+)::text, true);
+
+SELECT is(
+  sync_class_roster('ffffffff-0000-0000-0000-000000000001', $$[
+    {"name": "Ann", "email": "ann@example.com", "student_number": "F001"},
+    {"name": "Amy Jones", "email": "AMY@example.com", "student_number": "F002"},
+    {"name": "Ava", "email": "ava@example.com", "student_number": "F004"}
+  ]$$),
+  '{"success": true, "added": 1, "updated": 1, "unchanged": 1, "restored": 0, "archived": 1}'::jsonb,
+  'the sync reports what it added, updated and archived'
+);
+
+SELECT is(
+  (SELECT tokens_remaining FROM students WHERE id = 'ffffffff-0000-0000-0000-000000000011'),
+  0,
+  'a student who stays keeps their token balance'
+);
+SELECT is(
+  (SELECT COUNT(*)::int FROM bids WHERE student_id = 'ffffffff-0000-0000-0000-000000000011'),
+  1,
+  'a student who stays keeps their bids'
+);
+SELECT is(
+  (SELECT name FROM students WHERE id = 'ffffffff-0000-0000-0000-000000000012'),
+  'Amy Jones',
+  'a matched student is updated in place'
+);
+SELECT isnt(
+  (SELECT archived_at FROM students WHERE id = 'ffffffff-0000-0000-0000-000000000013'),
+  NULL,
+  'a student missing from the roster is archived, not deleted'
+);
+SELECT is(
+  (SELECT COUNT(*)::int FROM bids WHERE opportunity_id = 'ffffffff-0000-0000-0000-000000000021'),
+  1,
+  'an archived student''s open bid is withdrawn before the draw'
+);
+SELECT is(
+  (SELECT tokens_remaining FROM students WHERE id = 'ffffffff-0000-0000-0000-000000000013'),
+  1,
+  'an archived student gets the tokens from their open bid back'
+);
+SELECT is(
+  (SELECT COUNT(*)::int FROM token_history
+   WHERE student_id = 'ffffffff-0000-0000-0000-000000000013' AND type = 'refund' AND amount = 1),
+  1,
+  'the refund is recorded in the token history'
+);
+SELECT is(
+  (SELECT COUNT(*)::int FROM students WHERE class_id = 'ffffffff-0000-0000-0000-000000000001' AND name = 'Ava'),
+  1,
+  'a new student is added'
+);
+SELECT is(
+  jsonb_array_length(get_class_detail('ffffffff-0000-0000-0000-000000000001') -> 'students'),
+  3,
+  'archived students are left out of the class'
+);
+
+SELECT is(
+  sync_class_roster('ffffffff-0000-0000-0000-000000000001', $$[
+    {"name": "Abe", "email": "abe@example.com", "student_number": "F003"},
+    {"name": "", "email": "nobody@example.com", "student_number": "F010"}
+  ]$$) ->> 'success',
+  'false',
+  'a roster with an incomplete row is refused'
+);
+SELECT is(
+  (SELECT COUNT(*)::int FROM students WHERE class_id = 'ffffffff-0000-0000-0000-000000000001' AND archived_at IS NULL),
+  3,
+  'a refused sync changes nothing'
+);
+
+SELECT * FROM finish();
+ROLLBACK;